@@ -9,8 +9,11 @@ import { EducationalPanel } from '@/components/diagnostics/educational-panel'
 import { ConvergenceControls } from '@/components/diagnostics/convergence-controls'
 import { PointInspector } from '@/components/diagnostics/point-inspector'
 import { DataControls } from '@/components/diagnostics/data-controls'
+import { useI18n } from '@/stores/locale-store'
 
 export default function DiagnosticsPage() {
+    const { t } = useI18n()
+
     return (
         <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
             {/* Header */}
@@ -28,10 +31,10 @@ export default function DiagnosticsPage() {
                             </div>
                             <div>
                                 <h1 className="text-lg font-bold text-slate-200">
-                                    Diagnóstico Industrial
+                                    {t({ es: 'Diagnóstico Industrial', en: 'Industrial Diagnostics' })}
                                 </h1>
                                 <p className="text-xs text-slate-500">
-                                    Fuzzy C-Means para Mantenimiento Predictivo
+                                    {t({ es: 'Fuzzy C-Means para Mantenimiento Predictivo', en: 'Fuzzy C-Means for Predictive Maintenance' })}
                                 </p>
                             </div>
                         </div>
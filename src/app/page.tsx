@@ -5,8 +5,11 @@ import { motion } from 'framer-motion'
 import { Droplets, Activity, ArrowRight, Sparkles, BookOpen } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useI18n } from '@/stores/locale-store'
 
 export default function HomePage() {
+  const { t } = useI18n()
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
       {/* Hero Section */}
@@ -22,7 +25,7 @@ export default function HomePage() {
             <div className="flex items-center justify-center gap-2 mb-6">
               <Sparkles className="w-6 h-6 text-cyan-400" />
               <span className="text-sm font-medium text-cyan-400 uppercase tracking-wider">
-                Versión 2.0
+                {t({ es: 'Versión', en: 'Version' })} 2.0
               </span>
             </div>
 
@@ -35,24 +38,28 @@ export default function HomePage() {
             </h1>
 
             <p className="text-xl text-slate-400 mb-8 max-w-2xl mx-auto">
-              Laboratorio de simulación interactivo para explorar y entender la
-              <span className="text-cyan-400 font-medium"> Lógica Difusa </span>
-              y el algoritmo
-              <span className="text-purple-400 font-medium"> Fuzzy C-Means</span>.
+              {t({
+                es: 'Laboratorio de simulación interactivo para explorar y entender la',
+                en: 'Interactive simulation lab to explore and understand'
+              })}
+              <span className="text-cyan-400 font-medium"> {t({ es: 'Lógica Difusa', en: 'Fuzzy Logic' })} </span>
+              {t({ es: 'y el algoritmo', en: 'and the' })}
+              <span className="text-purple-400 font-medium"> Fuzzy C-Means</span>
+              {t({ es: '.', en: ' algorithm.' })}
             </p>
 
             <div className="flex flex-wrap gap-4 justify-center">
               <Link href="/water">
                 <Button size="lg" className="gap-2">
                   <Droplets className="w-5 h-5" />
-                  Simulador de Agua
+                  {t({ es: 'Simulador de Agua', en: 'Water Simulator' })}
                   <ArrowRight className="w-4 h-4" />
                 </Button>
               </Link>
               <Link href="/diagnostics">
                 <Button size="lg" variant="outline" className="gap-2">
                   <Activity className="w-5 h-5" />
-                  Diagnóstico Industrial
+                  {t({ es: 'Diagnóstico Industrial', en: 'Industrial Diagnostics' })}
                 </Button>
               </Link>
             </div>
@@ -76,29 +83,29 @@ export default function HomePage() {
                     <Droplets className="w-6 h-6 text-cyan-400" />
                   </div>
                   <CardTitle className="text-xl text-slate-200">
-                    Simulador de Tratamiento de Agua
+                    {t({ es: 'Simulador de Tratamiento de Agua', en: 'Water Treatment Simulator' })}
                   </CardTitle>
                   <CardDescription>
-                    Control difuso de planta de tratamiento
+                    {t({ es: 'Control difuso de planta de tratamiento', en: 'Fuzzy control of a treatment plant' })}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ul className="space-y-2 text-sm text-slate-400">
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full" />
-                      Sistema de 20 reglas difusas expertas
+                      {t({ es: 'Sistema de 30 reglas difusas expertas', en: 'System of 30 expert fuzzy rules' })}
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full" />
-                      Visualización reactiva del tanque
+                      {t({ es: 'Visualización reactiva del tanque', en: 'Reactive tank visualization' })}
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full" />
-                      Simulaciones de eventos ambientales
+                      {t({ es: 'Simulaciones de eventos ambientales', en: 'Environmental event simulations' })}
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full" />
-                      Dashboard SCADA en tiempo real
+                      {t({ es: 'Dashboard SCADA en tiempo real', en: 'Real-time SCADA dashboard' })}
                     </li>
                   </ul>
                 </CardContent>
@@ -119,29 +126,29 @@ export default function HomePage() {
                     <Activity className="w-6 h-6 text-purple-400" />
                   </div>
                   <CardTitle className="text-xl text-slate-200">
-                    Diagnóstico Industrial
+                    {t({ es: 'Diagnóstico Industrial', en: 'Industrial Diagnostics' })}
                   </CardTitle>
                   <CardDescription>
-                    Clustering difuso para mantenimiento predictivo
+                    {t({ es: 'Clustering difuso para mantenimiento predictivo', en: 'Fuzzy clustering for predictive maintenance' })}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ul className="space-y-2 text-sm text-slate-400">
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-purple-400 rounded-full" />
-                      Algoritmo Fuzzy C-Means animado
+                      {t({ es: 'Algoritmo Fuzzy C-Means animado', en: 'Animated Fuzzy C-Means algorithm' })}
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-purple-400 rounded-full" />
-                      Grados de membresía visualizados
+                      {t({ es: 'Grados de membresía visualizados', en: 'Visualized membership degrees' })}
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-purple-400 rounded-full" />
-                      Score de riesgo predictivo
+                      {t({ es: 'Score de riesgo predictivo', en: 'Predictive risk score' })}
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 bg-purple-400 rounded-full" />
-                      Guía educativa interactiva
+                      {t({ es: 'Guía educativa interactiva', en: 'Interactive educational guide' })}
                     </li>
                   </ul>
                 </CardContent>
@@ -156,27 +163,32 @@ export default function HomePage() {
         <div className="max-w-3xl mx-auto text-center">
           <BookOpen className="w-10 h-10 text-slate-600 mx-auto mb-4" />
           <h2 className="text-2xl font-bold text-slate-200 mb-4">
-            ¿Qué aprenderás?
+            {t({ es: '¿Qué aprenderás?', en: 'What will you learn?' })}
           </h2>
           <p className="text-slate-400 mb-8">
-            Esta plataforma te permite experimentar con conceptos fundamentales de la
-            computación blanda (Soft Computing), utilizados en sistemas de control
-            inteligente y análisis de datos.
+            {t({
+              es: 'Esta plataforma te permite experimentar con conceptos fundamentales de la computación blanda (Soft Computing), utilizados en sistemas de control inteligente y análisis de datos.',
+              en: 'This platform lets you experiment with fundamental Soft Computing concepts used in intelligent control systems and data analysis.'
+            })}
           </p>
 
           <div className="grid sm:grid-cols-2 gap-4 text-left">
             <div className="p-4 rounded-lg bg-slate-800/30 border border-slate-700/50">
-              <h3 className="font-semibold text-slate-200 mb-2">🧠 Lógica Difusa</h3>
+              <h3 className="font-semibold text-slate-200 mb-2">🧠 {t({ es: 'Lógica Difusa', en: 'Fuzzy Logic' })}</h3>
               <p className="text-sm text-slate-400">
-                Sistemas de inferencia que trabajan con términos lingüísticos
-                como &quot;Alto&quot;, &quot;Medio&quot;, &quot;Bajo&quot; en lugar de valores exactos.
+                {t({
+                  es: 'Sistemas de inferencia que trabajan con términos lingüísticos como "Alto", "Medio", "Bajo" en lugar de valores exactos.',
+                  en: 'Inference systems that work with linguistic terms such as "High", "Medium", "Low" instead of exact values.'
+                })}
               </p>
             </div>
             <div className="p-4 rounded-lg bg-slate-800/30 border border-slate-700/50">
               <h3 className="font-semibold text-slate-200 mb-2">📊 Fuzzy C-Means</h3>
               <p className="text-sm text-slate-400">
-                Algoritmo de clustering donde cada punto puede pertenecer a
-                múltiples grupos con diferentes grados de membresía.
+                {t({
+                  es: 'Algoritmo de clustering donde cada punto puede pertenecer a múltiples grupos con diferentes grados de membresía.',
+                  en: 'Clustering algorithm where each point can belong to several groups with different membership degrees.'
+                })}
               </p>
             </div>
           </div>
@@ -186,8 +198,8 @@ export default function HomePage() {
       {/* Footer */}
       <footer className="border-t border-slate-800 py-8">
         <div className="container mx-auto px-4 text-center text-sm text-slate-500">
-          <p>AquaFuzzy Analytics 2.0 — Laboratorio de Simulación Interactivo</p>
-          <p className="mt-1">Desarrollado con Next.js, React, D3.js y ❤️</p>
+          <p>AquaFuzzy Analytics 2.0 — {t({ es: 'Laboratorio de Simulación Interactivo', en: 'Interactive Simulation Lab' })}</p>
+          <p className="mt-1">{t({ es: 'Desarrollado con Next.js, React, D3.js y ❤️', en: 'Built with Next.js, React, D3.js and ❤️' })}</p>
         </div>
       </footer>
     </div>
@@ -7,10 +7,18 @@ import { Button } from '@/components/ui/button'
 import { WaterVisualization } from '@/components/water/water-visualization'
 import { ParameterControls } from '@/components/water/parameter-controls'
 import { SimulationControls } from '@/components/water/simulation-controls'
+import { RunReportPanel } from '@/components/water/run-report-panel'
+import { SensorPanel } from '@/components/water/sensor-panel'
 import { ScadaDashboard } from '@/components/water/scada-dashboard'
 import { ActiveRulesModal } from '@/components/water/active-rules-modal'
+import { FuzzySystemFileControls } from '@/components/water/fuzzy-system-file-controls'
+import { RuleEditorModal } from '@/components/water/rule-editor-modal'
+import { EngineeringTools } from '@/components/water/engineering-tools'
+import { useI18n } from '@/stores/locale-store'
 
 export default function WaterPage() {
+    const { t } = useI18n()
+
     return (
         <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
             {/* Header */}
@@ -28,16 +36,22 @@ export default function WaterPage() {
                             </div>
                             <div>
                                 <h1 className="text-lg font-bold text-slate-200">
-                                    Simulador de Tratamiento de Agua
+                                    {t({ es: 'Simulador de Tratamiento de Agua', en: 'Water Treatment Simulator' })}
                                 </h1>
                                 <p className="text-xs text-slate-500">
-                                    Sistema de Control Difuso para Coagulación-Floculación
+                                    {t({ es: 'Sistema de Control Difuso para Coagulación-Floculación', en: 'Fuzzy Control System for Coagulation-Flocculation' })}
                                 </p>
                             </div>
                         </div>
                     </div>
-                    {/* Active Rules Button */}
-                    <ActiveRulesModal />
+                    <div className="flex items-center gap-2">
+                        {/* Controller definition (JSON) */}
+                        <FuzzySystemFileControls />
+                        {/* Rule base editor */}
+                        <RuleEditorModal />
+                        {/* Active Rules Button */}
+                        <ActiveRulesModal />
+                    </div>
                 </div>
             </header>
 
@@ -65,8 +79,20 @@ export default function WaterPage() {
                     >
                         <ParameterControls />
                         <SimulationControls />
+                        <SensorPanel />
+                        <RunReportPanel />
                     </motion.div>
                 </div>
+
+                {/* Engineering Tools - Full width */}
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.2 }}
+                    className="mt-6"
+                >
+                    <EngineeringTools />
+                </motion.div>
             </main>
         </div>
     )
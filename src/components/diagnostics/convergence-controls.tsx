@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
 import { useDiagnosticsStore } from '@/stores/diagnostics-store'
+import { useI18n } from '@/stores/locale-store'
 import { motion } from 'framer-motion'
 import {
     Play, Pause, Square, SkipForward, SkipBack,
@@ -37,6 +38,7 @@ export function ConvergenceControls() {
     const updateConfig = useDiagnosticsStore(state => state.updateConfig)
     const runClustering = useDiagnosticsStore(state => state.runClustering)
     const resetClustering = useDiagnosticsStore(state => state.resetClustering)
+    const { t, formatNumber } = useI18n()
 
     // Referencia para el intervalo de animación
     const intervalRef = useRef<NodeJS.Timeout | null>(null)
@@ -71,14 +73,14 @@ export function ConvergenceControls() {
                 <CardHeader className="pb-2">
                     <CardTitle className="flex items-center gap-2 text-sm text-slate-200">
                         <Settings className="w-4 h-4 text-purple-400" />
-                        Configuración FCM
+                        {t({ es: 'Configuración FCM', en: 'FCM Configuration' })}
                     </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                     {/* Número de clústeres */}
                     <div className="space-y-2">
                         <div className="flex justify-between text-sm">
-                            <span className="text-slate-400">Clústeres (k)</span>
+                            <span className="text-slate-400">{t({ es: 'Clústeres', en: 'Clusters' })} (k)</span>
                             <span className="text-slate-200 font-medium">{config.clusterCount}</span>
                         </div>
                         <Slider
@@ -95,7 +97,7 @@ export function ConvergenceControls() {
                     <div className="space-y-2">
                         <div className="flex justify-between text-sm">
                             <span className="text-slate-400">Fuzziness (m)</span>
-                            <span className="text-slate-200 font-medium">{config.fuzziness.toFixed(1)}</span>
+                            <span className="text-slate-200 font-medium">{formatNumber(config.fuzziness, 1)}</span>
                         </div>
                         <Slider
                             value={[config.fuzziness]}
@@ -106,14 +108,17 @@ export function ConvergenceControls() {
                             disabled={isRunning}
                         />
                         <p className="text-[10px] text-slate-500">
-                            m=1 → duro (K-Means), m=2 → estándar, m{'>'}2 → muy difuso
+                            {t({
+                                es: 'm=1 → duro (K-Means), m=2 → estándar, m>2 → muy difuso',
+                                en: 'm=1 → hard (K-Means), m=2 → standard, m>2 → very fuzzy'
+                            })}
                         </p>
                     </div>
 
                     {/* Máx iteraciones */}
                     <div className="space-y-2">
                         <div className="flex justify-between text-sm">
-                            <span className="text-slate-400">Máx. Iteraciones</span>
+                            <span className="text-slate-400">{t({ es: 'Máx. Iteraciones', en: 'Max. Iterations' })}</span>
                             <span className="text-slate-200 font-medium">{config.maxIterations}</span>
                         </div>
                         <Slider
@@ -136,12 +141,12 @@ export function ConvergenceControls() {
                             {isRunning ? (
                                 <>
                                     <RefreshCw className="w-4 h-4 animate-spin mr-2" />
-                                    Procesando...
+                                    {t({ es: 'Procesando...', en: 'Processing...' })}
                                 </>
                             ) : (
                                 <>
                                     <Zap className="w-4 h-4 mr-2" />
-                                    Ejecutar FCM
+                                    {t({ es: 'Ejecutar FCM', en: 'Run FCM' })}
                                 </>
                             )}
                         </Button>
@@ -164,10 +169,12 @@ export function ConvergenceControls() {
                         >
                             <div className="flex items-center gap-2 text-emerald-400 text-sm mb-1">
                                 <span className="w-2 h-2 bg-emerald-400 rounded-full" />
-                                {result.converged ? 'Convergencia alcanzada' : 'Máx. iteraciones alcanzadas'}
+                                {result.converged
+                                    ? t({ es: 'Convergencia alcanzada', en: 'Convergence reached' })
+                                    : t({ es: 'Máx. iteraciones alcanzadas', en: 'Max. iterations reached' })}
                             </div>
                             <div className="text-xs text-slate-400">
-                                {result.iterationCount} iteraciones, error: {result.convergenceError.toExponential(2)}
+                                {result.iterationCount} {t({ es: 'iteraciones', en: 'iterations' })}, error: {result.convergenceError.toExponential(2)}
                             </div>
                         </motion.div>
                     )}
@@ -179,7 +186,7 @@ export function ConvergenceControls() {
                 <CardHeader className="pb-2">
                     <CardTitle className="flex items-center gap-2 text-sm text-slate-200">
                         <Play className="w-4 h-4 text-cyan-400" />
-                        Animación de Convergencia
+                        {t({ es: 'Animación de Convergencia', en: 'Convergence Animation' })}
                     </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -240,8 +247,8 @@ export function ConvergenceControls() {
                                 step={1}
                             />
                             <div className="flex justify-between text-xs text-slate-500">
-                                <span>Iteración 1</span>
-                                <span>Iteración {animation.totalFrames}</span>
+                                <span>{t({ es: 'Iteración', en: 'Iteration' })} 1</span>
+                                <span>{t({ es: 'Iteración', en: 'Iteration' })} {animation.totalFrames}</span>
                             </div>
                         </div>
                     )}
@@ -249,7 +256,7 @@ export function ConvergenceControls() {
                     {/* Velocidad */}
                     <div className="space-y-2">
                         <div className="flex justify-between text-sm">
-                            <span className="text-slate-400">Velocidad</span>
+                            <span className="text-slate-400">{t({ es: 'Velocidad', en: 'Speed' })}</span>
                             <span className="text-slate-200 font-medium">{animation.playbackSpeed} FPS</span>
                         </div>
                         <Slider
@@ -264,7 +271,10 @@ export function ConvergenceControls() {
                     {!canAnimate && (
                         <div className="text-center p-4 border border-dashed border-slate-700 rounded-lg">
                             <p className="text-sm text-slate-500">
-                                Ejecuta el algoritmo FCM para ver la animación de convergencia
+                                {t({
+                                    es: 'Ejecuta el algoritmo FCM para ver la animación de convergencia',
+                                    en: 'Run the FCM algorithm to see the convergence animation'
+                                })}
                             </p>
                         </div>
                     )}
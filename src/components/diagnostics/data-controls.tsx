@@ -4,6 +4,7 @@ import { useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { useDiagnosticsStore } from '@/stores/diagnostics-store'
+import { useI18n } from '@/stores/locale-store'
 import { motion } from 'framer-motion'
 import { Upload, Sparkles, Trash2, Database } from 'lucide-react'
 
@@ -17,6 +18,7 @@ export function DataControls() {
     const importCSV = useDiagnosticsStore(state => state.importCSV)
     const generateSynthetic = useDiagnosticsStore(state => state.generateSynthetic)
     const clearData = useDiagnosticsStore(state => state.clearData)
+    const { t } = useI18n()
 
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0]
@@ -35,7 +37,7 @@ export function DataControls() {
             <CardHeader className="pb-2">
                 <CardTitle className="flex items-center gap-2 text-sm text-slate-200">
                     <Database className="w-4 h-4 text-emerald-400" />
-                    Datos
+                    {t({ es: 'Datos', en: 'Data' })}
                 </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
@@ -55,7 +57,7 @@ export function DataControls() {
                         className="h-auto py-3 flex-col gap-1"
                     >
                         <Upload className="w-4 h-4" />
-                        <span className="text-xs">Importar CSV</span>
+                        <span className="text-xs">{t({ es: 'Importar CSV', en: 'Import CSV' })}</span>
                     </Button>
 
                     <Button
@@ -65,7 +67,7 @@ export function DataControls() {
                         className="h-auto py-3 flex-col gap-1"
                     >
                         <Sparkles className="w-4 h-4" />
-                        <span className="text-xs">Generar Datos</span>
+                        <span className="text-xs">{t({ es: 'Generar Datos', en: 'Generate Data' })}</span>
                     </Button>
                 </div>
 
@@ -76,11 +78,13 @@ export function DataControls() {
                         className="flex items-center justify-between p-2 rounded bg-slate-800/50"
                     >
                         <div className="text-xs">
-                            <span className="text-slate-400">Puntos: </span>
+                            <span className="text-slate-400">{t({ es: 'Puntos', en: 'Points' })}: </span>
                             <span className="text-slate-200 font-medium">{dataPoints.length}</span>
                             {dataSource && (
                                 <span className="text-slate-500 ml-2">
-                                    ({dataSource === 'synthetic' ? 'Sintéticos' : 'Importados'})
+                                    ({dataSource === 'synthetic'
+                                        ? t({ es: 'Sintéticos', en: 'Synthetic' })
+                                        : t({ es: 'Importados', en: 'Imported' })})
                                 </span>
                             )}
                         </div>
@@ -3,6 +3,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { useDiagnosticsStore } from '@/stores/diagnostics-store'
+import { useI18n } from '@/stores/locale-store'
+import { LocalizedText } from '@/lib/i18n'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
     BookOpen, ChevronRight, ChevronLeft, X, Lightbulb,
@@ -19,12 +21,19 @@ import {
  * - Comparación FCM vs K-Means (mejorada)
  */
 
-const EDUCATIONAL_CONTENT = [
+const EDUCATIONAL_CONTENT: {
+    id: string
+    title: LocalizedText
+    icon: string
+    isComparison?: boolean
+    content: LocalizedText
+}[] = [
     {
         id: 'purpose',
-        title: '¿Para qué sirve esta simulación?',
+        title: { es: '¿Para qué sirve esta simulación?', en: 'What is this simulation for?' },
         icon: '🎯',
-        content: `
+        content: {
+            es: `
       Esta herramienta permite **analizar y predecir el estado de máquinas industriales** usando 
       el algoritmo Fuzzy C-Means (FCM).
       
@@ -38,13 +47,30 @@ const EDUCATIONAL_CONTENT = [
       A diferencia de sistemas tradicionales, FCM detecta **estados intermedios**, 
       permitiendo intervenir cuando una máquina está "empezando" a degradarse, 
       no cuando ya falló.
+    `,
+            en: `
+      This tool lets you **analyze and predict the condition of industrial machines** using
+      the Fuzzy C-Means (FCM) algorithm.
+
+      **Real applications:**
+      - Detect machines that are starting to fail
+      - Plan maintenance BEFORE the failure happens
+      - Classify equipment by risk level
+      - Optimize maintenance resources
+
+      **Key advantage:**
+      Unlike traditional systems, FCM detects **intermediate states**,
+      so you can step in when a machine is "starting" to degrade,
+      not once it has already failed.
     `
+        }
     },
     {
         id: 'what-is-fcm',
-        title: '¿Qué es Fuzzy C-Means?',
+        title: { es: '¿Qué es Fuzzy C-Means?', en: 'What is Fuzzy C-Means?' },
         icon: '🧠',
-        content: `
+        content: {
+            es: `
       **Fuzzy C-Means (FCM)** es un algoritmo de clustering que, a diferencia de K-Means,
       permite que cada punto pertenezca a **múltiples clústeres simultáneamente** con
       diferentes grados de pertenencia.
@@ -56,13 +82,28 @@ const EDUCATIONAL_CONTENT = [
       
       Esto refleja mejor la realidad: las transiciones entre estados son graduales,
       no abruptas.
+    `,
+            en: `
+      **Fuzzy C-Means (FCM)** is a clustering algorithm that, unlike K-Means,
+      lets each point belong to **several clusters at the same time** with
+      different membership degrees.
+
+      For example, a machine can be:
+      - 70% in the "Normal" state
+      - 25% in the "Alert" state
+      - 5% in the "Failure" state
+
+      This better reflects reality: transitions between states are gradual,
+      not abrupt.
     `
+        }
     },
     {
         id: 'membership',
-        title: 'Grados de Pertenencia',
+        title: { es: 'Grados de Pertenencia', en: 'Membership Degrees' },
         icon: '📊',
-        content: `
+        content: {
+            es: `
       El **grado de pertenencia** (μ) es un valor entre 0 y 1 que indica cuánto
       pertenece un punto a cada clúster.
       
@@ -75,13 +116,29 @@ const EDUCATIONAL_CONTENT = [
       El color de cada punto es una mezcla de los colores de los clústeres,
       proporcional a sus pertenencias. Un punto amarillo-verdoso está entre
       "Normal" (verde) y "Alerta" (amarillo).
+    `,
+            en: `
+      The **membership degree** (μ) is a value between 0 and 1 that indicates how much
+      a point belongs to each cluster.
+
+      **Key properties:**
+      - The memberships of a point add up to 1
+      - μ = 0 means "does not belong"
+      - μ = 1 means "fully belongs"
+
+      **In the chart:**
+      The color of each point is a blend of the cluster colors,
+      proportional to its memberships. A yellowish-green point lies between
+      "Normal" (green) and "Alert" (yellow).
     `
+        }
     },
     {
         id: 'fuzziness',
-        title: 'Parámetro de Fuzziness (m)',
+        title: { es: 'Parámetro de Fuzziness (m)', en: 'Fuzziness Parameter (m)' },
         icon: '🎚️',
-        content: `
+        content: {
+            es: `
       El parámetro **m** (fuzziness) controla qué tan "difusos" son los clústeres:
       
       - **m = 1**: Comportamiento similar a K-Means (pertenencias casi 0 o 1)
@@ -90,13 +147,25 @@ const EDUCATIONAL_CONTENT = [
       
       En mantenimiento predictivo, m = 2 es ideal porque captura las
       transiciones graduales entre estados operativos.
+    `,
+            en: `
+      The **m** parameter (fuzziness) controls how "fuzzy" the clusters are:
+
+      - **m = 1**: Behaves like K-Means (memberships close to 0 or 1)
+      - **m = 2**: Standard value, good balance
+      - **m > 2**: Very fuzzy clusters, more overlap
+
+      In predictive maintenance, m = 2 is ideal because it captures the
+      gradual transitions between operating states.
     `
+        }
     },
     {
         id: 'convergence',
-        title: 'Proceso de Convergencia',
+        title: { es: 'Proceso de Convergencia', en: 'Convergence Process' },
         icon: '🔄',
-        content: `
+        content: {
+            es: `
       El algoritmo FCM converge iterativamente:
       
       1. **Inicializar** centroides aleatoriamente
@@ -107,20 +176,34 @@ const EDUCATIONAL_CONTENT = [
       **En la animación:**
       Puedes ver cómo los centroides (✕) se mueven y los colores de los
       puntos cambian a medida que el algoritmo "aprende" la estructura.
+    `,
+            en: `
+      The FCM algorithm converges iteratively:
+
+      1. **Initialize** centroids randomly
+      2. **Compute memberships** of each point to each centroid
+      3. **Update centroids** using weighted averages
+      4. **Repeat** until the changes are smaller than the tolerance
+
+      **In the animation:**
+      You can see how the centroids (✕) move and the colors of the
+      points change as the algorithm "learns" the structure.
     `
+        }
     },
     {
         id: 'vs-kmeans',
-        title: 'FCM vs K-Means',
+        title: { es: 'FCM vs K-Means', en: 'FCM vs K-Means' },
         icon: '⚔️',
         isComparison: true,
-        content: '' // Handled specially below
+        content: { es: '', en: '' } // Handled specially below
     },
     {
         id: 'risk-score',
-        title: 'Score de Riesgo',
+        title: { es: 'Score de Riesgo', en: 'Risk Score' },
         icon: '⚠️',
-        content: `
+        content: {
+            es: `
       El **Score de Riesgo** (0-100) se calcula a partir de las pertenencias:
       
       riskScore = μ_alerta × 40 + μ_falla × 100
@@ -132,34 +215,63 @@ const EDUCATIONAL_CONTENT = [
       - 70+: Crítico, mantenimiento inmediato
       
       Esto permite **mantenimiento predictivo**: actuar ANTES de la falla.
+    `,
+            en: `
+      The **Risk Score** (0-100) is computed from the memberships:
+
+      riskScore = μ_alert × 40 + μ_failure × 100
+
+      **Interpretation:**
+      - 0-20: Low risk, normal operation
+      - 20-45: Medium risk, schedule an inspection
+      - 45-70: High risk, urgent inspection
+      - 70+: Critical, immediate maintenance
+
+      This enables **predictive maintenance**: acting BEFORE the failure.
     `
+        }
     }
 ]
 
-const TOUR_STEPS = [
+const TOUR_STEPS: { title: LocalizedText; content: LocalizedText; highlight: string | null }[] = [
     {
-        title: 'Bienvenido al Diagnóstico Industrial',
-        content: 'Este módulo usa FCM para analizar el estado de máquinas industriales y predecir fallas antes de que ocurran.',
+        title: { es: 'Bienvenido al Diagnóstico Industrial', en: 'Welcome to Industrial Diagnostics' },
+        content: {
+            es: 'Este módulo usa FCM para analizar el estado de máquinas industriales y predecir fallas antes de que ocurran.',
+            en: 'This module uses FCM to analyze the condition of industrial machines and predict failures before they happen.'
+        },
         highlight: null
     },
     {
-        title: 'Genera o importa datos',
-        content: 'Primero, genera datos sintéticos para experimentar o importa un CSV con tus propios datos de sensores.',
+        title: { es: 'Genera o importa datos', en: 'Generate or import data' },
+        content: {
+            es: 'Primero, genera datos sintéticos para experimentar o importa un CSV con tus propios datos de sensores.',
+            en: 'First, generate synthetic data to experiment with or import a CSV with your own sensor data.'
+        },
         highlight: 'data-controls'
     },
     {
-        title: 'Configura el algoritmo',
-        content: 'Ajusta el número de clústeres, el parámetro de fuzziness y ejecuta el clustering.',
+        title: { es: 'Configura el algoritmo', en: 'Configure the algorithm' },
+        content: {
+            es: 'Ajusta el número de clústeres, el parámetro de fuzziness y ejecuta el clustering.',
+            en: 'Adjust the number of clusters and the fuzziness parameter, then run the clustering.'
+        },
         highlight: 'fcm-config'
     },
     {
-        title: 'Visualiza la convergencia',
-        content: 'Usa los controles de animación para ver cómo el algoritmo encuentra los clústeres iterativamente.',
+        title: { es: 'Visualiza la convergencia', en: 'Watch the convergence' },
+        content: {
+            es: 'Usa los controles de animación para ver cómo el algoritmo encuentra los clústeres iterativamente.',
+            en: 'Use the animation controls to see how the algorithm finds the clusters iteratively.'
+        },
         highlight: 'animation-controls'
     },
     {
-        title: 'Inspecciona los resultados',
-        content: 'Haz clic en cualquier punto para ver sus grados de pertenencia y score de riesgo.',
+        title: { es: 'Inspecciona los resultados', en: 'Inspect the results' },
+        content: {
+            es: 'Haz clic en cualquier punto para ver sus grados de pertenencia y score de riesgo.',
+            en: 'Click any point to see its membership degrees and risk score.'
+        },
         highlight: 'point-inspector'
     }
 ]
@@ -173,6 +285,7 @@ export function EducationalPanel() {
     const nextTourStep = useDiagnosticsStore(state => state.nextTourStep)
     const prevTourStep = useDiagnosticsStore(state => state.prevTourStep)
     const skipTour = useDiagnosticsStore(state => state.skipTour)
+    const { t } = useI18n()
 
     if (!showPanel) {
         return (
@@ -212,16 +325,16 @@ export function EducationalPanel() {
                                 </div>
                                 <div>
                                     <h3 className="font-semibold text-slate-200">
-                                        {TOUR_STEPS[tour.currentStep].title}
+                                        {t(TOUR_STEPS[tour.currentStep].title)}
                                     </h3>
                                     <p className="text-xs text-slate-500">
-                                        Paso {tour.currentStep + 1} de {TOUR_STEPS.length}
+                                        {t({ es: 'Paso', en: 'Step' })} {tour.currentStep + 1} {t({ es: 'de', en: 'of' })} {TOUR_STEPS.length}
                                     </p>
                                 </div>
                             </div>
 
                             <p className="text-slate-300 text-sm mb-6">
-                                {TOUR_STEPS[tour.currentStep].content}
+                                {t(TOUR_STEPS[tour.currentStep].content)}
                             </p>
 
                             <div className="flex items-center justify-between">
@@ -231,7 +344,7 @@ export function EducationalPanel() {
                                     onClick={skipTour}
                                     className="text-slate-400"
                                 >
-                                    Saltar tour
+                                    {t({ es: 'Saltar tour', en: 'Skip tour' })}
                                 </Button>
 
                                 <div className="flex gap-2">
@@ -248,7 +361,9 @@ export function EducationalPanel() {
                                         size="sm"
                                         onClick={nextTourStep}
                                     >
-                                        {tour.currentStep === TOUR_STEPS.length - 1 ? 'Finalizar' : 'Siguiente'}
+                                        {tour.currentStep === TOUR_STEPS.length - 1
+                                            ? t({ es: 'Finalizar', en: 'Finish' })
+                                            : t({ es: 'Siguiente', en: 'Next' })}
                                         {tour.currentStep < TOUR_STEPS.length - 1 && (
                                             <ChevronRight className="w-4 h-4" />
                                         )}
@@ -266,7 +381,7 @@ export function EducationalPanel() {
                     <div className="flex items-center justify-between">
                         <CardTitle className="flex items-center gap-2 text-slate-200 text-base">
                             <BookOpen className="w-4 h-4 text-cyan-400" />
-                            Centro de Aprendizaje
+                            {t({ es: 'Centro de Aprendizaje', en: 'Learning Center' })}
                         </CardTitle>
                         <Button
                             variant="ghost"
@@ -284,12 +399,15 @@ export function EducationalPanel() {
                     <div className="p-3 rounded-lg bg-gradient-to-r from-purple-500/10 to-cyan-500/10 border border-purple-500/30">
                         <div className="flex items-center gap-2 mb-2">
                             <Target className="w-4 h-4 text-purple-400" />
-                            <span className="text-sm font-medium text-slate-200">Propósito</span>
+                            <span className="text-sm font-medium text-slate-200">{t({ es: 'Propósito', en: 'Purpose' })}</span>
                         </div>
                         <p className="text-xs text-slate-400">
-                            Detectar y clasificar el estado de máquinas industriales para
-                            <span className="text-purple-400 font-medium"> predecir fallas </span>
-                            antes de que ocurran.
+                            {t({
+                                es: 'Detectar y clasificar el estado de máquinas industriales para',
+                                en: 'Detect and classify the condition of industrial machines to'
+                            })}
+                            <span className="text-purple-400 font-medium"> {t({ es: 'predecir fallas', en: 'predict failures' })} </span>
+                            {t({ es: 'antes de que ocurran.', en: 'before they happen.' })}
                         </p>
                     </div>
 
@@ -304,8 +422,10 @@ export function EducationalPanel() {
                             <div className="flex items-center gap-3">
                                 <Lightbulb className="w-5 h-5 text-cyan-400" />
                                 <div>
-                                    <h4 className="font-medium text-slate-200">Tour guiado</h4>
-                                    <p className="text-xs text-slate-400">Aprende a usar el diagnóstico paso a paso</p>
+                                    <h4 className="font-medium text-slate-200">{t({ es: 'Tour guiado', en: 'Guided tour' })}</h4>
+                                    <p className="text-xs text-slate-400">
+                                        {t({ es: 'Aprende a usar el diagnóstico paso a paso', en: 'Learn to use the diagnostics step by step' })}
+                                    </p>
                                 </div>
                             </div>
                         </motion.button>
@@ -329,6 +449,8 @@ interface EducationalArticleProps {
 }
 
 function EducationalArticle({ item, index }: EducationalArticleProps) {
+    const { t } = useI18n()
+
     // Special handling for FCM vs K-Means comparison
     if (item.id === 'vs-kmeans') {
         return (
@@ -340,49 +462,52 @@ function EducationalArticle({ item, index }: EducationalArticleProps) {
             >
                 <summary className="flex items-center gap-3 p-3 cursor-pointer hover:bg-slate-800 transition-colors list-none">
                     <span className="text-xl">{item.icon}</span>
-                    <span className="text-sm font-medium text-slate-200 flex-1">{item.title}</span>
+                    <span className="text-sm font-medium text-slate-200 flex-1">{t(item.title)}</span>
                     <HelpCircle className="w-4 h-4 text-slate-500 group-open:rotate-180 transition-transform" />
                 </summary>
                 <div className="px-3 pb-4 pt-2 border-t border-slate-700/50">
                     <p className="text-xs text-slate-400 mb-3">
-                        Comparación entre los dos algoritmos de clustering:
+                        {t({ es: 'Comparación entre los dos algoritmos de clustering:', en: 'Comparison between the two clustering algorithms:' })}
                     </p>
                     {/* Tabla de comparación renderizada */}
                     <div className="overflow-x-auto">
                         <table className="w-full text-xs">
                             <thead>
                                 <tr className="border-b border-slate-700">
-                                    <th className="text-left py-2 px-2 text-slate-400 font-medium">Característica</th>
+                                    <th className="text-left py-2 px-2 text-slate-400 font-medium">{t({ es: 'Característica', en: 'Feature' })}</th>
                                     <th className="text-left py-2 px-2 text-blue-400 font-medium">K-Means</th>
                                     <th className="text-left py-2 px-2 text-purple-400 font-medium">FCM</th>
                                 </tr>
                             </thead>
                             <tbody className="text-slate-300">
                                 <tr className="border-b border-slate-700/50">
-                                    <td className="py-2 px-2 text-slate-400">Pertenencia</td>
-                                    <td className="py-2 px-2">Dura (0 o 1)</td>
-                                    <td className="py-2 px-2 text-emerald-400">Suave (0 a 1)</td>
+                                    <td className="py-2 px-2 text-slate-400">{t({ es: 'Pertenencia', en: 'Membership' })}</td>
+                                    <td className="py-2 px-2">{t({ es: 'Dura (0 o 1)', en: 'Hard (0 or 1)' })}</td>
+                                    <td className="py-2 px-2 text-emerald-400">{t({ es: 'Suave (0 a 1)', en: 'Soft (0 to 1)' })}</td>
                                 </tr>
                                 <tr className="border-b border-slate-700/50">
-                                    <td className="py-2 px-2 text-slate-400">Transiciones</td>
-                                    <td className="py-2 px-2">Abruptas</td>
-                                    <td className="py-2 px-2 text-emerald-400">Graduales</td>
+                                    <td className="py-2 px-2 text-slate-400">{t({ es: 'Transiciones', en: 'Transitions' })}</td>
+                                    <td className="py-2 px-2">{t({ es: 'Abruptas', en: 'Abrupt' })}</td>
+                                    <td className="py-2 px-2 text-emerald-400">{t({ es: 'Graduales', en: 'Gradual' })}</td>
                                 </tr>
                                 <tr className="border-b border-slate-700/50">
-                                    <td className="py-2 px-2 text-slate-400">Sensibilidad a ruido</td>
-                                    <td className="py-2 px-2">Alta</td>
-                                    <td className="py-2 px-2 text-emerald-400">Baja</td>
+                                    <td className="py-2 px-2 text-slate-400">{t({ es: 'Sensibilidad a ruido', en: 'Noise sensitivity' })}</td>
+                                    <td className="py-2 px-2">{t({ es: 'Alta', en: 'High' })}</td>
+                                    <td className="py-2 px-2 text-emerald-400">{t({ es: 'Baja', en: 'Low' })}</td>
                                 </tr>
                                 <tr>
-                                    <td className="py-2 px-2 text-slate-400">Interpretación</td>
-                                    <td className="py-2 px-2">&quot;Es A&quot;</td>
-                                    <td className="py-2 px-2 text-emerald-400">&quot;Es 70% A, 30% B&quot;</td>
+                                    <td className="py-2 px-2 text-slate-400">{t({ es: 'Interpretación', en: 'Interpretation' })}</td>
+                                    <td className="py-2 px-2">{t({ es: '"Es A"', en: '"Is A"' })}</td>
+                                    <td className="py-2 px-2 text-emerald-400">{t({ es: '"Es 70% A, 30% B"', en: '"Is 70% A, 30% B"' })}</td>
                                 </tr>
                             </tbody>
                         </table>
                     </div>
                     <p className="text-xs text-slate-500 mt-3 italic">
-                        ✓ FCM es superior para diagnóstico porque las máquinas no pasan instantáneamente de &quot;Normal&quot; a &quot;Falla&quot;.
+                        ✓ {t({
+                            es: 'FCM es superior para diagnóstico porque las máquinas no pasan instantáneamente de "Normal" a "Falla".',
+                            en: 'FCM is better for diagnostics because machines do not jump instantly from "Normal" to "Failure".'
+                        })}
                     </p>
                 </div>
             </motion.details>
@@ -398,12 +523,12 @@ function EducationalArticle({ item, index }: EducationalArticleProps) {
         >
             <summary className="flex items-center gap-3 p-3 cursor-pointer hover:bg-slate-800 transition-colors list-none">
                 <span className="text-xl">{item.icon}</span>
-                <span className="text-sm font-medium text-slate-200 flex-1">{item.title}</span>
+                <span className="text-sm font-medium text-slate-200 flex-1">{t(item.title)}</span>
                 <HelpCircle className="w-4 h-4 text-slate-500 group-open:rotate-180 transition-transform" />
             </summary>
             <div className="px-4 pb-4 pt-2 border-t border-slate-700/50">
                 <div className="text-xs text-slate-400 leading-relaxed whitespace-pre-line">
-                    {formatContent(item.content)}
+                    {formatContent(t(item.content))}
                 </div>
             </div>
         </motion.details>
@@ -3,7 +3,8 @@
 import { useEffect, useRef, useCallback } from 'react'
 import * as d3 from 'd3'
 import { useDiagnosticsStore } from '@/stores/diagnostics-store'
-import { CLUSTER_COLORS } from '@/lib/fcm'
+import { useI18n } from '@/stores/locale-store'
+import { CLUSTER_COLORS, SYNTHETIC_FEATURE_NAMES, getClusterName } from '@/lib/fcm'
 import { motion } from 'framer-motion'
 
 /**
@@ -24,8 +25,11 @@ export function FCMVisualization() {
     const result = useDiagnosticsStore(state => state.result)
     const animation = useDiagnosticsStore(state => state.animation)
     const selectedPoint = useDiagnosticsStore(state => state.selectedPoint)
-    const featureNames = useDiagnosticsStore(state => state.featureNames)
+    const importedFeatureNames = useDiagnosticsStore(state => state.featureNames)
     const clusterColors = useDiagnosticsStore(state => state.clusterColors)
+    const { locale, t } = useI18n()
+
+    const featureNames = importedFeatureNames.length > 0 ? importedFeatureNames : SYNTHETIC_FEATURE_NAMES[locale]
 
     const selectPoint = useDiagnosticsStore(state => state.selectPoint)
     const setHoveredPoint = useDiagnosticsStore(state => state.setHoveredPoint)
@@ -68,7 +72,10 @@ export function FCMVisualization() {
                 .attr('text-anchor', 'middle')
                 .attr('fill', '#64748b')
                 .attr('font-size', '14px')
-                .text('Importa datos o genera datos sintéticos para comenzar')
+                .text(t({
+                    es: 'Importa datos o genera datos sintéticos para comenzar',
+                    en: 'Import data or generate synthetic data to begin'
+                }))
             return
         }
 
@@ -265,7 +272,7 @@ export function FCMVisualization() {
         })
 
     }, [dataPoints, processedPoints, result, animation.currentFrame, selectedPoint,
-        featureNames, clusterColors, selectPoint, setHoveredPoint, getCurrentState])
+        featureNames, clusterColors, selectPoint, setHoveredPoint, getCurrentState, t])
 
     return (
         <div className="relative h-full">
@@ -287,7 +294,7 @@ export function FCMVisualization() {
                     animate={{ opacity: 1, x: 0 }}
                     className="absolute top-4 left-4 bg-slate-800/90 backdrop-blur-sm rounded-lg px-4 py-2 border border-slate-700"
                 >
-                    <div className="text-xs text-slate-400">Iteración</div>
+                    <div className="text-xs text-slate-400">{t({ es: 'Iteración', en: 'Iteration' })}</div>
                     <div className="text-2xl font-bold text-cyan-400">
                         {animation.currentFrame + 1}
                         <span className="text-sm text-slate-500">/{result.iterationHistory.length}</span>
@@ -305,7 +312,7 @@ export function FCMVisualization() {
                     animate={{ opacity: 1, x: 0 }}
                     className="absolute top-4 right-4 bg-slate-800/90 backdrop-blur-sm rounded-lg px-4 py-2 border border-slate-700"
                 >
-                    <div className="text-xs text-slate-400 mb-2">Clústeres ({result.centroids.length})</div>
+                    <div className="text-xs text-slate-400 mb-2">{t({ es: 'Clústeres', en: 'Clusters' })} ({result.centroids.length})</div>
                     {result.centroids.map((_, i) => {
                         const storeState = useDiagnosticsStore.getState()
                         const defaultColors = [
@@ -318,7 +325,7 @@ export function FCMVisualization() {
                             'hsl(160, 70%, 45%)'
                         ]
                         const color = storeState.clusterColors[i] || defaultColors[i % defaultColors.length]
-                        const name = storeState.clusterNames[i] || `Clúster ${i + 1}`
+                        const name = getClusterName(i, locale, storeState.clusterNames)
                         return (
                             <div key={i} className="flex items-center gap-2 text-sm">
                                 <div
@@ -1,12 +1,23 @@
 'use client'
 
+import { useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { useDiagnosticsStore } from '@/stores/diagnostics-store'
+import { useI18n } from '@/stores/locale-store'
+import { SYNTHETIC_FEATURE_NAMES, analyzeRisk, getClusterName } from '@/lib/fcm'
 import { motion, AnimatePresence } from 'framer-motion'
+import { LocalizedText } from '@/lib/i18n'
 import { Target, AlertTriangle, CheckCircle, XCircle, Info } from 'lucide-react'
 
+const RISK_CATEGORY_LABELS: Record<'low' | 'medium' | 'high' | 'critical', LocalizedText> = {
+    low: { es: 'Bajo', en: 'Low' },
+    medium: { es: 'Medio', en: 'Medium' },
+    high: { es: 'Alto', en: 'High' },
+    critical: { es: 'Crítico', en: 'Critical' }
+}
+
 /**
  * PointInspector - Panel de inspección de punto seleccionado
  * 
@@ -19,11 +30,20 @@ import { Target, AlertTriangle, CheckCircle, XCircle, Info } from 'lucide-react'
 
 export function PointInspector() {
     const selectedPoint = useDiagnosticsStore(state => state.selectedPoint)
-    const selectedPointRisk = useDiagnosticsStore(state => state.selectedPointRisk)
-    const clusterNames = useDiagnosticsStore(state => state.clusterNames)
+    const customClusterNames = useDiagnosticsStore(state => state.clusterNames)
     const clusterColors = useDiagnosticsStore(state => state.clusterColors)
-    const featureNames = useDiagnosticsStore(state => state.featureNames)
-    const config = useDiagnosticsStore(state => state.config)
+    const importedFeatureNames = useDiagnosticsStore(state => state.featureNames)
+    const { locale, t, formatNumber } = useI18n()
+
+    const featureNames = importedFeatureNames.length > 0 ? importedFeatureNames : SYNTHETIC_FEATURE_NAMES[locale]
+
+    // Análisis de riesgo en el idioma actual
+    const selectedPointRisk = useMemo(() => {
+        const memberships = selectedPoint?.memberships
+        if (!memberships) return null
+        const names = memberships.map((_, i) => getClusterName(i, locale, customClusterNames))
+        return analyzeRisk(memberships, names, locale)
+    }, [selectedPoint, customClusterNames, locale])
 
     const getRiskIcon = () => {
         if (!selectedPointRisk) return null
@@ -35,14 +55,6 @@ export function PointInspector() {
         }
     }
 
-    // Get cluster name for index, with fallback for dynamic clusters
-    const getClusterName = (index: number) => {
-        if (index < clusterNames.length) {
-            return clusterNames[index]
-        }
-        return `Clúster ${index + 1}`
-    }
-
     // Get cluster color for index, with fallback
     const getClusterColor = (index: number) => {
         const defaultColors = [
@@ -63,7 +75,7 @@ export function PointInspector() {
             <CardHeader className="pb-2">
                 <CardTitle className="flex items-center gap-2 text-sm text-slate-200">
                     <Target className="w-4 h-4 text-cyan-400" />
-                    Inspector de Punto
+                    {t({ es: 'Inspector de Punto', en: 'Point Inspector' })}
                 </CardTitle>
             </CardHeader>
             <CardContent>
@@ -78,7 +90,7 @@ export function PointInspector() {
                         >
                             <div className="flex items-center justify-between">
                                 <div>
-                                    <div className="text-xs text-slate-500">ID de Máquina</div>
+                                    <div className="text-xs text-slate-500">{t({ es: 'ID de Máquina', en: 'Machine ID' })}</div>
                                     <div className="text-lg font-bold text-slate-200">{selectedPoint.id}</div>
                                 </div>
                                 {selectedPoint.label && (
@@ -87,15 +99,15 @@ export function PointInspector() {
                             </div>
 
                             <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700/50">
-                                <div className="text-xs text-slate-500 mb-2">Características</div>
+                                <div className="text-xs text-slate-500 mb-2">{t({ es: 'Características', en: 'Features' })}</div>
                                 <div className="grid grid-cols-2 gap-2">
                                     {selectedPoint.features.map((value, i) => (
                                         <div key={i}>
                                             <div className="text-[10px] text-slate-500">
-                                                {featureNames[i] || `Feature ${i + 1}`}
+                                                {featureNames[i] || `${t({ es: 'Característica', en: 'Feature' })} ${i + 1}`}
                                             </div>
                                             <div className="text-sm font-medium text-slate-200">
-                                                {value.toFixed(2)}
+                                                {formatNumber(value, 2)}
                                             </div>
                                         </div>
                                     ))}
@@ -105,7 +117,8 @@ export function PointInspector() {
                             {selectedPoint.memberships && selectedPoint.memberships.length > 0 && (
                                 <div className="space-y-2">
                                     <div className="text-xs text-slate-500">
-                                        Grados de Pertenencia ({selectedPoint.memberships.length} clústeres)
+                                        {t({ es: 'Grados de Pertenencia', en: 'Membership Degrees' })}
+                                        {' '}({selectedPoint.memberships.length} {t({ es: 'clústeres', en: 'clusters' })})
                                     </div>
                                     {selectedPoint.memberships.map((m, i) => (
                                         <div key={i} className="space-y-1">
@@ -115,10 +128,10 @@ export function PointInspector() {
                                                         className="w-2.5 h-2.5 rounded-full"
                                                         style={{ backgroundColor: getClusterColor(i) }}
                                                     />
-                                                    <span className="text-slate-300">{getClusterName(i)}</span>
+                                                    <span className="text-slate-300">{getClusterName(i, locale, customClusterNames)}</span>
                                                 </div>
                                                 <span className="text-slate-200 font-medium">
-                                                    {(m * 100).toFixed(1)}%
+                                                    {formatNumber(m * 100, 1)}%
                                                 </span>
                                             </div>
                                             <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -146,7 +159,7 @@ export function PointInspector() {
                                     <div className="flex items-center gap-3 mb-2">
                                         {getRiskIcon()}
                                         <div>
-                                            <div className="text-xs text-slate-400">Score de Riesgo</div>
+                                            <div className="text-xs text-slate-400">{t({ es: 'Score de Riesgo', en: 'Risk Score' })}</div>
                                             <div className={`text-xl font-bold ${selectedPointRisk.riskCategory === 'low' ? 'text-emerald-400' :
                                                     selectedPointRisk.riskCategory === 'medium' ? 'text-yellow-400' :
                                                         selectedPointRisk.riskCategory === 'high' ? 'text-orange-400' :
@@ -166,9 +179,7 @@ export function PointInspector() {
                                                             : 'bg-red-500/20 text-red-400 border-red-500/50'
                                                 }`}
                                         >
-                                            {selectedPointRisk.riskCategory === 'low' ? 'Bajo' :
-                                                selectedPointRisk.riskCategory === 'medium' ? 'Medio' :
-                                                    selectedPointRisk.riskCategory === 'high' ? 'Alto' : 'Crítico'}
+                                            {t(RISK_CATEGORY_LABELS[selectedPointRisk.riskCategory])}
                                         </Badge>
                                     </div>
                                     <p className="text-xs text-slate-400">
@@ -181,7 +192,10 @@ export function PointInspector() {
                         <div className="text-center py-8">
                             <Target className="w-12 h-12 text-slate-700 mx-auto mb-3" />
                             <p className="text-sm text-slate-500">
-                                Haz clic en un punto para ver sus grados de pertenencia
+                                {t({
+                                    es: 'Haz clic en un punto para ver sus grados de pertenencia',
+                                    en: 'Click a point to see its membership degrees'
+                                })}
                             </p>
                         </div>
                     )}
@@ -0,0 +1,45 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useLocaleStore } from '@/stores/locale-store'
+import { LOCALES, LOCALE_NAMES } from '@/lib/i18n'
+import { Languages } from 'lucide-react'
+
+/**
+ * LanguageSwitcher - Selector de idioma de toda la aplicación
+ *
+ * Se monta una sola vez en el layout raíz. Recupera el idioma guardado y
+ * mantiene el atributo `lang` del documento sincronizado con la selección.
+ */
+export function LanguageSwitcher() {
+    const locale = useLocaleStore(state => state.locale)
+    const setLocale = useLocaleStore(state => state.setLocale)
+    const loadLocale = useLocaleStore(state => state.loadLocale)
+
+    useEffect(() => {
+        loadLocale()
+    }, [loadLocale])
+
+    useEffect(() => {
+        document.documentElement.lang = locale
+    }, [locale])
+
+    return (
+        <div className="fixed bottom-4 right-4 z-[60] flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/90 backdrop-blur px-2 py-1 shadow-lg">
+            <Languages className="w-3.5 h-3.5 text-slate-500" />
+            {LOCALES.map(option => (
+                <button
+                    key={option}
+                    onClick={() => setLocale(option)}
+                    title={LOCALE_NAMES[option]}
+                    aria-pressed={locale === option}
+                    className={`px-2 py-0.5 rounded-full text-xs uppercase transition-colors ${locale === option
+                        ? 'bg-cyan-500/20 text-cyan-300'
+                        : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                    {option}
+                </button>
+            ))}
+        </div>
+    )
+}
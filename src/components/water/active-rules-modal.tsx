@@ -3,20 +3,31 @@
 import { useState, useEffect } from 'react'
 import { createPortal } from 'react-dom'
 import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
 import { Button } from '@/components/ui/button'
+import { OperatorSettings } from '@/components/water/operator-settings'
+import { DecisionExplanationView } from '@/components/water/decision-explanation'
+import { FuzzyOutputs } from '@/lib/fuzzy-logic'
+import { AntecedentExpression, Hedge } from '@/lib/fuzzy-system'
+import { COAGULANT_CATALOG } from '@/lib/coagulants'
+import { PH_REAGENTS, PH_TOLERANCE, describePhCorrectionReason } from '@/lib/ph-correction'
+import { LocalizedText, termLabel, variableLabel } from '@/lib/i18n'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Zap, ChevronRight } from 'lucide-react'
+import { X, Zap, ChevronRight, FlaskConical } from 'lucide-react'
 
 /**
  * ActiveRulesModal - Modal que muestra las reglas difusas activas
  * 
  * Permite al usuario ver qué reglas del sistema de inferencia
- * están contribuyendo al resultado actual.
+ * están contribuyendo al resultado actual, con qué operadores
+ * difusos se ha calculado su activación, la explicación de la
+ * decisión y cómo se ha obtenido la corrección de pH.
  */
 export function ActiveRulesModal() {
     const [isOpen, setIsOpen] = useState(false)
     const [mounted, setMounted] = useState(false)
     const fuzzyOutputs = useWaterStore(state => state.fuzzyOutputs)
+    const { locale, t, formatNumber } = useI18n()
 
     const activeRules = fuzzyOutputs?.ruleActivations || []
 
@@ -61,10 +72,10 @@ export function ActiveRulesModal() {
                                     </div>
                                     <div>
                                         <h2 className="text-lg font-semibold text-slate-200">
-                                            Reglas Difusas Activas
+                                            {t({ es: 'Reglas Difusas Activas', en: 'Active Fuzzy Rules' })}
                                         </h2>
                                         <p className="text-xs text-slate-500">
-                                            {activeRules.length} reglas contribuyendo al resultado actual
+                                            {activeRules.length} {t({ es: 'reglas contribuyendo al resultado actual', en: 'rules contributing to the current result' })}
                                         </p>
                                     </div>
                                 </div>
@@ -78,13 +89,27 @@ export function ActiveRulesModal() {
                                 </Button>
                             </div>
 
+                            {/* Operadores activos */}
+                            <div className="px-4 py-3 border-b border-slate-800 bg-slate-900/50">
+                                <OperatorSettings />
+                            </div>
+
                             {/* Content */}
                             <div className="p-4 overflow-y-auto max-h-[55vh]">
+                                {/* Por qué se tomó la decisión */}
+                                {fuzzyOutputs && (
+                                    <div className="mb-4">
+                                        <DecisionExplanationView explanation={fuzzyOutputs.explanation} detailed />
+                                    </div>
+                                )}
+
                                 {activeRules.length === 0 ? (
                                     <div className="text-center py-8 text-slate-500">
                                         <Zap className="w-12 h-12 mx-auto mb-3 opacity-30" />
-                                        <p>No hay reglas activas actualmente.</p>
-                                        <p className="text-sm mt-1">Ajusta los parámetros para activar reglas.</p>
+                                        <p>{t({ es: 'No hay reglas activas actualmente.', en: 'There are no active rules right now.' })}</p>
+                                        <p className="text-sm mt-1">
+                                            {t({ es: 'Ajusta los parámetros para activar reglas.', en: 'Adjust the parameters to fire rules.' })}
+                                        </p>
                                     </div>
                                 ) : (
                                     <div className="space-y-3">
@@ -103,11 +128,19 @@ export function ActiveRulesModal() {
                                                         <span className="font-medium text-slate-200">{rule.name}</span>
                                                     </div>
                                                     <div className="flex items-center gap-2">
-                                                        <span className="text-xs text-slate-500">Activación:</span>
+                                                        <span className="text-xs text-slate-500">{t({ es: 'Activación:', en: 'Firing:' })}</span>
+                                                        {rule.weight < 1 && (
+                                                            <span
+                                                                className="text-xs text-slate-500"
+                                                                title={t({ es: 'Activación del antecedente × peso de la regla', en: 'Antecedent firing × rule weight' })}
+                                                            >
+                                                                {formatNumber(rule.rawFiringStrength * 100, 0)}% × {t({ es: 'peso', en: 'weight' })} {formatNumber(rule.weight, 2)} =
+                                                            </span>
+                                                        )}
                                                         <span className={`font-bold ${rule.firingStrength > 0.7 ? 'text-emerald-400' :
                                                             rule.firingStrength > 0.4 ? 'text-yellow-400' : 'text-slate-400'
                                                             }`}>
-                                                            {(rule.firingStrength * 100).toFixed(0)}%
+                                                            {formatNumber(rule.firingStrength * 100, 0)}%
                                                         </span>
                                                     </div>
                                                 </div>
@@ -115,13 +148,14 @@ export function ActiveRulesModal() {
                                                 {/* Rule content */}
                                                 <div className="flex items-center gap-2 text-sm">
                                                     <div className="flex-1">
-                                                        <span className="text-cyan-400 font-medium">SI </span>
+                                                        <span className="text-cyan-400 font-medium">{t({ es: 'SI', en: 'IF' })} </span>
+                                                        {rule.antecedent && <AntecedentView expression={rule.antecedent} />}
                                                         {Object.entries(rule.conditions).map(([key, value], i, arr) => (
                                                             <span key={key}>
-                                                                <span className="text-slate-400">{formatConditionKey(key)}</span>
-                                                                <span className="text-slate-200"> es </span>
-                                                                <span className="text-purple-400">{formatConditionValue(value as string)}</span>
-                                                                {i < arr.length - 1 && <span className="text-slate-500"> Y </span>}
+                                                                <span className="text-slate-400">{variableLabel(key, locale)}</span>
+                                                                <span className="text-slate-200"> {t({ es: 'es', en: 'is' })} </span>
+                                                                <span className="text-purple-400">{termLabel(value as string, locale)}</span>
+                                                                {i < arr.length - 1 && <span className="text-slate-500"> {t({ es: 'Y', en: 'AND' })} </span>}
                                                             </span>
                                                         ))}
                                                     </div>
@@ -130,22 +164,38 @@ export function ActiveRulesModal() {
                                                 <div className="flex items-center gap-2 text-sm mt-2">
                                                     <ChevronRight className="w-4 h-4 text-slate-600" />
                                                     <div className="flex-1">
-                                                        <span className="text-orange-400 font-medium">ENTONCES </span>
+                                                        <span className="text-orange-400 font-medium">{t({ es: 'ENTONCES', en: 'THEN' })} </span>
                                                         {Object.entries(rule.outputs).map(([key, value], i, arr) => (
                                                             <span key={key}>
-                                                                <span className="text-slate-400">{formatOutputKey(key)}</span>
+                                                                <span className="text-slate-400">{variableLabel(key, locale)}</span>
                                                                 <span className="text-slate-200"> = </span>
-                                                                <span className="text-emerald-400">{formatOutputValue(value as string)}</span>
+                                                                <span className="text-emerald-400">{termLabel(value as string, locale)}</span>
                                                                 {i < arr.length - 1 && <span className="text-slate-500">, </span>}
                                                             </span>
                                                         ))}
                                                     </div>
                                                 </div>
 
+                                                {/* Salidas lineales (modo TSK) */}
+                                                {rule.tskOutputs && (
+                                                    <div className="text-xs mt-2 text-slate-400">
+                                                        <span className="text-cyan-400 font-medium">TSK: </span>
+                                                        {t({ es: 'dosis', en: 'dose' })} = <span className="text-emerald-400">{formatNumber(rule.tskOutputs.dose, 1)} mg/L</span>,
+                                                        {' '}{t({ es: 'tiempo', en: 'time' })} = <span className="text-emerald-400">{formatNumber(rule.tskOutputs.time, 1)} min</span>
+                                                    </div>
+                                                )}
+
                                                 {/* Activation bar */}
-                                                <div className="mt-3 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                                                <div className="mt-3 h-1.5 bg-slate-700 rounded-full overflow-hidden relative">
+                                                    {/* Activación sin peso (lo que la regla pierde por su peso) */}
+                                                    {rule.weight < 1 && (
+                                                        <div
+                                                            className="absolute inset-y-0 left-0 rounded-full bg-slate-500/40"
+                                                            style={{ width: `${rule.rawFiringStrength * 100}%` }}
+                                                        />
+                                                    )}
                                                     <motion.div
-                                                        className="h-full rounded-full"
+                                                        className="relative h-full rounded-full"
                                                         initial={{ width: 0 }}
                                                         animate={{ width: `${rule.firingStrength * 100}%` }}
                                                         style={{
@@ -161,19 +211,25 @@ export function ActiveRulesModal() {
                                         ))}
                                     </div>
                                 )}
+
+                                {/* Derivación de la corrección de pH */}
+                                {fuzzyOutputs && <PhCorrectionDerivation outputs={fuzzyOutputs} />}
                             </div>
 
                             {/* Footer with close button */}
                             <div className="p-4 border-t border-slate-800 bg-slate-900/50 flex items-center justify-between">
                                 <p className="text-xs text-slate-500">
-                                    💡 Las reglas con mayor activación tienen más influencia en el resultado.
+                                    💡 {t({
+                                        es: 'Las reglas con mayor activación tienen más influencia en el resultado.',
+                                        en: 'Rules with higher firing have more influence on the result.'
+                                    })}
                                 </p>
                                 <Button
                                     variant="outline"
                                     size="sm"
                                     onClick={() => setIsOpen(false)}
                                 >
-                                    Cerrar
+                                    {t({ es: 'Cerrar', en: 'Close' })}
                                 </Button>
                             </div>
                         </motion.div>
@@ -193,7 +249,7 @@ export function ActiveRulesModal() {
                 className="gap-2"
             >
                 <Zap className="w-4 h-4 text-yellow-400" />
-                Ver Reglas Activas
+                {t({ es: 'Ver Reglas Activas', en: 'View Active Rules' })}
                 {activeRules.length > 0 && (
                     <span className="ml-1 px-1.5 py-0.5 rounded-full bg-yellow-500/20 text-yellow-400 text-xs">
                         {activeRules.length}
@@ -207,59 +263,102 @@ export function ActiveRulesModal() {
     )
 }
 
-// Helpers para formatear condiciones y outputs
-function formatConditionKey(key: string): string {
-    const map: Record<string, string> = {
-        turbidity: 'Turbidez',
-        ph: 'pH',
-        temperature: 'Temperatura'
-    }
-    return map[key] || key
+const HEDGE_LABELS: Record<Hedge, LocalizedText> = {
+    very: { es: 'muy', en: 'very' },
+    somewhat: { es: 'algo', en: 'somewhat' },
+    extremely: { es: 'extremadamente', en: 'extremely' }
 }
 
-function formatConditionValue(value: string): string {
-    const map: Record<string, string> = {
-        very_low: 'Muy Baja',
-        low: 'Baja',
-        medium: 'Media',
-        high: 'Alta',
-        very_high: 'Muy Alta',
-        very_acidic: 'Muy Ácido',
-        acidic: 'Ácido',
-        neutral: 'Neutro',
-        alkaline: 'Alcalino',
-        very_alkaline: 'Muy Alcalino',
-        cold: 'Fría',
-        normal: 'Normal',
-        warm: 'Cálida'
-    }
-    return map[value] || value
-}
+// Componente auxiliar: antecedente compuesto (hedges, NO, Y, O y paréntesis)
+function AntecedentView({ expression, nested = false }: { expression: AntecedentExpression; nested?: boolean }) {
+    const { locale, t } = useI18n()
 
-function formatOutputKey(key: string): string {
-    const map: Record<string, string> = {
-        dose: 'Dosis',
-        time: 'Tiempo',
-        phCorrection: 'Corrección pH'
+    switch (expression.op) {
+        case 'is':
+            return (
+                <span>
+                    <span className="text-slate-400">{variableLabel(expression.variable, locale)}</span>
+                    <span className="text-slate-200">
+                        {' '}{expression.negated ? t({ es: 'no es', en: 'is not' }) : t({ es: 'es', en: 'is' })}{' '}
+                    </span>
+                    <span className="text-purple-400">
+                        {(expression.hedges ?? []).map(hedge => `${t(HEDGE_LABELS[hedge])} `).join('')}
+                        {termLabel(expression.term, locale)}
+                    </span>
+                </span>
+            )
+        case 'not':
+            return (
+                <span>
+                    <span className="text-red-400 font-medium">{t({ es: 'NO', en: 'NOT' })} </span>
+                    <span className="text-slate-500">(</span>
+                    <AntecedentView expression={expression.operand} />
+                    <span className="text-slate-500">)</span>
+                </span>
+            )
+        default:
+            return (
+                <span>
+                    {nested && <span className="text-slate-500">(</span>}
+                    {expression.operands.map((operand, i) => (
+                        <span key={i}>
+                            {i > 0 && <span className="text-slate-500">{' '}{expression.op === 'and' ? t({ es: 'Y', en: 'AND' }) : t({ es: 'O', en: 'OR' })}{' '}</span>}
+                            <AntecedentView expression={operand} nested />
+                        </span>
+                    ))}
+                    {nested && <span className="text-slate-500">)</span>}
+                </span>
+            )
     }
-    return map[key] || key
 }
 
-function formatOutputValue(value: string): string {
-    const map: Record<string, string> = {
-        very_low: 'Muy Baja',
-        low: 'Baja',
-        medium: 'Media',
-        high: 'Alta',
-        very_high: 'Muy Alta',
-        very_short: 'Muy Corto',
-        short: 'Corto',
-        long: 'Largo',
-        very_long: 'Muy Largo',
-        none: 'Ninguna',
-        slight: 'Leve',
-        moderate: 'Moderada',
-        intense: 'Intensa'
-    }
-    return map[value] || value
+// Componente auxiliar: pasos del modelo de titulación
+function PhCorrectionDerivation({ outputs }: { outputs: FuzzyOutputs }) {
+    const plan = outputs.phCorrectionPlan
+    const coagulant = COAGULANT_CATALOG[outputs.coagulant.id]
+    const reagent = plan.reagent ? PH_REAGENTS[plan.reagent] : null
+    const { locale, t, formatNumber, formatCurrency } = useI18n()
+    const alkalinity = t({ es: 'alcalinidad', en: 'alkalinity' })
+
+    const steps = [
+        {
+            label: t({ es: 'Agua cruda', en: 'Raw water' }),
+            detail: `pH ${formatNumber(plan.raw.ph, 2)} · ${alkalinity} ${formatNumber(plan.raw.alkalinity, 1)} mg/L CaCO₃ · C_T ${formatNumber(plan.raw.totalCarbonate, 2)} mmol/L`
+        },
+        {
+            label: `${t(coagulant.name)} (${formatNumber(outputs.coagulantDose, 1)} mg/L)`,
+            detail: `${t({ es: 'consume', en: 'consumes' })} ${formatNumber(outputs.coagulant.alkalinityConsumed, 1)} mg/L ${t({ es: 'de alcalinidad', en: 'of alkalinity' })} → pH ${formatNumber(plan.afterCoagulant.ph, 2)} (${t({ es: 'ventana', en: 'window' })} ${formatNumber(coagulant.phWindow[0], 1)}–${formatNumber(coagulant.phWindow[1], 1)})`
+        },
+        {
+            label: `${t({ es: 'Reglas', en: 'Rules' })}: ${termLabel(outputs.phCorrection, locale)}`,
+            detail: `${t({ es: 'objetivo', en: 'target' })} pH ${formatNumber(plan.targetPh, 1)} ± ${formatNumber(PH_TOLERANCE, 1)}. ${describePhCorrectionReason(plan, locale)}`
+        },
+        ...(reagent ? [{
+            label: `${plan.direction === 'raise' ? t({ es: 'Subir', en: 'Raise' }) : t({ es: 'Bajar', en: 'Lower' })} ${t({ es: 'con', en: 'with' })} ${t(reagent.name)} (${reagent.formula})`,
+            detail: `${formatNumber(plan.dose, 1)} mg/L · ${formatCurrency(plan.cost, 4)}/m³ → pH ${formatNumber(plan.expected.ph, 2)}, ${alkalinity} ${formatNumber(plan.expected.alkalinity, 1)} mg/L CaCO₃`
+        }] : [])
+    ]
+
+    return (
+        <div className="mt-4 p-4 rounded-lg bg-slate-800/30 border border-slate-700/50">
+            <div className="flex items-center gap-2 mb-3 text-sm font-medium text-slate-300">
+                <FlaskConical className="w-4 h-4 text-cyan-400" />
+                {t({ es: 'Corrección de pH (modelo de titulación)', en: 'pH correction (titration model)' })}
+            </div>
+            <ol className="space-y-2">
+                {steps.map((step, index) => (
+                    <li key={index} className="flex gap-2 text-xs">
+                        <span className="font-mono text-slate-500">{index + 1}.</span>
+                        <div>
+                            <span className="text-slate-200">{step.label}: </span>
+                            <span className="text-slate-400">{step.detail}</span>
+                        </div>
+                    </li>
+                ))}
+            </ol>
+            <div className="mt-3 text-xs text-slate-400">
+                {t({ es: 'pH esperado:', en: 'Expected pH:' })} <span className="font-bold text-emerald-400">{formatNumber(plan.expected.ph, 2)}</span>
+            </div>
+        </div>
+    )
 }
@@ -0,0 +1,166 @@
+'use client'
+
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { DefuzzificationMethod, DEFUZZIFICATION_METHODS } from '@/lib/fuzzy-system'
+import { OutputCurvePoint, OutputInterval } from '@/lib/fuzzy-logic'
+import { LocalizedText } from '@/lib/i18n'
+import {
+    AreaChart, Area, XAxis, YAxis, ReferenceArea, ReferenceLine, ResponsiveContainer
+} from 'recharts'
+import { Sigma } from 'lucide-react'
+
+/**
+ * AggregatedOutputChart - Conjuntos de salida agregados y defuzzificación
+ *
+ * Muestra, para la dosis y el tiempo de floculación, el área resultante de
+ * recortar y unir las conclusiones de todas las reglas activas, junto con el
+ * valor numérico obtenido por el método de defuzzificación seleccionado.
+ * En modo TSK se muestran en su lugar las salidas lineales de cada regla
+ * (altura = activación) y su media ponderada. La banda sombreada es el
+ * intervalo de la salida debido a la incertidumbre de los sensores.
+ */
+
+const METHOD_LABELS: Record<DefuzzificationMethod, LocalizedText> = {
+    centroid: { es: 'Centroide', en: 'Centroid' },
+    bisector: { es: 'Bisector', en: 'Bisector' },
+    mom: { es: 'Media de máximos', en: 'Mean of maxima' },
+    som: { es: 'Menor de máximos', en: 'Smallest of maxima' },
+    lom: { es: 'Mayor de máximos', en: 'Largest of maxima' },
+    weighted_average: { es: 'Media ponderada', en: 'Weighted average' }
+}
+
+export function AggregatedOutputChart() {
+    const fuzzyOutputs = useWaterStore(state => state.fuzzyOutputs)
+    const setDefuzzificationMethod = useWaterStore(state => state.setDefuzzificationMethod)
+    const { t } = useI18n()
+
+    if (!fuzzyOutputs) return null
+
+    const isTsk = fuzzyOutputs.inferenceMode === 'tsk'
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                        <Sigma className="w-4 h-4 text-emerald-400" />
+                        {isTsk
+                            ? t({ es: 'Salidas de Reglas (TSK)', en: 'Rule Outputs (TSK)' })
+                            : t({ es: 'Agregación y Defuzzificación', en: 'Aggregation and Defuzzification' })}
+                    </CardTitle>
+                    {isTsk ? (
+                        <span className="text-xs text-slate-400">{t({ es: 'Media ponderada por activación', en: 'Firing-weighted average' })}</span>
+                    ) : (
+                        <select
+                            value={fuzzyOutputs.defuzzificationMethod}
+                            onChange={e => setDefuzzificationMethod(e.target.value as DefuzzificationMethod)}
+                            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                        >
+                            {DEFUZZIFICATION_METHODS.map(method => (
+                                <option key={method} value={method}>{t(METHOD_LABELS[method])}</option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent>
+                <div className="grid md:grid-cols-2 gap-4">
+                    <CurvePanel
+                        title={t({ es: 'Dosis de coagulante', en: 'Coagulant dose' })}
+                        unit="mg/L"
+                        curve={fuzzyOutputs.aggregatedOutputs.dose}
+                        value={fuzzyOutputs.coagulantDose}
+                        interval={fuzzyOutputs.outputIntervals.dose}
+                        color="#a855f7"
+                        gradientId="doseAggregate"
+                    />
+                    <CurvePanel
+                        title={t({ es: 'Tiempo de floculación', en: 'Flocculation time' })}
+                        unit="min"
+                        curve={fuzzyOutputs.aggregatedOutputs.time}
+                        value={fuzzyOutputs.flocculationTime}
+                        interval={fuzzyOutputs.outputIntervals.time}
+                        color="#f97316"
+                        gradientId="timeAggregate"
+                    />
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
+
+// Componente auxiliar: curva agregada de una salida
+interface CurvePanelProps {
+    title: string
+    unit: string
+    curve: OutputCurvePoint[]
+    value: number
+    interval: OutputInterval
+    color: string
+    gradientId: string
+}
+
+function CurvePanel({ title, unit, curve, value, interval, color, gradientId }: CurvePanelProps) {
+    const hasArea = curve.some(p => p.membership > 0)
+    const { t, formatNumber } = useI18n()
+
+    return (
+        <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <div className="flex items-baseline justify-between mb-1">
+                <span className="text-[10px] uppercase tracking-wide text-slate-400">{title}</span>
+                <span className="text-sm font-bold" style={{ color }}>
+                    {formatNumber(value, 1)} <span className="text-xs text-slate-500 font-normal">{unit}</span>
+                </span>
+            </div>
+            <div className="h-28">
+                {hasArea ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <AreaChart data={curve}>
+                            <defs>
+                                <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+                                    <stop offset="5%" stopColor={color} stopOpacity={0.5} />
+                                    <stop offset="95%" stopColor={color} stopOpacity={0.05} />
+                                </linearGradient>
+                            </defs>
+                            <XAxis
+                                dataKey="x"
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                            />
+                            <YAxis
+                                domain={[0, 1]}
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                width={24}
+                            />
+                            <Area
+                                type="linear"
+                                dataKey="membership"
+                                stroke={color}
+                                strokeWidth={1.5}
+                                fill={`url(#${gradientId})`}
+                                isAnimationActive={false}
+                            />
+                            {interval.max > interval.min && (
+                                <ReferenceArea x1={interval.min} x2={interval.max} fill="#e2e8f0" fillOpacity={0.08} />
+                            )}
+                            <ReferenceLine x={value} stroke="#e2e8f0" strokeDasharray="3 3" />
+                        </AreaChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <div className="h-full flex items-center justify-center text-xs text-slate-500">
+                        {t({ es: 'Ninguna regla aporta área a esta salida', en: 'No rule contributes area to this output' })}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,315 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Papa from 'papaparse'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import {
+    AnfisEpoch,
+    AnfisErrors,
+    AnfisResult,
+    DEFAULT_ANFIS_OPTIONS,
+    PlantDataError,
+    PlantDataset,
+    parsePlantRecords,
+    trainAnfisIncrementally
+} from '@/lib/anfis'
+import { serializeFuzzySystem } from '@/lib/fuzzy-system'
+import type { LocalizedText } from '@/lib/i18n'
+import {
+    LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip,
+    Legend, ReferenceLine, ResponsiveContainer
+} from 'recharts'
+import { AlertTriangle, Brain, Download, Play, Upload } from 'lucide-react'
+
+// Mensaje de un error en cada idioma (los de otras fuentes se muestran tal cual)
+const describeError = (error: unknown): LocalizedText => {
+    if (error instanceof PlantDataError) return error.detail
+    const message = error instanceof Error ? error.message : String(error)
+    return { es: message, en: message }
+}
+
+/**
+ * AnfisTraining - Aprendizaje del controlador con datos históricos
+ *
+ * Carga un CSV de jar-tests y operación (turbidez cruda, pH, temperatura,
+ * dosis aplicada y turbidez decantada), ajusta funciones de membresía y
+ * consecuentes TSK con el aprendizaje híbrido de ANFIS y muestra el error
+ * de entrenamiento y validación época a época. El controlador ajustado
+ * puede promoverse para sustituir al de referencia.
+ */
+export function AnfisTraining() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const promoteFuzzySystem = useWaterStore(state => state.promoteFuzzySystem)
+    const { t, formatNumber } = useI18n()
+
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const [dataset, setDataset] = useState<(PlantDataset & { fileName: string }) | null>(null)
+    const [epochs, setEpochs] = useState(DEFAULT_ANFIS_OPTIONS.epochs)
+    const [maxSettledTurbidity, setMaxSettledTurbidity] = useState(DEFAULT_ANFIS_OPTIONS.maxSettledTurbidity)
+    const [history, setHistory] = useState<AnfisEpoch[]>([])
+    const [result, setResult] = useState<AnfisResult | null>(null)
+    const [trainedFrom, setTrainedFrom] = useState(fuzzySystem)
+    const [isTraining, setIsTraining] = useState(false)
+    const [promoted, setPromoted] = useState(false)
+    const [error, setError] = useState<LocalizedText | null>(null)
+
+    // Detener el entrenamiento si se desmonta el panel
+    useEffect(() => () => {
+        if (timerRef.current) clearTimeout(timerRef.current)
+    }, [])
+
+    const loadFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+        Papa.parse<Record<string, unknown>>(file, {
+            header: true,
+            dynamicTyping: true,
+            skipEmptyLines: true,
+            complete: results => {
+                try {
+                    setDataset({ ...parsePlantRecords(results.data), fileName: file.name })
+                    setError(null)
+                } catch (parseError) {
+                    setDataset(null)
+                    setError(describeError(parseError))
+                }
+            },
+            error: parseError => setError({
+                es: `No se pudo leer el CSV: ${parseError.message}`,
+                en: `The CSV could not be read: ${parseError.message}`
+            })
+        })
+    }
+
+    // Una época por tic para que la gráfica avance sin bloquear la interfaz
+    const startTraining = () => {
+        if (!dataset) return
+        const trainer = trainAnfisIncrementally(fuzzySystem, dataset.records, { epochs, maxSettledTurbidity })
+        setHistory([])
+        setResult(null)
+        setError(null)
+        setPromoted(false)
+        setTrainedFrom(fuzzySystem)
+        setIsTraining(true)
+
+        const tick = () => {
+            try {
+                const step = trainer.next()
+                if (step.done) {
+                    setResult(step.value)
+                    setIsTraining(false)
+                    return
+                }
+                setHistory(previous => [...previous, step.value])
+                timerRef.current = setTimeout(tick, 0)
+            } catch (trainingError) {
+                setError(describeError(trainingError))
+                setIsTraining(false)
+            }
+        }
+        timerRef.current = setTimeout(tick, 0)
+    }
+
+    const promote = () => {
+        if (!result) return
+        promoteFuzzySystem(result.system)
+        setPromoted(true)
+    }
+
+    const download = () => {
+        if (!result) return
+        const blob = new Blob([serializeFuzzySystem(result.system)], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = 'aquafuzzy-controlador-anfis.json'
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const isStale = result !== null && !promoted && trainedFrom !== fuzzySystem
+
+    return (
+        <div className="space-y-4">
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={loadFile}
+                className="hidden"
+            />
+            <div className="flex flex-wrap items-end gap-3">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="gap-2 h-8"
+                    disabled={isTraining}
+                >
+                    <Upload className="w-3 h-3 text-cyan-400" />
+                    {t({ es: 'Cargar CSV', en: 'Load CSV' })}
+                </Button>
+                <label className="flex flex-col gap-1">
+                    <span className="text-[10px] uppercase tracking-wide text-slate-500">{t({ es: 'Épocas', en: 'Epochs' })}</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={200}
+                        value={epochs}
+                        onChange={e => setEpochs(Math.min(200, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+                        className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                    />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-[10px] uppercase tracking-wide text-slate-500">{t({ es: 'Decantada máx. (NTU)', en: 'Max. settled (NTU)' })}</span>
+                    <input
+                        type="number"
+                        min={0.1}
+                        step={0.5}
+                        value={maxSettledTurbidity}
+                        onChange={e => setMaxSettledTurbidity(Math.max(0.1, Number(e.target.value) || 0.1))}
+                        className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                    />
+                </label>
+                <Button size="sm" onClick={startTraining} className="gap-2 h-8" disabled={!dataset || isTraining}>
+                    <Play className="w-3 h-3" />
+                    {isTraining
+                        ? `${t({ es: 'Entrenando…', en: 'Training…' })} ${history.length}/${epochs}`
+                        : t({ es: 'Entrenar', en: 'Train' })}
+                </Button>
+                {isStale && (
+                    <span className="text-xs text-yellow-400">
+                        {t({ es: 'El controlador cambió desde el entrenamiento', en: 'The controller changed since training' })}
+                    </span>
+                )}
+            </div>
+
+            {dataset ? (
+                <p className="text-xs text-slate-400">
+                    {dataset.fileName}: {dataset.records.length} {t({ es: 'registros', en: 'records' })}
+                    {dataset.skippedRows > 0 && ` (${dataset.skippedRows} ${t({
+                        es: 'filas descartadas por valores vacíos o no numéricos',
+                        en: 'rows discarded because of empty or non-numeric values'
+                    })})`}
+                </p>
+            ) : (
+                <p className="text-xs text-slate-500">
+                    {t({
+                        es: 'CSV con cabecera y columnas turbidity, ph, temperature, dose y settled_turbidity (alkalinity, conductivity, color y flow_rate opcionales). La dosis debe estar en mg/L del coagulante activo.',
+                        en: 'CSV with a header and columns turbidity, ph, temperature, dose and settled_turbidity (alkalinity, conductivity, color and flow_rate optional). The dose must be in mg/L of the active coagulant.'
+                    })}
+                </p>
+            )}
+
+            {error && (
+                <div className="flex items-start gap-2 p-2 rounded bg-red-500/10 border border-red-500/30 text-xs text-red-300">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    {t(error)}
+                </div>
+            )}
+
+            {history.length > 0 && (
+                <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={history}>
+                            <XAxis dataKey="epoch" stroke="#475569" fontSize={10} tickLine={false} axisLine={false} />
+                            <YAxis stroke="#475569" fontSize={10} tickLine={false} axisLine={false} width={40} />
+                            <RechartsTooltip
+                                contentStyle={{
+                                    backgroundColor: '#1e293b',
+                                    border: '1px solid #334155',
+                                    borderRadius: '8px',
+                                    fontSize: '12px'
+                                }}
+                                labelFormatter={(value: number) => `${t({ es: 'Época', en: 'Epoch' })} ${value}`}
+                                formatter={(value: number, name: string) => [`${formatNumber(value)} mg/L`, name]}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '11px' }} />
+                            {result && <ReferenceLine x={result.bestEpoch} stroke="#e2e8f0" strokeDasharray="3 3" />}
+                            <Line type="monotone" dataKey="trainingRmse" name={t({ es: 'RMSE entrenamiento', en: 'Training RMSE' })} stroke="#06b6d4" strokeWidth={2} dot={false} isAnimationActive={false} />
+                            <Line type="monotone" dataKey="validationRmse" name={t({ es: 'RMSE validación', en: 'Validation RMSE' })} stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            {result && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <ErrorItem label={t({ es: 'RMSE entrenamiento', en: 'Training RMSE' })} before={result.initial.trainingRmse} after={result.final.trainingRmse} />
+                        <ErrorItem label={t({ es: 'RMSE validación', en: 'Validation RMSE' })} before={result.initial.validationRmse} after={result.final.validationRmse} />
+                        <ErrorItem label={t({ es: 'MAE entrenamiento', en: 'Training MAE' })} before={result.initial.trainingMae} after={result.final.trainingMae} />
+                        <ErrorItem label={t({ es: 'MAE validación', en: 'Validation MAE' })} before={result.initial.validationMae} after={result.final.validationMae} />
+                    </div>
+                    <p className="text-[10px] text-slate-500">
+                        {t({ es: 'Mejor época', en: 'Best epoch' })} {result.bestEpoch}
+                        {' · '}{result.trainingCount} {t({ es: 'registros de entrenamiento', en: 'training records' })},
+                        {' '}{result.validationCount} {t({ es: 'de validación', en: 'validation' })}
+                        {' · '}{result.excludedCount} {t({ es: 'excluidos por turbidez decantada', en: 'excluded for settled turbidity' })}
+                        {' '}&gt; {formatNumber(maxSettledTurbidity, 1)} NTU
+                    </p>
+                    <UncoveredWarning errors={result.final} />
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Button size="sm" onClick={promote} className="gap-2 h-8" disabled={promoted}>
+                            <Brain className="w-3 h-3" />
+                            {promoted
+                                ? t({ es: 'Promovido', en: 'Promoted' })
+                                : t({ es: 'Promover controlador ajustado', en: 'Promote tuned controller' })}
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={download} className="gap-2 h-8">
+                            <Download className="w-3 h-3 text-cyan-400" />
+                            {t({ es: 'Descargar JSON', en: 'Download JSON' })}
+                        </Button>
+                        <span className="text-[10px] text-slate-500">
+                            {t({
+                                es: 'Al promoverlo pasa a ser el controlador activo (modo TSK) y el de referencia de "Restaurar"',
+                                en: 'Once promoted it becomes the active controller (TSK mode) and the reference for "Restore"'
+                            })}
+                        </span>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+// Componente auxiliar: error antes y después del entrenamiento
+interface ErrorItemProps {
+    label: string
+    before: number
+    after: number
+}
+
+function ErrorItem({ label, before, after }: ErrorItemProps) {
+    const improved = after <= before
+    const { t, formatNumber } = useI18n()
+    return (
+        <div className={`p-3 rounded-lg border ${improved ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-red-500/5 border-red-500/30'}`}>
+            <div className="text-[10px] text-slate-500">{label}</div>
+            <div className={`text-lg font-bold ${improved ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatNumber(after)} <span className="text-xs font-normal">mg/L</span>
+            </div>
+            <div className="text-[10px] text-slate-500">{t({ es: 'antes', en: 'before' })} {formatNumber(before)}</div>
+        </div>
+    )
+}
+
+// Componente auxiliar: aviso de registros sin ninguna regla activa
+function UncoveredWarning({ errors }: { errors: AnfisErrors }) {
+    const { t } = useI18n()
+    if (errors.uncoveredCount === 0) return null
+    return (
+        <div className="flex items-center gap-2 text-xs text-yellow-400">
+            <AlertTriangle className="w-3 h-3" />
+            {errors.uncoveredCount} {t({
+                es: 'registros no activan ninguna regla (el controlador da dosis 0 y pesan mucho en el RMSE). Revisa la cobertura en Análisis de reglas.',
+                en: 'records fire no rule (the controller gives dose 0 and they weigh heavily on the RMSE). Check the coverage in Rule analysis.'
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ControlMode, TRIM_LIMITS } from '@/lib/feedback-control'
+import { CONTROLLERS } from '@/lib/controllers'
+import { LocalizedText } from '@/lib/i18n'
+import {
+    ComposedChart, Line, Area, XAxis, YAxis, Tooltip as RechartsTooltip,
+    ReferenceLine, ResponsiveContainer, Legend
+} from 'recharts'
+import { Crosshair } from 'lucide-react'
+
+/**
+ * ClosedLoopControl - Control en lazo cerrado con la turbidez decantada
+ *
+ * Cambia entre lazo abierto (dosis del controlador difuso) y lazo cerrado
+ * (dosis corregida por la capa de realimentación), fija la consigna de
+ * turbidez decantada y muestra el error de seguimiento y las dosis
+ * prealimentada y aplicada en tiempo de proceso.
+ */
+
+const MODE_LABELS: Record<ControlMode, LocalizedText> = {
+    open: { es: 'Lazo abierto', en: 'Open loop' },
+    closed: { es: 'Lazo cerrado', en: 'Closed loop' }
+}
+
+export function ClosedLoopControl() {
+    const controlMode = useWaterStore(state => state.controlMode)
+    const controllerId = useWaterStore(state => state.controllerId)
+    const settledSetpoint = useWaterStore(state => state.settledSetpoint)
+    const trim = useWaterStore(state => state.feedback.trim)
+    const plantHistory = useWaterStore(state => state.plantHistory)
+    const setControlMode = useWaterStore(state => state.setControlMode)
+    const setSettledSetpoint = useWaterStore(state => state.setSettledSetpoint)
+    const { t, formatNumber } = useI18n()
+
+    const latest = plantHistory[plantHistory.length - 1]
+    // Un controlador que ya se realimenta (PID) no admite la corrección: dos lazos sobre el mismo error
+    const feedbackController = CONTROLLERS[controllerId].usesFeedback
+    const mode: ControlMode = feedbackController ? 'open' : controlMode
+    const chartData = plantHistory.map(point => ({
+        hours: point.time / 60,
+        error: point.trackingError,
+        feedForward: point.feedForwardDose,
+        applied: point.appliedDose
+    }))
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                    <Crosshair className="w-4 h-4 text-emerald-400" />
+                    {t({ es: 'Control en Lazo Cerrado', en: 'Closed-Loop Control' })}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-3">
+                    <div className="flex rounded-md border border-slate-700 overflow-hidden">
+                        {(Object.keys(MODE_LABELS) as ControlMode[]).map(option => (
+                            <Button
+                                key={option}
+                                variant={mode === option ? 'default' : 'ghost'}
+                                size="sm"
+                                onClick={() => setControlMode(option)}
+                                disabled={feedbackController}
+                                className="h-8 rounded-none text-xs"
+                            >
+                                {t(MODE_LABELS[option])}
+                            </Button>
+                        ))}
+                    </div>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-[10px] uppercase tracking-wide text-slate-500">
+                            {t({ es: 'Consigna decantada (NTU)', en: 'Settled setpoint (NTU)' })}
+                        </span>
+                        <input
+                            type="number"
+                            min={0.5}
+                            max={50}
+                            step={0.5}
+                            value={settledSetpoint}
+                            onChange={e => setSettledSetpoint(Number(e.target.value) || 0)}
+                            className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                        />
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <StatItem
+                        label={t({ es: 'Error de seguimiento', en: 'Tracking error' })}
+                        value={latest ? `${latest.trackingError > 0 ? '+' : ''}${formatNumber(latest.trackingError, 2)} NTU` : '—'}
+                    />
+                    <StatItem
+                        label={t({ es: 'Dosis prealimentada', en: 'Feed-forward dose' })}
+                        value={latest ? `${formatNumber(latest.feedForwardDose, 1)} mg/L` : '—'}
+                    />
+                    <StatItem
+                        label={t({ es: 'Dosis aplicada', en: 'Applied dose' })}
+                        value={latest ? `${formatNumber(latest.appliedDose, 1)} mg/L` : '—'}
+                    />
+                    <StatItem
+                        label={t({ es: 'Corrección', en: 'Trim' })}
+                        value={`${trim > 0 ? '+' : ''}${formatNumber(trim * 100, 0)} %`}
+                        saturated={mode === 'closed' && (trim <= TRIM_LIMITS[0] || trim >= TRIM_LIMITS[1])}
+                    />
+                </div>
+
+                {/* Error de seguimiento y dosis en tiempo de proceso */}
+                <div className="h-44">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={chartData}>
+                            <XAxis
+                                dataKey="hours"
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                tickFormatter={(value: number) => `${formatNumber(value, 1)} h`}
+                            />
+                            <YAxis
+                                yAxisId="error"
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                width={32}
+                            />
+                            <YAxis
+                                yAxisId="dose"
+                                orientation="right"
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                width={32}
+                            />
+                            <RechartsTooltip
+                                contentStyle={{
+                                    backgroundColor: '#1e293b',
+                                    border: '1px solid #334155',
+                                    borderRadius: '8px',
+                                    fontSize: '12px'
+                                }}
+                                labelFormatter={(value: number) => `t = ${formatNumber(value, 1)} h`}
+                                formatter={(value: number, name: string, item: { dataKey?: unknown }) => [
+                                    item.dataKey === 'error' ? `${formatNumber(value, 2)} NTU` : `${formatNumber(value, 1)} mg/L`,
+                                    name
+                                ]}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '10px' }} />
+                            <ReferenceLine yAxisId="error" y={0} stroke="#334155" />
+                            <Area
+                                yAxisId="error"
+                                type="monotone"
+                                dataKey="error"
+                                name={t({ es: 'Error (NTU)', en: 'Error (NTU)' })}
+                                stroke="#f87171"
+                                fill="#f87171"
+                                fillOpacity={0.15}
+                                strokeWidth={2}
+                                isAnimationActive={false}
+                            />
+                            <Line
+                                yAxisId="dose"
+                                type="stepAfter"
+                                dataKey="feedForward"
+                                name={t({ es: 'Dosis prealimentada', en: 'Feed-forward dose' })}
+                                stroke="#94a3b8"
+                                strokeDasharray="4 2"
+                                strokeWidth={1.5}
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                            <Line
+                                yAxisId="dose"
+                                type="stepAfter"
+                                dataKey="applied"
+                                name={t({ es: 'Dosis aplicada', en: 'Applied dose' })}
+                                stroke="#a855f7"
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+
+                <p className="text-[10px] text-slate-500">
+                    {t({
+                        es: 'Error = turbidez decantada − consigna. En lazo cerrado una capa difusa tipo PI corrige la dosis del controlador (del −50 % al +50 %) según el error y su variación; la corrección es lenta porque el decantador tarda horas en responder. Si el error se debe al agua fría o al pH, más dosis no lo corrige y la corrección se queda en el límite.',
+                        en: 'Error = settled turbidity − setpoint. In closed loop a PI-type fuzzy layer trims the controller dose (from −50% to +50%) based on the error and its rate of change; the correction is slow because the settling tank takes hours to respond. If the error comes from cold water or pH, more dose does not fix it and the trim stays at its limit.'
+                    })}
+                </p>
+                {feedbackController && (
+                    <p className="text-[10px] text-yellow-400/80">
+                        {t({
+                            es: `${t(CONTROLLERS[controllerId].name)} ya corrige la dosis con la turbidez decantada: la corrección en lazo cerrado queda desactivada para no tener dos lazos sobre el mismo error.`,
+                            en: `${t(CONTROLLERS[controllerId].name)} already corrects the dose from settled turbidity: the closed-loop trim is disabled so two loops do not act on the same error.`
+                        })}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
+
+// Componente auxiliar: indicador del lazo
+interface StatItemProps {
+    label: string
+    value: string
+    saturated?: boolean
+}
+
+function StatItem({ label, value, saturated = false }: StatItemProps) {
+    return (
+        <div className={`p-3 rounded-lg border ${saturated ? 'bg-yellow-500/5 border-yellow-500/30' : 'bg-slate-800/50 border-slate-700/50'}`}>
+            <div className="text-[10px] text-slate-500">{label}</div>
+            <div className={`text-lg font-bold ${saturated ? 'text-yellow-400' : 'text-slate-200'}`}>{value}</div>
+        </div>
+    )
+}
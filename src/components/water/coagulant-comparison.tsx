@@ -0,0 +1,155 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useWaterStore, selectWaterInputs } from '@/stores/water-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { runFuzzyInference, FuzzyOutputs } from '@/lib/fuzzy-logic'
+import { COAGULANTS, Coagulant, MIN_RESIDUAL_ALKALINITY, applyCoagulant } from '@/lib/coagulants'
+import { useI18n } from '@/stores/locale-store'
+import { FlaskConical, AlertTriangle } from 'lucide-react'
+
+/**
+ * CoagulantComparison - Comparación de coagulantes para el agua actual
+ *
+ * Ejecuta el controlador con cada producto del catálogo y muestra dosis,
+ * costo, ventana de pH y alcalinidad residual. Se resalta el producto más
+ * barato de entre los que coagulan con el pH actual.
+ */
+export function CoagulantComparison() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const inputs = useWaterStore(useShallow(selectWaterInputs))
+    const setCoagulant = useWaterStore(state => state.setCoagulant)
+    const coagulantIssues = useWaterStore(state => state.coagulantIssues)
+    const { t } = useI18n()
+
+    const activeId = fuzzySystem.coagulant ?? 'alum'
+
+    const rows = useMemo(() => COAGULANTS.map(coagulant => ({
+        coagulant,
+        outputs: runFuzzyInference(inputs, applyCoagulant(fuzzySystem, coagulant.id))
+    })), [fuzzySystem, inputs])
+
+    const cheapestId = rows
+        .filter(row => row.outputs.coagulant.inPhWindow)
+        .reduce<{ id: string; cost: number } | null>((best, row) =>
+            !best || row.outputs.operationalCost < best.cost
+                ? { id: row.coagulant.id, cost: row.outputs.operationalCost }
+                : best, null)?.id
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                    <FlaskConical className="w-4 h-4 text-purple-400" />
+                    {t({ es: 'Comparación de Coagulantes', en: 'Coagulant Comparison' })}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+                {rows.map(({ coagulant, outputs }) => (
+                    <CoagulantRow
+                        key={coagulant.id}
+                        coagulant={coagulant}
+                        outputs={outputs}
+                        active={coagulant.id === activeId}
+                        cheapest={coagulant.id === cheapestId}
+                        onSelect={() => setCoagulant(coagulant.id)}
+                    />
+                ))}
+                {coagulantIssues.length > 0 && (
+                    <div className="p-2 rounded-lg bg-red-500/5 border border-red-500/40 text-xs">
+                        <div className="flex items-center gap-1 text-red-400 font-medium mb-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            {t({ es: 'No se pudo cambiar el coagulante', en: 'The coagulant could not be changed' })}
+                        </div>
+                        <ul className="space-y-0.5">
+                            {coagulantIssues.map((issue, index) => (
+                                <li key={index}>
+                                    <span className="font-mono text-slate-400">{issue.path}</span>
+                                    <span className="text-slate-300">: {t(issue.message)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <p className="text-[10px] text-slate-500">
+                    {t({
+                        es: 'Costo total = costo de proceso de las reglas + producto dosificado · alcalinidad residual mínima',
+                        en: 'Total cost = process cost of the rules + dosed product · minimum residual alkalinity'
+                    })} {MIN_RESIDUAL_ALKALINITY} mg/L CaCO₃
+                </p>
+            </CardContent>
+        </Card>
+    )
+}
+
+// Componente auxiliar: fila de un coagulante
+interface CoagulantRowProps {
+    coagulant: Coagulant
+    outputs: FuzzyOutputs
+    active: boolean
+    cheapest: boolean
+    onSelect: () => void
+}
+
+function CoagulantRow({ coagulant, outputs, active, cheapest, onSelect }: CoagulantRowProps) {
+    const usage = outputs.coagulant
+    const lowAlkalinity = usage.residualAlkalinity < MIN_RESIDUAL_ALKALINITY
+    const { t, formatNumber, formatCurrency } = useI18n()
+
+    return (
+        <div className={`p-3 rounded-lg border ${active
+            ? 'bg-cyan-500/5 border-cyan-500/40'
+            : cheapest
+                ? 'bg-emerald-500/5 border-emerald-500/40'
+                : 'bg-slate-800/50 border-slate-700/50'
+            }`}>
+            <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="min-w-0">
+                    <span className="text-xs font-medium text-slate-300">{t(coagulant.name)}</span>
+                    <span className="text-[10px] text-slate-500 ml-2">{coagulant.formula}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    {cheapest && <span className="text-[10px] text-emerald-400">{t({ es: 'MÁS ECONÓMICO', en: 'CHEAPEST' })}</span>}
+                    {active ? (
+                        <span className="text-[10px] text-cyan-400">{t({ es: 'EN USO', en: 'IN USE' })}</span>
+                    ) : (
+                        <Button variant="ghost" size="sm" onClick={onSelect} className="text-xs h-6 px-2">
+                            {t({ es: 'Usar', en: 'Use' })}
+                        </Button>
+                    )}
+                </div>
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-xs">
+                <div>
+                    <div className="text-[10px] text-slate-500">{t({ es: 'Dosis', en: 'Dose' })}</div>
+                    <div className="font-bold text-purple-400">{formatNumber(outputs.coagulantDose, 1)} mg/L</div>
+                </div>
+                <div>
+                    <div className="text-[10px] text-slate-500">{t({ es: 'Producto', en: 'Product' })}</div>
+                    <div className="font-bold text-slate-200">{formatCurrency(usage.chemicalCost, 4)}/m³</div>
+                </div>
+                <div>
+                    <div className="text-[10px] text-slate-500">{t({ es: 'Costo total', en: 'Total cost' })}</div>
+                    <div className="font-bold text-emerald-400">{formatCurrency(outputs.operationalCost, 3)}/m³</div>
+                </div>
+                <div>
+                    <div className="text-[10px] text-slate-500">
+                        pH {formatNumber(coagulant.phWindow[0], 1)}–{formatNumber(coagulant.phWindow[1], 1)}
+                    </div>
+                    <div className={`font-bold ${usage.inPhWindow ? 'text-emerald-400' : 'text-red-400'}`}>
+                        {usage.inPhWindow
+                            ? t({ es: 'En ventana', en: 'In window' })
+                            : t({ es: 'Fuera', en: 'Outside' })}
+                    </div>
+                </div>
+            </div>
+            <div className={`mt-2 text-[10px] flex items-center gap-1 ${lowAlkalinity ? 'text-yellow-400' : 'text-slate-500'}`}>
+                {lowAlkalinity && <AlertTriangle className="w-3 h-3" />}
+                {t({ es: 'Alcalinidad: consume', en: 'Alkalinity: consumes' })} {formatNumber(usage.alkalinityConsumed, 1)} ·
+                {' '}{t({ es: 'residual', en: 'residual' })} {formatNumber(usage.residualAlkalinity, 1)} mg/L CaCO₃
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import {
+    benchmarkCompiledController,
+    CompiledBenchmark,
+    CompiledController,
+    compileFuzzySystemIncrementally,
+    CompilePresetId,
+    COMPILE_PRESETS,
+    compiledAxes
+} from '@/lib/compiled-controller'
+import { SurfaceOutputId, SURFACE_OUTPUTS } from '@/lib/control-surface'
+import { LocalizedText, variableLabel } from '@/lib/i18n'
+import { Cpu, Gauge, Play, Square } from 'lucide-react'
+
+/**
+ * CompiledControllerBenchmark - Controlador compilado en tabla de consulta
+ *
+ * Compila el controlador actual en una tabla N-D con la malla elegida,
+ * mide su desviación respecto a la inferencia exacta en puntos de Halton y
+ * compara el tiempo de evaluación de ambas. El peor punto de cada salida
+ * puede cargarse en el simulador.
+ */
+
+const PRESET_LABELS: Record<CompilePresetId, LocalizedText> = {
+    coarse: { es: 'Gruesa', en: 'Coarse' },
+    medium: { es: 'Media', en: 'Medium' },
+    fine: { es: 'Fina', en: 'Fine' }
+}
+
+const OUTPUT_LABELS: Record<SurfaceOutputId, { label: LocalizedText; unit: string; decimals: number }> = {
+    coagulantDose: { label: { es: 'Dosis de coagulante', en: 'Coagulant dose' }, unit: 'mg/L', decimals: 2 },
+    flocculationTime: { label: { es: 'Tiempo de floculación', en: 'Flocculation time' }, unit: 'min', decimals: 2 },
+    operationalCost: { label: { es: 'Costo operativo', en: 'Operating cost' }, unit: '$/m³', decimals: 4 }
+}
+
+/** Muestras de la comparación con la inferencia exacta */
+const BENCHMARK_SAMPLES = 1000
+
+export function CompiledControllerBenchmark() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const setParameters = useWaterStore(state => state.setParameters)
+    const { locale, t, formatNumber } = useI18n()
+
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const [preset, setPreset] = useState<CompilePresetId>('coarse')
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+    const [controller, setController] = useState<CompiledController | null>(null)
+    const [compileMs, setCompileMs] = useState(0)
+    const [benchmark, setBenchmark] = useState<CompiledBenchmark | null>(null)
+
+    // Detener la compilación si se desmonta el panel
+    useEffect(() => () => {
+        if (timerRef.current) clearTimeout(timerRef.current)
+    }, [])
+
+    const resolution = COMPILE_PRESETS[preset]
+    const axes = compiledAxes(fuzzySystem, resolution)
+    const nodeCount = axes.reduce((product, axis) => product * axis.nodes.length, 1)
+    const isCompiling = progress !== null
+    const isStale = controller !== null && controller.system !== fuzzySystem
+
+    // Un bloque de nodos por tic para que la barra avance sin bloquear la interfaz
+    const compile = () => {
+        const compiler = compileFuzzySystemIncrementally(fuzzySystem, resolution)
+        const start = performance.now()
+        setController(null)
+        setBenchmark(null)
+        setProgress({ done: 0, total: nodeCount })
+
+        const tick = () => {
+            const step = compiler.next()
+            if (step.done) {
+                setCompileMs(performance.now() - start)
+                setController(step.value)
+                setBenchmark(benchmarkCompiledController(step.value, BENCHMARK_SAMPLES))
+                setProgress(null)
+                return
+            }
+            setProgress(step.value)
+            timerRef.current = setTimeout(tick, 0)
+        }
+        timerRef.current = setTimeout(tick, 0)
+    }
+
+    const cancel = () => {
+        if (timerRef.current) clearTimeout(timerRef.current)
+        setProgress(null)
+    }
+
+    // µs por evaluación
+    const perCall = (totalMs: number, count: number) => formatNumber(totalMs * 1000 / Math.max(1, count), 1)
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="flex flex-col gap-1">
+                    <span className="text-[10px] uppercase tracking-wide text-slate-500">{t({ es: 'Malla', en: 'Grid' })}</span>
+                    <select
+                        value={preset}
+                        onChange={e => setPreset(e.target.value as CompilePresetId)}
+                        disabled={isCompiling}
+                        className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                    >
+                        {(Object.keys(COMPILE_PRESETS) as CompilePresetId[]).map(id => (
+                            <option key={id} value={id}>{t(PRESET_LABELS[id])}</option>
+                        ))}
+                    </select>
+                </label>
+                {isCompiling ? (
+                    <Button size="sm" variant="outline" onClick={cancel} className="gap-2 h-8">
+                        <Square className="w-3 h-3" />
+                        {t({ es: 'Cancelar', en: 'Cancel' })}
+                    </Button>
+                ) : (
+                    <Button size="sm" onClick={compile} className="gap-2 h-8">
+                        <Play className="w-3 h-3" />
+                        {t({ es: 'Compilar', en: 'Compile' })}
+                    </Button>
+                )}
+                {isStale && (
+                    <span className="text-xs text-yellow-400">
+                        {t({ es: 'El controlador cambió desde la compilación', en: 'The controller changed since compilation' })}
+                    </span>
+                )}
+            </div>
+
+            <p className="text-[10px] text-slate-500">
+                {axes.map(axis => `${variableLabel(axis.id, locale)} ${axis.nodes.length}`).join(' × ')}
+                {' = '}{formatNumber(nodeCount, 0)} {t({ es: 'nodos (inferencias exactas)', en: 'nodes (exact inferences)' })}
+                {' · '}{formatNumber(nodeCount * SURFACE_OUTPUTS.length * 4 / 1024, 0)} KB
+            </p>
+
+            {progress && (
+                <div className="space-y-1">
+                    <Progress value={(progress.done / progress.total) * 100} className="h-1.5" />
+                    <p className="text-[10px] text-slate-500">
+                        {t({ es: 'Compilando', en: 'Compiling' })} {formatNumber(progress.done, 0)}/{formatNumber(progress.total, 0)}
+                    </p>
+                </div>
+            )}
+
+            {!controller && !progress && (
+                <p className="text-xs text-slate-500">
+                    {t({
+                        es: 'Evalúa el controlador en los nodos de la malla y después interpola entre ellos. Compara el resultado con la inferencia exacta antes de usar la tabla.',
+                        en: 'Evaluates the controller at the grid nodes and then interpolates between them. Compare the result with exact inference before using the table.'
+                    })}
+                </p>
+            )}
+
+            {controller && benchmark && (
+                <>
+                    {/* Rendimiento */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <StatItem
+                            label={t({ es: 'Compilación', en: 'Compilation' })}
+                            value={`${formatNumber(compileMs / 1000, 1)} s`}
+                        />
+                        <StatItem
+                            label={t({ es: 'Inferencia exacta', en: 'Exact inference' })}
+                            value={`${perCall(benchmark.exactMs, benchmark.sampleCount)} µs`}
+                        />
+                        <StatItem
+                            label={t({ es: 'Tabla compilada', en: 'Compiled table' })}
+                            value={`${perCall(benchmark.compiledMs, benchmark.sampleCount)} µs`}
+                        />
+                        <StatItem
+                            label={t({ es: 'Aceleración', en: 'Speedup' })}
+                            value={`×${formatNumber(benchmark.speedup, 0)}`}
+                            highlight
+                        />
+                    </div>
+
+                    {/* Desviación */}
+                    <div className="space-y-1">
+                        <h4 className="text-xs font-medium text-slate-300 flex items-center gap-2">
+                            <Gauge className="w-4 h-4 text-cyan-400" />
+                            {t({ es: 'Desviación respecto a la inferencia exacta', en: 'Deviation from exact inference' })}
+                        </h4>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-[10px] text-slate-500 text-left">
+                                    <th className="py-1 font-normal">{t({ es: 'Salida', en: 'Output' })}</th>
+                                    <th className="py-1 font-normal text-right">{t({ es: 'Media', en: 'Mean' })}</th>
+                                    <th className="py-1 font-normal text-right">{t({ es: 'Máxima', en: 'Maximum' })}</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {SURFACE_OUTPUTS.map(output => {
+                                    const { label, unit, decimals } = OUTPUT_LABELS[output]
+                                    const deviation = benchmark.deviation[output]
+                                    return (
+                                        <tr key={output} className="border-t border-slate-800 text-slate-300">
+                                            <td className="py-1">{t(label)}</td>
+                                            <td className="py-1 text-right">{formatNumber(deviation.mean, decimals)} {unit}</td>
+                                            <td className="py-1 text-right text-yellow-400">{formatNumber(deviation.max, decimals)} {unit}</td>
+                                            <td className="py-1 text-right">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    className="h-6 text-xs"
+                                                    onClick={() => setParameters(deviation.worst)}
+                                                    title={t({
+                                                        es: 'Cargar en el simulador el punto de máxima desviación',
+                                                        en: 'Load the point of maximum deviation into the simulator'
+                                                    })}
+                                                >
+                                                    {t({ es: 'Probar', en: 'Try' })}
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                        <p className="flex items-start gap-1 text-[10px] text-slate-500">
+                            <Cpu className="w-3 h-3 shrink-0" />
+                            {formatNumber(benchmark.sampleCount, 0)} {t({
+                                es: 'puntos de Halton. Las desviaciones grandes aparecen donde la salida exacta salta (una regla deja de dominar o ninguna se activa); una malla más fina las acota a celdas más pequeñas.',
+                                en: 'Halton points. Large deviations appear where the exact output jumps (a rule stops dominating or none fires); a finer grid confines them to smaller cells.'
+                            })}
+                        </p>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+// Componente auxiliar: indicador de rendimiento
+interface StatItemProps {
+    label: string
+    value: string
+    highlight?: boolean
+}
+
+function StatItem({ label, value, highlight = false }: StatItemProps) {
+    return (
+        <div className={`p-3 rounded-lg border ${highlight ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-slate-800/50 border-slate-700/50'}`}>
+            <div className="text-[10px] text-slate-500">{label}</div>
+            <div className={`text-lg font-bold ${highlight ? 'text-emerald-400' : 'text-slate-200'}`}>{value}</div>
+        </div>
+    )
+}
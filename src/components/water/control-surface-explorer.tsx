@@ -0,0 +1,351 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useWaterStore, selectWaterInputs } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import {
+    computeControlSurface,
+    computeSurfaceGradient,
+    ControlSurface,
+    SurfaceOutputId,
+    SURFACE_OUTPUTS
+} from '@/lib/control-surface'
+import { InputVariableId, INPUT_VARIABLE_IDS } from '@/lib/fuzzy-system'
+import { LocalizedText, variableLabel } from '@/lib/i18n'
+import {
+    LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip,
+    ReferenceLine, ResponsiveContainer
+} from 'recharts'
+import { Crosshair } from 'lucide-react'
+
+/**
+ * ControlSurfaceExplorer - Superficie de control y sensibilidad
+ *
+ * Mapa de calor de una salida del controlador sobre dos entradas elegidas,
+ * con las demás fijas. Las celdas tachadas son puntos donde no se activa
+ * ninguna regla. Al lado, las derivadas parciales a lo largo de cada eje por
+ * el punto de operación actual indican dónde la salida es más sensible.
+ */
+
+const OUTPUT_LABELS: Record<SurfaceOutputId, { label: LocalizedText; unit: string; decimals: number }> = {
+    coagulantDose: { label: { es: 'Dosis de coagulante', en: 'Coagulant dose' }, unit: 'mg/L', decimals: 1 },
+    flocculationTime: { label: { es: 'Tiempo de floculación', en: 'Flocculation time' }, unit: 'min', decimals: 0 },
+    operationalCost: { label: { es: 'Costo operativo', en: 'Operating cost' }, unit: '$/m³', decimals: 3 }
+}
+
+const RESOLUTION = 21
+
+// Escala de color secuencial (azul oscuro → cian → amarillo)
+const COLOR_STOPS: Array<[number, number, number]> = [
+    [30, 41, 99],
+    [8, 145, 178],
+    [52, 211, 153],
+    [250, 204, 21]
+]
+
+function colorFor(t: number): string {
+    const clamped = Math.min(1, Math.max(0, Number.isFinite(t) ? t : 0))
+    const scaled = clamped * (COLOR_STOPS.length - 1)
+    const index = Math.min(COLOR_STOPS.length - 2, Math.floor(scaled))
+    const f = scaled - index
+    const [r, g, b] = COLOR_STOPS[index].map((c, k) => Math.round(c + (COLOR_STOPS[index + 1][k] - c) * f))
+    return `rgb(${r}, ${g}, ${b})`
+}
+
+/** Índice del valor de la malla más cercano a `value` */
+function nearestIndex(values: number[], value: number): number {
+    return values.reduce((best, v, i) => (Math.abs(v - value) < Math.abs(values[best] - value) ? i : best), 0)
+}
+
+export function ControlSurfaceExplorer() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const current = useWaterStore(useShallow(selectWaterInputs))
+    const { locale, t, formatNumber } = useI18n()
+
+    const [output, setOutput] = useState<SurfaceOutputId>('coagulantDose')
+    const [xAxis, setXAxis] = useState<InputVariableId>('turbidity')
+    const [yAxis, setYAxis] = useState<InputVariableId>('ph')
+    // Valores fijos capturados del simulador (no siguen la simulación para no recalcular en cada paso)
+    const [fixed, setFixed] = useState(current)
+
+    const variableOf = (id: InputVariableId) => fuzzySystem.inputs.find(v => v.id === id)
+    const fixedVariables = INPUT_VARIABLE_IDS
+        .filter(id => id !== xAxis && id !== yAxis)
+        .flatMap(id => variableOf(id) ?? [])
+    const format = OUTPUT_LABELS[output]
+    const labelOf = (id: InputVariableId) => variableLabel(id, locale)
+
+    // Elegir como eje la entrada que ocupa el otro eje los intercambia
+    const chooseAxis = (axis: 'x' | 'y', id: InputVariableId) => {
+        if (axis === 'x') {
+            if (id === yAxis) setYAxis(xAxis)
+            setXAxis(id)
+        } else {
+            if (id === xAxis) setXAxis(yAxis)
+            setYAxis(id)
+        }
+    }
+
+    const surface = useMemo(
+        () => computeControlSurface(fuzzySystem, { xAxis, yAxis, fixed, resolution: RESOLUTION }),
+        [fuzzySystem, xAxis, yAxis, fixed]
+    )
+    const gradient = useMemo(() => computeSurfaceGradient(surface, output), [surface, output])
+
+    // Cortes por el punto de operación actual
+    const row = nearestIndex(surface.yValues, current[yAxis])
+    const column = nearestIndex(surface.xValues, current[xAxis])
+    const sensitivityX = surface.xValues.map((x, i) => ({ position: x, derivative: gradient.dx[row][i] }))
+    const sensitivityY = surface.yValues.map((y, j) => ({ position: y, derivative: gradient.dy[j][column] }))
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+                <SelectField
+                    label={t({ es: 'Salida', en: 'Output' })}
+                    value={output}
+                    options={SURFACE_OUTPUTS}
+                    labelOf={id => t(OUTPUT_LABELS[id].label)}
+                    onChange={setOutput}
+                />
+                <SelectField
+                    label={t({ es: 'Eje X', en: 'X axis' })}
+                    value={xAxis}
+                    options={INPUT_VARIABLE_IDS}
+                    labelOf={labelOf}
+                    onChange={id => chooseAxis('x', id)}
+                />
+                <SelectField
+                    label={t({ es: 'Eje Y', en: 'Y axis' })}
+                    value={yAxis}
+                    options={INPUT_VARIABLE_IDS}
+                    labelOf={labelOf}
+                    onChange={id => chooseAxis('y', id)}
+                />
+                {fixedVariables.map(variable => {
+                    const id = variable.id as InputVariableId
+                    return (
+                        <label key={id} className="flex flex-col gap-1">
+                            <span className="text-[10px] uppercase tracking-wide text-slate-500">
+                                {labelOf(id)} {t({ es: 'fija', en: 'fixed' })}: {formatNumber(fixed[id], 1)} {variable.unit}
+                            </span>
+                            <input
+                                type="range"
+                                min={variable.range[0]}
+                                max={variable.range[1]}
+                                step={(variable.range[1] - variable.range[0]) / 100}
+                                value={fixed[id]}
+                                onChange={e => setFixed({ ...fixed, [id]: Number(e.target.value) })}
+                                className="w-32 accent-cyan-500"
+                            />
+                        </label>
+                    )
+                })}
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 h-8 text-xs"
+                    onClick={() => setFixed(current)}
+                    title={t({ es: 'Tomar las entradas actuales del simulador', en: 'Take the current simulator inputs' })}
+                >
+                    <Crosshair className="w-3 h-3" />
+                    {t({ es: 'Usar valores actuales', en: 'Use current values' })}
+                </Button>
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-6">
+                {/* Mapa de calor */}
+                <div className="space-y-2">
+                    <SurfaceHeatmap
+                        surface={surface}
+                        output={output}
+                        marker={{ x: current[xAxis], y: current[yAxis] }}
+                        xLabel={labelOf(xAxis)}
+                        yLabel={labelOf(yAxis)}
+                    />
+                    <div className="flex items-center justify-between text-[10px] text-slate-500">
+                        <span>{formatNumber(surface.ranges[output].min, format.decimals)} {format.unit}</span>
+                        <div
+                            className="flex-1 h-2 mx-2 rounded"
+                            style={{ background: `linear-gradient(to right, ${[0, 1 / 3, 2 / 3, 1].map(colorFor).join(', ')})` }}
+                        />
+                        <span>{formatNumber(surface.ranges[output].max, format.decimals)} {format.unit}</span>
+                    </div>
+                    {surface.unfiredCount > 0 && (
+                        <p className="text-[10px] text-red-400">
+                            ✕ {surface.unfiredCount} {t({ es: 'de', en: 'of' })} {surface.xValues.length * surface.yValues.length} {t({
+                                es: 'celdas sin ninguna regla activa',
+                                en: 'cells without any active rule'
+                            })}
+                        </p>
+                    )}
+                </div>
+
+                {/* Sensibilidad */}
+                <div className="space-y-4">
+                    <SensitivityChart
+                        title={`∂${t(format.label).toLowerCase()}/∂${labelOf(xAxis).toLowerCase()}`}
+                        subtitle={`${t({ es: 'con', en: 'with' })} ${labelOf(yAxis)} = ${formatNumber(surface.yValues[row], 1)}`}
+                        data={sensitivityX}
+                        marker={current[xAxis]}
+                        unit={`${format.unit}/${variableOf(xAxis)?.unit ?? ''}`}
+                    />
+                    <SensitivityChart
+                        title={`∂${t(format.label).toLowerCase()}/∂${labelOf(yAxis).toLowerCase()}`}
+                        subtitle={`${t({ es: 'con', en: 'with' })} ${labelOf(xAxis)} = ${formatNumber(surface.xValues[column], 1)}`}
+                        data={sensitivityY}
+                        marker={current[yAxis]}
+                        unit={`${format.unit}/${variableOf(yAxis)?.unit ?? ''}`}
+                    />
+                </div>
+            </div>
+        </div>
+    )
+}
+
+// Componente auxiliar: mapa de calor en SVG
+interface SurfaceHeatmapProps {
+    surface: ControlSurface
+    output: SurfaceOutputId
+    marker: { x: number; y: number }
+    xLabel: string
+    yLabel: string
+}
+
+function SurfaceHeatmap({ surface, output, marker, xLabel, yLabel }: SurfaceHeatmapProps) {
+    const { xValues, yValues, cells, ranges } = surface
+    const { min, max } = ranges[output]
+    const span = max - min || 1
+    const size = 300
+    const cellWidth = size / xValues.length
+    const cellHeight = size / yValues.length
+    const toPixelX = (x: number) => ((x - xValues[0]) / (xValues[xValues.length - 1] - xValues[0])) * (size - cellWidth) + cellWidth / 2
+    const toPixelY = (y: number) => size - (((y - yValues[0]) / (yValues[yValues.length - 1] - yValues[0])) * (size - cellHeight) + cellHeight / 2)
+    const format = OUTPUT_LABELS[output]
+    const { t, formatNumber } = useI18n()
+    const unfiredNote = t({ es: ' (sin reglas activas)', en: ' (no active rules)' })
+
+    return (
+        <svg viewBox={`-40 -4 ${size + 48} ${size + 36}`} className="w-full max-w-md">
+            {cells.map((rowCells, j) => rowCells.map((cell, i) => {
+                const px = i * cellWidth
+                const py = size - (j + 1) * cellHeight
+                return (
+                    <g key={`${i}-${j}`}>
+                        <rect
+                            x={px}
+                            y={py}
+                            width={cellWidth + 0.5}
+                            height={cellHeight + 0.5}
+                            fill={colorFor((cell.outputs[output] - min) / span)}
+                        >
+                            <title>
+                                {`${xLabel} ${formatNumber(cell.x, 1)} · ${yLabel} ${formatNumber(cell.y, 1)} → ${formatNumber(cell.outputs[output], format.decimals)} ${format.unit}${cell.fired ? '' : unfiredNote}`}
+                            </title>
+                        </rect>
+                        {!cell.fired && (
+                            <path
+                                d={`M${px + 2},${py + 2} L${px + cellWidth - 2},${py + cellHeight - 2} M${px + cellWidth - 2},${py + 2} L${px + 2},${py + cellHeight - 2}`}
+                                stroke="#ef4444"
+                                strokeWidth={1.2}
+                                pointerEvents="none"
+                            />
+                        )}
+                    </g>
+                )
+            }))}
+
+            {/* Punto de operación actual */}
+            <circle cx={toPixelX(marker.x)} cy={toPixelY(marker.y)} r={5} fill="none" stroke="#f8fafc" strokeWidth={2} />
+
+            {/* Ejes */}
+            <text x={size / 2} y={size + 28} textAnchor="middle" fontSize={11} fill="#94a3b8">{xLabel}</text>
+            <text x={0} y={size + 14} fontSize={9} fill="#64748b">{xValues[0]}</text>
+            <text x={size} y={size + 14} textAnchor="end" fontSize={9} fill="#64748b">{xValues[xValues.length - 1]}</text>
+            <text x={-6} y={size} textAnchor="end" fontSize={9} fill="#64748b">{yValues[0]}</text>
+            <text x={-6} y={8} textAnchor="end" fontSize={9} fill="#64748b">{yValues[yValues.length - 1]}</text>
+            <text x={-28} y={size / 2} textAnchor="middle" fontSize={11} fill="#94a3b8" transform={`rotate(-90 -28 ${size / 2})`}>
+                {yLabel}
+            </text>
+        </svg>
+    )
+}
+
+// Componente auxiliar: derivada parcial a lo largo de un eje
+interface SensitivityChartProps {
+    title: string
+    subtitle: string
+    data: Array<{ position: number; derivative: number }>
+    marker: number
+    unit: string
+}
+
+function SensitivityChart({ title, subtitle, data, marker, unit }: SensitivityChartProps) {
+    const { t, formatNumber } = useI18n()
+
+    return (
+        <div>
+            <div className="flex items-baseline justify-between text-xs">
+                <span className="text-slate-300">{title}</span>
+                <span className="text-[10px] text-slate-500">{subtitle}</span>
+            </div>
+            <div className="h-28">
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data}>
+                        <XAxis
+                            dataKey="position"
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            stroke="#475569"
+                            fontSize={10}
+                            tickLine={false}
+                            axisLine={false}
+                        />
+                        <YAxis stroke="#475569" fontSize={10} tickLine={false} axisLine={false} width={40} />
+                        <RechartsTooltip
+                            contentStyle={{
+                                backgroundColor: '#1e293b',
+                                border: '1px solid #334155',
+                                borderRadius: '8px',
+                                fontSize: '12px'
+                            }}
+                            labelFormatter={(value: number) => formatNumber(value, 1)}
+                            formatter={(value: number) => [`${value.toPrecision(3)} ${unit}`, t({ es: 'Derivada', en: 'Derivative' })]}
+                        />
+                        <ReferenceLine y={0} stroke="#334155" />
+                        <ReferenceLine x={marker} stroke="#e2e8f0" strokeDasharray="3 3" />
+                        <Line type="linear" dataKey="derivative" stroke="#06b6d4" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    )
+}
+
+// Componente auxiliar: selector
+interface SelectFieldProps<T extends string> {
+    label: string
+    value: T
+    options: T[]
+    labelOf: (value: T) => string
+    onChange: (value: T) => void
+}
+
+function SelectField<T extends string>({ label, value, options, labelOf, onChange }: SelectFieldProps<T>) {
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-500">{label}</span>
+            <select
+                value={value}
+                onChange={e => onChange(e.target.value as T)}
+                className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+            >
+                {options.map(option => (
+                    <option key={option} value={option}>{labelOf(option)}</option>
+                ))}
+            </select>
+        </label>
+    )
+}
@@ -0,0 +1,265 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { ControllerId, CONTROLLERS, CONTROLLER_IDS } from '@/lib/controllers'
+import {
+    benchmarkControllersIncrementally,
+    ControllerRunResult,
+    DEFAULT_BENCHMARK_OPTIONS
+} from '@/lib/controller-benchmark'
+import { ALL_SCENARIOS } from '@/lib/scenarios'
+import { LocalizedText } from '@/lib/i18n'
+import {
+    LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip,
+    ReferenceLine, Legend, ResponsiveContainer
+} from 'recharts'
+import { Play, Scale } from 'lucide-react'
+
+/**
+ * ControllerBenchmark - Comparación del controlador difuso con los de referencia
+ *
+ * Recorre el escenario elegido con cada controlador (difuso, PID, tabla de
+ * dosis y jar-test) sobre el modelo dinámico de la planta y compara el
+ * coagulante consumido, el costo y la calidad del agua decantada y filtrada.
+ * Cualquier controlador puede pasar a decidir la dosis en el simulador.
+ */
+
+const CONTROLLER_COLORS: Record<ControllerId, string> = {
+    fuzzy: '#06b6d4',
+    pid: '#f87171',
+    doseTable: '#facc15',
+    jarTest: '#a855f7'
+}
+
+interface MetricColumn {
+    label: LocalizedText
+    unit: string
+    decimals: number
+    value: (result: ControllerRunResult) => number
+}
+
+/** Columnas de la tabla; en todas, menos es mejor */
+const METRIC_COLUMNS: MetricColumn[] = [
+    { label: { es: 'Coagulante', en: 'Coagulant' }, unit: 'kg', decimals: 0, value: result => result.coagulantKg },
+    { label: { es: 'Dosis máx.', en: 'Peak dose' }, unit: 'mg/L', decimals: 1, value: result => result.peakDose },
+    { label: { es: 'Costo', en: 'Cost' }, unit: '$', decimals: 0, value: result => result.totalCost },
+    { label: { es: 'Decantada media', en: 'Mean settled' }, unit: 'NTU', decimals: 2, value: result => result.meanSettled },
+    { label: { es: 'Decantada máx.', en: 'Max settled' }, unit: 'NTU', decimals: 1, value: result => result.maxSettled },
+    { label: { es: 'Filtrada media', en: 'Mean filtered' }, unit: 'NTU', decimals: 2, value: result => result.meanFiltered },
+    { label: { es: 'Sobre consigna', en: 'Above setpoint' }, unit: '%', decimals: 0, value: result => result.timeAboveSetpoint * 100 }
+]
+
+export function ControllerBenchmark() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const settledSetpoint = useWaterStore(state => state.settledSetpoint)
+    const controllerId = useWaterStore(state => state.controllerId)
+    const setController = useWaterStore(state => state.setController)
+    const { t, formatNumber } = useI18n()
+
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const [scenarioId, setScenarioId] = useState(ALL_SCENARIOS[0].id)
+    const [results, setResults] = useState<ControllerRunResult[]>([])
+    const [isRunning, setIsRunning] = useState(false)
+    const [runSetpoint, setRunSetpoint] = useState(settledSetpoint)
+
+    // Detener la comparación si se desmonta el panel
+    useEffect(() => () => {
+        if (timerRef.current) clearTimeout(timerRef.current)
+    }, [])
+
+    // Un controlador por tic para que la tabla se vaya llenando sin bloquear la interfaz
+    const run = () => {
+        const scenario = ALL_SCENARIOS.find(s => s.id === scenarioId) ?? ALL_SCENARIOS[0]
+        const runner = benchmarkControllersIncrementally(scenario, fuzzySystem, {
+            ...DEFAULT_BENCHMARK_OPTIONS,
+            setpoint: settledSetpoint
+        })
+        setResults([])
+        setRunSetpoint(settledSetpoint)
+        setIsRunning(true)
+
+        const tick = () => {
+            const step = runner.next()
+            if (step.done) {
+                setResults(step.value)
+                setIsRunning(false)
+                return
+            }
+            setResults(previous => [...previous, step.value])
+            timerRef.current = setTimeout(tick, 0)
+        }
+        timerRef.current = setTimeout(tick, 0)
+    }
+
+    const best = METRIC_COLUMNS.map(column =>
+        results.length > 0 ? Math.min(...results.map(column.value)) : null)
+
+    // Una fila por instante con la turbidez decantada de cada controlador
+    const chartData = (results[0]?.series ?? []).map((point, index) => ({
+        hours: point.time / 60,
+        ...Object.fromEntries(results.map(result => [result.controllerId, result.series[index]?.settledTurbidity]))
+    }))
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-1.5">
+                {ALL_SCENARIOS.map(scenario => (
+                    <button
+                        key={scenario.id}
+                        onClick={() => setScenarioId(scenario.id)}
+                        disabled={isRunning}
+                        className={`px-2 py-1 rounded text-[11px] border ${scenarioId === scenario.id
+                            ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-300'
+                            : 'bg-slate-800 border-slate-700 text-slate-500'}`}
+                    >
+                        {scenario.icon} {t(scenario.name)}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <Button size="sm" onClick={run} className="gap-2 h-8" disabled={isRunning}>
+                    <Play className="w-3 h-3" />
+                    {isRunning
+                        ? `${t({ es: 'Simulando…', en: 'Simulating…' })} ${results.length}/${CONTROLLER_IDS.length}`
+                        : t({ es: 'Comparar', en: 'Compare' })}
+                </Button>
+                <span className="text-[10px] text-slate-500">
+                    {t({ es: 'Consigna decantada', en: 'Settled setpoint' })}: {formatNumber(settledSetpoint, 1)} NTU
+                    {' · '}{t({
+                        es: `${DEFAULT_BENCHMARK_OPTIONS.tailMinutes} min con el agua final tras el escenario`,
+                        en: `${DEFAULT_BENCHMARK_OPTIONS.tailMinutes} min with the final water after the scenario`
+                    })}
+                </span>
+            </div>
+
+            {isRunning && <Progress value={(results.length / CONTROLLER_IDS.length) * 100} className="h-1.5" />}
+
+            {results.length === 0 && !isRunning && (
+                <p className="text-xs text-slate-500">
+                    {t({
+                        es: 'Simula el escenario con cada controlador sobre el modelo dinámico de la planta y compara consumo de coagulante, costo y calidad del agua decantada y filtrada.',
+                        en: 'Simulates the scenario with each controller on the dynamic plant model and compares coagulant use, cost and settled and filtered water quality.'
+                    })}
+                </p>
+            )}
+
+            {results.length > 0 && (
+                <>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-[10px] text-slate-500 text-left">
+                                    <th className="py-1 font-normal">{t({ es: 'Controlador', en: 'Controller' })}</th>
+                                    {METRIC_COLUMNS.map(column => (
+                                        <th key={column.label.es} className="py-1 font-normal text-right">
+                                            {t(column.label)} ({column.unit})
+                                        </th>
+                                    ))}
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {results.map(result => {
+                                    const controller = CONTROLLERS[result.controllerId]
+                                    return (
+                                        <tr key={result.controllerId} className="border-t border-slate-800 text-slate-300">
+                                            <td className="py-1" title={t(controller.description)}>
+                                                <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: CONTROLLER_COLORS[result.controllerId] }} />
+                                                {t(controller.name)}
+                                            </td>
+                                            {METRIC_COLUMNS.map((column, index) => {
+                                                const value = column.value(result)
+                                                return (
+                                                    <td
+                                                        key={column.label.es}
+                                                        className={`py-1 text-right ${value === best[index] && results.length > 1 ? 'text-emerald-400 font-medium' : ''}`}
+                                                    >
+                                                        {formatNumber(value, column.decimals)}
+                                                    </td>
+                                                )
+                                            })}
+                                            <td className="py-1 text-right">
+                                                {controllerId === result.controllerId ? (
+                                                    <span className="text-[10px] text-cyan-400">{t({ es: 'En uso', en: 'In use' })}</span>
+                                                ) : (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="h-6 text-xs"
+                                                        onClick={() => setController(result.controllerId)}
+                                                    >
+                                                        {t({ es: 'Usar', en: 'Use' })}
+                                                    </Button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="space-y-1">
+                        <h4 className="text-xs font-medium text-slate-300 flex items-center gap-2">
+                            <Scale className="w-4 h-4 text-cyan-400" />
+                            {t({ es: 'Turbidez decantada', en: 'Settled turbidity' })}
+                        </h4>
+                        <div className="h-48">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={chartData}>
+                                    <XAxis
+                                        dataKey="hours"
+                                        type="number"
+                                        domain={['dataMin', 'dataMax']}
+                                        stroke="#475569"
+                                        fontSize={10}
+                                        tickLine={false}
+                                        axisLine={false}
+                                        tickFormatter={(value: number) => `${formatNumber(value, 1)} h`}
+                                    />
+                                    <YAxis stroke="#475569" fontSize={10} tickLine={false} axisLine={false} width={32} />
+                                    <RechartsTooltip
+                                        contentStyle={{
+                                            backgroundColor: '#1e293b',
+                                            border: '1px solid #334155',
+                                            borderRadius: '8px',
+                                            fontSize: '12px'
+                                        }}
+                                        labelFormatter={(value: number) => `t = ${formatNumber(value, 1)} h`}
+                                        formatter={(value: number, name: string) => [`${formatNumber(value, 2)} NTU`, name]}
+                                    />
+                                    <Legend wrapperStyle={{ fontSize: '10px' }} />
+                                    <ReferenceLine y={runSetpoint} stroke="#e2e8f0" strokeDasharray="3 3" />
+                                    {results.map(result => (
+                                        <Line
+                                            key={result.controllerId}
+                                            type="monotone"
+                                            dataKey={result.controllerId}
+                                            name={t(CONTROLLERS[result.controllerId].name)}
+                                            stroke={CONTROLLER_COLORS[result.controllerId]}
+                                            strokeWidth={result.controllerId === 'fuzzy' ? 2.5 : 1.5}
+                                            dot={false}
+                                            isAnimationActive={false}
+                                        />
+                                    ))}
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+
+                    <p className="text-[10px] text-slate-500">
+                        {t({
+                            es: 'En verde, el mejor valor de cada columna. Todos los controladores usan la misma corrección de pH y el mismo costo de proceso, así que las diferencias de costo se deben a la dosis. La comparación usa el modelo de la planta: ordena estrategias, no predice la planta real.',
+                            en: 'Green marks the best value in each column. All controllers share the same pH correction and process cost, so cost differences come from the dose. The comparison uses the plant model: it ranks strategies, it does not predict the real plant.'
+                        })}
+                    </p>
+                </>
+            )}
+        </div>
+    )
+}
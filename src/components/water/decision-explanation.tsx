@@ -0,0 +1,45 @@
+'use client'
+
+import { useI18n } from '@/stores/locale-store'
+import { DecisionExplanation, renderExplanation } from '@/lib/explanation'
+import { AlertTriangle, Lightbulb } from 'lucide-react'
+
+interface DecisionExplanationViewProps {
+    explanation: DecisionExplanation
+    /** Incluir las condiciones de las reglas dominantes y su grado de membresía */
+    detailed?: boolean
+}
+
+/**
+ * DecisionExplanationView - Explicación de la decisión del controlador
+ *
+ * Muestra por apartados la explicación estructurada del motor (estado del
+ * agua, decisión, corrección de pH, regla principal y motivos del riesgo)
+ * en el idioma seleccionado.
+ */
+export function DecisionExplanationView({ explanation, detailed = false }: DecisionExplanationViewProps) {
+    const { locale } = useI18n()
+    const text = renderExplanation(explanation, locale)
+    const riskColor = explanation.risk.level === 'critical' ? 'text-red-400' : 'text-yellow-400'
+
+    return (
+        <div className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/30 space-y-1.5">
+            <div className="flex items-start gap-2">
+                <Lightbulb className="w-3.5 h-3.5 mt-0.5 shrink-0 text-yellow-400" />
+                <p className="flex-1 text-xs text-slate-400 leading-relaxed">
+                    {text.assessment} <span className="text-slate-200">{text.decision}</span>
+                    {text.phCorrection && <> {text.phCorrection}</>}
+                </p>
+            </div>
+            {text.rules && <p className="text-xs text-slate-400 pl-5">{text.rules}</p>}
+            {text.outweighed && <p className="text-xs text-slate-500 pl-5">{text.outweighed}</p>}
+            {detailed && text.terms && <p className="text-xs text-slate-500 pl-5">{text.terms}</p>}
+            {text.risk && (
+                <p className={`flex items-center gap-1.5 text-xs ${riskColor}`}>
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    {text.risk}
+                </p>
+            )}
+        </div>
+    )
+}
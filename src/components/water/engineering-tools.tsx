@@ -0,0 +1,66 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useI18n } from '@/stores/locale-store'
+import { RuleAnalysisReport } from '@/components/water/rule-analysis-report'
+import { ControlSurfaceExplorer } from '@/components/water/control-surface-explorer'
+import { AnfisTraining } from '@/components/water/anfis-training'
+import { RuleOptimizer } from '@/components/water/rule-optimizer'
+import { CompiledControllerBenchmark } from '@/components/water/compiled-controller-benchmark'
+import { ControllerBenchmark } from '@/components/water/controller-benchmark'
+import { Wrench } from 'lucide-react'
+
+/**
+ * EngineeringTools - Herramientas de diseño del controlador
+ *
+ * Agrupa en pestañas las herramientas de análisis que el ingeniero usa al
+ * ajustar la base de reglas, separadas de la operación de la planta, el
+ * entrenamiento del controlador con datos históricos, su optimización
+ * evolutiva sobre los escenarios, su compilación en tabla de consulta y su
+ * comparación con los controladores de referencia.
+ */
+export function EngineeringTools() {
+    const { t } = useI18n()
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                    <Wrench className="w-4 h-4 text-cyan-400" />
+                    {t({ es: 'Herramientas de Ingeniería', en: 'Engineering Tools' })}
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                <Tabs defaultValue="rules">
+                    <TabsList className="bg-slate-800/80">
+                        <TabsTrigger value="rules" className="text-xs">{t({ es: 'Análisis de reglas', en: 'Rule analysis' })}</TabsTrigger>
+                        <TabsTrigger value="surface" className="text-xs">{t({ es: 'Superficie de control', en: 'Control surface' })}</TabsTrigger>
+                        <TabsTrigger value="anfis" className="text-xs">{t({ es: 'Entrenamiento ANFIS', en: 'ANFIS training' })}</TabsTrigger>
+                        <TabsTrigger value="optimizer" className="text-xs">{t({ es: 'Optimizador evolutivo', en: 'Evolutionary optimizer' })}</TabsTrigger>
+                        <TabsTrigger value="compiled" className="text-xs">{t({ es: 'Controlador compilado', en: 'Compiled controller' })}</TabsTrigger>
+                        <TabsTrigger value="baselines" className="text-xs">{t({ es: 'Comparar controladores', en: 'Compare controllers' })}</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="rules" className="pt-2">
+                        <RuleAnalysisReport />
+                    </TabsContent>
+                    <TabsContent value="surface" className="pt-2">
+                        <ControlSurfaceExplorer />
+                    </TabsContent>
+                    <TabsContent value="anfis" className="pt-2">
+                        <AnfisTraining />
+                    </TabsContent>
+                    <TabsContent value="optimizer" className="pt-2">
+                        <RuleOptimizer />
+                    </TabsContent>
+                    <TabsContent value="compiled" className="pt-2">
+                        <CompiledControllerBenchmark />
+                    </TabsContent>
+                    <TabsContent value="baselines" className="pt-2">
+                        <ControllerBenchmark />
+                    </TabsContent>
+                </Tabs>
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import { FuzzySystemValidationError, ValidationIssue, serializeFuzzySystem } from '@/lib/fuzzy-system'
+import { FclParseError, serializeFcl } from '@/lib/fcl'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Upload, Download, AlertTriangle, X, FileCode } from 'lucide-react'
+
+/**
+ * FuzzySystemFileControls - Carga y guarda la definición del controlador
+ *
+ * Permite adaptar variables, términos, reglas y costos a una planta concreta
+ * sin modificar el código, en JSON (formato completo) o en FCL (IEC 61131-7,
+ * para PLCs y otras herramientas). Los errores se muestran con la ruta exacta
+ * del campo problemático o con la línea y columna del archivo FCL.
+ */
+export function FuzzySystemFileControls() {
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const fclInputRef = useRef<HTMLInputElement>(null)
+    const [issues, setIssues] = useState<ValidationIssue[]>([])
+
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const loadFuzzySystemJSON = useWaterStore(state => state.loadFuzzySystemJSON)
+    const loadFuzzySystemFCL = useWaterStore(state => state.loadFuzzySystemFCL)
+    const { t } = useI18n()
+
+    const loadFile = async (
+        e: React.ChangeEvent<HTMLInputElement>,
+        load: (text: string) => void
+    ) => {
+        const file = e.target.files?.[0]
+        if (file) {
+            try {
+                load(await file.text())
+                setIssues([])
+            } catch (error) {
+                if (error instanceof FuzzySystemValidationError) {
+                    setIssues(error.issues)
+                } else if (error instanceof FclParseError) {
+                    setIssues([{ path: `${file.name}:${error.line}:${error.column}`, message: error.detail }])
+                } else {
+                    console.error('Error loading fuzzy system:', error)
+                    setIssues([{ path: file.name, message: { es: 'no se pudo leer el archivo', en: 'the file could not be read' } }])
+                }
+            }
+        }
+        e.target.value = ''
+    }
+
+    const download = (content: string, type: string, filename: string) => {
+        const blob = new Blob([content], { type })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = filename
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const handleSave = () => {
+        download(serializeFuzzySystem(fuzzySystem), 'application/json', 'aquafuzzy-controlador.json')
+    }
+
+    const handleExportFcl = () => {
+        download(serializeFcl(fuzzySystem), 'text/plain', 'aquafuzzy-controlador.fcl')
+    }
+
+    return (
+        <div className="relative flex items-center gap-2">
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={e => loadFile(e, loadFuzzySystemJSON)}
+                className="hidden"
+            />
+            <input
+                ref={fclInputRef}
+                type="file"
+                accept=".fcl,text/plain"
+                onChange={e => loadFile(e, loadFuzzySystemFCL)}
+                className="hidden"
+            />
+
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                className="gap-2"
+                title={t({ es: 'Cargar definición del controlador (JSON)', en: 'Load controller definition (JSON)' })}
+            >
+                <Upload className="w-4 h-4 text-cyan-400" />
+                {t({ es: 'Cargar JSON', en: 'Load JSON' })}
+            </Button>
+
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSave}
+                className="gap-2"
+                title={t({ es: 'Guardar definición del controlador (JSON)', en: 'Save controller definition (JSON)' })}
+            >
+                <Download className="w-4 h-4 text-cyan-400" />
+                {t({ es: 'Guardar JSON', en: 'Save JSON' })}
+            </Button>
+
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fclInputRef.current?.click()}
+                className="gap-2"
+                title={t({
+                    es: 'Importar controlador en Fuzzy Control Language (IEC 61131-7)',
+                    en: 'Import controller in Fuzzy Control Language (IEC 61131-7)'
+                })}
+            >
+                <FileCode className="w-4 h-4 text-emerald-400" />
+                {t({ es: 'Importar FCL', en: 'Import FCL' })}
+            </Button>
+
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportFcl}
+                className="gap-2"
+                title={t({
+                    es: 'Exportar controlador en Fuzzy Control Language (IEC 61131-7)',
+                    en: 'Export controller in Fuzzy Control Language (IEC 61131-7)'
+                })}
+            >
+                <Download className="w-4 h-4 text-emerald-400" />
+                {t({ es: 'Exportar FCL', en: 'Export FCL' })}
+            </Button>
+
+            {/* Errores de validación */}
+            <AnimatePresence>
+                {issues.length > 0 && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -5 }}
+                        className="absolute right-0 top-full mt-2 w-96 max-h-72 overflow-y-auto p-3 rounded-lg bg-slate-900 border border-red-500/40 shadow-2xl z-50"
+                    >
+                        <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center gap-2 text-red-400 text-sm font-medium">
+                                <AlertTriangle className="w-4 h-4" />
+                                {t({ es: 'Definición inválida', en: 'Invalid definition' })} ({issues.length})
+                            </div>
+                            <Button variant="ghost" size="icon" onClick={() => setIssues([])} className="h-6 w-6">
+                                <X className="w-3 h-3" />
+                            </Button>
+                        </div>
+                        <ul className="space-y-1">
+                            {issues.map((issue, index) => (
+                                <li key={index} className="text-xs">
+                                    <span className="font-mono text-slate-400">{issue.path}</span>
+                                    <span className="text-slate-300">: {t(issue.message)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        <p className="text-[10px] text-slate-500 mt-2">
+                            {t({ es: 'Se mantiene el controlador actual:', en: 'The current controller is kept:' })} &quot;{fuzzySystem.name}&quot;
+                        </p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    )
+}
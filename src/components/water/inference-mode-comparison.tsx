@@ -0,0 +1,214 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useWaterStore, selectWaterInputs } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { runFuzzyInference, FuzzyOutputs } from '@/lib/fuzzy-logic'
+import { InferenceMode, INFERENCE_MODES } from '@/lib/fuzzy-system'
+import {
+    LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip,
+    ReferenceLine, ResponsiveContainer
+} from 'recharts'
+import { GitCompare, RefreshCw } from 'lucide-react'
+
+/**
+ * InferenceModeComparison - Mamdani frente a Takagi-Sugeno-Kang
+ *
+ * Permite elegir el modo de inferencia que gobierna la planta y compara,
+ * para las mismas entradas, las salidas de ambos modos. La curva de dosis
+ * frente a turbidez (con el pH y la temperatura actuales) muestra la mayor
+ * suavidad de la superficie TSK.
+ */
+
+const MODE_LABELS: Record<InferenceMode, string> = {
+    mamdani: 'Mamdani',
+    tsk: 'TSK'
+}
+
+const SWEEP_POINTS = 41
+
+export function InferenceModeComparison() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const inputs = useWaterStore(useShallow(selectWaterInputs))
+    const { turbidity, ph, temperature, alkalinity, conductivity, color, flowRate } = inputs
+    const setInferenceMode = useWaterStore(state => state.setInferenceMode)
+    const fitTsk = useWaterStore(state => state.fitTskConsequents)
+    const { t, formatNumber } = useI18n()
+
+    const activeMode = fuzzySystem.inferenceMode ?? 'mamdani'
+    const hasLinearConsequents = fuzzySystem.rules.some(rule => rule.tsk)
+
+    // Resultado de ambos modos para las entradas actuales
+    const results = useMemo(() => ({
+        mamdani: runFuzzyInference(inputs, { ...fuzzySystem, inferenceMode: 'mamdani' }),
+        tsk: runFuzzyInference(inputs, { ...fuzzySystem, inferenceMode: 'tsk' })
+    }), [fuzzySystem, inputs])
+
+    // Barrido de turbidez con el resto de entradas fijas
+    const sweep = useMemo(() => {
+        const variable = fuzzySystem.inputs.find(v => v.id === 'turbidity')
+        const [min, max] = variable?.range ?? [0, 1000]
+        return Array.from({ length: SWEEP_POINTS }, (_, i) => {
+            const x = min + ((max - min) * i) / (SWEEP_POINTS - 1)
+            const point = { turbidity: x, ph, temperature, alkalinity, conductivity, color, flowRate }
+            return {
+                turbidity: x,
+                mamdani: runFuzzyInference(point, { ...fuzzySystem, inferenceMode: 'mamdani' }).coagulantDose,
+                tsk: runFuzzyInference(point, { ...fuzzySystem, inferenceMode: 'tsk' }).coagulantDose
+            }
+        })
+    }, [fuzzySystem, ph, temperature, alkalinity, conductivity, color, flowRate])
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                        <GitCompare className="w-4 h-4 text-cyan-400" />
+                        Mamdani vs TSK
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={fitTsk}
+                            className="gap-1 text-xs h-7"
+                            title={t({
+                                es: 'Ajustar los consecuentes lineales TSK a la respuesta Mamdani actual',
+                                en: 'Fit the linear TSK consequents to the current Mamdani response'
+                            })}
+                        >
+                            <RefreshCw className="w-3 h-3" />
+                            {t({ es: 'Ajustar TSK', en: 'Fit TSK' })}
+                        </Button>
+                        <div className="flex rounded-md border border-slate-700 overflow-hidden">
+                            {INFERENCE_MODES.map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setInferenceMode(mode)}
+                                    className={`px-3 py-1 text-xs ${mode === activeMode
+                                        ? 'bg-cyan-500/20 text-cyan-300'
+                                        : 'text-slate-400 hover:bg-slate-800'
+                                        }`}
+                                >
+                                    {MODE_LABELS[mode]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                    {INFERENCE_MODES.map(mode => (
+                        <ModeResult
+                            key={mode}
+                            label={MODE_LABELS[mode]}
+                            outputs={results[mode]}
+                            active={mode === activeMode}
+                        />
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between text-xs text-slate-400">
+                    <span>
+                        {t({ es: 'Diferencia de dosis:', en: 'Dose difference:' })}{' '}
+                        <span className="font-bold text-slate-200">
+                            {formatNumber(results.tsk.coagulantDose - results.mamdani.coagulantDose, 1)} mg/L
+                        </span>
+                    </span>
+                    {!hasLinearConsequents && (
+                        <span className="text-yellow-400">
+                            {t({ es: 'TSK de orden cero (sin consecuentes lineales)', en: 'Zero-order TSK (no linear consequents)' })}
+                        </span>
+                    )}
+                </div>
+
+                <div className="h-36">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={sweep}>
+                            <XAxis
+                                dataKey="turbidity"
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                            />
+                            <YAxis
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                width={28}
+                            />
+                            <RechartsTooltip
+                                contentStyle={{
+                                    backgroundColor: '#1e293b',
+                                    border: '1px solid #334155',
+                                    borderRadius: '8px',
+                                    fontSize: '12px'
+                                }}
+                                labelFormatter={(value: number) => `${formatNumber(value, 0)} NTU`}
+                                formatter={(value: number, name: string) => [
+                                    `${formatNumber(value, 1)} mg/L`,
+                                    MODE_LABELS[name as InferenceMode]
+                                ]}
+                            />
+                            <Line type="linear" dataKey="mamdani" stroke="#a855f7" strokeWidth={2} dot={false} isAnimationActive={false} />
+                            <Line type="linear" dataKey="tsk" stroke="#06b6d4" strokeWidth={2} dot={false} isAnimationActive={false} />
+                            <ReferenceLine x={turbidity} stroke="#e2e8f0" strokeDasharray="3 3" />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+                <p className="text-[10px] text-slate-500">
+                    {t({ es: 'Dosis frente a turbidez con pH', en: 'Dose versus turbidity at pH' })} {formatNumber(ph, 1)}
+                    {' '}{t({ es: 'y', en: 'and' })} {formatNumber(temperature, 0)}°C ·{' '}
+                    <span className="text-purple-400">━ Mamdani</span>{' '}
+                    <span className="text-cyan-400">━ TSK</span>
+                </p>
+            </CardContent>
+        </Card>
+    )
+}
+
+// Componente auxiliar: salidas de un modo
+interface ModeResultProps {
+    label: string
+    outputs: FuzzyOutputs
+    active: boolean
+}
+
+function ModeResult({ label, outputs, active }: ModeResultProps) {
+    const { t, formatNumber, formatCurrency } = useI18n()
+
+    return (
+        <div className={`p-3 rounded-lg border ${active
+            ? 'bg-cyan-500/5 border-cyan-500/40'
+            : 'bg-slate-800/50 border-slate-700/50'
+            }`}>
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-slate-300">{label}</span>
+                {active && <span className="text-[10px] text-cyan-400">{t({ es: 'EN CONTROL', en: 'IN CONTROL' })}</span>}
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                    <div className="text-[10px] text-slate-500">{t({ es: 'Dosis', en: 'Dose' })}</div>
+                    <div className="font-bold text-purple-400">{formatNumber(outputs.coagulantDose, 1)} mg/L</div>
+                </div>
+                <div>
+                    <div className="text-[10px] text-slate-500">{t({ es: 'Tiempo', en: 'Time' })}</div>
+                    <div className="font-bold text-orange-400">{formatNumber(outputs.flocculationTime, 0)} min</div>
+                </div>
+                <div>
+                    <div className="text-[10px] text-slate-500">{t({ es: 'Costo', en: 'Cost' })}</div>
+                    <div className="font-bold text-emerald-400">{formatCurrency(outputs.operationalCost, 3)}/m³</div>
+                </div>
+            </div>
+        </div>
+    )
+}
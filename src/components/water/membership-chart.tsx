@@ -0,0 +1,128 @@
+'use client'
+
+import { FuzzyVariable } from '@/lib/fuzzy-system'
+import { calculateMembership, calculateMembershipBounds } from '@/lib/fuzzy-logic'
+import { termLabel } from '@/lib/i18n'
+import { useI18n } from '@/stores/locale-store'
+
+/**
+ * MembershipChart - Mini gráfico de las funciones de membresía de una variable
+ *
+ * Dibuja cada término con la forma configurada (trapecio, gaussiana,
+ * sigmoide, singleton...) muestreando `calculateMembership` sobre el
+ * universo de la variable, y marca el valor actual con una línea vertical.
+ * Los términos activos se resaltan según su grado de membresía. Si un
+ * término tiene huella de incertidumbre (tipo 2) se sombrea entre sus
+ * funciones inferior y superior.
+ */
+
+const TERM_COLORS = ['#10b981', '#06b6d4', '#eab308', '#f97316', '#ef4444', '#a855f7', '#ec4899']
+const SAMPLES = 120
+const WIDTH = 300
+const HEIGHT = 48
+
+interface MembershipChartProps {
+    variable: FuzzyVariable
+    value: number
+}
+
+export function MembershipChart({ variable, value }: MembershipChartProps) {
+    const [min, max] = variable.range
+    const toX = (x: number) => ((x - min) / (max - min)) * WIDTH
+    const toY = (mu: number) => HEIGHT - 2 - mu * (HEIGHT - 4)
+    const { locale, formatNumber } = useI18n()
+
+    return (
+        <div className="space-y-1">
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-12"
+                preserveAspectRatio="none"
+            >
+                {variable.terms.map((term, index) => {
+                    const color = TERM_COLORS[index % TERM_COLORS.length]
+                    const degree = calculateMembership(value, term)
+                    const opacity = degree > 0 ? 0.5 + degree * 0.5 : 0.35
+
+                    // Singleton: una barra vertical en su valor
+                    if (term.shape === 'singleton') {
+                        return (
+                            <line
+                                key={term.name}
+                                x1={toX(term.value)}
+                                x2={toX(term.value)}
+                                y1={toY(0)}
+                                y2={toY(1)}
+                                stroke={color}
+                                strokeWidth={2}
+                                opacity={opacity}
+                            />
+                        )
+                    }
+
+                    const xs = Array.from({ length: SAMPLES + 1 }, (_, i) => min + ((max - min) * i) / SAMPLES)
+                    const path = xs.map((x, i) =>
+                        `${i === 0 ? 'M' : 'L'}${toX(x).toFixed(1)},${toY(calculateMembership(x, term)).toFixed(1)}`
+                    ).join(' ')
+
+                    // Huella de incertidumbre: superior de izquierda a derecha, inferior de vuelta
+                    let footprintPath: string | null = null
+                    if (term.footprint) {
+                        const bounds = xs.map(x => calculateMembershipBounds(x, term, variable.range))
+                        footprintPath = [
+                            ...xs.map((x, i) => `${i === 0 ? 'M' : 'L'}${toX(x).toFixed(1)},${toY(bounds[i].upper).toFixed(1)}`),
+                            ...xs.map((x, i) => ({ x, i })).reverse()
+                                .map(({ x, i }) => `L${toX(x).toFixed(1)},${toY(bounds[i].lower).toFixed(1)}`),
+                            'Z'
+                        ].join(' ')
+                    }
+
+                    return (
+                        <g key={term.name}>
+                            {footprintPath && (
+                                <path d={footprintPath} fill={color} opacity={0.15} stroke="none" />
+                            )}
+                            <path
+                                d={path}
+                                fill="none"
+                                stroke={color}
+                                strokeWidth={degree > 0 ? 2 : 1}
+                                opacity={opacity}
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        </g>
+                    )
+                })}
+
+                {/* Valor actual */}
+                <line
+                    x1={toX(value)}
+                    x2={toX(value)}
+                    y1={0}
+                    y2={HEIGHT}
+                    stroke="#e2e8f0"
+                    strokeWidth={1}
+                    strokeDasharray="3 2"
+                    vectorEffect="non-scaling-stroke"
+                />
+            </svg>
+
+            {/* Leyenda de términos con su grado actual */}
+            <div className="flex flex-wrap gap-x-2 gap-y-0.5 text-[10px]">
+                {variable.terms.map((term, index) => {
+                    const degree = calculateMembership(value, term)
+                    return (
+                        <span
+                            key={term.name}
+                            className={degree > 0 ? 'text-slate-300' : 'text-slate-600'}
+                        >
+                            <span style={{ color: TERM_COLORS[index % TERM_COLORS.length] }}>●</span>{' '}
+                            {termLabel(term.name, locale)}
+                            {degree > 0 && ` ${formatNumber(degree * 100, 0)}%`}
+                        </span>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
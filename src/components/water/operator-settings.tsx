@@ -0,0 +1,125 @@
+'use client'
+
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import {
+    AggregationMethod,
+    ImplicationMethod,
+    SNorm,
+    TNorm,
+    AGGREGATION_METHODS,
+    DEFAULT_OPERATORS,
+    IMPLICATION_METHODS,
+    S_NORMS,
+    T_NORMS
+} from '@/lib/fuzzy-system'
+import { T_NORM_DUALS } from '@/lib/fuzzy-operators'
+import { LocalizedText } from '@/lib/i18n'
+
+/**
+ * OperatorSettings - Selección de los operadores del motor de inferencia
+ *
+ * Muestra la configuración activa (Y, O, implicación y agregación) y permite
+ * cambiarla. Al elegir una T-norma se propone automáticamente su S-norma
+ * dual, que luego puede cambiarse de forma independiente.
+ */
+
+const T_NORM_LABELS: Record<TNorm, LocalizedText> = {
+    min: { es: 'Mínimo', en: 'Minimum' },
+    product: { es: 'Producto', en: 'Product' },
+    lukasiewicz: { es: 'Łukasiewicz', en: 'Łukasiewicz' },
+    drastic: { es: 'Drástica', en: 'Drastic' },
+    einstein: { es: 'Einstein', en: 'Einstein' },
+    hamacher: { es: 'Hamacher', en: 'Hamacher' }
+}
+
+const S_NORM_LABELS: Record<SNorm, LocalizedText> = {
+    max: { es: 'Máximo', en: 'Maximum' },
+    probabilistic_sum: { es: 'Suma probabilística', en: 'Probabilistic sum' },
+    bounded_sum: { es: 'Suma acotada', en: 'Bounded sum' },
+    drastic: { es: 'Drástica', en: 'Drastic' },
+    einstein: { es: 'Einstein', en: 'Einstein' },
+    hamacher: { es: 'Hamacher', en: 'Hamacher' }
+}
+
+const IMPLICATION_LABELS: Record<ImplicationMethod, LocalizedText> = {
+    min: { es: 'Mínimo (recorte)', en: 'Minimum (clipping)' },
+    product: { es: 'Producto (escalado)', en: 'Product (scaling)' }
+}
+
+const AGGREGATION_LABELS: Record<AggregationMethod, LocalizedText> = {
+    max: { es: 'Máximo', en: 'Maximum' },
+    bounded_sum: { es: 'Suma acotada', en: 'Bounded sum' }
+}
+
+export function OperatorSettings() {
+    const operators = useWaterStore(state => state.fuzzyOutputs?.operators ?? DEFAULT_OPERATORS)
+    const setOperators = useWaterStore(state => state.setOperators)
+    const { t } = useI18n()
+
+    return (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <OperatorSelect
+                label={t({ es: 'Y (T-norma)', en: 'AND (T-norm)' })}
+                value={operators.and}
+                options={T_NORMS}
+                labels={T_NORM_LABELS}
+                onChange={value => setOperators({ and: value, or: T_NORM_DUALS[value] })}
+            />
+            <OperatorSelect
+                label={t({ es: 'O (S-norma)', en: 'OR (S-norm)' })}
+                value={operators.or}
+                options={S_NORMS}
+                labels={S_NORM_LABELS}
+                onChange={value => setOperators({ or: value })}
+                hint={operators.or === T_NORM_DUALS[operators.and] ? 'dual' : undefined}
+            />
+            <OperatorSelect
+                label={t({ es: 'Implicación', en: 'Implication' })}
+                value={operators.implication}
+                options={IMPLICATION_METHODS}
+                labels={IMPLICATION_LABELS}
+                onChange={value => setOperators({ implication: value })}
+            />
+            <OperatorSelect
+                label={t({ es: 'Agregación', en: 'Aggregation' })}
+                value={operators.aggregation}
+                options={AGGREGATION_METHODS}
+                labels={AGGREGATION_LABELS}
+                onChange={value => setOperators({ aggregation: value })}
+            />
+        </div>
+    )
+}
+
+// Componente auxiliar: selector de un operador
+interface OperatorSelectProps<T extends string> {
+    label: string
+    value: T
+    options: T[]
+    labels: Record<T, LocalizedText>
+    onChange: (value: T) => void
+    hint?: string
+}
+
+function OperatorSelect<T extends string>({ label, value, options, labels, onChange, hint }: OperatorSelectProps<T>) {
+    const { t } = useI18n()
+
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-500">
+                {label}
+                {hint && <span className="ml-1 normal-case text-emerald-500">· {hint}</span>}
+            </span>
+            <select
+                value={value}
+                onChange={e => onChange(e.target.value as T)}
+                className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+            >
+                {options.map(option => (
+                    <option key={option} value={option}>{t(labels[option])}</option>
+                ))}
+            </select>
+        </label>
+    )
+}
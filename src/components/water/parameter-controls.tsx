@@ -1,11 +1,21 @@
 'use client'
 
 import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
 import { Slider } from '@/components/ui/slider'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { MembershipChart } from '@/components/water/membership-chart'
 import { motion } from 'framer-motion'
-import { Droplets, FlaskConical, Thermometer, HelpCircle } from 'lucide-react'
+import { Beaker, Droplets, FlaskConical, Palette, Thermometer, Waves, Zap, HelpCircle } from 'lucide-react'
+import type { FuzzyVariable } from '@/lib/fuzzy-system'
+import { LocalizedText, termLabel, variableLabel } from '@/lib/i18n'
+
+const PH_SCALE: Record<'acidic' | 'neutral' | 'alkaline', LocalizedText> = {
+    acidic: { es: 'Ácido', en: 'Acidic' },
+    neutral: { es: 'Neutro', en: 'Neutral' },
+    alkaline: { es: 'Alcalino', en: 'Alkaline' }
+}
 
 /**
  * ParameterControls - Controles de entrada de parámetros del agua
@@ -14,20 +24,29 @@ import { Droplets, FlaskConical, Thermometer, HelpCircle } from 'lucide-react'
  * - Turbidez (NTU)
  * - pH
  * - Temperatura (°C)
+ * - Alcalinidad (mg/L CaCO₃), conductividad (µS/cm), color (UC) y caudal (m³/h)
  * 
- * Cada control muestra el grado de membresía difusa actual.
+ * Cada control muestra el grado de membresía difusa actual y las funciones
+ * de membresía configuradas para la variable.
  */
 
 export function ParameterControls() {
     const turbidity = useWaterStore(state => state.turbidity)
     const ph = useWaterStore(state => state.ph)
     const temperature = useWaterStore(state => state.temperature)
+    const alkalinity = useWaterStore(state => state.alkalinity)
+    const conductivity = useWaterStore(state => state.conductivity)
+    const color = useWaterStore(state => state.color)
+    const flowRate = useWaterStore(state => state.flowRate)
     const memberships = useWaterStore(state => state.memberships)
     const isSimulating = useWaterStore(state => state.isSimulating)
+    const inputVariables = useWaterStore(state => state.fuzzySystem.inputs)
 
     const setTurbidity = useWaterStore(state => state.setTurbidity)
     const setPh = useWaterStore(state => state.setPh)
     const setTemperature = useWaterStore(state => state.setTemperature)
+    const setParameters = useWaterStore(state => state.setParameters)
+    const { locale, t, formatNumber } = useI18n()
 
     // Obtener la membresía dominante para cada variable
     const getDominantMembership = (entries: Array<{ name: string; degree: number }>) => {
@@ -48,6 +67,11 @@ export function ParameterControls() {
         ? getDominantMembership(memberships.temperature)
         : null
 
+    const variableById = (id: string) => inputVariables.find(v => v.id === id)
+    const turbidityVariable = variableById('turbidity')
+    const phVariable = variableById('ph')
+    const tempVariable = variableById('temperature')
+
     // Color para indicador de pH
     const getPhColor = () => {
         if (ph < 6) return 'text-orange-400'
@@ -70,7 +94,7 @@ export function ParameterControls() {
             <CardHeader className="pb-4">
                 <CardTitle className="flex items-center gap-2 text-slate-200">
                     <FlaskConical className="w-5 h-5 text-cyan-400" />
-                    Parámetros del Agua Cruda
+                    {t({ es: 'Parámetros del Agua Cruda', en: 'Raw Water Parameters' })}
                 </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -79,22 +103,24 @@ export function ParameterControls() {
                     <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
                             <Droplets className={`w-4 h-4 ${getTurbidityColor()}`} />
-                            <span className="text-sm font-medium text-slate-300">Turbidez</span>
+                            <span className="text-sm font-medium text-slate-300">{variableLabel('turbidity', locale)}</span>
                             <Tooltip>
                                 <TooltipTrigger>
                                     <HelpCircle className="w-3.5 h-3.5 text-slate-500" />
                                 </TooltipTrigger>
                                 <TooltipContent>
                                     <p className="max-w-xs">
-                                        La turbidez mide las partículas suspendidas en el agua (NTU).
-                                        A mayor turbidez, más coagulante se necesita.
+                                        {t({
+                                            es: 'La turbidez mide las partículas suspendidas en el agua (NTU). A mayor turbidez, más coagulante se necesita.',
+                                            en: 'Turbidity measures the particles suspended in the water (NTU). The higher the turbidity, the more coagulant is needed.'
+                                        })}
                                     </p>
                                 </TooltipContent>
                             </Tooltip>
                         </div>
                         <div className="flex items-center gap-2">
                             <span className={`text-lg font-bold ${getTurbidityColor()}`}>
-                                {turbidity.toFixed(0)}
+                                {formatNumber(turbidity, 0)}
                             </span>
                             <span className="text-xs text-slate-500">NTU</span>
                         </div>
@@ -110,6 +136,8 @@ export function ParameterControls() {
                         className="[&_[data-slot=slider-range]]:bg-gradient-to-r [&_[data-slot=slider-range]]:from-emerald-500 [&_[data-slot=slider-range]]:via-yellow-500 [&_[data-slot=slider-range]]:to-red-500"
                     />
 
+                    {turbidityVariable && <MembershipChart variable={turbidityVariable} value={turbidity} />}
+
                     {/* Membresía difusa */}
                     {turbidityMembership && (
                         <motion.div
@@ -117,12 +145,12 @@ export function ParameterControls() {
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
                         >
-                            <span className="text-slate-500">Nivel difuso:</span>
+                            <span className="text-slate-500">{t({ es: 'Nivel difuso:', en: 'Fuzzy level:' })}</span>
                             <span className="px-2 py-0.5 rounded bg-slate-800 text-cyan-400 capitalize">
-                                {turbidityMembership.name.replace('_', ' ')}
+                                {termLabel(turbidityMembership.name, locale)}
                             </span>
                             <span className="text-slate-600">
-                                ({(turbidityMembership.degree * 100).toFixed(0)}%)
+                                ({formatNumber(turbidityMembership.degree * 100, 0)}%)
                             </span>
                         </motion.div>
                     )}
@@ -140,18 +168,20 @@ export function ParameterControls() {
                                 </TooltipTrigger>
                                 <TooltipContent>
                                     <p className="max-w-xs">
-                                        El pH indica acidez (0-7) o alcalinidad (7-14).
-                                        El rango óptimo para coagulación es 6.5-8.
+                                        {t({
+                                            es: 'El pH indica acidez (0-7) o alcalinidad (7-14). El rango óptimo para coagulación es 6,5-8.',
+                                            en: 'pH indicates acidity (0-7) or alkalinity (7-14). The optimal range for coagulation is 6.5-8.'
+                                        })}
                                     </p>
                                 </TooltipContent>
                             </Tooltip>
                         </div>
                         <div className="flex items-center gap-2">
                             <span className={`text-lg font-bold ${getPhColor()}`}>
-                                {ph.toFixed(1)}
+                                {formatNumber(ph, 1)}
                             </span>
                             <span className="text-xs text-slate-500">
-                                {ph < 7 ? 'Ácido' : ph > 7 ? 'Alcalino' : 'Neutro'}
+                                {ph < 7 ? t(PH_SCALE.acidic) : ph > 7 ? t(PH_SCALE.alkaline) : t(PH_SCALE.neutral)}
                             </span>
                         </div>
                     </div>
@@ -168,23 +198,25 @@ export function ParameterControls() {
 
                     {/* Escala de pH visual */}
                     <div className="flex justify-between text-[10px] text-slate-600 px-1">
-                        <span>Ácido</span>
-                        <span>Neutro</span>
-                        <span>Alcalino</span>
+                        <span>{t(PH_SCALE.acidic)}</span>
+                        <span>{t(PH_SCALE.neutral)}</span>
+                        <span>{t(PH_SCALE.alkaline)}</span>
                     </div>
 
+                    {phVariable && <MembershipChart variable={phVariable} value={ph} />}
+
                     {phMembership && (
                         <motion.div
                             className="flex items-center gap-2 text-xs"
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
                         >
-                            <span className="text-slate-500">Nivel difuso:</span>
+                            <span className="text-slate-500">{t({ es: 'Nivel difuso:', en: 'Fuzzy level:' })}</span>
                             <span className="px-2 py-0.5 rounded bg-slate-800 text-cyan-400 capitalize">
-                                {phMembership.name.replace('_', ' ')}
+                                {termLabel(phMembership.name, locale)}
                             </span>
                             <span className="text-slate-600">
-                                ({(phMembership.degree * 100).toFixed(0)}%)
+                                ({formatNumber(phMembership.degree * 100, 0)}%)
                             </span>
                         </motion.div>
                     )}
@@ -195,22 +227,24 @@ export function ParameterControls() {
                     <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
                             <Thermometer className="w-4 h-4 text-orange-400" />
-                            <span className="text-sm font-medium text-slate-300">Temperatura</span>
+                            <span className="text-sm font-medium text-slate-300">{variableLabel('temperature', locale)}</span>
                             <Tooltip>
                                 <TooltipTrigger>
                                     <HelpCircle className="w-3.5 h-3.5 text-slate-500" />
                                 </TooltipTrigger>
                                 <TooltipContent>
                                     <p className="max-w-xs">
-                                        La temperatura afecta la velocidad de reacción.
-                                        Agua fría requiere más tiempo de floculación.
+                                        {t({
+                                            es: 'La temperatura afecta la velocidad de reacción. Agua fría requiere más tiempo de floculación.',
+                                            en: 'Temperature affects the reaction rate. Cold water needs a longer flocculation time.'
+                                        })}
                                     </p>
                                 </TooltipContent>
                             </Tooltip>
                         </div>
                         <div className="flex items-center gap-2">
                             <span className="text-lg font-bold text-orange-400">
-                                {temperature.toFixed(0)}
+                                {formatNumber(temperature, 0)}
                             </span>
                             <span className="text-xs text-slate-500">°C</span>
                         </div>
@@ -226,23 +260,81 @@ export function ParameterControls() {
                         className="[&_[data-slot=slider-range]]:bg-gradient-to-r [&_[data-slot=slider-range]]:from-blue-500 [&_[data-slot=slider-range]]:via-green-500 [&_[data-slot=slider-range]]:to-red-500"
                     />
 
+                    {tempVariable && <MembershipChart variable={tempVariable} value={temperature} />}
+
                     {tempMembership && (
                         <motion.div
                             className="flex items-center gap-2 text-xs"
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
                         >
-                            <span className="text-slate-500">Nivel difuso:</span>
+                            <span className="text-slate-500">{t({ es: 'Nivel difuso:', en: 'Fuzzy level:' })}</span>
                             <span className="px-2 py-0.5 rounded bg-slate-800 text-cyan-400 capitalize">
-                                {tempMembership.name.replace('_', ' ')}
+                                {termLabel(tempMembership.name, locale)}
                             </span>
                             <span className="text-slate-600">
-                                ({(tempMembership.degree * 100).toFixed(0)}%)
+                                ({formatNumber(tempMembership.degree * 100, 0)}%)
                             </span>
                         </motion.div>
                     )}
                 </div>
 
+                {/* Química y caudal */}
+                <div className="space-y-4 pt-2 border-t border-slate-800">
+                    <SecondaryParameter
+                        icon={<Beaker className="w-4 h-4 text-sky-400" />}
+                        help={t({
+                            es: 'El sulfato de aluminio consume alcalinidad. Con agua blanda el pH cae y hace falta cal para que el coagulante precipite.',
+                            en: 'Aluminum sulfate consumes alkalinity. In soft water the pH drops and lime is needed for the coagulant to precipitate.'
+                        })}
+                        value={alkalinity}
+                        step={1}
+                        variable={variableById('alkalinity')}
+                        dominant={memberships?.alkalinity ? getDominantMembership(memberships.alkalinity) : null}
+                        disabled={isSimulating}
+                        onChange={value => setParameters({ alkalinity: value })}
+                    />
+                    <SecondaryParameter
+                        icon={<Zap className="w-4 h-4 text-violet-400" />}
+                        help={t({
+                            es: 'La conductividad mide las sales disueltas. Con agua muy blanda las partículas se repelen y hace falta más coagulante; con muchas sales basta menos.',
+                            en: 'Conductivity measures dissolved salts. In very soft water particles repel each other and more coagulant is needed; with many salts less is enough.'
+                        })}
+                        value={conductivity}
+                        step={10}
+                        variable={variableById('conductivity')}
+                        dominant={memberships?.conductivity ? getDominantMembership(memberships.conductivity) : null}
+                        disabled={isSimulating}
+                        onChange={value => setParameters({ conductivity: value })}
+                    />
+                    <SecondaryParameter
+                        icon={<Palette className="w-4 h-4 text-amber-400" />}
+                        help={t({
+                            es: 'El color verdadero indica materia orgánica disuelta. Con poca turbidez es el color el que fija la dosis de coagulante.',
+                            en: 'True color indicates dissolved organic matter. With low turbidity it is the color that sets the coagulant dose.'
+                        })}
+                        value={color}
+                        step={1}
+                        variable={variableById('color')}
+                        dominant={memberships?.color ? getDominantMembership(memberships.color) : null}
+                        disabled={isSimulating}
+                        onChange={value => setParameters({ color: value })}
+                    />
+                    <SecondaryParameter
+                        icon={<Waves className="w-4 h-4 text-blue-400" />}
+                        help={t({
+                            es: 'A mayor caudal, menor tiempo de residencia en floculadores y decantadores: se compensa con más dosis.',
+                            en: 'A higher flow rate means a shorter residence time in flocculators and settlers: it is offset with a higher dose.'
+                        })}
+                        value={flowRate}
+                        step={10}
+                        variable={variableById('flowRate')}
+                        dominant={memberships?.flowRate ? getDominantMembership(memberships.flowRate) : null}
+                        disabled={isSimulating}
+                        onChange={value => setParameters({ flowRate: value })}
+                    />
+                </div>
+
                 {/* Mensaje de simulación activa */}
                 {isSimulating && (
                     <motion.div
@@ -251,7 +343,7 @@ export function ParameterControls() {
                         animate={{ opacity: 1, y: 0 }}
                     >
                         <p className="text-xs text-cyan-400 text-center">
-                            ⚡ Simulación en progreso - Controles bloqueados
+                            ⚡ {t({ es: 'Simulación en progreso - Controles bloqueados', en: 'Simulation in progress - Controls locked' })}
                         </p>
                     </motion.div>
                 )}
@@ -259,3 +351,59 @@ export function ParameterControls() {
         </Card>
     )
 }
+
+// Componente auxiliar: entrada complementaria (alcalinidad, color, caudal)
+interface SecondaryParameterProps {
+    icon: React.ReactNode
+    help: string
+    value: number
+    step: number
+    variable: FuzzyVariable | undefined
+    dominant: { name: string; degree: number } | null
+    disabled: boolean
+    onChange: (value: number) => void
+}
+
+function SecondaryParameter({ icon, help, value, step, variable, dominant, disabled, onChange }: SecondaryParameterProps) {
+    const { locale, formatNumber } = useI18n()
+    if (!variable) return null
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    {icon}
+                    <span className="text-sm font-medium text-slate-300">{variableLabel(variable.id, locale)}</span>
+                    <Tooltip>
+                        <TooltipTrigger>
+                            <HelpCircle className="w-3.5 h-3.5 text-slate-500" />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                            <p className="max-w-xs">{help}</p>
+                        </TooltipContent>
+                    </Tooltip>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-base font-bold text-slate-200">{formatNumber(value, 0)}</span>
+                    <span className="text-xs text-slate-500">{variable.unit}</span>
+                    {dominant && (
+                        <span className="px-2 py-0.5 rounded bg-slate-800 text-xs text-cyan-400 capitalize">
+                            {termLabel(dominant.name, locale)}
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            <Slider
+                value={[value]}
+                onValueChange={([v]) => onChange(v)}
+                min={variable.range[0]}
+                max={variable.range[1]}
+                step={step}
+                disabled={disabled}
+            />
+
+            <MembershipChart variable={variable} value={value} />
+        </div>
+    )
+}
@@ -0,0 +1,237 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { PlantStageId, PLANT_MINUTES_PER_SECOND, PLANT_STAGE_IDS, hydraulicResidenceTimes, plantReadings } from '@/lib/plant-model'
+import { LocalizedText } from '@/lib/i18n'
+import {
+    LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip,
+    ResponsiveContainer, Legend
+} from 'recharts'
+import { Factory, ChevronRight, RotateCcw } from 'lucide-react'
+
+/**
+ * PlantProcessPanel - Modelo dinámico de la planta
+ *
+ * Avanza el modelo de tanques en serie con la última decisión del
+ * controlador y muestra el tiempo de residencia y la turbidez a la salida de
+ * cada etapa, junto con la evolución de la turbidez cruda, decantada y
+ * filtrada y de la consigna de turbidez decantada en tiempo de proceso.
+ */
+
+const STAGE_LABELS: Record<PlantStageId, LocalizedText> = {
+    rapidMix: { es: 'Mezcla rápida', en: 'Rapid mix' },
+    flocculator: { es: 'Floculador', en: 'Flocculator' },
+    sedimentation: { es: 'Decantador', en: 'Settling tank' },
+    filter: { es: 'Filtro', en: 'Filter' }
+}
+
+const SERIES_LABELS: Record<'raw' | 'settled' | 'filtered' | 'setpoint', LocalizedText> = {
+    raw: { es: 'Cruda', en: 'Raw' },
+    setpoint: { es: 'Consigna', en: 'Setpoint' },
+    settled: { es: 'Decantada', en: 'Settled' },
+    filtered: { es: 'Filtrada', en: 'Filtered' }
+}
+
+/** Intervalo real entre pasos del modelo fuera de un escenario (ms) */
+const PLANT_TICK_MS = 500
+
+export function PlantProcessPanel() {
+    const plant = useWaterStore(state => state.plant)
+    const plantHistory = useWaterStore(state => state.plantHistory)
+    const flowRate = useWaterStore(state => state.flowRate)
+    const isSimulating = useWaterStore(state => state.isSimulating)
+    const simulationSpeed = useWaterStore(state => state.simulationSpeed)
+    const advancePlant = useWaterStore(state => state.advancePlant)
+    const resetPlant = useWaterStore(state => state.resetPlant)
+    const { t, formatNumber } = useI18n()
+
+    // La planta funciona siempre; con un escenario en curso la hace avanzar
+    // la simulación (updateSimulation) y aquí solo se mueve fuera de él
+    useEffect(() => {
+        if (isSimulating) return
+        let last = performance.now()
+        const timer = setInterval(() => {
+            const now = performance.now()
+            advancePlant((now - last) / 1000 * PLANT_MINUTES_PER_SECOND * simulationSpeed)
+            last = now
+        }, PLANT_TICK_MS)
+        return () => clearInterval(timer)
+    }, [advancePlant, isSimulating, simulationSpeed])
+
+    const residence = hydraulicResidenceTimes(flowRate)
+    const readings = plant ? plantReadings(plant) : null
+
+    const chartData = plantHistory.map(point => ({
+        hours: point.time / 60,
+        raw: point.rawTurbidity,
+        settled: point.settledTurbidity,
+        filtered: point.filteredTurbidity,
+        setpoint: point.setpoint
+    }))
+
+    const formatMinutes = (minutes: number) => Number.isFinite(minutes)
+        ? minutes >= 60 ? `${formatNumber(minutes / 60, 1)} h` : `${formatNumber(minutes, minutes < 10 ? 1 : 0)} min`
+        : '∞'
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                    <Factory className="w-4 h-4 text-cyan-400" />
+                    {t({ es: 'Proceso de la Planta', en: 'Plant Process' })}
+                    {plant && (
+                        <span className="text-xs font-normal text-slate-500">
+                            t = {formatMinutes(plant.time)}
+                        </span>
+                    )}
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={resetPlant}
+                        className="ml-auto h-6 gap-1 text-xs"
+                        title={t({
+                            es: 'Reiniciar la planta en estado estacionario con el agua actual',
+                            en: 'Restart the plant at steady state with the current water'
+                        })}
+                    >
+                        <RotateCcw className="w-3 h-3" />
+                        {t({ es: 'Reiniciar', en: 'Restart' })}
+                    </Button>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {/* Etapas */}
+                <div className="flex items-stretch gap-1">
+                    {PLANT_STAGE_IDS.map((stage, index) => (
+                        <div key={stage} className="flex items-center gap-1 flex-1 min-w-0">
+                            <StageBox
+                                label={t(STAGE_LABELS[stage])}
+                                residence={formatMinutes(residence[stage])}
+                                outlet={readings ? `${formatNumber(readings[stage], readings[stage] < 10 ? 2 : 0)} NTU` : '—'}
+                            />
+                            {index < PLANT_STAGE_IDS.length - 1 && (
+                                <ChevronRight className="w-3 h-3 text-slate-600 shrink-0" />
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {/* Turbidez en tiempo de proceso */}
+                <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData}>
+                            <XAxis
+                                dataKey="hours"
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                tickFormatter={(value: number) => `${formatNumber(value, 1)} h`}
+                            />
+                            <YAxis
+                                yAxisId="treated"
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                width={32}
+                            />
+                            <YAxis
+                                yAxisId="raw"
+                                orientation="right"
+                                stroke="#475569"
+                                fontSize={10}
+                                tickLine={false}
+                                axisLine={false}
+                                width={32}
+                            />
+                            <RechartsTooltip
+                                contentStyle={{
+                                    backgroundColor: '#1e293b',
+                                    border: '1px solid #334155',
+                                    borderRadius: '8px',
+                                    fontSize: '12px'
+                                }}
+                                labelFormatter={(value: number) => `t = ${formatMinutes(value * 60)}`}
+                                formatter={(value: number, name: string) => [`${formatNumber(value, 2)} NTU`, name]}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '10px' }} />
+                            <Line
+                                yAxisId="raw"
+                                type="monotone"
+                                dataKey="raw"
+                                name={t(SERIES_LABELS.raw)}
+                                stroke="#a16207"
+                                strokeWidth={1.5}
+                                strokeDasharray="4 2"
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                            <Line
+                                yAxisId="treated"
+                                type="monotone"
+                                dataKey="settled"
+                                name={t(SERIES_LABELS.settled)}
+                                stroke="#06b6d4"
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                            <Line
+                                yAxisId="treated"
+                                type="stepAfter"
+                                dataKey="setpoint"
+                                name={t(SERIES_LABELS.setpoint)}
+                                stroke="#e2e8f0"
+                                strokeWidth={1}
+                                strokeDasharray="3 3"
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                            <Line
+                                yAxisId="treated"
+                                type="monotone"
+                                dataKey="filtered"
+                                name={t(SERIES_LABELS.filtered)}
+                                stroke="#10b981"
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+
+                <p className="text-[10px] text-slate-500">
+                    {t({
+                        es: 'La turbidez cruda usa el eje derecho. Un cambio en el agua o en la dosis tarda en verse a la salida lo que el agua tarda en recorrer el floculador y el decantador; a mayor caudal, menor tiempo de residencia y menos tiempo de floculación disponible.',
+                        en: 'Raw turbidity uses the right axis. A change in the water or the dose takes as long to show at the outlet as the water takes to pass through the flocculator and settling tank; higher flow means shorter residence time and less flocculation time available.'
+                    })}
+                </p>
+            </CardContent>
+        </Card>
+    )
+}
+
+// Componente auxiliar: etapa del proceso
+interface StageBoxProps {
+    label: string
+    residence: string
+    outlet: string
+}
+
+function StageBox({ label, residence, outlet }: StageBoxProps) {
+    return (
+        <div className="flex-1 min-w-0 p-2 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <div className="text-[10px] text-slate-500 truncate">{label}</div>
+            <div className="text-sm font-bold text-slate-200">{outlet}</div>
+            <div className="text-[10px] text-slate-500">τ {residence}</div>
+        </div>
+    )
+}
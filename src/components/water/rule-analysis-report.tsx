@@ -0,0 +1,227 @@
+'use client'
+
+import { useState } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import { analyzeRuleBase, RuleBaseReport } from '@/lib/rule-analysis'
+import { INPUT_VARIABLE_IDS } from '@/lib/fuzzy-system'
+import { termLabel, variableLabel } from '@/lib/i18n'
+import { AlertTriangle, CheckCircle, Copy, Play, Target } from 'lucide-react'
+
+/**
+ * RuleAnalysisReport - Informe de completitud y consistencia de las reglas
+ *
+ * Barre el espacio de entradas con el controlador actual y lista las
+ * regiones sin cubrir, las reglas contradictorias o redundantes y las que
+ * nunca llegan a dominar. Cada región sin cubrir puede cargarse en el
+ * simulador para ver qué hace el controlador allí.
+ */
+
+const MAX_LISTED_REGIONS = 10
+
+export function RuleAnalysisReport() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const setParameters = useWaterStore(state => state.setParameters)
+    const [threshold, setThreshold] = useState(0.2)
+    const [report, setReport] = useState<RuleBaseReport | null>(null)
+    const [analyzedSystem, setAnalyzedSystem] = useState(fuzzySystem)
+    const { locale, t, formatNumber } = useI18n()
+
+    const runAnalysis = () => {
+        setReport(analyzeRuleBase(fuzzySystem, { threshold }))
+        setAnalyzedSystem(fuzzySystem)
+    }
+
+    const ruleName = (id: number) => fuzzySystem.rules.find(rule => rule.id === id)?.name ?? `#${id}`
+    const isStale = report !== null && analyzedSystem !== fuzzySystem
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="flex flex-col gap-1">
+                    <span className="text-[10px] uppercase tracking-wide text-slate-500">{t({ es: 'Umbral de activación', en: 'Firing threshold' })}</span>
+                    <input
+                        type="number"
+                        min={0.05}
+                        max={1}
+                        step={0.05}
+                        value={threshold}
+                        onChange={e => setThreshold(Math.min(1, Math.max(0.05, Number(e.target.value) || 0.05)))}
+                        className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                    />
+                </label>
+                <Button size="sm" onClick={runAnalysis} className="gap-2 h-8">
+                    <Play className="w-3 h-3" />
+                    {t({ es: 'Analizar', en: 'Analyze' })}
+                </Button>
+                {isStale && (
+                    <span className="text-xs text-yellow-400">
+                        {t({ es: 'El controlador cambió desde el último análisis', en: 'The controller changed since the last analysis' })}
+                    </span>
+                )}
+            </div>
+
+            {!report ? (
+                <p className="text-xs text-slate-500">
+                    {t({
+                        es: 'Pulsa Analizar para barrer el espacio de entradas con la base de reglas actual.',
+                        en: 'Press Analyze to sweep the input space with the current rule base.'
+                    })}
+                </p>
+            ) : (
+                <>
+                    {/* Resumen */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <SummaryItem
+                            label={t({ es: 'Cobertura', en: 'Coverage' })}
+                            value={`${formatNumber(report.coverage * 100, 1)}%`}
+                            ok={report.uncoveredRegions.length === 0}
+                        />
+                        <SummaryItem label={t({ es: 'Regiones sin cubrir', en: 'Uncovered regions' })} value={report.uncoveredRegions.length} ok={report.uncoveredRegions.length === 0} />
+                        <SummaryItem label={t({ es: 'Contradicciones', en: 'Conflicts' })} value={report.conflicts.length} ok={report.conflicts.length === 0} />
+                        <SummaryItem label={t({ es: 'Redundancias', en: 'Redundancies' })} value={report.redundancies.length} ok={report.redundancies.length === 0} />
+                    </div>
+                    <p className="text-[10px] text-slate-500">
+                        {report.sampleCount} {t({
+                            es: 'muestras · una muestra está cubierta si alguna regla se activa ≥',
+                            en: 'samples · a sample is covered if some rule fires ≥'
+                        })} {formatNumber(report.threshold)}
+                    </p>
+
+                    {/* Regiones sin cubrir */}
+                    {report.uncoveredRegions.length > 0 && (
+                        <Section title={t({ es: 'Regiones sin cubrir', en: 'Uncovered regions' })} icon={<Target className="w-4 h-4 text-red-400" />}>
+                            {report.uncoveredRegions.slice(0, MAX_LISTED_REGIONS).map((region, i) => (
+                                <div key={i} className="flex items-center justify-between gap-2 p-2 rounded bg-slate-800/50 text-xs">
+                                    <div className="flex flex-wrap gap-1">
+                                        {/* Solo las variables que explican el hueco; el resto, cualquiera */}
+                                        {INPUT_VARIABLE_IDS.filter(id => region.terms[id]).map(id => (
+                                            <span key={id} className="px-1.5 py-0.5 rounded bg-slate-700/50 text-slate-300">
+                                                {variableLabel(id, locale)}:{' '}
+                                                <span className="text-cyan-400">{termLabel(region.terms[id] ?? '', locale)}</span>
+                                            </span>
+                                        ))}
+                                    </div>
+                                    <div className="flex items-center gap-3 shrink-0">
+                                        <span className="text-slate-500">
+                                            {region.sampleCount} {t({ es: 'muestras · máx', en: 'samples · max' })} {formatNumber(region.worstFiring)}
+                                        </span>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-6 text-xs"
+                                            onClick={() => setParameters(region.example)}
+                                            title={t({ es: 'Cargar la peor muestra de la región en el simulador', en: 'Load the worst sample of the region into the simulator' })}
+                                        >
+                                            {t({ es: 'Probar', en: 'Try' })}
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                            {report.uncoveredRegions.length > MAX_LISTED_REGIONS && (
+                                <p className="text-[10px] text-slate-500">
+                                    … {t({ es: 'y', en: 'and' })} {report.uncoveredRegions.length - MAX_LISTED_REGIONS} {t({ es: 'regiones más', en: 'more regions' })}
+                                </p>
+                            )}
+                        </Section>
+                    )}
+
+                    {/* Contradicciones y redundancias */}
+                    {(report.conflicts.length > 0 || report.redundancies.length > 0) && (
+                        <Section title={t({ es: 'Relaciones entre reglas', en: 'Relations between rules' })} icon={<Copy className="w-4 h-4 text-yellow-400" />}>
+                            {report.conflicts.map(({ ruleIds: [a, b], kind }) => (
+                                <div key={`c-${a}-${b}`} className="p-2 rounded bg-red-500/5 border border-red-500/20 text-xs text-slate-300">
+                                    <span className="text-red-400 font-medium">{t({ es: 'Contradicción', en: 'Conflict' })}</span>{' '}
+                                    {kind === 'identical'
+                                        ? locale === 'es'
+                                            ? <>“{ruleName(a)}” y “{ruleName(b)}” tienen los mismos antecedentes y distintas salidas</>
+                                            : <>“{ruleName(a)}” and “{ruleName(b)}” have the same antecedents and different outputs</>
+                                        : locale === 'es'
+                                            ? <>“{ruleName(b)}” especializa a “{ruleName(a)}” y concluye otras salidas</>
+                                            : <>“{ruleName(b)}” specializes “{ruleName(a)}” and concludes other outputs</>}
+                                </div>
+                            ))}
+                            {report.redundancies.map(({ ruleIds: [a, b], kind }) => (
+                                <div key={`r-${a}-${b}`} className="p-2 rounded bg-yellow-500/5 border border-yellow-500/20 text-xs text-slate-300">
+                                    <span className="text-yellow-400 font-medium">{t({ es: 'Redundancia', en: 'Redundancy' })}</span>{' '}
+                                    {kind === 'duplicate'
+                                        ? locale === 'es'
+                                            ? <>“{ruleName(b)}” duplica a “{ruleName(a)}”</>
+                                            : <>“{ruleName(b)}” duplicates “{ruleName(a)}”</>
+                                        : locale === 'es'
+                                            ? <>“{ruleName(b)}” ya está cubierta por “{ruleName(a)}” con las mismas salidas</>
+                                            : <>“{ruleName(b)}” is already covered by “{ruleName(a)}” with the same outputs</>}
+                                </div>
+                            ))}
+                        </Section>
+                    )}
+
+                    {/* Dominancia por regla */}
+                    <Section title={t({ es: 'Influencia de cada regla', en: 'Influence of each rule' })} icon={<CheckCircle className="w-4 h-4 text-emerald-400" />}>
+                        <div className="grid md:grid-cols-2 gap-1">
+                            {report.ruleStats.map(stat => {
+                                const neverDominant = report.neverDominant.includes(stat.id)
+                                return (
+                                    <div
+                                        key={stat.id}
+                                        className={`flex items-center justify-between gap-2 px-2 py-1 rounded text-xs ${neverDominant ? 'bg-yellow-500/5 text-yellow-300' : 'text-slate-300'}`}
+                                    >
+                                        <span className="truncate">{stat.name}</span>
+                                        <span className="shrink-0 text-slate-500">
+                                            {t({ es: 'máx', en: 'max' })} {formatNumber(stat.maxFiring)} · {t({ es: 'domina', en: 'dominates' })} {formatNumber(stat.dominantShare * 100, 1)}%
+                                        </span>
+                                    </div>
+                                )
+                            })}
+                        </div>
+                        {report.neverDominant.length > 0 && (
+                            <p className="flex items-center gap-1 text-[10px] text-yellow-400">
+                                <AlertTriangle className="w-3 h-3" />
+                                {report.neverDominant.length} {t({
+                                    es: 'reglas nunca son la más activada: revisa si aportan algo',
+                                    en: 'rules are never the most fired: check whether they contribute anything'
+                                })}
+                            </p>
+                        )}
+                    </Section>
+                </>
+            )}
+        </div>
+    )
+}
+
+// Componente auxiliar: indicador del resumen
+interface SummaryItemProps {
+    label: string
+    value: string | number
+    ok: boolean
+}
+
+function SummaryItem({ label, value, ok }: SummaryItemProps) {
+    return (
+        <div className={`p-3 rounded-lg border ${ok ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-red-500/5 border-red-500/30'}`}>
+            <div className="text-[10px] text-slate-500">{label}</div>
+            <div className={`text-lg font-bold ${ok ? 'text-emerald-400' : 'text-red-400'}`}>{value}</div>
+        </div>
+    )
+}
+
+// Componente auxiliar: sección del informe
+interface SectionProps {
+    title: string
+    icon: React.ReactNode
+    children: React.ReactNode
+}
+
+function Section({ title, icon, children }: SectionProps) {
+    return (
+        <div className="space-y-2">
+            <h4 className="text-xs font-medium text-slate-300 flex items-center gap-2">
+                {icon}
+                {title}
+            </h4>
+            {children}
+        </div>
+    )
+}
@@ -0,0 +1,562 @@
+'use client'
+
+import { useState, useSyncExternalStore } from 'react'
+import { createPortal } from 'react-dom'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import {
+    FuzzyRule,
+    FuzzyVariable,
+    InputVariableId,
+    LinearConsequent,
+    OutputVariableId,
+    PhCorrectionLevel,
+    PH_CORRECTION_LEVELS,
+    AntecedentExpression,
+    findRuleOverlaps,
+    formatAntecedent,
+    getRuleAntecedent,
+    getRuleWeight,
+    toSimpleConditions
+} from '@/lib/fuzzy-system'
+import { getTskConsequent } from '@/lib/fuzzy-logic'
+import { FclParseError, parseFclAntecedent } from '@/lib/fcl'
+import { LocalizedText, termLabel, variableLabel } from '@/lib/i18n'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+    X, Pencil, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw,
+    AlertTriangle, Copy, Power
+} from 'lucide-react'
+
+/**
+ * RuleEditorModal - Editor de la base de reglas difusas
+ *
+ * Permite a los ingenieros de proceso añadir, deshabilitar, reordenar y
+ * editar reglas (condiciones, dosis, tiempo, corrección de pH, costo base y peso)
+ * directamente sobre el controlador activo. Los antecedentes pueden pasarse
+ * a una expresión FCL con hedges, NOT, OR y paréntesis. Cada cambio vuelve a ejecutar
+ * la inferencia, y se resaltan las reglas con antecedentes duplicados o
+ * contradictorios. En modo TSK también se editan los consecuentes lineales.
+ */
+
+const PH_CORRECTION_LABELS: Record<PhCorrectionLevel, LocalizedText> = {
+    none: { es: 'Ninguna', en: 'None' },
+    slight: { es: 'Leve', en: 'Slight' },
+    moderate: { es: 'Moderada', en: 'Moderate' },
+    intense: { es: 'Intensa', en: 'Intense' }
+}
+
+// El portal solo puede montarse en el cliente
+const subscribeNoop = () => () => { }
+
+export function RuleEditorModal() {
+    const [isOpen, setIsOpen] = useState(false)
+    const mounted = useSyncExternalStore(subscribeNoop, () => true, () => false)
+
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const fuzzyOutputs = useWaterStore(state => state.fuzzyOutputs)
+    const addRule = useWaterStore(state => state.addRule)
+    const resetFuzzySystem = useWaterStore(state => state.resetFuzzySystem)
+    const { t } = useI18n()
+
+    const rules = fuzzySystem.rules
+    const isTsk = fuzzySystem.inferenceMode === 'tsk'
+    const overlaps = findRuleOverlaps(rules)
+    const conflictCount = Array.from(overlaps.values()).filter(o => o.conflicts.length > 0).length
+    const duplicateCount = Array.from(overlaps.values()).filter(o => o.duplicates.length > 0).length
+    const disabledCount = rules.filter(rule => rule.enabled === false).length
+
+    // Activación actual de cada regla (para ver el efecto de la edición en vivo)
+    const firingById = new Map(
+        (fuzzyOutputs?.ruleActivations ?? []).map(activation => [activation.id, activation.firingStrength])
+    )
+
+    const handleReset = () => {
+        if (window.confirm(t({
+            es: '¿Restaurar el controlador de referencia (el de fábrica o el último promovido)? Se perderán los cambios actuales.',
+            en: 'Restore the reference controller (the factory one or the last promoted)? Current changes will be lost.'
+        }))) {
+            resetFuzzySystem()
+        }
+    }
+
+    const modalContent = (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 bg-black/80 backdrop-blur-sm"
+                        style={{ zIndex: 9998 }}
+                        onClick={() => setIsOpen(false)}
+                    />
+
+                    <div
+                        className="fixed inset-0 flex items-center justify-center p-4"
+                        style={{ zIndex: 9999 }}
+                    >
+                        <motion.div
+                            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+                            animate={{ scale: 1, opacity: 1, y: 0 }}
+                            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                            transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                            className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-hidden"
+                            onClick={e => e.stopPropagation()}
+                        >
+                            {/* Header */}
+                            <div className="flex items-center justify-between p-4 border-b border-slate-800">
+                                <div className="flex items-center gap-3">
+                                    <div className="w-10 h-10 rounded-lg bg-cyan-500/10 flex items-center justify-center">
+                                        <Pencil className="w-5 h-5 text-cyan-400" />
+                                    </div>
+                                    <div>
+                                        <h2 className="text-lg font-semibold text-slate-200">
+                                            {t({ es: 'Editor de Reglas', en: 'Rule Editor' })}
+                                        </h2>
+                                        <p className="text-xs text-slate-500">
+                                            {rules.length} {t({ es: 'reglas', en: 'rules' })} · {disabledCount} {t({ es: 'deshabilitadas', en: 'disabled' })} ·{' '}
+                                            <span className={conflictCount > 0 ? 'text-red-400' : ''}>
+                                                {conflictCount} {t({ es: 'contradictorias', en: 'conflicting' })}
+                                            </span>{' '}·{' '}
+                                            <span className={duplicateCount > 0 ? 'text-yellow-400' : ''}>
+                                                {duplicateCount} {t({ es: 'duplicadas', en: 'duplicated' })}
+                                            </span>
+                                        </p>
+                                    </div>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setIsOpen(false)}
+                                    className="hover:bg-slate-800"
+                                >
+                                    <X className="w-5 h-5" />
+                                </Button>
+                            </div>
+
+                            {/* Content */}
+                            <div className="p-4 overflow-y-auto max-h-[65vh] space-y-3">
+                                {rules.map((rule, index) => (
+                                    <RuleEditorRow
+                                        key={rule.id}
+                                        rule={rule}
+                                        index={index}
+                                        total={rules.length}
+                                        inputs={fuzzySystem.inputs}
+                                        outputs={fuzzySystem.outputs}
+                                        firingStrength={firingById.get(rule.id) ?? 0}
+                                        duplicates={overlaps.get(rule.id)?.duplicates ?? []}
+                                        conflicts={overlaps.get(rule.id)?.conflicts ?? []}
+                                        tskConsequents={isTsk ? {
+                                            dose: getTskConsequent(rule, 'dose', fuzzySystem),
+                                            time: getTskConsequent(rule, 'time', fuzzySystem)
+                                        } : undefined}
+                                    />
+                                ))}
+                            </div>
+
+                            {/* Footer */}
+                            <div className="p-4 border-t border-slate-800 bg-slate-900/50 flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2">
+                                    <Button variant="outline" size="sm" onClick={addRule} className="gap-2">
+                                        <Plus className="w-4 h-4" />
+                                        {t({ es: 'Añadir regla', en: 'Add rule' })}
+                                    </Button>
+                                    <Button variant="outline" size="sm" onClick={handleReset} className="gap-2">
+                                        <RotateCcw className="w-4 h-4" />
+                                        {t({ es: 'Restaurar referencia', en: 'Restore reference' })}
+                                    </Button>
+                                </div>
+                                <p className="text-xs text-slate-500 hidden md:block">
+                                    💡 {t({
+                                        es: 'Los cambios se aplican al instante sobre el controlador activo.',
+                                        en: 'Changes are applied instantly to the active controller.'
+                                    })}
+                                </p>
+                                <Button variant="outline" size="sm" onClick={() => setIsOpen(false)}>
+                                    {t({ es: 'Cerrar', en: 'Close' })}
+                                </Button>
+                            </div>
+                        </motion.div>
+                    </div>
+                </>
+            )}
+        </AnimatePresence>
+    )
+
+    return (
+        <>
+            {/* Botón trigger */}
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsOpen(true)}
+                className="gap-2"
+            >
+                <Pencil className="w-4 h-4 text-cyan-400" />
+                {t({ es: 'Editar Reglas', en: 'Edit Rules' })}
+                {conflictCount > 0 && (
+                    <span className="ml-1 px-1.5 py-0.5 rounded-full bg-red-500/20 text-red-400 text-xs">
+                        {conflictCount}
+                    </span>
+                )}
+            </Button>
+
+            {mounted && createPortal(modalContent, document.body)}
+        </>
+    )
+}
+
+// Componente auxiliar: fila editable de una regla
+interface RuleEditorRowProps {
+    rule: FuzzyRule
+    index: number
+    total: number
+    inputs: FuzzyVariable[]
+    outputs: FuzzyVariable[]
+    firingStrength: number
+    duplicates: number[]
+    conflicts: number[]
+    /** Consecuentes lineales vigentes (solo en modo TSK) */
+    tskConsequents?: Record<OutputVariableId, LinearConsequent>
+}
+
+function RuleEditorRow({
+    rule, index, total, inputs, outputs, firingStrength, duplicates, conflicts, tskConsequents
+}: RuleEditorRowProps) {
+    const updateRule = useWaterStore(state => state.updateRule)
+    const removeRule = useWaterStore(state => state.removeRule)
+    const moveRule = useWaterStore(state => state.moveRule)
+    const { locale, t, formatNumber } = useI18n()
+
+    const enabled = rule.enabled !== false
+    const conditionCount = Object.values(rule.conditions).filter(Boolean).length
+    const simpleConditions = rule.antecedent ? toSimpleConditions(rule.antecedent) : null
+
+    const setCondition = (variableId: InputVariableId, termName: string) => {
+        const conditions = { ...rule.conditions }
+        if (termName) {
+            conditions[variableId] = termName
+        } else {
+            delete conditions[variableId]
+        }
+        updateRule(rule.id, { conditions })
+    }
+
+    const termsOf = (id: string) => outputs.find(v => v.id === id)?.terms ?? []
+
+    const setTskValue = (outputId: OutputVariableId, key: InputVariableId | 'constant', value: number) => {
+        if (!tskConsequents || !Number.isFinite(value)) return
+        const current = tskConsequents[outputId]
+        const next: LinearConsequent = key === 'constant'
+            ? { ...current, constant: value }
+            : { ...current, coefficients: { ...current.coefficients, [key]: value } }
+        updateRule(rule.id, { tsk: { ...tskConsequents, [outputId]: next } })
+    }
+
+    const borderClass = conflicts.length > 0
+        ? 'border-red-500/60 bg-red-500/5'
+        : duplicates.length > 0
+            ? 'border-yellow-500/60 bg-yellow-500/5'
+            : 'border-slate-700/50 bg-slate-800/50'
+
+    return (
+        <div className={`p-3 rounded-lg border ${borderClass} ${enabled ? '' : 'opacity-50'}`}>
+            {/* Cabecera de la regla */}
+            <div className="flex items-center gap-2 mb-3">
+                <span className="text-xs font-mono text-slate-500 w-8">R{rule.id}</span>
+                <input
+                    value={rule.name}
+                    onChange={e => updateRule(rule.id, { name: e.target.value })}
+                    className="flex-1 bg-transparent border-b border-slate-700 focus:border-cyan-500 outline-none text-sm text-slate-200 px-1 py-0.5"
+                />
+                <span
+                    className={`text-xs font-bold w-12 text-right ${firingStrength > 0.7 ? 'text-emerald-400' :
+                        firingStrength > 0.4 ? 'text-yellow-400' : 'text-slate-500'
+                        }`}
+                    title={t({
+                        es: 'Activación con los parámetros actuales (multiplicada por el peso)',
+                        en: 'Firing strength with the current parameters (multiplied by the weight)'
+                    })}
+                >
+                    {formatNumber(firingStrength * 100, 0)}%
+                </span>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className={`h-7 w-7 ${enabled ? 'text-emerald-400' : 'text-slate-500'}`}
+                    onClick={() => updateRule(rule.id, { enabled: !enabled })}
+                    title={enabled ? t({ es: 'Deshabilitar regla', en: 'Disable rule' }) : t({ es: 'Habilitar regla', en: 'Enable rule' })}
+                >
+                    <Power className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => moveRule(rule.id, -1)}
+                    title={t({ es: 'Subir', en: 'Move up' })}
+                >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === total - 1}
+                    onClick={() => moveRule(rule.id, 1)}
+                    title={t({ es: 'Bajar', en: 'Move down' })}
+                >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 hover:text-red-400"
+                    onClick={() => removeRule(rule.id)}
+                    title={t({ es: 'Eliminar regla', en: 'Delete rule' })}
+                >
+                    <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-3 text-xs">
+                {/* Antecedentes: condiciones simples o expresión FCL */}
+                {rule.antecedent ? (
+                    <div className="flex flex-wrap items-start gap-2">
+                        <span className="text-cyan-400 font-medium py-0.5">{t({ es: 'SI', en: 'IF' })}</span>
+                        <AntecedentInput
+                            key={formatAntecedent(rule.antecedent)}
+                            value={formatAntecedent(rule.antecedent)}
+                            inputs={inputs}
+                            onCommit={antecedent => updateRule(rule.id, { antecedent, conditions: {} })}
+                        />
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-[11px]"
+                            disabled={!simpleConditions}
+                            onClick={() => simpleConditions && updateRule(rule.id, { conditions: simpleConditions, antecedent: undefined })}
+                            title={simpleConditions
+                                ? t({ es: 'Volver a condiciones simples', en: 'Back to simple conditions' })
+                                : t({ es: 'Solo para expresiones sin hedges, NOT ni OR', en: 'Only for expressions without hedges, NOT or OR' })}
+                        >
+                            {t({ es: 'Simple', en: 'Simple' })}
+                        </Button>
+                    </div>
+                ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-cyan-400 font-medium">{t({ es: 'SI', en: 'IF' })}</span>
+                    {inputs.map(variable => {
+                        const current = rule.conditions[variable.id as InputVariableId] ?? ''
+                        // La última condición no puede quitarse: una regla sin antecedentes no es válida
+                        const canClear = !current || conditionCount > 1
+                        return (
+                            <label key={variable.id} className="flex items-center gap-1">
+                                <span className="text-slate-400">{variableLabel(variable.id, locale)}</span>
+                                <select
+                                    value={current}
+                                    onChange={e => setCondition(variable.id as InputVariableId, e.target.value)}
+                                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-purple-400"
+                                >
+                                    {canClear && <option value="">—</option>}
+                                    {variable.terms.map(term => (
+                                        <option key={term.name} value={term.name}>{termLabel(term.name, locale)}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )
+                    })}
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-[11px]"
+                        onClick={() => updateRule(rule.id, { antecedent: getRuleAntecedent(rule), conditions: {} })}
+                        title={t({
+                            es: 'Editar como expresión con hedges (very, somewhat, extremely), NOT, OR y paréntesis',
+                            en: 'Edit as an expression with hedges (very, somewhat, extremely), NOT, OR and parentheses'
+                        })}
+                    >
+                        {t({ es: 'Expresión', en: 'Expression' })}
+                    </Button>
+                </div>
+                )}
+
+                {/* Consecuentes */}
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-orange-400 font-medium">{t({ es: 'ENTONCES', en: 'THEN' })}</span>
+                    {(['dose', 'time'] as const).map(outputId => (
+                        <label key={outputId} className="flex items-center gap-1">
+                            <span className="text-slate-400">{variableLabel(outputId, locale)}</span>
+                            <select
+                                value={rule.outputs[outputId]}
+                                onChange={e => updateRule(rule.id, {
+                                    outputs: { ...rule.outputs, [outputId]: e.target.value }
+                                })}
+                                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-emerald-400"
+                            >
+                                {termsOf(outputId).map(term => (
+                                    <option key={term.name} value={term.name}>{termLabel(term.name, locale)}</option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+                    <label className="flex items-center gap-1">
+                        <span className="text-slate-400">{variableLabel('phCorrection', locale)}</span>
+                        <select
+                            value={rule.outputs.phCorrection}
+                            onChange={e => updateRule(rule.id, {
+                                outputs: { ...rule.outputs, phCorrection: e.target.value as PhCorrectionLevel }
+                            })}
+                            className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-emerald-400"
+                        >
+                            {PH_CORRECTION_LEVELS.map(level => (
+                                <option key={level} value={level}>{t(PH_CORRECTION_LABELS[level])}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1">
+                        <span className="text-slate-400">{t({ es: 'Costo', en: 'Cost' })}</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={rule.baseCost}
+                            onChange={e => {
+                                const value = parseFloat(e.target.value)
+                                if (Number.isFinite(value) && value >= 0) {
+                                    updateRule(rule.id, { baseCost: value })
+                                }
+                            }}
+                            className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+                        />
+                        <span className="text-slate-500">$/m³</span>
+                    </label>
+                    <label
+                        className="flex items-center gap-1"
+                        title={t({ es: 'Factor de certeza: multiplica la activación de la regla', en: 'Certainty factor: multiplies the firing strength of the rule' })}
+                    >
+                        <span className="text-slate-400">{t({ es: 'Peso', en: 'Weight' })}</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={getRuleWeight(rule)}
+                            onChange={e => {
+                                const value = parseFloat(e.target.value)
+                                if (Number.isFinite(value) && value >= 0 && value <= 1) {
+                                    updateRule(rule.id, { weight: value === 1 ? undefined : value })
+                                }
+                            }}
+                            className="w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+                        />
+                    </label>
+                </div>
+            </div>
+
+            {/* Consecuentes lineales TSK */}
+            {tskConsequents && (
+                <div className="mt-3 space-y-1 text-xs">
+                    {(['dose', 'time'] as const).map(outputId => (
+                        <div key={outputId} className="flex flex-wrap items-center gap-1">
+                            <span className="text-cyan-400 font-medium w-14">
+                                {variableLabel(outputId, locale)} =
+                            </span>
+                            <TskNumberInput
+                                value={tskConsequents[outputId].constant}
+                                onChange={value => setTskValue(outputId, 'constant', value)}
+                            />
+                            {inputs.map(variable => (
+                                <span key={variable.id} className="flex items-center gap-1">
+                                    <span className="text-slate-500">+</span>
+                                    <TskNumberInput
+                                        value={tskConsequents[outputId].coefficients[variable.id as InputVariableId] ?? 0}
+                                        onChange={value => setTskValue(outputId, variable.id as InputVariableId, value)}
+                                    />
+                                    <span className="text-slate-400">·{variableLabel(variable.id, locale)}</span>
+                                </span>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Avisos de solapamiento */}
+            {(conflicts.length > 0 || duplicates.length > 0) && (
+                <div className="mt-2 flex flex-wrap gap-3 text-[11px]">
+                    {conflicts.length > 0 && (
+                        <span className="flex items-center gap-1 text-red-400">
+                            <AlertTriangle className="w-3 h-3" />
+                            {t({ es: 'Contradice a', en: 'Conflicts with' })} {conflicts.map(id => `R${id}`).join(', ')}: {t({
+                                es: 'mismos antecedentes, distintos consecuentes',
+                                en: 'same antecedents, different consequents'
+                            })}
+                        </span>
+                    )}
+                    {duplicates.length > 0 && (
+                        <span className="flex items-center gap-1 text-yellow-400">
+                            <Copy className="w-3 h-3" />
+                            {t({ es: 'Duplica a', en: 'Duplicates' })} {duplicates.map(id => `R${id}`).join(', ')}
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+// Componente auxiliar: coeficiente numérico de un consecuente TSK
+function TskNumberInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+    return (
+        <input
+            type="number"
+            step="any"
+            value={value}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-20 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+        />
+    )
+}
+
+// Componente auxiliar: expresión de antecedente en sintaxis FCL
+interface AntecedentInputProps {
+    value: string
+    inputs: FuzzyVariable[]
+    onCommit: (antecedent: AntecedentExpression) => void
+}
+
+function AntecedentInput({ value, inputs, onCommit }: AntecedentInputProps) {
+    const [draft, setDraft] = useState(value)
+    const [error, setError] = useState<string | null>(null)
+    const { t } = useI18n()
+
+    const commit = () => {
+        if (draft === value) return
+        try {
+            onCommit(parseFclAntecedent(draft, inputs))
+            setError(null)
+        } catch (e) {
+            setError(e instanceof FclParseError ? `${t({ es: 'Columna', en: 'Column' })} ${e.column}: ${t(e.detail)}` : String(e))
+        }
+    }
+
+    return (
+        <div className="flex-1 min-w-[12rem]">
+            <input
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={e => e.key === 'Enter' && commit()}
+                spellCheck={false}
+                className={`w-full bg-slate-900 border rounded px-1 py-0.5 font-mono text-purple-400 ${error ? 'border-red-500/60' : 'border-slate-700'}`}
+            />
+            {error && <div className="mt-1 text-[11px] text-red-400">{error}</div>}
+        </div>
+    )
+}
@@ -0,0 +1,345 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Button } from '@/components/ui/button'
+import {
+    DEFAULT_OPTIMIZER_OPTIONS,
+    ObjectiveBreakdown,
+    OptimizerCandidate,
+    OptimizerGeneration,
+    OptimizerWorkerRequest,
+    OptimizerWorkerResponse
+} from '@/lib/optimizer'
+import { diffFuzzySystems } from '@/lib/system-diff'
+import { serializeFuzzySystem } from '@/lib/fuzzy-system'
+import { ALL_SCENARIOS } from '@/lib/scenarios'
+import {
+    LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip,
+    Legend, ResponsiveContainer
+} from 'recharts'
+import { AlertTriangle, CheckCircle, Dna, Download, Play, Square } from 'lucide-react'
+
+/**
+ * RuleOptimizer - Búsqueda evolutiva de la base de reglas
+ *
+ * Lanza en un Web Worker la evolución diferencial sobre los términos de
+ * entrada, los consecuentes y la selección de reglas, minimizando el costo
+ * químico más una penalización por turbidez decantada estimada en los
+ * escenarios elegidos. Muestra la convergencia en vivo y las diferencias
+ * del mejor candidato con el controlador actual, que puede aplicarse.
+ */
+export function RuleOptimizer() {
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const setFuzzySystem = useWaterStore(state => state.setFuzzySystem)
+    const { locale, t, formatNumber } = useI18n()
+
+    const workerRef = useRef<Worker | null>(null)
+    const [scenarioIds, setScenarioIds] = useState(DEFAULT_OPTIMIZER_OPTIONS.scenarioIds)
+    const [generations, setGenerations] = useState(DEFAULT_OPTIMIZER_OPTIONS.generations)
+    const [populationSize, setPopulationSize] = useState(DEFAULT_OPTIMIZER_OPTIONS.populationSize)
+    const [targetTurbidity, setTargetTurbidity] = useState(DEFAULT_OPTIMIZER_OPTIONS.targetTurbidity)
+    const [turbidityPenalty, setTurbidityPenalty] = useState(DEFAULT_OPTIMIZER_OPTIONS.turbidityPenalty)
+    const [search, setSearch] = useState({
+        searchMemberships: DEFAULT_OPTIMIZER_OPTIONS.searchMemberships,
+        searchConsequents: DEFAULT_OPTIMIZER_OPTIONS.searchConsequents,
+        searchRuleSelection: DEFAULT_OPTIMIZER_OPTIONS.searchRuleSelection
+    })
+    const [history, setHistory] = useState<OptimizerGeneration[]>([])
+    const [initial, setInitial] = useState<ObjectiveBreakdown | null>(null)
+    const [candidate, setCandidate] = useState<OptimizerCandidate | null>(null)
+    const [optimizedFrom, setOptimizedFrom] = useState(fuzzySystem)
+    const [isRunning, setIsRunning] = useState(false)
+    const [applied, setApplied] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Terminar el worker si se desmonta el panel
+    useEffect(() => () => workerRef.current?.terminate(), [])
+
+    const stop = () => {
+        workerRef.current?.terminate()
+        workerRef.current = null
+        setIsRunning(false)
+    }
+
+    const start = () => {
+        workerRef.current?.terminate()
+        const worker = new Worker(new URL('../../workers/rule-optimizer.worker.ts', import.meta.url))
+        workerRef.current = worker
+        setHistory([])
+        setInitial(null)
+        setCandidate(null)
+        setError(null)
+        setApplied(false)
+        setOptimizedFrom(fuzzySystem)
+        setIsRunning(true)
+
+        worker.onmessage = (event: MessageEvent<OptimizerWorkerResponse>) => {
+            const message = event.data
+            switch (message.type) {
+                case 'generation':
+                    setHistory(previous => [...previous, message.generation])
+                    if (message.initial) setInitial(message.initial)
+                    if (message.candidate) setCandidate(message.candidate)
+                    break
+                case 'done':
+                    setCandidate({ system: message.result.system, breakdown: message.result.best })
+                    stop()
+                    break
+                case 'error':
+                    setError(message.message)
+                    stop()
+                    break
+            }
+        }
+        worker.onerror = event => {
+            setError(event.message || t({
+                es: 'El optimizador se detuvo por un error inesperado',
+                en: 'The optimizer stopped because of an unexpected error'
+            }))
+            stop()
+        }
+
+        const request: OptimizerWorkerRequest = {
+            type: 'start',
+            system: fuzzySystem,
+            options: { scenarioIds, generations, populationSize, targetTurbidity, turbidityPenalty, ...search }
+        }
+        worker.postMessage(request)
+    }
+
+    const changes = useMemo(
+        () => candidate ? diffFuzzySystems(optimizedFrom, candidate.system, locale) : [],
+        [candidate, optimizedFrom, locale]
+    )
+
+    const apply = () => {
+        if (!candidate) return
+        setFuzzySystem(candidate.system)
+        setApplied(true)
+    }
+
+    const download = () => {
+        if (!candidate) return
+        const blob = new Blob([serializeFuzzySystem(candidate.system)], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = 'aquafuzzy-controlador-optimizado.json'
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const toggleScenario = (id: string) => setScenarioIds(previous =>
+        previous.includes(id) ? previous.filter(s => s !== id) : [...previous, id])
+
+    const isStale = candidate !== null && !applied && optimizedFrom !== fuzzySystem
+    const nothingToSearch = !search.searchMemberships && !search.searchConsequents && !search.searchRuleSelection
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+                <NumberField label={t({ es: 'Generaciones', en: 'Generations' })} value={generations} min={1} max={200} step={1} onChange={setGenerations} />
+                <NumberField label={t({ es: 'Población', en: 'Population' })} value={populationSize} min={4} max={60} step={1} onChange={setPopulationSize} />
+                <NumberField label={t({ es: 'Decantada objetivo (NTU)', en: 'Settled target (NTU)' })} value={targetTurbidity} min={0.1} max={50} step={0.5} onChange={setTargetTurbidity} />
+                <NumberField label={t({ es: 'Penalización ($/m³·NTU)', en: 'Penalty ($/m³·NTU)' })} value={turbidityPenalty} min={0} max={10} step={0.01} onChange={setTurbidityPenalty} />
+                {isRunning ? (
+                    <Button size="sm" variant="outline" onClick={stop} className="gap-2 h-8">
+                        <Square className="w-3 h-3 text-red-400" />
+                        {t({ es: 'Detener', en: 'Stop' })} ({history.length > 0 ? history[history.length - 1].generation : 0}/{generations})
+                    </Button>
+                ) : (
+                    <Button size="sm" onClick={start} className="gap-2 h-8" disabled={scenarioIds.length === 0 || nothingToSearch}>
+                        <Play className="w-3 h-3" />
+                        {t({ es: 'Optimizar', en: 'Optimize' })}
+                    </Button>
+                )}
+                {isStale && (
+                    <span className="text-xs text-yellow-400">
+                        {t({ es: 'El controlador cambió desde la optimización', en: 'The controller changed since the optimization' })}
+                    </span>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-300">
+                {([
+                    ['searchMemberships', { es: 'Funciones de membresía', en: 'Membership functions' }],
+                    ['searchConsequents', { es: 'Consecuentes', en: 'Consequents' }],
+                    ['searchRuleSelection', { es: 'Selección de reglas', en: 'Rule selection' }]
+                ] as const).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-1.5">
+                        <input
+                            type="checkbox"
+                            checked={search[key]}
+                            onChange={e => setSearch(previous => ({ ...previous, [key]: e.target.checked }))}
+                            disabled={isRunning}
+                        />
+                        {t(label)}
+                    </label>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+                {ALL_SCENARIOS.map(scenario => (
+                    <button
+                        key={scenario.id}
+                        onClick={() => toggleScenario(scenario.id)}
+                        disabled={isRunning}
+                        className={`px-2 py-1 rounded text-[11px] border ${scenarioIds.includes(scenario.id)
+                            ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-300'
+                            : 'bg-slate-800 border-slate-700 text-slate-500'}`}
+                    >
+                        {scenario.icon} {t(scenario.name)}
+                    </button>
+                ))}
+            </div>
+
+            <p className="text-[10px] text-slate-500">
+                {t({
+                    es: `Objetivo = costo operativo medio + penalización × NTU por encima del objetivo, con la turbidez
+                    decantada estimada por el modelo de clarificación en ${DEFAULT_OPTIMIZER_OPTIONS.samplesPerScenario} instantes
+                    de cada escenario. Las estimaciones son orientativas: revisa el candidato antes de aplicarlo.`,
+                    en: `Objective = mean operating cost + penalty × NTU above the target, with the settled turbidity
+                    estimated by the clarification model at ${DEFAULT_OPTIMIZER_OPTIONS.samplesPerScenario} instants
+                    of each scenario. The estimates are indicative: review the candidate before applying it.`
+                })}
+            </p>
+
+            {error && (
+                <div className="flex items-start gap-2 p-2 rounded bg-red-500/10 border border-red-500/30 text-xs text-red-300">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    {error}
+                </div>
+            )}
+
+            {history.length > 0 && (
+                <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={history}>
+                            <XAxis dataKey="generation" stroke="#475569" fontSize={10} tickLine={false} axisLine={false} />
+                            <YAxis stroke="#475569" fontSize={10} tickLine={false} axisLine={false} width={40} domain={['auto', 'auto']} />
+                            <RechartsTooltip
+                                contentStyle={{
+                                    backgroundColor: '#1e293b',
+                                    border: '1px solid #334155',
+                                    borderRadius: '8px',
+                                    fontSize: '12px'
+                                }}
+                                labelFormatter={(value: number) => `${t({ es: 'Generación', en: 'Generation' })} ${value}`}
+                                formatter={(value: number, name: string) => [`${formatNumber(value, 3)} $/m³`, name]}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '11px' }} />
+                            <Line type="monotone" dataKey="best" name={t({ es: 'Mejor', en: 'Best' })} stroke="#06b6d4" strokeWidth={2} dot={false} isAnimationActive={false} />
+                            <Line type="monotone" dataKey="mean" name={t({ es: 'Media de la población', en: 'Population mean' })} stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            {candidate && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <BreakdownItem label={t({ es: 'Objetivo', en: 'Objective' })} unit="$/m³" decimals={3} before={initial?.objective} after={candidate.breakdown.objective} />
+                        <BreakdownItem label={t({ es: 'Costo medio', en: 'Mean cost' })} unit="$/m³" decimals={3} before={initial?.meanCost} after={candidate.breakdown.meanCost} />
+                        <BreakdownItem label={t({ es: 'Decantada media', en: 'Mean settled' })} unit="NTU" decimals={2} before={initial?.meanSettledTurbidity} after={candidate.breakdown.meanSettledTurbidity} />
+                        <BreakdownItem label={t({ es: 'Sobre el objetivo', en: 'Above target' })} unit="%" decimals={0} before={initial && initial.exceedance * 100} after={candidate.breakdown.exceedance * 100} />
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Button size="sm" onClick={apply} className="gap-2 h-8" disabled={applied || isRunning || changes.length === 0}>
+                            {applied ? <CheckCircle className="w-3 h-3" /> : <Dna className="w-3 h-3" />}
+                            {applied
+                                ? t({ es: 'Aplicado', en: 'Applied' })
+                                : t({ es: 'Aplicar candidato', en: 'Apply candidate' })}
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={download} className="gap-2 h-8">
+                            <Download className="w-3 h-3 text-cyan-400" />
+                            {t({ es: 'Descargar JSON', en: 'Download JSON' })}
+                        </Button>
+                        <span className="text-[10px] text-slate-500">
+                            {changes.length} {t({ es: 'cambios respecto al controlador de partida', en: 'changes from the starting controller' })}
+                        </span>
+                    </div>
+
+                    {changes.length > 0 && (
+                        <div className="max-h-64 overflow-y-auto rounded border border-slate-700/50">
+                            <table className="w-full text-[11px]">
+                                <thead className="sticky top-0 bg-slate-800 text-slate-400">
+                                    <tr>
+                                        <th className="text-left px-2 py-1 font-medium">{t({ es: 'Elemento', en: 'Item' })}</th>
+                                        <th className="text-left px-2 py-1 font-medium">{t({ es: 'Cambio', en: 'Change' })}</th>
+                                        <th className="text-left px-2 py-1 font-medium">{t({ es: 'Actual', en: 'Current' })}</th>
+                                        <th className="text-left px-2 py-1 font-medium">{t({ es: 'Candidato', en: 'Candidate' })}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {changes.map((change, i) => (
+                                        <tr key={i} className="border-t border-slate-800">
+                                            <td className="px-2 py-1 text-slate-300">{change.target}</td>
+                                            <td className="px-2 py-1 text-slate-500">{change.field}</td>
+                                            <td className="px-2 py-1 font-mono text-red-300/80">{change.before ?? '—'}</td>
+                                            <td className="px-2 py-1 font-mono text-emerald-300">{change.after ?? '—'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
+
+// Componente auxiliar: campo numérico de las opciones
+interface NumberFieldProps {
+    label: string
+    value: number
+    min: number
+    max: number
+    step: number
+    onChange: (value: number) => void
+}
+
+function NumberField({ label, value, min, max, step, onChange }: NumberFieldProps) {
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-500">{label}</span>
+            <input
+                type="number"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={e => onChange(Math.min(max, Math.max(min, Number(e.target.value) || min)))}
+                className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+            />
+        </label>
+    )
+}
+
+// Componente auxiliar: componente del objetivo antes y después
+interface BreakdownItemProps {
+    label: string
+    unit: string
+    decimals: number
+    before?: number | null
+    after: number
+}
+
+function BreakdownItem({ label, unit, decimals, before, after }: BreakdownItemProps) {
+    const improved = before === undefined || before === null || after <= before
+    const { t, formatNumber } = useI18n()
+    return (
+        <div className={`p-3 rounded-lg border ${improved ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-red-500/5 border-red-500/30'}`}>
+            <div className="text-[10px] text-slate-500">{label}</div>
+            <div className={`text-lg font-bold ${improved ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatNumber(after, decimals)} <span className="text-xs font-normal">{unit}</span>
+            </div>
+            {before !== undefined && before !== null && (
+                <div className="text-[10px] text-slate-500">{t({ es: 'actual', en: 'current' })} {formatNumber(before, decimals)}</div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CONTROLLERS } from '@/lib/controllers'
+import { RunReport } from '@/lib/run-report'
+import { RiskLevel } from '@/lib/fuzzy-logic'
+import { RISK_LEVEL_LABELS } from '@/lib/i18n'
+import { ClipboardList, Download, Trash2 } from 'lucide-react'
+
+/**
+ * RunReportPanel - Informe de desempeño de los escenarios terminados
+ *
+ * Al terminar un escenario el simulador guarda un informe con el error de
+ * seguimiento de la turbidez decantada (IAE, ISE, ITAE), el coagulante, el
+ * desgaste de la bomba dosificadora, el tiempo en cada nivel de riesgo y el
+ * costo total. Los informes se conservan entre sesiones.
+ */
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+    optimal: 'bg-emerald-500',
+    caution: 'bg-yellow-500',
+    critical: 'bg-red-500'
+}
+
+export function RunReportPanel() {
+    const runReports = useWaterStore(state => state.runReports)
+    const loadRunReports = useWaterStore(state => state.loadRunReports)
+    const deleteRunReport = useWaterStore(state => state.deleteRunReport)
+    const clearRunReports = useWaterStore(state => state.clearRunReports)
+    const { t, formatNumber, formatDateTime } = useI18n()
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+
+    // Recuperar los informes de sesiones anteriores
+    useEffect(() => {
+        loadRunReports()
+    }, [loadRunReports])
+
+    if (runReports.length === 0) return null
+
+    // Por defecto, el último escenario terminado
+    const report = runReports.find(r => r.id === selectedId) ?? runReports[runReports.length - 1]
+
+    const download = (reports: RunReport[], filename: string) => {
+        const blob = new Blob([JSON.stringify(reports, null, 2)], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = filename
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const riskTotal = Math.max(1e-9, Object.values(report.riskMinutes).reduce((sum, minutes) => sum + minutes, 0))
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                    <ClipboardList className="w-4 h-4 text-cyan-400" />
+                    {t({ es: 'Informe de Ejecución', en: 'Run Report' })}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="text-xs text-slate-400">
+                    <span className="font-medium text-slate-200">{t(report.scenarioName)}</span>
+                    {' · '}{t(CONTROLLERS[report.controllerId].name)}
+                    {' · '}{report.controlMode === 'closed'
+                        ? t({ es: 'lazo cerrado', en: 'closed loop' })
+                        : t({ es: 'lazo abierto', en: 'open loop' })}
+                    <div className="text-[10px] text-slate-500">
+                        {formatDateTime(report.finishedAt)}
+                        {' · '}{formatNumber(report.durationMinutes / 60, 1)} h {t({ es: 'de proceso', en: 'of process time' })}
+                        {' · '}{t({ es: 'consigna', en: 'setpoint' })} {formatNumber(report.setpoint, 1)} NTU
+                    </div>
+                </div>
+
+                {/* Seguimiento de la turbidez decantada */}
+                <div className="grid grid-cols-3 gap-2">
+                    <ReportItem label="IAE" value={formatNumber(report.iae, 0)} unit="NTU·min" />
+                    <ReportItem label="ISE" value={formatNumber(report.ise, 0)} unit="NTU²·min" />
+                    <ReportItem label="ITAE" value={formatNumber(report.itae, 0)} unit="NTU·min²" />
+                    <ReportItem
+                        label={t({ es: 'Decantada media', en: 'Mean settled' })}
+                        value={formatNumber(report.meanSettled, 2)}
+                        unit="NTU"
+                    />
+                    <ReportItem
+                        label={t({ es: 'Decantada máx.', en: 'Max settled' })}
+                        value={formatNumber(report.maxSettled, 1)}
+                        unit="NTU"
+                    />
+                    <ReportItem
+                        label={t({ es: 'Cambios de regla', en: 'Rule switches' })}
+                        value={formatNumber(report.ruleSwitches, 0)}
+                        unit=""
+                    />
+                </div>
+
+                {/* Coagulante, dosificadora y costo */}
+                <div className="grid grid-cols-3 gap-2">
+                    <ReportItem
+                        label={t({ es: 'Coagulante', en: 'Coagulant' })}
+                        value={formatNumber(report.coagulantKg, 1)}
+                        unit="kg"
+                    />
+                    <ReportItem
+                        label={t({ es: 'Dosis máx.', en: 'Peak dose' })}
+                        value={formatNumber(report.peakDose, 1)}
+                        unit="mg/L"
+                    />
+                    <ReportItem
+                        label={t({ es: 'Costo total', en: 'Total cost' })}
+                        value={formatNumber(report.totalCost, 2)}
+                        unit={`$ · ${formatNumber(report.volume, 0)} m³`}
+                    />
+                    <ReportItem
+                        label={t({ es: 'Variación de dosis', en: 'Dose travel' })}
+                        value={formatNumber(report.doseTravel, 1)}
+                        unit="mg/L"
+                    />
+                    <ReportItem
+                        label={t({ es: 'Cambio máx. de dosis', en: 'Max dose rate' })}
+                        value={formatNumber(report.maxDoseRate, 2)}
+                        unit="mg/L/min"
+                    />
+                </div>
+
+                {/* Tiempo en cada nivel de riesgo */}
+                <div className="space-y-1">
+                    <div className="flex h-2 rounded overflow-hidden bg-slate-800">
+                        {(Object.keys(RISK_COLORS) as RiskLevel[]).map(level => (
+                            <div
+                                key={level}
+                                className={RISK_COLORS[level]}
+                                style={{ width: `${(report.riskMinutes[level] / riskTotal) * 100}%` }}
+                            />
+                        ))}
+                    </div>
+                    <div className="flex gap-3 text-[10px] text-slate-500">
+                        {(Object.keys(RISK_COLORS) as RiskLevel[]).map(level => (
+                            <span key={level}>
+                                {t(RISK_LEVEL_LABELS[level])}: {formatNumber(report.riskMinutes[level], 0)} min
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Informes guardados */}
+                <div className="space-y-1">
+                    <div className="flex items-center gap-2 text-[10px] text-slate-500">
+                        {t({ es: 'Informes guardados', en: 'Saved reports' })} ({runReports.length})
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="ml-auto h-6 gap-1 text-xs"
+                            onClick={() => download(runReports, 'aquafuzzy-informes.json')}
+                        >
+                            <Download className="w-3 h-3" />
+                            JSON
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={clearRunReports}>
+                            {t({ es: 'Borrar todos', en: 'Clear all' })}
+                        </Button>
+                    </div>
+                    <div className="max-h-32 overflow-y-auto space-y-0.5">
+                        {[...runReports].reverse().map(saved => (
+                            <div
+                                key={saved.id}
+                                className={`flex items-center gap-2 px-2 py-0.5 rounded text-[11px] ${saved.id === report.id
+                                    ? 'bg-cyan-500/10 text-cyan-300'
+                                    : 'text-slate-400'}`}
+                            >
+                                <button className="flex-1 min-w-0 truncate text-left" onClick={() => setSelectedId(saved.id)}>
+                                    {t(saved.scenarioName)} · {t(CONTROLLERS[saved.controllerId].name)} · IAE {formatNumber(saved.iae, 0)}
+                                </button>
+                                <button
+                                    onClick={() => deleteRunReport(saved.id)}
+                                    className="text-slate-600 hover:text-red-400"
+                                    title={t({ es: 'Borrar informe', en: 'Delete report' })}
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <p className="text-[10px] text-slate-500">
+                    {t({
+                        es: 'IAE, ISE e ITAE miden el error de la turbidez decantada frente a la consigna: el ISE castiga los picos y el ITAE el error que persiste al final. La variación de dosis suma todos los cambios de la dosificadora y mide su desgaste.',
+                        en: 'IAE, ISE and ITAE measure the settled turbidity error against the setpoint: ISE penalizes peaks and ITAE penalizes error that persists at the end. Dose travel adds up every change of the dosing pump and measures its wear.'
+                    })}
+                </p>
+            </CardContent>
+        </Card>
+    )
+}
+
+// Componente auxiliar: métrica del informe
+interface ReportItemProps {
+    label: string
+    value: string
+    unit: string
+}
+
+function ReportItem({ label, value, unit }: ReportItemProps) {
+    return (
+        <div className="p-2 rounded-lg bg-slate-800/50">
+            <div className="text-[10px] text-slate-500 truncate">{label}</div>
+            <div className="text-sm font-bold text-slate-200">{value}</div>
+            <div className="text-[10px] text-slate-500 truncate">{unit}</div>
+        </div>
+    )
+}
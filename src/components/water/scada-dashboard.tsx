@@ -1,8 +1,19 @@
 'use client'
 
 import { useWaterStore, HistoryPoint } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { AggregatedOutputChart } from '@/components/water/aggregated-output-chart'
+import { InferenceModeComparison } from '@/components/water/inference-mode-comparison'
+import { CoagulantComparison } from '@/components/water/coagulant-comparison'
+import { DecisionExplanationView } from '@/components/water/decision-explanation'
+import { PlantProcessPanel } from '@/components/water/plant-process-panel'
+import { ClosedLoopControl } from '@/components/water/closed-loop-control'
+import { COAGULANT_CATALOG } from '@/lib/coagulants'
+import { PH_REAGENTS } from '@/lib/ph-correction'
+import { RISK_LEVEL_LABELS } from '@/lib/i18n'
+import { CONTROLLERS } from '@/lib/controllers'
 import { motion } from 'framer-motion'
 import {
     LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip,
@@ -18,15 +29,25 @@ import {
  * 
  * Muestra métricas en tiempo real del proceso de tratamiento:
  * - Gráfico de historial de calidad
+ * - Proceso dinámico de la planta (turbidez decantada y filtrada)
+ * - Control en lazo cerrado (consigna y error de seguimiento)
  * - Costo operativo
  * - Eficiencia del proceso
  * - Estado general
- * - Salidas del sistema difuso
+ * - Salidas del sistema difuso (con su intervalo de incertidumbre)
+ * - Conjuntos de salida agregados y defuzzificación
+ * - Comparación de los modos de inferencia Mamdani y TSK
+ * - Comparación de coagulantes para el agua actual
  */
 
 export function ScadaDashboard() {
     const fuzzyOutputs = useWaterStore(state => state.fuzzyOutputs)
     const history = useWaterStore(state => state.history)
+    const ruleCount = useWaterStore(state => state.fuzzySystem.rules.length)
+    const coagulantName = useWaterStore(state => COAGULANT_CATALOG[state.fuzzySystem.coagulant ?? 'alum'].name)
+    const controllerId = useWaterStore(state => state.controllerId)
+    const setController = useWaterStore(state => state.setController)
+    const { t, formatNumber } = useI18n()
 
     // Preparar datos para el gráfico
     const chartData = history.slice(-50).map((point: HistoryPoint, index: number) => ({
@@ -55,10 +76,12 @@ export function ScadaDashboard() {
     const getPhCorrectionLabel = () => {
         if (!fuzzyOutputs) return 'N/A'
         switch (fuzzyOutputs.phCorrection) {
-            case 'none': return 'No requerida'
-            case 'slight': return 'Leve'
-            case 'moderate': return 'Moderada'
-            case 'intense': return 'Intensa'
+            case 'none': return fuzzyOutputs.phCorrectionPlan.reagent
+                ? t({ es: 'Por coagulación', en: 'Due to coagulation' })
+                : t({ es: 'No requerida', en: 'Not required' })
+            case 'slight': return t({ es: 'Leve', en: 'Slight' })
+            case 'moderate': return t({ es: 'Moderada', en: 'Moderate' })
+            case 'intense': return t({ es: 'Intensa', en: 'Intense' })
             default: return 'N/A'
         }
     }
@@ -70,7 +93,7 @@ export function ScadaDashboard() {
                 {/* Calidad del agua */}
                 <MetricCard
                     icon={<Activity className="w-5 h-5" />}
-                    label="Calidad del Agua"
+                    label={t({ es: 'Calidad del Agua', en: 'Water Quality' })}
                     value={fuzzyOutputs?.qualityScore ?? 0}
                     unit="%"
                     color={
@@ -83,7 +106,7 @@ export function ScadaDashboard() {
                 {/* Costo operativo */}
                 <MetricCard
                     icon={<DollarSign className="w-5 h-5" />}
-                    label="Costo por m³"
+                    label={t({ es: 'Costo por m³', en: 'Cost per m³' })}
                     value={fuzzyOutputs?.operationalCost ?? 0}
                     unit="USD"
                     decimals={3}
@@ -93,7 +116,7 @@ export function ScadaDashboard() {
                 {/* Eficiencia */}
                 <MetricCard
                     icon={<Zap className="w-5 h-5" />}
-                    label="Eficiencia"
+                    label={t({ es: 'Eficiencia', en: 'Efficiency' })}
                     value={fuzzyOutputs?.efficiency ?? 0}
                     unit="%"
                     color={
@@ -107,7 +130,7 @@ export function ScadaDashboard() {
                     <CardContent className="p-4">
                         <div className="flex items-center gap-2 text-slate-400 mb-2">
                             <Gauge className="w-4 h-4" />
-                            <span className="text-xs">Estado</span>
+                            <span className="text-xs">{t({ es: 'Estado', en: 'Status' })}</span>
                         </div>
                         <Badge
                             variant={
@@ -121,8 +144,9 @@ export function ScadaDashboard() {
                                     : 'bg-red-500/20 text-red-400 border-red-500/50'
                                 }`}
                         >
-                            {fuzzyOutputs?.riskLevel === 'optimal' ? '✓ Óptimo' :
-                                fuzzyOutputs?.riskLevel === 'caution' ? '⚡ Precaución' : '⚠️ Crítico'}
+                            {fuzzyOutputs?.riskLevel === 'optimal' ? '✓' :
+                                fuzzyOutputs?.riskLevel === 'caution' ? '⚡' : '⚠️'}{' '}
+                            {t(RISK_LEVEL_LABELS[fuzzyOutputs?.riskLevel ?? 'critical'])}
                         </Badge>
                     </CardContent>
                 </Card>
@@ -133,7 +157,7 @@ export function ScadaDashboard() {
                 <CardHeader className="pb-2">
                     <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
                         <Activity className="w-4 h-4 text-cyan-400" />
-                        Historial de Calidad del Agua
+                        {t({ es: 'Historial de Calidad del Agua', en: 'Water Quality History' })}
                     </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -168,7 +192,7 @@ export function ScadaDashboard() {
                                         fontSize: '12px'
                                     }}
                                     formatter={(value: number, name: string) => {
-                                        if (name === 'quality') return [`${value.toFixed(0)}%`, 'Calidad']
+                                        if (name === 'quality') return [`${formatNumber(value, 0)}%`, t({ es: 'Calidad', en: 'Quality' })]
                                         return [value, name]
                                     }}
                                 />
@@ -193,12 +217,22 @@ export function ScadaDashboard() {
                 </CardContent>
             </Card>
 
+            {/* Proceso de la planta */}
+            <PlantProcessPanel />
+
+            <ClosedLoopControl />
+
             {/* Salidas del sistema difuso */}
             <Card className="bg-slate-900/80 border-slate-700/50">
                 <CardHeader className="pb-2">
                     <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
                         <Beaker className="w-4 h-4 text-purple-400" />
-                        Salidas del Sistema Difuso
+                        {t({ es: 'Salidas del Sistema Difuso', en: 'Fuzzy System Outputs' })}
+                        {controllerId !== 'fuzzy' && (
+                            <Badge variant="outline" className="text-[10px] border-yellow-500/40 text-yellow-400">
+                                {t({ es: 'Controlador', en: 'Controller' })}: {t(CONTROLLERS[controllerId].name)}
+                            </Badge>
+                        )}
                     </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -207,42 +241,59 @@ export function ScadaDashboard() {
                         <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700/50">
                             <div className="flex items-center gap-2 text-slate-400 mb-1">
                                 <Beaker className="w-3 h-3" />
-                                <span className="text-[10px] uppercase tracking-wide">Dosis Coagulante</span>
+                                <span className="text-[10px] uppercase tracking-wide">{t({ es: 'Dosis Coagulante', en: 'Coagulant Dose' })}</span>
                             </div>
                             <div className="flex items-baseline gap-1">
                                 <span className="text-2xl font-bold text-purple-400">
-                                    {fuzzyOutputs?.coagulantDose?.toFixed(1) ?? '0.0'}
+                                    {formatNumber(fuzzyOutputs?.coagulantDose ?? 0, 1)}
                                 </span>
                                 <span className="text-xs text-slate-500">mg/L</span>
                             </div>
+                            <div className="text-[10px] text-purple-300/80 truncate">{t(coagulantName)}</div>
+                            {fuzzyOutputs && (
+                                <div className="text-xs text-slate-500 mt-0.5" title={t({ es: 'Intervalo por incertidumbre de los sensores (tipo 2)', en: 'Interval from sensor uncertainty (type 2)' })}>
+                                    {formatNumber(fuzzyOutputs.outputIntervals.dose.min, 1)} – {formatNumber(fuzzyOutputs.outputIntervals.dose.max, 1)} mg/L
+                                </div>
+                            )}
                         </div>
 
                         {/* Tiempo de floculación */}
                         <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700/50">
                             <div className="flex items-center gap-2 text-slate-400 mb-1">
                                 <Clock className="w-3 h-3" />
-                                <span className="text-[10px] uppercase tracking-wide">Tiempo Floculación</span>
+                                <span className="text-[10px] uppercase tracking-wide">{t({ es: 'Tiempo Floculación', en: 'Flocculation Time' })}</span>
                             </div>
                             <div className="flex items-baseline gap-1">
                                 <span className="text-2xl font-bold text-orange-400">
-                                    {fuzzyOutputs?.flocculationTime?.toFixed(0) ?? '0'}
+                                    {formatNumber(fuzzyOutputs?.flocculationTime ?? 0, 0)}
                                 </span>
                                 <span className="text-xs text-slate-500">min</span>
                             </div>
+                            {fuzzyOutputs && (
+                                <div className="text-xs text-slate-500 mt-0.5" title={t({ es: 'Intervalo por incertidumbre de los sensores (tipo 2)', en: 'Interval from sensor uncertainty (type 2)' })}>
+                                    {formatNumber(fuzzyOutputs.outputIntervals.time.min, 0)} – {formatNumber(fuzzyOutputs.outputIntervals.time.max, 0)} min
+                                </div>
+                            )}
                         </div>
 
                         {/* Corrección de pH */}
                         <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700/50">
                             <div className="flex items-center gap-2 text-slate-400 mb-1">
                                 <Activity className="w-3 h-3" />
-                                <span className="text-[10px] uppercase tracking-wide">Corrección pH</span>
+                                <span className="text-[10px] uppercase tracking-wide">{t({ es: 'Corrección pH', en: 'pH Correction' })}</span>
                             </div>
                             <div className="text-sm font-semibold text-cyan-400">
                                 {getPhCorrectionLabel()}
                             </div>
-                            {(fuzzyOutputs?.phCorrectionAmount ?? 0) > 0 && (
+                            {fuzzyOutputs?.phCorrectionPlan.reagent && (
                                 <div className="text-xs text-slate-500 mt-0.5">
-                                    {fuzzyOutputs?.phCorrectionAmount?.toFixed(1)} mg/L
+                                    {fuzzyOutputs.phCorrectionPlan.direction === 'raise' ? '▲' : '▼'}{' '}
+                                    {formatNumber(fuzzyOutputs.phCorrectionAmount, 1)} mg/L {PH_REAGENTS[fuzzyOutputs.phCorrectionPlan.reagent].formula}
+                                </div>
+                            )}
+                            {fuzzyOutputs && (
+                                <div className="text-xs text-slate-500" title={t({ es: 'pH tras coagulación y corrección (modelo de titulación)', en: 'pH after coagulation and correction (titration model)' })}>
+                                    {t({ es: 'pH esperado', en: 'Expected pH' })} {formatNumber(fuzzyOutputs.phCorrectionPlan.expected.ph, 1)}
                                 </div>
                             )}
                         </div>
@@ -251,31 +302,49 @@ export function ScadaDashboard() {
                         <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700/50">
                             <div className="flex items-center gap-2 text-slate-400 mb-1">
                                 <Zap className="w-3 h-3" />
-                                <span className="text-[10px] uppercase tracking-wide">Reglas Activas</span>
+                                <span className="text-[10px] uppercase tracking-wide">{t({ es: 'Reglas Activas', en: 'Active Rules' })}</span>
                             </div>
                             <div className="flex items-baseline gap-1">
                                 <span className="text-2xl font-bold text-emerald-400">
                                     {fuzzyOutputs?.ruleActivations?.length ?? 0}
                                 </span>
-                                <span className="text-xs text-slate-500">de 20</span>
+                                <span className="text-xs text-slate-500">{t({ es: 'de', en: 'of' })} {ruleCount}</span>
                             </div>
                         </div>
                     </div>
 
+                    {/* Con un controlador de referencia, la explicación de las reglas no describe la dosis */}
+                    {controllerId !== 'fuzzy' && (
+                        <div className="mt-4 flex flex-wrap items-center gap-2 text-xs text-yellow-400">
+                            {t({
+                                es: 'La dosis y el tiempo los decide el controlador de referencia; las reglas activas y la explicación corresponden al controlador difuso.',
+                                en: 'Dose and time are decided by the baseline controller; active rules and the explanation belong to the fuzzy controller.'
+                            })}
+                            <button onClick={() => setController('fuzzy')} className="underline hover:text-yellow-300">
+                                {t({ es: 'Volver al difuso', en: 'Back to fuzzy' })}
+                            </button>
+                        </div>
+                    )}
+
                     {/* Explicación del sistema */}
-                    {fuzzyOutputs?.explanation && (
+                    {controllerId === 'fuzzy' && fuzzyOutputs?.explanation && (
                         <motion.div
                             initial={{ opacity: 0, y: 10 }}
                             animate={{ opacity: 1, y: 0 }}
-                            className="mt-4 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30"
+                            className="mt-4"
                         >
-                            <p className="text-xs text-slate-400 leading-relaxed">
-                                💡 {fuzzyOutputs.explanation}
-                            </p>
+                            <DecisionExplanationView explanation={fuzzyOutputs.explanation} />
                         </motion.div>
                     )}
                 </CardContent>
             </Card>
+
+            {/* Conjuntos de salida agregados */}
+            <AggregatedOutputChart />
+
+            <InferenceModeComparison />
+
+            <CoagulantComparison />
         </div>
     )
 }
@@ -292,6 +361,7 @@ interface MetricCardProps {
 }
 
 function MetricCard({ icon, label, value, unit, color, decimals = 0, trend }: MetricCardProps) {
+    const { formatNumber } = useI18n()
     const colorClasses = {
         emerald: 'text-emerald-400',
         yellow: 'text-yellow-400',
@@ -325,7 +395,7 @@ function MetricCard({ icon, label, value, unit, color, decimals = 0, trend }: Me
                         animate={{ opacity: 1, y: 0 }}
                         className={`text-2xl font-bold ${colorClasses[color]}`}
                     >
-                        {value.toFixed(decimals)}
+                        {formatNumber(value, decimals)}
                     </motion.span>
                     <span className="text-xs text-slate-500">{unit}</span>
                 </div>
@@ -0,0 +1,189 @@
+'use client'
+
+import { useState } from 'react'
+import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { SensorFault, SensorId, SensorIssue, SensorStatus, SENSOR_IDS } from '@/lib/sensors'
+import { LocalizedText, VARIABLE_LABELS } from '@/lib/i18n'
+import { Radio } from 'lucide-react'
+
+/**
+ * SensorPanel - Sensores del escenario e inyección de fallas
+ *
+ * Muestra, para cada sensor que mide el escenario en curso, el valor real
+ * del agua, la lectura del instrumento y el valor validado que recibe el
+ * controlador, con su estado. Permite añadir a mano ruido, deriva, picos,
+ * pérdida de lecturas o una lectura congelada a cualquier sensor.
+ */
+
+const STATUS_LABELS: Record<SensorStatus, LocalizedText> = {
+    ok: { es: 'Correcto', en: 'OK' },
+    held: { es: 'Retenido', en: 'Held' },
+    failed: { es: 'Fuera de servicio', en: 'Out of service' }
+}
+
+const STATUS_COLORS: Record<SensorStatus, string> = {
+    ok: 'text-emerald-400',
+    held: 'text-yellow-400',
+    failed: 'text-red-400'
+}
+
+const ISSUE_LABELS: Record<SensorIssue, LocalizedText> = {
+    dropout: { es: 'sin lectura', en: 'no reading' },
+    outOfRange: { es: 'fuera de rango', en: 'out of range' },
+    spike: { es: 'pico', en: 'spike' },
+    stuck: { es: 'congelado', en: 'frozen' }
+}
+
+interface FaultField {
+    key: 'noise' | 'drift' | 'spikeRate' | 'dropout'
+    label: LocalizedText
+    /** Unidad a partir de la del sensor */
+    unit: (sensorUnit: string) => string
+    step: number
+    /** Escala entre el valor mostrado y el guardado (porcentaje → fracción) */
+    scale: number
+}
+
+const FAULT_FIELDS: FaultField[] = [
+    { key: 'noise', label: { es: 'Ruido σ', en: 'Noise σ' }, unit: unit => unit, step: 0.1, scale: 1 },
+    { key: 'drift', label: { es: 'Deriva', en: 'Drift' }, unit: unit => `${unit}/h`, step: 0.1, scale: 1 },
+    { key: 'spikeRate', label: { es: 'Picos', en: 'Spikes' }, unit: () => '/h', step: 1, scale: 1 },
+    { key: 'dropout', label: { es: 'Lecturas perdidas', en: 'Dropped readings' }, unit: () => '%', step: 5, scale: 100 }
+]
+
+export function SensorPanel() {
+    const sensors = useWaterStore(state => state.sensors)
+    const sensorFaults = useWaterStore(state => state.sensorFaults)
+    const fuzzySystem = useWaterStore(state => state.fuzzySystem)
+    const setSensorFault = useWaterStore(state => state.setSensorFault)
+    const clearSensorFaults = useWaterStore(state => state.clearSensorFaults)
+    const { t, formatNumber } = useI18n()
+    const [selected, setSelected] = useState<SensorId>('turbidity')
+
+    const unitOf = (id: SensorId) => fuzzySystem.inputs.find(variable => variable.id === id)?.unit ?? ''
+    const format = (value: number | undefined) => value === undefined || !Number.isFinite(value)
+        ? '—'
+        : formatNumber(value, Math.abs(value) < 20 ? 2 : 0)
+
+    const fault = sensorFaults[selected] ?? {}
+    const updateFault = (patch: Partial<SensorFault>) => {
+        const next = { ...fault, ...patch }
+        const active = Object.values(next).some(value => value !== undefined && value !== 0 && value !== false)
+        setSensorFault(selected, active ? next : null)
+    }
+
+    return (
+        <Card className="bg-slate-900/80 border-slate-700/50">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                    <Radio className="w-4 h-4 text-cyan-400" />
+                    {t({ es: 'Sensores', en: 'Sensors' })}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {/* Estado de los sensores */}
+                {sensors ? (
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-slate-500 text-left">
+                                <th className="py-1 font-normal">{t({ es: 'Sensor', en: 'Sensor' })}</th>
+                                <th className="py-1 font-normal text-right">{t({ es: 'Real', en: 'True' })}</th>
+                                <th className="py-1 font-normal text-right">{t({ es: 'Lectura', en: 'Reading' })}</th>
+                                <th className="py-1 font-normal text-right">{t({ es: 'Controlador', en: 'Controller' })}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {SENSOR_IDS.map(id => {
+                                const channel = sensors[id]
+                                if (!channel) return null
+                                return (
+                                    <tr key={id} className="border-t border-slate-800 text-slate-300">
+                                        <td className="py-1">
+                                            {t(VARIABLE_LABELS[id])}
+                                            <div className={`text-[10px] ${STATUS_COLORS[channel.status]}`}>
+                                                {t(STATUS_LABELS[channel.status])}
+                                                {channel.issue && ` · ${t(ISSUE_LABELS[channel.issue])}`}
+                                            </div>
+                                        </td>
+                                        <td className="py-1 text-right text-slate-500">{format(channel.truth)}</td>
+                                        <td className="py-1 text-right">{format(channel.reading)}</td>
+                                        <td className="py-1 text-right font-medium">{format(channel.value)}</td>
+                                    </tr>
+                                )
+                            })}
+                        </tbody>
+                    </table>
+                ) : (
+                    <p className="text-xs text-slate-500">
+                        {t({
+                            es: 'Durante un escenario, el controlador recibe lo que miden los sensores. Sin escenario, los valores de los controles llegan tal cual.',
+                            en: 'During a scenario the controller receives what the sensors measure. Without a scenario, the control values arrive unchanged.'
+                        })}
+                    </p>
+                )}
+
+                {/* Fallas manuales */}
+                <div className="space-y-2">
+                    <div className="flex flex-wrap gap-1">
+                        {SENSOR_IDS.map(id => (
+                            <button
+                                key={id}
+                                onClick={() => setSelected(id)}
+                                className={`px-2 py-0.5 rounded text-[11px] border ${selected === id
+                                    ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-300'
+                                    : 'bg-slate-800 border-slate-700 text-slate-500'}`}
+                            >
+                                {t(VARIABLE_LABELS[id])}{sensorFaults[id] ? ' •' : ''}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        {FAULT_FIELDS.map(field => (
+                            <label key={field.key} className="text-[10px] text-slate-500 space-y-0.5">
+                                <span>{t(field.label)} ({field.unit(unitOf(selected))})</span>
+                                <input
+                                    type="number"
+                                    min={field.key === 'drift' ? undefined : 0}
+                                    max={field.key === 'dropout' ? 100 : undefined}
+                                    step={field.step}
+                                    value={(fault[field.key] ?? 0) * field.scale}
+                                    onChange={e => updateFault({ [field.key]: (Number(e.target.value) || 0) / field.scale })}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-1.5 text-xs text-slate-400">
+                            <input
+                                type="checkbox"
+                                checked={fault.stuck ?? false}
+                                onChange={e => updateFault({ stuck: e.target.checked })}
+                            />
+                            {t({ es: 'Lectura congelada', en: 'Frozen reading' })}
+                        </label>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="ml-auto h-6 text-xs"
+                            onClick={clearSensorFaults}
+                            disabled={Object.keys(sensorFaults).length === 0}
+                        >
+                            {t({ es: 'Quitar fallas', en: 'Clear faults' })}
+                        </Button>
+                    </div>
+                </div>
+
+                <p className="text-[10px] text-slate-500">
+                    {t({
+                        es: 'Se descartan las lecturas perdidas, fuera de rango, con saltos imposibles o congeladas, y se mantiene el último valor válido con más incertidumbre. Tras una hora retenido, el sensor queda fuera de servicio y la dosis pasa al extremo alto de su intervalo. La deriva no se detecta: solo la compensa el lazo cerrado.',
+                        en: 'Dropped, out-of-range, impossibly jumping or frozen readings are discarded and the last valid value is held with more uncertainty. After an hour held, the sensor is out of service and the dose moves to the top of its interval. Drift is not detected: only the closed loop compensates for it.'
+                    })}
+                </p>
+            </CardContent>
+        </Card>
+    )
+}
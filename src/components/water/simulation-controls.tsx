@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
 import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
 import { ALL_SCENARIOS, Scenario } from '@/lib/scenarios'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Play, Pause, Square, Gauge } from 'lucide-react'
@@ -28,6 +29,7 @@ export function SimulationControls() {
     const resumeSimulation = useWaterStore(state => state.resumeSimulation)
     const updateSimulation = useWaterStore(state => state.updateSimulation)
     const setSimulationSpeed = useWaterStore(state => state.setSimulationSpeed)
+    const { t, formatNumber } = useI18n()
 
     // Referencia para el loop de animación
     const lastTimeRef = useRef<number>(0)
@@ -86,7 +88,7 @@ export function SimulationControls() {
             <CardHeader className="pb-4">
                 <CardTitle className="flex items-center gap-2 text-slate-200">
                     <Gauge className="w-5 h-5 text-purple-400" />
-                    Simulador de Eventos
+                    {t({ es: 'Simulador de Eventos', en: 'Event Simulator' })}
                 </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -107,10 +109,10 @@ export function SimulationControls() {
                                 <span className="text-xl">{scenario.icon}</span>
                                 <div className="flex-1 min-w-0">
                                     <h4 className="text-sm font-medium text-slate-200 truncate">
-                                        {scenario.name}
+                                        {t(scenario.name)}
                                     </h4>
                                     <p className="text-[10px] text-slate-500 line-clamp-2 mt-0.5">
-                                        {scenario.description}
+                                        {t(scenario.description)}
                                     </p>
                                 </div>
                             </div>
@@ -172,15 +174,15 @@ export function SimulationControls() {
                                         />
                                     </div>
                                     <div className="flex justify-between mt-1 text-[10px] text-slate-500">
-                                        <span>{(simulationElapsedTime / 1000).toFixed(1)}s</span>
-                                        <span>{(currentScenario.duration / 1000).toFixed(0)}s</span>
+                                        <span>{formatNumber(simulationElapsedTime / 1000, 1)}s</span>
+                                        <span>{formatNumber(currentScenario.duration / 1000, 0)}s</span>
                                     </div>
                                 </div>
                             </div>
 
                             {/* Control de velocidad */}
                             <div className="flex items-center gap-3">
-                                <span className="text-xs text-slate-500 w-16">Velocidad:</span>
+                                <span className="text-xs text-slate-500 w-16">{t({ es: 'Velocidad:', en: 'Speed:' })}</span>
                                 <Slider
                                     value={[simulationSpeed]}
                                     onValueChange={([v]) => setSimulationSpeed(v)}
@@ -208,17 +210,17 @@ export function SimulationControls() {
                         <div className="flex items-center gap-2 mb-1">
                             <span>{currentScenario.icon}</span>
                             <span className="font-medium text-sm text-slate-200">
-                                {currentScenario.name}
+                                {t(currentScenario.name)}
                             </span>
                             {isSimulating && (
                                 <span className="ml-auto flex items-center gap-1 text-xs text-emerald-400">
                                     <span className="w-2 h-2 bg-emerald-400 rounded-full animate-pulse" />
-                                    En curso
+                                    {t({ es: 'En curso', en: 'Running' })}
                                 </span>
                             )}
                         </div>
                         <p className="text-xs text-slate-400">
-                            {currentScenario.description}
+                            {t(currentScenario.description)}
                         </p>
                     </motion.div>
                 )}
@@ -226,7 +228,7 @@ export function SimulationControls() {
                 {!currentScenario && (
                     <div className="p-4 rounded-lg border border-dashed border-slate-700 text-center">
                         <p className="text-sm text-slate-500">
-                            Selecciona un escenario para simular
+                            {t({ es: 'Selecciona un escenario para simular', en: 'Select a scenario to simulate' })}
                         </p>
                     </div>
                 )}
@@ -3,6 +3,7 @@
 import { useEffect, useRef, useCallback } from 'react'
 import { motion } from 'framer-motion'
 import { useWaterStore } from '@/stores/water-store'
+import { useI18n } from '@/stores/locale-store'
 import { getWaterColor } from '@/lib/utils'
 
 /**
@@ -31,6 +32,7 @@ export function WaterVisualization() {
     const turbidity = useWaterStore(state => state.turbidity)
     const fuzzyOutputs = useWaterStore(state => state.fuzzyOutputs)
     const runInference = useWaterStore(state => state.runInference)
+    const { t, formatNumber } = useI18n()
 
     // Run initial inference on mount
     useEffect(() => {
@@ -146,9 +148,9 @@ export function WaterVisualization() {
                         ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/50'
                         : 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/50'
                     }`}>
-                    {fuzzyOutputs?.riskLevel === 'critical' ? '⚠️ Estado Crítico'
-                        : fuzzyOutputs?.riskLevel === 'caution' ? '⚡ Precaución'
-                            : '✓ Óptimo'}
+                    {fuzzyOutputs?.riskLevel === 'critical' ? `⚠️ ${t({ es: 'Estado Crítico', en: 'Critical State' })}`
+                        : fuzzyOutputs?.riskLevel === 'caution' ? `⚡ ${t({ es: 'Precaución', en: 'Caution' })}`
+                            : `✓ ${t({ es: 'Óptimo', en: 'Optimal' })}`}
                 </div>
             </motion.div>
 
@@ -198,13 +200,13 @@ export function WaterVisualization() {
 
                 {/* Indicador de turbidez */}
                 <div className="absolute bottom-4 left-4 bg-black/40 backdrop-blur-sm rounded-lg px-3 py-2">
-                    <div className="text-xs text-white/70">Turbidez</div>
-                    <div className="text-lg font-bold text-white">{turbidity.toFixed(0)} NTU</div>
+                    <div className="text-xs text-white/70">{t({ es: 'Turbidez', en: 'Turbidity' })}</div>
+                    <div className="text-lg font-bold text-white">{formatNumber(turbidity, 0)} NTU</div>
                 </div>
 
                 {/* Indicador de calidad */}
                 <div className="absolute bottom-4 right-4 bg-black/40 backdrop-blur-sm rounded-lg px-3 py-2">
-                    <div className="text-xs text-white/70">Calidad</div>
+                    <div className="text-xs text-white/70">{t({ es: 'Calidad', en: 'Quality' })}</div>
                     <div className="text-lg font-bold text-white">{qualityScore}%</div>
                 </div>
 
@@ -230,8 +232,8 @@ export function WaterVisualization() {
 
             {/* Etiqueta del tanque */}
             <div className="mt-4 text-center">
-                <h3 className="text-lg font-semibold text-slate-200">Tanque de Tratamiento</h3>
-                <p className="text-sm text-slate-400">Proceso de Coagulación-Floculación</p>
+                <h3 className="text-lg font-semibold text-slate-200">{t({ es: 'Tanque de Tratamiento', en: 'Treatment Tank' })}</h3>
+                <p className="text-sm text-slate-400">{t({ es: 'Proceso de Coagulación-Floculación', en: 'Coagulation-Flocculation Process' })}</p>
             </div>
         </div>
     )
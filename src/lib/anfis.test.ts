@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { PlantDataError, PlantRecord, parsePlantRecords, trainAnfis } from '@/lib/anfis'
+import { DEFAULT_WATER_INPUTS, runFuzzyInference } from '@/lib/fuzzy-logic'
+import { DEFAULT_FUZZY_SYSTEM } from '@/lib/fuzzy-system'
+
+function errorOf(action: () => unknown): unknown {
+    try {
+        action()
+    } catch (error) {
+        return error
+    }
+    throw new Error('no se lanzó ningún error')
+}
+
+describe('parsePlantRecords', () => {
+    it('reconoce cabeceras en español e inglés y decimales con coma', () => {
+        const { records, skippedRows } = parsePlantRecords([
+            { 'Turbidez Cruda': '120', pH: '6,8', Temp: 18, Dosis_Aplicada: '35.5', 'settled-turbidity': '1,2', Caudal: '900' }
+        ])
+
+        expect(skippedRows).toBe(0)
+        expect(records).toEqual([{
+            inputs: { ...DEFAULT_WATER_INPUTS, turbidity: 120, ph: 6.8, temperature: 18, flowRate: 900 },
+            dose: 35.5,
+            settledTurbidity: 1.2
+        }])
+    })
+
+    it('descarta filas con valores obligatorios vacíos y completa los opcionales', () => {
+        const { records, skippedRows } = parsePlantRecords([
+            { turbidity: '80', ph: '7', temperature: '20', dose: '', settled_turbidity: '2', alkalinity: '90' },
+            { turbidity: '80', ph: '7', temperature: '20', dose: '30', settled_turbidity: '2', alkalinity: '' }
+        ])
+
+        expect(skippedRows).toBe(1)
+        expect(records[0].inputs.alkalinity).toBe(DEFAULT_WATER_INPUTS.alkalinity)
+    })
+
+    it('lista en ambos idiomas las columnas obligatorias que faltan', () => {
+        const error = errorOf(() => parsePlantRecords([{ turbidity: 10, ph: 7, temperature: 20 }]))
+
+        expect(error).toBeInstanceOf(PlantDataError)
+        const { detail } = error as PlantDataError
+        expect(detail.es).toContain('Faltan columnas en el CSV: dose, settledTurbidity')
+        expect(detail.en).toContain('Missing CSV columns: dose, settledTurbidity')
+    })
+})
+
+describe('trainAnfis', () => {
+    // Registros sintéticos: la planta dosifica un 20 % por encima del controlador
+    const records: PlantRecord[] = Array.from({ length: 30 }, (_, k) => {
+        const inputs = { ...DEFAULT_WATER_INPUTS, turbidity: 10 + k * 15, ph: 6.4 + (k % 5) * 0.3 }
+        return { inputs, dose: runFuzzyInference(inputs).coagulantDose * 1.2, settledTurbidity: 1 }
+    })
+
+    it('exige un mínimo de registros de entrenamiento', () => {
+        const error = errorOf(() => trainAnfis(DEFAULT_FUZZY_SYSTEM, records.slice(0, 8)))
+
+        expect(error).toBeInstanceOf(PlantDataError)
+        expect((error as PlantDataError).detail.en).toContain('At least 10 training records')
+    })
+
+    it('no empeora el error de entrenamiento del controlador de partida', () => {
+        const result = trainAnfis(DEFAULT_FUZZY_SYSTEM, records, { epochs: 5 })
+
+        expect(result.system.inferenceMode).toBe('tsk')
+        expect(result.trainingCount + result.validationCount).toBe(records.length)
+        expect(result.final.trainingRmse).toBeLessThanOrEqual(result.initial.trainingRmse)
+    })
+})
@@ -0,0 +1,553 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - ENTRENAMIENTO ANFIS CON DATOS DE PLANTA
+ * Ajuste de funciones de membresía y consecuentes TSK por aprendizaje híbrido
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * ANFIS (Jang, 1993) trata un controlador TSK como una red: la capa de
+ * premisas son las funciones de membresía de las entradas y la capa de
+ * consecuentes los polinomios lineales de cada regla. Cada época del
+ * aprendizaje HÍBRIDO tiene dos pasadas:
+ *
+ * 1. Hacia delante: con las membresías fijas, la dosis es lineal en los
+ *    coeficientes de los consecuentes, así que se resuelven TODOS a la vez
+ *    por mínimos cuadrados:
+ *
+ *      ŷ_k = Σ_i w̄_ik · θ_i · [1, x_k]     min Σ_k (y_k - ŷ_k)²
+ *
+ * 2. Hacia atrás: con los consecuentes fijos, se mueven los parámetros de
+ *    los términos (vértices del trapecio, media y σ de la gaussiana...) por
+ *    descenso de gradiente. El gradiente se estima por diferencias finitas,
+ *    lo que admite cualquier forma, operador, hedge o negación; solo se
+ *    reevalúan las muestras y reglas que dependen del término perturbado.
+ *
+ * El paso sigue la regla de Jang: tamaño κ en unidades del universo de la
+ * variable, mayor mientras el error baja y menor cuando sube.
+ *
+ * DATOS: registros de jar-test y operación (turbidez cruda, pH, temperatura,
+ * dosis aplicada y turbidez decantada). Solo se aprende de las decisiones
+ * que funcionaron: se descartan los registros cuya turbidez decantada supera
+ * `maxSettledTurbidity`. Una fracción de los registros, repartida a lo largo
+ * del archivo, se reserva para validación y decide la mejor época.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import {
+    calculateMembership,
+    getTskConsequent,
+    ruleFiringStrength,
+    DEFAULT_WATER_INPUTS,
+    WaterInputs
+} from '@/lib/fuzzy-logic'
+import {
+    AntecedentExpression,
+    FuzzyRule,
+    FuzzySystemDefinition,
+    FuzzyTerm,
+    FuzzyVariable,
+    InputVariableId,
+    LinearConsequent,
+    DEFAULT_OPERATORS,
+    INPUT_VARIABLE_IDS,
+    getRuleAntecedent,
+    getRuleWeight,
+    getTermParameters,
+    validateFuzzySystem,
+    withTermParameters
+} from '@/lib/fuzzy-system'
+import { solveLinearSystem } from '@/lib/tsk'
+import type { LocalizedText } from '@/lib/i18n'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DATOS DE PLANTA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Registro histórico: agua cruda, dosis aplicada y resultado
+ */
+export interface PlantRecord {
+    inputs: WaterInputs
+    /** Dosis de coagulante aplicada (mg/L) */
+    dose: number
+    /** Turbidez tras la decantación (NTU) */
+    settledTurbidity: number
+}
+
+export interface PlantDataset {
+    records: PlantRecord[]
+    /** Filas descartadas por valores vacíos o no numéricos */
+    skippedRows: number
+}
+
+/**
+ * Error de los datos de planta (columnas que faltan, pocos registros)
+ */
+export class PlantDataError extends Error {
+    /** Descripción del problema en cada idioma de la interfaz */
+    readonly detail: LocalizedText
+
+    constructor(detail: LocalizedText) {
+        super(detail.es)
+        this.name = 'PlantDataError'
+        this.detail = detail
+    }
+}
+
+type PlantColumn = keyof WaterInputs | 'dose' | 'settledTurbidity'
+
+/**
+ * Nombres de columna aceptados (en minúsculas y sin espacios, guiones ni
+ * guiones bajos)
+ */
+const COLUMN_ALIASES: Record<PlantColumn, string[]> = {
+    turbidity: ['turbidity', 'rawturbidity', 'turbidez', 'turbidezcruda'],
+    ph: ['ph', 'rawph', 'phcrudo'],
+    temperature: ['temperature', 'temp', 'temperatura'],
+    alkalinity: ['alkalinity', 'alcalinidad'],
+    conductivity: ['conductivity', 'conductividad', 'ec'],
+    color: ['color', 'colour'],
+    flowRate: ['flowrate', 'flow', 'caudal'],
+    dose: ['dose', 'applieddose', 'coagulantdose', 'dosis', 'dosisaplicada'],
+    settledTurbidity: ['settledturbidity', 'settled', 'turbidezdecantada', 'decantada']
+}
+
+const REQUIRED_COLUMNS: PlantColumn[] = ['turbidity', 'ph', 'temperature', 'dose', 'settledTurbidity']
+
+const normalizeColumn = (name: string) => name.toLowerCase().replace(/[\s_\-.]/g, '')
+
+/**
+ * Convierte las filas de un CSV (con cabecera) en registros de planta.
+ * Alcalinidad, conductividad, color y caudal son opcionales: si faltan se usan los
+ * valores de referencia.
+ *
+ * @throws PlantDataError si falta alguna columna obligatoria
+ */
+export function parsePlantRecords(rows: Array<Record<string, unknown>>): PlantDataset {
+    const headers = Object.keys(rows[0] ?? {})
+    const columns = {} as Partial<Record<PlantColumn, string>>
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[PlantColumn, string[]]>) {
+        const header = headers.find(h => aliases.includes(normalizeColumn(h)))
+        if (header) columns[column] = header
+    }
+
+    const missing = REQUIRED_COLUMNS.filter(column => !columns[column])
+    if (missing.length > 0) {
+        throw new PlantDataError({
+            es: `Faltan columnas en el CSV: ${missing.join(', ')} (se esperan turbidity, ph, temperature, dose y settled_turbidity)`,
+            en: `Missing CSV columns: ${missing.join(', ')} (expected turbidity, ph, temperature, dose and settled_turbidity)`
+        })
+    }
+
+    const read = (row: Record<string, unknown>, column: PlantColumn): number | null => {
+        const header = columns[column]
+        if (!header) return null
+        const raw = row[header]
+        // Number('') es 0: una celda en blanco cuenta como vacía
+        const value = typeof raw === 'string' ? (raw.trim() === '' ? NaN : Number(raw.replace(',', '.'))) : raw
+        if (typeof value === 'number' && Number.isFinite(value)) return value
+        // Un valor vacío en una columna opcional toma el de referencia
+        return REQUIRED_COLUMNS.includes(column) ? NaN : null
+    }
+
+    const records: PlantRecord[] = []
+    let skippedRows = 0
+    for (const row of rows) {
+        const values = Object.fromEntries(
+            (Object.keys(COLUMN_ALIASES) as PlantColumn[]).map(column => [column, read(row, column)])
+        ) as Record<PlantColumn, number | null>
+        if (Object.values(values).some(value => Number.isNaN(value))) {
+            skippedRows++
+            continue
+        }
+        records.push({
+            inputs: {
+                turbidity: values.turbidity ?? DEFAULT_WATER_INPUTS.turbidity,
+                ph: values.ph ?? DEFAULT_WATER_INPUTS.ph,
+                temperature: values.temperature ?? DEFAULT_WATER_INPUTS.temperature,
+                alkalinity: values.alkalinity ?? DEFAULT_WATER_INPUTS.alkalinity,
+                conductivity: values.conductivity ?? DEFAULT_WATER_INPUTS.conductivity,
+                color: values.color ?? DEFAULT_WATER_INPUTS.color,
+                flowRate: values.flowRate ?? DEFAULT_WATER_INPUTS.flowRate
+            },
+            dose: values.dose ?? 0,
+            settledTurbidity: values.settledTurbidity ?? 0
+        })
+    }
+    return { records, skippedRows }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OPCIONES Y RESULTADOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface AnfisOptions {
+    /** Épocas de entrenamiento */
+    epochs?: number
+    /** Fracción de registros reservada para validación (0-0.5) */
+    validationFraction?: number
+    /** Turbidez decantada máxima (NTU) para aprender de un registro */
+    maxSettledTurbidity?: number
+    /** Paso inicial κ, en fracción del universo de cada variable */
+    stepSize?: number
+}
+
+export const DEFAULT_ANFIS_OPTIONS: Required<AnfisOptions> = {
+    epochs: 40,
+    validationFraction: 0.2,
+    maxSettledTurbidity: 5,
+    stepSize: 0.01
+}
+
+/**
+ * Error de la dosis (mg/L) en una época
+ */
+export interface AnfisEpoch {
+    epoch: number
+    trainingRmse: number
+    validationRmse: number
+    /** Paso κ usado en la pasada hacia atrás de esta época */
+    stepSize: number
+}
+
+export interface AnfisErrors {
+    trainingRmse: number
+    validationRmse: number
+    trainingMae: number
+    validationMae: number
+    /** Registros donde no se activa ninguna regla (el controlador da dosis 0) */
+    uncoveredCount: number
+}
+
+export interface AnfisResult {
+    /** Controlador ajustado (modo TSK), el de la mejor época */
+    system: FuzzySystemDefinition
+    history: AnfisEpoch[]
+    bestEpoch: number
+    /** Errores del controlador de partida evaluado en TSK */
+    initial: AnfisErrors
+    /** Errores del controlador ajustado */
+    final: AnfisErrors
+    trainingCount: number
+    validationCount: number
+    /** Registros descartados por turbidez decantada alta */
+    excludedCount: number
+}
+
+/** Mínimo de registros de entrenamiento */
+const MIN_TRAINING_RECORDS = 10
+
+/** Regularización de los consecuentes hacia sus valores anteriores */
+const RIDGE = 1e-3
+
+/** Perturbación para el gradiente, en fracción del universo */
+const GRADIENT_STEP = 1e-3
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ANTECEDENTES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pares variable:término que aparecen en un antecedente
+ */
+function antecedentTerms(expression: AntecedentExpression, terms = new Set<string>()): Set<string> {
+    switch (expression.op) {
+        case 'is':
+            terms.add(`${expression.variable}:${expression.term}`)
+            break
+        case 'and':
+        case 'or':
+            expression.operands.forEach(operand => antecedentTerms(operand, terms))
+            break
+        case 'not':
+            antecedentTerms(expression.operand, terms)
+            break
+    }
+    return terms
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ENTRENAMIENTO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const round = (value: number) => Number(value.toPrecision(5))
+
+/**
+ * Entrena el controlador época a época. Cada `next()` devuelve el error de
+ * una época, de modo que la interfaz puede dibujar la convergencia sin
+ * bloquearse; el valor final del generador es el resultado completo.
+ *
+ * @throws PlantDataError si quedan menos de 10 registros para entrenar
+ */
+export function* trainAnfisIncrementally(
+    system: FuzzySystemDefinition,
+    records: PlantRecord[],
+    options: AnfisOptions = {}
+): Generator<AnfisEpoch, AnfisResult, void> {
+    const { epochs, validationFraction, maxSettledTurbidity, stepSize } = { ...DEFAULT_ANFIS_OPTIONS, ...options }
+    const operators = system.operators ?? DEFAULT_OPERATORS
+    const doseRange = system.outputs.find(v => v.id === 'dose')?.range ?? [0, Infinity]
+
+    // Registros útiles y reparto entrenamiento / validación intercalado
+    const usable = records.filter(record => record.settledTurbidity <= maxSettledTurbidity)
+    const fraction = Math.min(0.5, Math.max(0, validationFraction))
+    const isValidation = usable.map((_, k) => Math.floor((k + 1) * fraction) > Math.floor(k * fraction))
+    const trainingCount = isValidation.filter(v => !v).length
+    if (trainingCount < MIN_TRAINING_RECORDS) {
+        throw new PlantDataError({
+            es: `Se necesitan al menos ${MIN_TRAINING_RECORDS} registros de entrenamiento con turbidez decantada ≤ ${maxSettledTurbidity} NTU (hay ${trainingCount})`,
+            en: `At least ${MIN_TRAINING_RECORDS} training records with settled turbidity ≤ ${maxSettledTurbidity} NTU are needed (found ${trainingCount})`
+        })
+    }
+
+    // Variables de entrada (copia mutable de los términos) y reglas habilitadas
+    const variables: FuzzyVariable[] = INPUT_VARIABLE_IDS
+        .map(id => system.inputs.find(v => v.id === id))
+        .filter(v => v !== undefined)
+        .map(v => ({ ...v, terms: [...v.terms] }))
+    const rules = system.rules.filter(rule => rule.enabled !== false)
+    const weights = rules.map(getRuleWeight)
+    const ruleTerms = rules.map(rule => antecedentTerms(getRuleAntecedent(rule)))
+    const size = variables.length + 1
+
+    // Consecuentes en el espacio de entradas normalizadas a [0, 1]
+    const toNormalized = (consequent: LinearConsequent): number[] => [
+        consequent.constant + variables.reduce((sum, v) => sum + (consequent.coefficients[v.id as InputVariableId] ?? 0) * v.range[0], 0),
+        ...variables.map(v => (consequent.coefficients[v.id as InputVariableId] ?? 0) * (v.range[1] - v.range[0]))
+    ]
+    const fromNormalized = (theta: number[]): LinearConsequent => {
+        let constant = theta[0]
+        const coefficients: Partial<Record<InputVariableId, number>> = {}
+        variables.forEach((variable, index) => {
+            const coefficient = theta[index + 1] / (variable.range[1] - variable.range[0])
+            constant -= coefficient * variable.range[0]
+            coefficients[variable.id as InputVariableId] = round(coefficient)
+        })
+        return { constant: round(constant), coefficients }
+    }
+    let thetas = rules.map(rule => toNormalized(getTskConsequent(rule, 'dose', system)))
+
+    const features = usable.map(record => [1, ...variables.map(v =>
+        (record.inputs[v.id as InputVariableId] - v.range[0]) / (v.range[1] - v.range[0]))])
+
+    // Membresías y activaciones de cada registro
+    const memberships = usable.map(() => new Map<string, Map<string, number>>())
+    const firings = usable.map(() => new Array<number>(rules.length).fill(0))
+    const fuzzify = () => usable.forEach((record, k) => {
+        for (const variable of variables) {
+            const value = record.inputs[variable.id as InputVariableId]
+            memberships[k].set(variable.id, new Map(variable.terms.map(term => [term.name, calculateMembership(value, term)])))
+        }
+        rules.forEach((rule, i) => {
+            firings[k][i] = ruleFiringStrength(rule, memberships[k], operators) * weights[i]
+        })
+    })
+
+    const clampDose = (value: number) => Math.min(doseRange[1], Math.max(doseRange[0], value))
+    const ruleOutputs = () => features.map(phi => thetas.map(theta => theta.reduce((sum, t, j) => sum + t * phi[j], 0)))
+    const predict = (firing: number[], outputs: number[]) => {
+        let numerator = 0
+        let denominator = 0
+        firing.forEach((w, i) => {
+            numerator += w * outputs[i]
+            denominator += w
+        })
+        return denominator > 0 ? clampDose(numerator / denominator) : 0
+    }
+
+    const measure = (): AnfisErrors => {
+        const outputs = ruleOutputs()
+        const sums = { training: { squared: 0, absolute: 0, count: 0 }, validation: { squared: 0, absolute: 0, count: 0 } }
+        let uncoveredCount = 0
+        usable.forEach((record, k) => {
+            if (firings[k].every(w => w === 0)) uncoveredCount++
+            const error = predict(firings[k], outputs[k]) - record.dose
+            const sum = isValidation[k] ? sums.validation : sums.training
+            sum.squared += error * error
+            sum.absolute += Math.abs(error)
+            sum.count++
+        })
+        const rmse = (s: typeof sums.training) => s.count > 0 ? Math.sqrt(s.squared / s.count) : 0
+        const mae = (s: typeof sums.training) => s.count > 0 ? s.absolute / s.count : 0
+        return {
+            trainingRmse: rmse(sums.training),
+            validationRmse: rmse(sums.validation),
+            trainingMae: mae(sums.training),
+            validationMae: mae(sums.validation),
+            uncoveredCount
+        }
+    }
+
+    // Pasada hacia delante: mínimos cuadrados globales de los consecuentes,
+    // regularizados hacia los valores anteriores: (ΦᵀΦ + λI) θ = Φᵀy + λθ₀
+    const fitConsequents = () => {
+        const active = rules.map((_, i) => usable.some((_, k) => !isValidation[k] && firings[k][i] > 0))
+        const index = new Map<number, number>()
+        active.forEach((isActive, i) => isActive && index.set(i, index.size))
+        const unknowns = index.size * size
+        if (unknowns === 0) return
+
+        const A = Array.from({ length: unknowns }, () => new Array<number>(unknowns).fill(0))
+        const b = new Array<number>(unknowns).fill(0)
+        for (const [i, slot] of index) {
+            for (let p = 0; p < size; p++) {
+                A[slot * size + p][slot * size + p] += RIDGE
+                b[slot * size + p] += RIDGE * thetas[i][p]
+            }
+        }
+
+        usable.forEach((record, k) => {
+            if (isValidation[k]) return
+            const total = firings[k].reduce((sum, w) => sum + w, 0)
+            if (total === 0) return
+            const row: Array<{ column: number; value: number }> = []
+            firings[k].forEach((w, i) => {
+                const slot = index.get(i)
+                if (w === 0 || slot === undefined) return
+                for (let p = 0; p < size; p++) row.push({ column: slot * size + p, value: (w / total) * features[k][p] })
+            })
+            for (const r of row) {
+                b[r.column] += r.value * record.dose
+                for (const c of row) A[r.column][c.column] += r.value * c.value
+            }
+        })
+
+        const solution = solveLinearSystem(A, b)
+        if (!solution) return
+        thetas = thetas.map((theta, i) => {
+            const slot = index.get(i)
+            return slot === undefined ? theta : solution.slice(slot * size, (slot + 1) * size)
+        })
+    }
+
+    // Pasada hacia atrás: gradiente por diferencias finitas de cada
+    // parámetro de término y paso normalizado de tamaño κ
+    const adjustPremises = (kappa: number) => {
+        const outputs = ruleOutputs()
+        const predictions = usable.map((_, k) => predict(firings[k], outputs[k]))
+        const training = usable.flatMap((_, k) => isValidation[k] ? [] : [k])
+        const gradients: Array<{ variable: number; term: number; gradient: number[] }> = []
+
+        variables.forEach((variable, v) => {
+            const span = variable.range[1] - variable.range[0]
+            variable.terms.forEach((term, t) => {
+                const params = getTermParameters(term)
+                const dependent = rules.flatMap((_, i) => ruleTerms[i].has(`${variable.id}:${term.name}`) ? [i] : [])
+                if (params.length === 0 || dependent.length === 0) return
+
+                const gradient = params.map((_, j) => {
+                    const perturbed = withTermParameters(term, params.map((p, n) => n === j ? p + GRADIENT_STEP * span : p), variable.range)
+                    if (!perturbed) return 0
+                    let delta = 0
+                    for (const k of training) {
+                        const record = usable[k]
+                        const termMemberships = memberships[k].get(variable.id)
+                        const original = termMemberships?.get(term.name) ?? 0
+                        const changed = calculateMembership(record.inputs[variable.id as InputVariableId], perturbed)
+                        if (!termMemberships || changed === original) continue
+
+                        termMemberships.set(term.name, changed)
+                        const firing = [...firings[k]]
+                        for (const i of dependent) firing[i] = ruleFiringStrength(rules[i], memberships[k], operators) * weights[i]
+                        termMemberships.set(term.name, original)
+
+                        const before = predictions[k] - record.dose
+                        const after = predict(firing, outputs[k]) - record.dose
+                        delta += after * after - before * before
+                    }
+                    return delta / training.length / GRADIENT_STEP
+                })
+                gradients.push({ variable: v, term: t, gradient })
+            })
+        })
+
+        const norm = Math.sqrt(gradients.reduce((sum, g) => sum + g.gradient.reduce((s, x) => s + x * x, 0), 0))
+        if (norm === 0) return
+        for (const { variable: v, term: t, gradient } of gradients) {
+            const variable = variables[v]
+            const span = variable.range[1] - variable.range[0]
+            const term = variable.terms[t]
+            const params = getTermParameters(term).map((p, j) => p - kappa * span * gradient[j] / norm)
+            variable.terms[t] = withTermParameters(term, params, variable.range) ?? term
+        }
+    }
+
+    const snapshot = (): FuzzySystemDefinition => {
+        const trained = new Map(rules.map((rule, i) => [rule.id, i]))
+        const roundTerm = (term: FuzzyTerm, range: [number, number]) =>
+            withTermParameters(term, getTermParameters(term).map(round), range) ?? term
+        return {
+            ...system,
+            inferenceMode: 'tsk',
+            inputs: system.inputs.map(input => {
+                const variable = variables.find(v => v.id === input.id)
+                return variable ? { ...variable, terms: variable.terms.map(term => roundTerm(term, variable.range)) } : input
+            }),
+            rules: system.rules.map((rule: FuzzyRule) => {
+                const i = trained.get(rule.id)
+                if (i === undefined) return rule
+                return {
+                    ...rule,
+                    tsk: { dose: fromNormalized(thetas[i]), time: getTskConsequent(rule, 'time', system) }
+                }
+            })
+        }
+    }
+
+    // Error de partida: el controlador actual evaluado como TSK
+    fuzzify()
+    const initial = measure()
+
+    const history: AnfisEpoch[] = []
+    const hasValidation = trainingCount < usable.length
+    let best = { epoch: 0, score: Infinity, system, errors: initial }
+    let kappa = stepSize
+    let previousError = initial.trainingRmse
+
+    for (let epoch = 1; epoch <= epochs; epoch++) {
+        fitConsequents()
+        const errors = measure()
+        const score = hasValidation ? errors.validationRmse : errors.trainingRmse
+        if (score < best.score) best = { epoch, score, system: snapshot(), errors }
+
+        // Regla de Jang: paso mayor mientras el error baja, menor si sube
+        kappa *= errors.trainingRmse < previousError ? 1.1 : 0.5
+        previousError = errors.trainingRmse
+
+        const record: AnfisEpoch = { epoch, trainingRmse: errors.trainingRmse, validationRmse: errors.validationRmse, stepSize: kappa }
+        history.push(record)
+        yield record
+
+        if (epoch < epochs) {
+            adjustPremises(kappa)
+            fuzzify()
+        }
+    }
+
+    return {
+        system: validateFuzzySystem(best.system),
+        history,
+        bestEpoch: best.epoch,
+        initial,
+        final: best.errors,
+        trainingCount,
+        validationCount: usable.length - trainingCount,
+        excludedCount: records.length - usable.length
+    }
+}
+
+/**
+ * Entrena el controlador con los registros de planta (todas las épocas)
+ */
+export function trainAnfis(
+    system: FuzzySystemDefinition,
+    records: PlantRecord[],
+    options: AnfisOptions = {}
+): AnfisResult {
+    const trainer = trainAnfisIncrementally(system, records, options)
+    for (;;) {
+        const step = trainer.next()
+        if (step.done) return step.value
+    }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { COAGULANT_CATALOG, applyCoagulant, coagulantCost } from '@/lib/coagulants'
+import { DEFAULT_FUZZY_SYSTEM, FuzzySystemDefinition, FuzzyVariable } from '@/lib/fuzzy-system'
+
+const doseOf = (system: FuzzySystemDefinition): FuzzyVariable => system.outputs.find(variable => variable.id === 'dose')!
+
+describe('applyCoagulant', () => {
+    it('usa los términos del catálogo al cambiar desde el controlador por defecto', () => {
+        for (const id of ['ferric_chloride', 'pacl', 'polymer'] as const) {
+            const system = applyCoagulant(DEFAULT_FUZZY_SYSTEM, id)
+            expect(system.coagulant).toBe(id)
+            expect(doseOf(system)).toEqual({ ...doseOf(DEFAULT_FUZZY_SYSTEM), ...COAGULANT_CATALOG[id].doseVariable })
+        }
+    })
+
+    it('conserva los términos ajustados, reescalados al rango del nuevo producto', () => {
+        const tuned: FuzzySystemDefinition = {
+            ...DEFAULT_FUZZY_SYSTEM,
+            outputs: DEFAULT_FUZZY_SYSTEM.outputs.map(variable => variable.id === 'dose'
+                ? {
+                    ...variable,
+                    terms: [
+                        { name: 'baja', shape: 'triangular' as const, points: [0, 10, 30] as [number, number, number] },
+                        { name: 'alta', shape: 'gaussian' as const, mean: 60, sigma: 15, footprint: { spread: 5 } }
+                    ]
+                }
+                : variable)
+        }
+
+        const dose = doseOf(applyCoagulant(tuned, 'ferric_chloride'))
+
+        expect(dose.range).toEqual([0, 80])
+        expect(dose.label).toBe('Dosis de Cloruro Férrico')
+        expect(dose.terms).toEqual([
+            { name: 'baja', shape: 'triangular', points: [0, 8, 24] },
+            { name: 'alta', shape: 'gaussian', mean: 48, sigma: 12, footprint: { spread: 4 } }
+        ])
+    })
+
+    it('vuelve a los términos de partida al regresar al sulfato de aluminio', () => {
+        const back = applyCoagulant(applyCoagulant(DEFAULT_FUZZY_SYSTEM, 'pacl'), 'alum')
+        expect(doseOf(back)).toEqual(doseOf(DEFAULT_FUZZY_SYSTEM))
+    })
+
+    it('reescala los consecuentes lineales de la dosis en modo TSK', () => {
+        const tsk = {
+            dose: { constant: 12.5, coefficients: { turbidity: 0.1, ph: -2 } },
+            time: { constant: 20, coefficients: { turbidity: 0.05 } }
+        }
+        const system: FuzzySystemDefinition = {
+            ...DEFAULT_FUZZY_SYSTEM,
+            rules: DEFAULT_FUZZY_SYSTEM.rules.map(rule => rule.id === 1 ? { ...rule, tsk } : rule)
+        }
+
+        const switched = applyCoagulant(system, 'ferric_chloride').rules.find(rule => rule.id === 1)!
+
+        expect(switched.tsk).toEqual({
+            dose: { constant: 10, coefficients: { turbidity: 0.08, ph: -1.6 } },
+            time: tsk.time
+        })
+    })
+})
+
+describe('coagulantCost', () => {
+    it('convierte mg/L y $/kg en $/m³', () => {
+        expect(coagulantCost(COAGULANT_CATALOG.alum, 40)).toBeCloseTo(40 * 0.32 / 1000, 12)
+    })
+})
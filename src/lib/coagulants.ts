@@ -0,0 +1,219 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - CATÁLOGO DE COAGULANTES
+ * Sulfato de aluminio, cloruro férrico, PACl y polímero catiónico
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * La base de reglas razona en términos lingüísticos ("dosis alta"); lo que
+ * significa "alta" en mg/L depende del producto. Cada entrada del catálogo
+ * define:
+ *
+ * - Sus términos de dosis (mg/L de producto comercial)
+ * - La ventana de pH en la que coagula eficazmente
+ * - La alcalinidad que consume (mg/L CaCO₃ por mg/L de producto)
+ * - Su precio ($/kg)
+ *
+ * Cambiar de coagulante reescala los términos de la variable de salida
+ * `dose` de la definición al rango del nuevo producto, de modo que se
+ * conservan los términos ajustados o importados; las reglas no cambian.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import {
+    CoagulantId,
+    FuzzySystemDefinition,
+    FuzzyTerm,
+    FuzzyVariable,
+    COAGULANT_IDS,
+    DOSE_VARIABLE
+} from '@/lib/fuzzy-system'
+import type { LocalizedText } from '@/lib/i18n'
+
+/**
+ * Producto coagulante del catálogo
+ */
+export interface Coagulant {
+    id: CoagulantId
+    /** Nombre para mostrar */
+    name: LocalizedText
+    /** Fórmula o nombre químico */
+    formula: string
+    /** Términos de dosis del producto (variable de salida 'dose') */
+    doseVariable: FuzzyVariable
+    /** Ventana de pH de coagulación eficaz [mín, máx] */
+    phWindow: [number, number]
+    /** Alcalinidad consumida en mg/L CaCO₃ por cada mg/L dosificado */
+    alkalinityConsumption: number
+    /** Precio del producto en $/kg */
+    pricePerKg: number
+}
+
+/**
+ * Alcalinidad residual mínima (mg/L CaCO₃) para que el flóculo precipite
+ * y el pH no se desplome tras la coagulación
+ */
+export const MIN_RESIDUAL_ALKALINITY = 20
+
+/**
+ * Lleva un término del universo `from` al universo `to` con la
+ * transformación lineal que une ambos rangos. Las posiciones se redondean
+ * a centésimas; las anchuras y la huella se escalan y las pendientes de las
+ * sigmoides se dividen por el mismo factor para conservar la forma.
+ */
+function rescaleTerm(term: FuzzyTerm, from: [number, number], to: [number, number]): FuzzyTerm {
+    const span = from[1] - from[0]
+    const factor = span > 0 ? (to[1] - to[0]) / span : 1
+    const round = (value: number) => Math.round(value * 100) / 100
+    const position = (x: number) => round(to[0] + (x - from[0]) * factor)
+    const width = (w: number) => round(w * factor)
+    const footprint = term.footprint ? { footprint: { ...term.footprint, spread: width(term.footprint.spread) } } : {}
+
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal': {
+            const [a, b, c, d] = term.points
+            return { ...term, ...footprint, points: [position(a), position(b), position(c), position(d)] }
+        }
+        case 'triangular': {
+            const [a, b, c] = term.points
+            return { ...term, ...footprint, points: [position(a), position(b), position(c)] }
+        }
+        case 'gaussian':
+            return { ...term, ...footprint, mean: position(term.mean), sigma: width(term.sigma) }
+        case 'bell':
+            return { ...term, ...footprint, center: position(term.center), width: width(term.width) }
+        case 'sigmoid':
+            return { ...term, ...footprint, center: position(term.center), slope: term.slope / factor }
+        case 'piecewise':
+            return { ...term, ...footprint, points: term.points.map(([x, mu]) => [position(x), mu] as [number, number]) }
+        case 'singleton':
+            return { ...term, ...footprint, value: position(term.value) }
+    }
+}
+
+/**
+ * Términos de dosis con los mismos nombres que los de sulfato de aluminio,
+ * reescalados al rango de otro producto
+ */
+function scaledDoseVariable(max: number, label: string): FuzzyVariable {
+    const range: [number, number] = [0, max]
+    return {
+        ...DOSE_VARIABLE,
+        label,
+        range,
+        terms: DOSE_VARIABLE.terms.map(term => rescaleTerm(term, DOSE_VARIABLE.range, range))
+    }
+}
+
+export const COAGULANT_CATALOG: Record<CoagulantId, Coagulant> = {
+    /**
+     * Sulfato de aluminio: el coagulante de referencia. Ventana estrecha
+     * (6.5-8) y consumo teórico de 0.5 mg/L de alcalinidad por mg/L.
+     */
+    alum: {
+        id: 'alum',
+        name: { es: 'Sulfato de aluminio', en: 'Aluminum sulfate' },
+        formula: 'Al₂(SO₄)₃·14H₂O',
+        doseVariable: DOSE_VARIABLE,
+        phWindow: [6.5, 8.0],
+        alkalinityConsumption: 0.5,
+        pricePerKg: 0.32
+    },
+    /**
+     * Cloruro férrico: flóculo más denso y ventana de pH amplia, pero consume
+     * casi el doble de alcalinidad y es corrosivo.
+     */
+    ferric_chloride: {
+        id: 'ferric_chloride',
+        name: { es: 'Cloruro férrico', en: 'Ferric chloride' },
+        formula: 'FeCl₃',
+        doseVariable: scaledDoseVariable(80, 'Dosis de Cloruro Férrico'),
+        phWindow: [4.5, 9.0],
+        alkalinityConsumption: 0.92,
+        pricePerKg: 0.45
+    },
+    /**
+     * Policloruro de aluminio: pre-hidrolizado, necesita menos dosis y apenas
+     * consume alcalinidad; buena opción con agua blanda o fría.
+     */
+    pacl: {
+        id: 'pacl',
+        name: { es: 'Policloruro de aluminio', en: 'Polyaluminum chloride' },
+        formula: 'PACl (Alₙ(OH)ₘCl₃ₙ₋ₘ)',
+        doseVariable: scaledDoseVariable(60, 'Dosis de PACl'),
+        phWindow: [5.5, 9.0],
+        alkalinityConsumption: 0.2,
+        pricePerKg: 0.58
+    },
+    /**
+     * Polímero catiónico (polyDADMAC): neutraliza cargas a dosis de pocos
+     * mg/L, no consume alcalinidad y funciona en casi todo el rango de pH.
+     */
+    polymer: {
+        id: 'polymer',
+        name: { es: 'Polímero catiónico', en: 'Cationic polymer' },
+        formula: 'polyDADMAC',
+        doseVariable: scaledDoseVariable(5, 'Dosis de Polímero'),
+        phWindow: [4.0, 10.0],
+        alkalinityConsumption: 0,
+        pricePerKg: 2.8
+    }
+}
+
+export const COAGULANTS: Coagulant[] = COAGULANT_IDS.map(id => COAGULANT_CATALOG[id])
+
+/**
+ * Coagulante de una definición (sulfato de aluminio si no lo indica)
+ */
+export function getCoagulant(system: FuzzySystemDefinition): Coagulant {
+    return COAGULANT_CATALOG[system.coagulant ?? 'alum']
+}
+
+/**
+ * Costo del coagulante en $/m³: mg/L = g/m³, por el precio en $/kg
+ */
+export function coagulantCost(coagulant: Coagulant, dose: number): number {
+    return (dose * coagulant.pricePerKg) / 1000
+}
+
+/**
+ * Cambia el coagulante de una definición: reescala los términos de dosis
+ * actuales (ajustados o importados) y los consecuentes lineales TSK de la
+ * dosis al rango del nuevo producto. Etiqueta y rango salen del catálogo.
+ */
+export function applyCoagulant(system: FuzzySystemDefinition, id: CoagulantId): FuzzySystemDefinition {
+    const next = COAGULANT_CATALOG[id]
+    const current = system.outputs.find(v => v.id === 'dose')
+    const factor = current ? next.doseVariable.range[1] / current.range[1] : 1
+
+    return {
+        ...system,
+        coagulant: id,
+        outputs: system.outputs.map(variable => variable.id === 'dose'
+            ? {
+                ...variable,
+                label: next.doseVariable.label,
+                range: next.doseVariable.range,
+                terms: variable.terms.map(term => rescaleTerm(term, variable.range, next.doseVariable.range))
+            }
+            : variable),
+        rules: system.rules.map(rule => {
+            if (!rule.tsk || factor === 1) return rule
+            const { constant, coefficients } = rule.tsk.dose
+            return {
+                ...rule,
+                tsk: {
+                    ...rule.tsk,
+                    dose: {
+                        constant: Number((constant * factor).toPrecision(4)),
+                        coefficients: Object.fromEntries(
+                            Object.entries(coefficients).map(([key, value]) => [key, Number(((value ?? 0) * factor).toPrecision(4))])
+                        )
+                    }
+                }
+            }
+        })
+    }
+}
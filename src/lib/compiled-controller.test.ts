@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { CompileResolution, axisNodes, compileFuzzySystem, evaluateCompiled } from '@/lib/compiled-controller'
+import { DEFAULT_WATER_INPUTS, runFuzzyInference } from '@/lib/fuzzy-logic'
+import { DEFAULT_FUZZY_SYSTEM } from '@/lib/fuzzy-system'
+
+const turbidity = DEFAULT_FUZZY_SYSTEM.inputs.find(variable => variable.id === 'turbidity')!
+
+describe('axisNodes', () => {
+    it('devuelve los nodos pedidos, crecientes y dentro del universo', () => {
+        for (const count of [2, 5, 9, 13, 21]) {
+            const nodes = axisNodes(turbidity, count)
+            expect(nodes).toHaveLength(count)
+            expect([...nodes].sort((a, b) => a - b)).toEqual(nodes)
+            expect(new Set(nodes).size).toBe(count)
+            nodes.forEach(x => {
+                expect(x).toBeGreaterThanOrEqual(turbidity.range[0])
+                expect(x).toBeLessThanOrEqual(turbidity.range[1])
+            })
+        }
+    })
+
+    it('coloca un nodo en cada borde de núcleo cuando caben', () => {
+        // Núcleos: [0,5] [20,40] [80,150] [250,400] [600,1000]; en los hombros solo el borde interior
+        expect(axisNodes(turbidity, 9)).toEqual([5, 20, 40, 80, 150, 250, 400, 500, 600])
+    })
+})
+
+describe('compileFuzzySystem', () => {
+    // Malla pequeña para que la prueba sea rápida
+    const resolution: CompileResolution = { turbidity: 5, ph: 5, temperature: 2, alkalinity: 2, conductivity: 2, color: 2, flowRate: 2 }
+    const compiled = compileFuzzySystem(DEFAULT_FUZZY_SYSTEM, resolution)
+
+    it('evalúa un nodo por cada combinación de los ejes', () => {
+        expect(compiled.nodeCount).toBe(compiled.axes.reduce((product, axis) => product * axis.nodes.length, 1))
+    })
+
+    it('coincide con la inferencia exacta en los nodos', () => {
+        const [turbidityAxis, phAxis] = compiled.axes
+        for (const x of turbidityAxis.nodes) {
+            for (const y of phAxis.nodes) {
+                const inputs = { ...DEFAULT_WATER_INPUTS, turbidity: x, ph: y }
+                compiled.axes.slice(2).forEach(axis => {
+                    inputs[axis.id] = axis.nodes[0]
+                })
+                const exact = runFuzzyInference(inputs)
+                const table = evaluateCompiled(compiled, inputs)
+
+                expect(table.coagulantDose).toBeCloseTo(exact.coagulantDose, 3)
+                expect(table.flocculationTime).toBeCloseTo(exact.flocculationTime, 3)
+            }
+        }
+    })
+
+    it('satura fuera del primer y último nodo', () => {
+        const [turbidityAxis] = compiled.axes
+        const last = turbidityAxis.nodes[turbidityAxis.nodes.length - 1]
+
+        expect(evaluateCompiled(compiled, { ...DEFAULT_WATER_INPUTS, turbidity: 1000 }))
+            .toEqual(evaluateCompiled(compiled, { ...DEFAULT_WATER_INPUTS, turbidity: last }))
+    })
+})
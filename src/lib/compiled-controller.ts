@@ -0,0 +1,457 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - CONTROLADOR COMPILADO
+ * Tabla de consulta N-D con interpolación multilineal
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * `runFuzzyInference` es exacta pero cara: fuzzifica, agrega curvas de 201
+ * puntos, reduce el tipo y construye la explicación en cada llamada. Para
+ * evaluar el mismo controlador cientos de miles de veces (simulaciones
+ * largas, barridos, estudios de sensibilidad) se "compila": se evalúa una
+ * vez en los nodos de una malla sobre las entradas y después cada consulta
+ * solo interpola entre los 2^N nodos de la celda que la contiene. Los nodos
+ * de cada eje no son equiespaciados: se colocan en los bordes de los núcleos
+ * de los términos (ver `axisNodes`), que es donde la salida cambia de ritmo.
+ *
+ * Interpolación multilineal en N dimensiones, con tᵢ la posición relativa
+ * de la entrada i dentro de su celda (0-1):
+ *
+ *   y ≈ Σ_esquinas  y_esquina · Π_i (bitᵢ ? tᵢ : 1 - tᵢ)
+ *
+ * La tabla solo cubre las salidas continuas (dosis, tiempo y costo). El
+ * error depende de la malla y del controlador: donde una sola regla se
+ * activa apenas la salida exacta salta a su consecuente completo, donde no
+ * se activa ninguna cae al valor por defecto y el tiempo exacto se redondea
+ * a minutos enteros. La interpolación suaviza esos saltos, así que la
+ * desviación máxima no baja con la malla; conviene medir la desviación media
+ * con `benchmarkCompiledController` antes de usar la tabla.
+ *
+ * Tamaño: con siete entradas el número de nodos es el producto de los puntos
+ * por eje (11 puntos en cada eje serían casi 20 millones de inferencias), por
+ * eso la resolución se elige por variable.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { DEFAULT_WATER_INPUTS, runFuzzyInference, WaterInputs } from '@/lib/fuzzy-logic'
+import { FuzzySystemDefinition, FuzzyTerm, FuzzyVariable, InputVariableId, INPUT_VARIABLE_IDS } from '@/lib/fuzzy-system'
+import { SurfaceOutputId, SURFACE_OUTPUTS } from '@/lib/control-surface'
+import { sampleInputSpace } from '@/lib/sampling'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Puntos de la malla en cada eje (mínimo 2) */
+export type CompileResolution = Record<InputVariableId, number>
+
+export type CompilePresetId = 'coarse' | 'medium' | 'fine'
+
+/**
+ * Mallas predefinidas: más puntos en turbidez y pH, que es donde el
+ * controlador por defecto tiene más términos y reglas. Las demás entradas
+ * llevan un nodo por término; con más nodos en ellas el error no baja.
+ *
+ * Desviación media frente a la inferencia exacta con el controlador por
+ * defecto (2000 puntos de Halton), que es la cota que deben cumplir:
+ *
+ * | Malla  | Nodos   | Dosis (mg/L) | Tiempo (min) |
+ * |--------|---------|--------------|--------------|
+ * | coarse | 19.683  | ≤ 7          | ≤ 4,5        |
+ * | medium | 41.067  | ≤ 5,5        | ≤ 3,5        |
+ * | fine   | 107.163 | ≤ 4,5        | ≤ 2,5        |
+ */
+export const COMPILE_PRESETS: Record<CompilePresetId, CompileResolution> = {
+    coarse: { turbidity: 9, ph: 9, temperature: 3, alkalinity: 3, conductivity: 3, color: 3, flowRate: 3 },
+    medium: { turbidity: 13, ph: 13, temperature: 3, alkalinity: 3, conductivity: 3, color: 3, flowRate: 3 },
+    fine: { turbidity: 21, ph: 21, temperature: 3, alkalinity: 3, conductivity: 3, color: 3, flowRate: 3 }
+}
+
+/** Eje de la malla: abscisas crecientes de los nodos de una entrada */
+export interface CompiledAxis {
+    id: InputVariableId
+    nodes: number[]
+}
+
+export interface CompiledController {
+    /** Controlador a partir del que se generó la tabla */
+    system: FuzzySystemDefinition
+    /** Ejes de la malla (solo las entradas que declara el sistema) */
+    axes: CompiledAxis[]
+    /** Valores de las entradas que no son ejes */
+    base: WaterInputs
+    /** Salida en cada nodo; el último eje es el que varía más rápido */
+    tables: Record<SurfaceOutputId, Float32Array>
+    /** Número de nodos (inferencias exactas realizadas) */
+    nodeCount: number
+}
+
+export type CompiledOutputs = Record<SurfaceOutputId, number>
+
+export interface CompileProgress {
+    done: number
+    total: number
+}
+
+export interface OutputDeviation {
+    /** Máxima diferencia absoluta con la inferencia exacta */
+    max: number
+    /** Diferencia absoluta media */
+    mean: number
+    /** Entradas donde se produce la máxima diferencia */
+    worst: WaterInputs
+}
+
+export interface CompiledBenchmark {
+    sampleCount: number
+    /** Tiempo total de `runFuzzyInference` sobre las muestras (ms) */
+    exactMs: number
+    /** Tiempo total de `evaluateCompiledBatch` sobre las mismas muestras (ms) */
+    compiledMs: number
+    speedup: number
+    deviation: Record<SurfaceOutputId, OutputDeviation>
+}
+
+/** Nodos evaluados entre dos `next()` de la compilación incremental */
+const COMPILE_CHUNK = 250
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPILACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Abscisas notables de un término para colocar nodos
+ */
+interface TermKnots {
+    /** Un único punto que representa el núcleo (μ = 1) */
+    center: number
+    /** Bordes del núcleo; en un hombro solo el interior */
+    edges: number[]
+    /** Pies del soporte (donde μ deja de ser 0) */
+    feet: number[]
+}
+
+function termKnots(term: FuzzyTerm, [min, max]: [number, number]): TermKnots {
+    // Núcleo [lo, hi]: si toca un extremo del universo la tabla se satura allí
+    const core = (lo: number, hi: number, feet: number[]): TermKnots => {
+        if (lo <= min && hi >= max) return { center: (lo + hi) / 2, edges: [], feet }
+        if (lo <= min) return { center: hi, edges: [hi], feet }
+        if (hi >= max) return { center: lo, edges: [lo], feet }
+        return { center: (lo + hi) / 2, edges: lo === hi ? [lo] : [lo, hi], feet }
+    }
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal': {
+            const [a, b, c, d] = term.points
+            return core(b, c, [a, d])
+        }
+        case 'triangular': {
+            const [a, b, c] = term.points
+            return core(b, b, [a, c])
+        }
+        case 'gaussian':
+            return core(term.mean, term.mean, [term.mean - 2 * term.sigma, term.mean + 2 * term.sigma])
+        case 'bell':
+            return core(term.center - term.width, term.center + term.width,
+                [term.center - 2 * term.width, term.center + 2 * term.width])
+        case 'sigmoid': {
+            // μ ≈ 0,88 a 2/slope del centro
+            const reach = 2 / term.slope
+            return term.direction === 'right'
+                ? core(term.center + reach, max, [term.center - reach])
+                : core(min, term.center - reach, [term.center + reach])
+        }
+        case 'piecewise': {
+            const peak = Math.max(...term.points.map(([, mu]) => mu))
+            const top = term.points.filter(([, mu]) => mu === peak).map(([x]) => x)
+            return core(Math.min(...top), Math.max(...top), term.points.map(([x]) => x))
+        }
+        case 'singleton':
+            return core(term.value, term.value, [])
+    }
+}
+
+/**
+ * Nodos de un eje: `count` abscisas tomadas de los términos de la variable.
+ *
+ * Dentro del núcleo de un término la salida no cambia por esta entrada y
+ * entre un núcleo y el siguiente cambia de forma suave, así que los nodos se
+ * ponen, por orden:
+ *
+ * 1. Un punto por término (centro del núcleo, o su borde interior si es un hombro)
+ * 2. Los dos bordes del núcleo, empezando por los núcleos más anchos
+ * 3. Los pies del soporte, partiendo el hueco más ancho
+ * 4. La mitad del hueco más ancho
+ *
+ * Con un punto por cada borde de núcleo las funciones de membresía
+ * trapezoidales quedan resueltas en cada eje. Fuera del primer y último nodo
+ * la tabla se satura.
+ */
+export function axisNodes(variable: FuzzyVariable, count: number): number[] {
+    const [min, max] = variable.range
+    const target = Math.max(2, Math.round(count))
+    const inRange = (x: number) => Number.isFinite(x) && x >= min && x <= max
+    const knots = variable.terms.map(term => termKnots(term, variable.range))
+
+    const nodes: number[] = []
+    const add = (x: number) => {
+        if (inRange(x) && !nodes.includes(x) && nodes.length < target) nodes.push(x)
+    }
+    // Candidato más alejado de los nodos actuales (null si todos están ya)
+    const farthest = (candidates: number[]) => {
+        let best: number | null = null
+        let bestDistance = 0
+        for (const x of candidates.filter(inRange)) {
+            const distance = nodes.length === 0 ? Infinity : Math.min(...nodes.map(node => Math.abs(node - x)))
+            if (distance > bestDistance) {
+                best = x
+                bestDistance = distance
+            }
+        }
+        return best
+    }
+    const addSpread = (candidates: number[]) => {
+        for (let x = farthest(candidates); x !== null && nodes.length < target; x = farthest(candidates)) add(x)
+    }
+
+    addSpread(knots.map(k => k.center))
+
+    // Sustituir centros por los dos bordes del núcleo mientras quepan
+    const widest = knots
+        .filter(k => k.edges.length === 2)
+        .sort((p, q) => (q.edges[1] - q.edges[0]) - (p.edges[1] - p.edges[0]))
+    for (const k of widest) {
+        const index = nodes.indexOf(k.center)
+        if (index < 0 || nodes.length + 1 > target) continue
+        const shared = knots.some(other => other !== k && other.center === k.center)
+        if (!shared) nodes.splice(index, 1)
+        k.edges.forEach(add)
+    }
+
+    // Un pie en el extremo del universo no aporta nada: allí ya se satura
+    addSpread(knots.flatMap(k => k.feet).filter(x => x > min && x < max))
+    if (nodes.length < 2) nodes.splice(0, nodes.length, min, max)
+    nodes.sort((a, b) => a - b)
+
+    while (nodes.length < target) {
+        let gap = 0
+        for (let i = 1; i < nodes.length - 1; i++) {
+            if (nodes[i + 1] - nodes[i] > nodes[gap + 1] - nodes[gap]) gap = i
+        }
+        nodes.splice(gap + 1, 0, (nodes[gap] + nodes[gap + 1]) / 2)
+    }
+    return nodes
+}
+
+/**
+ * Ejes de la malla para un sistema y una resolución
+ */
+export function compiledAxes(system: FuzzySystemDefinition, resolution: CompileResolution): CompiledAxis[] {
+    return INPUT_VARIABLE_IDS.flatMap(id => {
+        const variable = system.inputs.find(v => v.id === id)
+        return variable ? [{ id, nodes: axisNodes(variable, resolution[id]) }] : []
+    })
+}
+
+/**
+ * Compila el controlador por tramos. Cada `next()` evalúa un bloque de nodos
+ * y devuelve el avance; el valor final del generador es la tabla completa.
+ */
+export function* compileFuzzySystemIncrementally(
+    system: FuzzySystemDefinition,
+    resolution: CompileResolution = COMPILE_PRESETS.coarse
+): Generator<CompileProgress, CompiledController, void> {
+    const axes = compiledAxes(system, resolution)
+    const nodeCount = axes.reduce((product, axis) => product * axis.nodes.length, 1)
+    const tables = Object.fromEntries(
+        SURFACE_OUTPUTS.map(output => [output, new Float32Array(nodeCount)])
+    ) as Record<SurfaceOutputId, Float32Array>
+    const base = { ...DEFAULT_WATER_INPUTS }
+
+    // Recorrido en el orden de la tabla: índice del nodo → índice en cada eje
+    const indices = new Array<number>(axes.length).fill(0)
+    for (let node = 0; node < nodeCount; node++) {
+        const inputs = { ...base }
+        axes.forEach((axis, k) => {
+            inputs[axis.id] = axis.nodes[indices[k]]
+        })
+        const outputs = runFuzzyInference(inputs, system)
+        for (const output of SURFACE_OUTPUTS) tables[output][node] = outputs[output]
+
+        for (let k = axes.length - 1; k >= 0; k--) {
+            if (++indices[k] < axes[k].nodes.length) break
+            indices[k] = 0
+        }
+        if ((node + 1) % COMPILE_CHUNK === 0 && node + 1 < nodeCount) {
+            yield { done: node + 1, total: nodeCount }
+        }
+    }
+
+    return { system, axes, base, tables, nodeCount }
+}
+
+/**
+ * Compila el controlador de una vez
+ */
+export function compileFuzzySystem(
+    system: FuzzySystemDefinition,
+    resolution: CompileResolution = COMPILE_PRESETS.coarse
+): CompiledController {
+    const compiler = compileFuzzySystemIncrementally(system, resolution)
+    for (;;) {
+        const step = compiler.next()
+        if (step.done) return step.value
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EVALUACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Interpola las salidas de `inputs` y las escribe en `target[offset]` de
+ * cada salida. `strides` y `fraction` son memoria de trabajo reutilizada entre
+ * llamadas para no crear objetos por muestra.
+ */
+function interpolateInto(
+    controller: CompiledController,
+    inputs: WaterInputs,
+    strides: Int32Array,
+    fraction: Float64Array,
+    target: Record<SurfaceOutputId, Float64Array>,
+    offset: number
+): void {
+    const { axes, tables } = controller
+    const dose = tables.coagulantDose
+    const time = tables.flocculationTime
+    const cost = tables.operationalCost
+
+    // Celda de cada eje (búsqueda binaria); fuera de los nodos se satura al borde
+    const dimensions = axes.length
+    let baseIndex = 0
+    let stride = 1
+    for (let k = dimensions - 1; k >= 0; k--) {
+        const nodes = axes[k].nodes
+        const last = nodes.length - 1
+        const value = Math.min(nodes[last], Math.max(nodes[0], Number.isFinite(inputs[axes[k].id]) ? inputs[axes[k].id] : nodes[0]))
+        let low = 0
+        let high = last
+        while (high - low > 1) {
+            const middle = (low + high) >> 1
+            if (nodes[middle] <= value) low = middle
+            else high = middle
+        }
+        strides[k] = stride
+        fraction[k] = (value - nodes[low]) / (nodes[high] - nodes[low])
+        baseIndex += low * stride
+        stride *= nodes.length
+    }
+
+    let doseSum = 0
+    let timeSum = 0
+    let costSum = 0
+    const corners = 1 << dimensions
+    for (let corner = 0; corner < corners; corner++) {
+        let weight = 1
+        let node = baseIndex
+        for (let k = 0; k < dimensions; k++) {
+            if (corner & (1 << k)) {
+                weight *= fraction[k]
+                node += strides[k]
+            } else {
+                weight *= 1 - fraction[k]
+            }
+        }
+        if (weight === 0) continue
+        doseSum += weight * dose[node]
+        timeSum += weight * time[node]
+        costSum += weight * cost[node]
+    }
+
+    target.coagulantDose[offset] = doseSum
+    target.flocculationTime[offset] = timeSum
+    target.operationalCost[offset] = costSum
+}
+
+/**
+ * Evalúa un lote de entradas con la tabla. Devuelve una columna por salida
+ * (sin explicación, activaciones ni intervalos).
+ */
+export function evaluateCompiledBatch(
+    controller: CompiledController,
+    batch: WaterInputs[]
+): Record<SurfaceOutputId, Float64Array> {
+    const result = {
+        coagulantDose: new Float64Array(batch.length),
+        flocculationTime: new Float64Array(batch.length),
+        operationalCost: new Float64Array(batch.length)
+    }
+    const strides = new Int32Array(controller.axes.length)
+    const fraction = new Float64Array(controller.axes.length)
+    for (let i = 0; i < batch.length; i++) {
+        interpolateInto(controller, batch[i], strides, fraction, result, i)
+    }
+    return result
+}
+
+/**
+ * Evalúa un único punto con la tabla
+ */
+export function evaluateCompiled(controller: CompiledController, inputs: WaterInputs): CompiledOutputs {
+    const columns = evaluateCompiledBatch(controller, [inputs])
+    return {
+        coagulantDose: columns.coagulantDose[0],
+        flocculationTime: columns.flocculationTime[0],
+        operationalCost: columns.operationalCost[0]
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DESVIACIÓN Y RENDIMIENTO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Compara la tabla con la inferencia exacta en `sampleCount` puntos de
+ * Halton (que no coinciden con los nodos) y mide el tiempo de ambas.
+ */
+export function benchmarkCompiledController(controller: CompiledController, sampleCount = 2000): CompiledBenchmark {
+    const samples = sampleInputSpace(controller.system, sampleCount).map(sample => {
+        // Las entradas que no son ejes se evalúan con los mismos valores que al compilar
+        const inputs = { ...controller.base }
+        for (const axis of controller.axes) inputs[axis.id] = sample[axis.id]
+        return inputs
+    })
+
+    const exactStart = performance.now()
+    const exact = samples.map(inputs => runFuzzyInference(inputs, controller.system))
+    const exactMs = performance.now() - exactStart
+
+    const compiledStart = performance.now()
+    const compiled = evaluateCompiledBatch(controller, samples)
+    const compiledMs = performance.now() - compiledStart
+
+    const deviation = Object.fromEntries(SURFACE_OUTPUTS.map(output => {
+        let max = 0
+        let sum = 0
+        let worst = samples[0] ?? controller.base
+        exact.forEach((outputs, i) => {
+            const difference = Math.abs(compiled[output][i] - outputs[output])
+            sum += difference
+            if (difference > max) {
+                max = difference
+                worst = samples[i]
+            }
+        })
+        return [output, { max, mean: sum / Math.max(1, samples.length), worst }]
+    })) as Record<SurfaceOutputId, OutputDeviation>
+
+    return {
+        sampleCount: samples.length,
+        exactMs,
+        compiledMs,
+        // Con lotes pequeños la tabla puede tardar menos que la resolución del reloj
+        speedup: exactMs / Math.max(compiledMs, 0.001),
+        deviation
+    }
+}
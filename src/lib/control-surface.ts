@@ -0,0 +1,154 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - SUPERFICIE DE CONTROL
+ * Respuesta del controlador sobre una malla 2D de entradas
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Un controlador difuso con tres entradas define una superficie de control
+ * en cada salida. Para visualizarla se fijan dos entradas como ejes, se
+ * mantiene la tercera constante y se evalúa `runFuzzyInference` en cada
+ * punto de la malla.
+ *
+ * Además de la superficie se calculan sus derivadas parciales por
+ * diferencias finitas (centradas en el interior, laterales en los bordes):
+ *
+ *   ∂y/∂x ≈ (y[i+1] - y[i-1]) / (x[i+1] - x[i-1])
+ *
+ * Las derivadas grandes señalan zonas donde un pequeño error de sensor
+ * produce un cambio brusco de dosis; las celdas sin reglas activas señalan
+ * huecos de la base de reglas.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { runFuzzyInference, WaterInputs } from '@/lib/fuzzy-logic'
+import { FuzzySystemDefinition, InputVariableId } from '@/lib/fuzzy-system'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Salidas que pueden representarse como superficie */
+export type SurfaceOutputId = 'coagulantDose' | 'flocculationTime' | 'operationalCost'
+
+export const SURFACE_OUTPUTS: SurfaceOutputId[] = ['coagulantDose', 'flocculationTime', 'operationalCost']
+
+export interface ControlSurfaceOptions {
+    /** Entrada en el eje horizontal */
+    xAxis: InputVariableId
+    /** Entrada en el eje vertical */
+    yAxis: InputVariableId
+    /** Valores de todas las entradas; se usan los de las que no son ejes */
+    fixed: WaterInputs
+    /** Puntos por eje */
+    resolution?: number
+}
+
+export interface SurfaceCell {
+    x: number
+    y: number
+    outputs: Record<SurfaceOutputId, number>
+    /** false si ninguna regla se activa en este punto */
+    fired: boolean
+}
+
+export interface ControlSurface {
+    xAxis: InputVariableId
+    yAxis: InputVariableId
+    xValues: number[]
+    yValues: number[]
+    /** cells[j][i] corresponde a (xValues[i], yValues[j]) */
+    cells: SurfaceCell[][]
+    /** Mínimo y máximo de cada salida sobre la malla */
+    ranges: Record<SurfaceOutputId, { min: number; max: number }>
+    /** Celdas sin ninguna regla activa */
+    unfiredCount: number
+}
+
+/** Derivadas parciales de una salida en cada celda (mismo índice que `cells`) */
+export interface SurfaceGradient {
+    dx: number[][]
+    dy: number[][]
+}
+
+const DEFAULT_RESOLUTION = 21
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CÁLCULO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function linspace([min, max]: [number, number], count: number): number[] {
+    return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1))
+}
+
+/**
+ * Evalúa el controlador sobre la malla de dos entradas
+ *
+ * @example
+ * const surface = computeControlSurface(system, {
+ *     xAxis: 'turbidity', yAxis: 'ph',
+ *     fixed: { turbidity: 100, ph: 7, temperature: 20 }
+ * })
+ * surface.cells[0][0].outputs.coagulantDose
+ */
+export function computeControlSurface(system: FuzzySystemDefinition, options: ControlSurfaceOptions): ControlSurface {
+    const { xAxis, yAxis, fixed } = options
+    if (xAxis === yAxis) {
+        throw new Error('Los ejes de la superficie deben ser entradas distintas')
+    }
+    const resolution = Math.max(2, options.resolution ?? DEFAULT_RESOLUTION)
+    const rangeOf = (id: InputVariableId) => {
+        const variable = system.inputs.find(v => v.id === id)
+        if (!variable) throw new Error(`La entrada "${id}" no existe en el controlador`)
+        return variable.range
+    }
+
+    const xValues = linspace(rangeOf(xAxis), resolution)
+    const yValues = linspace(rangeOf(yAxis), resolution)
+    const ranges = {
+        coagulantDose: { min: Infinity, max: -Infinity },
+        flocculationTime: { min: Infinity, max: -Infinity },
+        operationalCost: { min: Infinity, max: -Infinity }
+    }
+    let unfiredCount = 0
+
+    const cells = yValues.map(y => xValues.map(x => {
+        const result = runFuzzyInference({ ...fixed, [xAxis]: x, [yAxis]: y }, system)
+        const outputs = {
+            coagulantDose: result.coagulantDose,
+            flocculationTime: result.flocculationTime,
+            operationalCost: result.operationalCost
+        }
+        for (const id of SURFACE_OUTPUTS) {
+            ranges[id].min = Math.min(ranges[id].min, outputs[id])
+            ranges[id].max = Math.max(ranges[id].max, outputs[id])
+        }
+        const fired = result.ruleActivations.some(r => r.firingStrength > 0)
+        if (!fired) unfiredCount++
+        return { x, y, outputs, fired }
+    }))
+
+    return { xAxis, yAxis, xValues, yValues, cells, ranges, unfiredCount }
+}
+
+/**
+ * Derivada por diferencias finitas de una serie muestreada
+ */
+function finiteDifference(values: number[], positions: number[], index: number): number {
+    const last = values.length - 1
+    const lo = Math.max(0, index - 1)
+    const hi = Math.min(last, index + 1)
+    return (values[hi] - values[lo]) / (positions[hi] - positions[lo])
+}
+
+/**
+ * Derivadas parciales ∂salida/∂x y ∂salida/∂y en cada celda de la superficie
+ */
+export function computeSurfaceGradient(surface: ControlSurface, output: SurfaceOutputId): SurfaceGradient {
+    const grid = surface.cells.map(row => row.map(cell => cell.outputs[output]))
+    const dx = grid.map(row => row.map((_, i) => finiteDifference(row, surface.xValues, i)))
+    const columns = surface.xValues.map((_, i) => grid.map(row => row[i]))
+    const dy = grid.map((row, j) => row.map((_, i) => finiteDifference(columns[i], surface.yValues, j)))
+    return { dx, dy }
+}
@@ -0,0 +1,199 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - COMPARACIÓN DE CONTROLADORES
+ * El mismo escenario con cada controlador sobre el modelo dinámico de la planta
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Cada controlador recorre el escenario en tiempo de proceso (a la misma
+ * escala que el simulador, `PLANT_MINUTES_PER_SECOND`) y la planta arranca
+ * en estado estacionario con su primera decisión. Tras el último keyframe se
+ * mantiene el agua final durante `tailMinutes` para que el efecto de las
+ * últimas decisiones llegue a la salida del decantador.
+ *
+ * Se acumulan, para el volumen tratado:
+ * - Coagulante consumido (kg) y dosis máxima.
+ * - Costo total ($) = costo operativo ($/m³) · caudal · tiempo.
+ * - Turbidez decantada media y máxima, turbidez filtrada media y fracción
+ *   del tiempo con la decantada por encima de la consigna.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { DEFAULT_WATER_INPUTS } from '@/lib/fuzzy-logic'
+import type { FuzzySystemDefinition } from '@/lib/fuzzy-system'
+import { getCoagulant } from '@/lib/coagulants'
+import { Scenario, interpolateKeyframes } from '@/lib/scenarios'
+import {
+    PlantState,
+    PLANT_MINUTES_PER_SECOND,
+    createPlantState,
+    plantFeed,
+    plantReadings,
+    stepPlant
+} from '@/lib/plant-model'
+import { ControllerId, CONTROLLERS, CONTROLLER_IDS, INITIAL_CONTROLLER_MEMORY, runController } from '@/lib/controllers'
+import { DEFAULT_SETTLED_SETPOINT } from '@/lib/feedback-control'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ControllerBenchmarkOptions {
+    /** Consigna de turbidez decantada (NTU) */
+    setpoint: number
+    /** Paso de simulación (min de proceso) */
+    stepMinutes: number
+    /** Tiempo con el agua final tras el escenario (min) */
+    tailMinutes: number
+}
+
+export const DEFAULT_BENCHMARK_OPTIONS: ControllerBenchmarkOptions = {
+    setpoint: DEFAULT_SETTLED_SETPOINT,
+    stepMinutes: 5,
+    tailMinutes: 120
+}
+
+export interface ControllerRunPoint {
+    /** Tiempo de proceso (min) */
+    time: number
+    rawTurbidity: number
+    settledTurbidity: number
+    dose: number
+}
+
+export interface ControllerRunResult {
+    controllerId: ControllerId
+    /** Coagulante consumido (kg de producto) */
+    coagulantKg: number
+    /** Dosis máxima (mg/L) */
+    peakDose: number
+    /** Costo total ($) */
+    totalCost: number
+    /** Volumen tratado (m³) */
+    volume: number
+    meanSettled: number
+    maxSettled: number
+    meanFiltered: number
+    /** Fracción del tiempo con la turbidez decantada por encima de la consigna (0-1) */
+    timeAboveSetpoint: number
+    series: ControllerRunPoint[]
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SIMULACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Recorre el escenario con un controlador
+ */
+export function simulateControllerRun(
+    scenario: Scenario,
+    controllerId: ControllerId,
+    system: FuzzySystemDefinition,
+    options: ControllerBenchmarkOptions = DEFAULT_BENCHMARK_OPTIONS
+): ControllerRunResult {
+    const controller = CONTROLLERS[controllerId]
+    const coagulant = getCoagulant(system)
+    const { setpoint, stepMinutes, tailMinutes } = options
+    const scenarioMinutes = scenario.duration / 1000 * PLANT_MINUTES_PER_SECOND
+    const totalMinutes = scenarioMinutes + tailMinutes
+
+    let plant: PlantState | null = null
+    let memory = INITIAL_CONTROLLER_MEMORY
+    let coagulantKg = 0
+    let peakDose = 0
+    let totalCost = 0
+    let volume = 0
+    let settledSum = 0
+    let filteredSum = 0
+    let maxSettled = 0
+    let aboveMinutes = 0
+    const series: ControllerRunPoint[] = []
+
+    for (let time = 0; time < totalMinutes; time += stepMinutes) {
+        const minutes = Math.min(stepMinutes, totalMinutes - time)
+        const scenarioTime = Math.min(scenario.duration, time / PLANT_MINUTES_PER_SECOND * 1000)
+        const inputs = { ...DEFAULT_WATER_INPUTS, ...interpolateKeyframes(scenario.keyframes, scenarioTime) }
+
+        const decision = runController(controller, inputs, {
+            system,
+            settledTurbidity: plant ? plantReadings(plant).sedimentation : null,
+            setpoint,
+            time,
+            memory
+        })
+        memory = decision.memory
+        const { outputs } = decision
+
+        const feed = plantFeed(inputs, outputs, coagulant)
+        plant = stepPlant(plant ?? createPlantState(feed), feed, minutes)
+        const readings = plantReadings(plant)
+
+        // Volumen del paso (m³); mg/L = g/m³
+        const stepVolume = inputs.flowRate * minutes / 60
+        volume += stepVolume
+        coagulantKg += outputs.coagulantDose * stepVolume / 1000
+        totalCost += outputs.operationalCost * stepVolume
+        peakDose = Math.max(peakDose, outputs.coagulantDose)
+
+        settledSum += readings.sedimentation * minutes
+        filteredSum += readings.filter * minutes
+        maxSettled = Math.max(maxSettled, readings.sedimentation)
+        if (readings.sedimentation > setpoint) aboveMinutes += minutes
+
+        series.push({
+            time: plant.time,
+            rawTurbidity: inputs.turbidity,
+            settledTurbidity: readings.sedimentation,
+            dose: outputs.coagulantDose
+        })
+    }
+
+    return {
+        controllerId,
+        coagulantKg,
+        peakDose,
+        totalCost,
+        volume,
+        meanSettled: settledSum / Math.max(totalMinutes, 1e-9),
+        maxSettled,
+        meanFiltered: filteredSum / Math.max(totalMinutes, 1e-9),
+        timeAboveSetpoint: aboveMinutes / Math.max(totalMinutes, 1e-9),
+        series
+    }
+}
+
+/**
+ * Recorre el escenario con cada controlador, uno por `next()`; el valor
+ * final del generador son todos los resultados
+ */
+export function* benchmarkControllersIncrementally(
+    scenario: Scenario,
+    system: FuzzySystemDefinition,
+    options: ControllerBenchmarkOptions = DEFAULT_BENCHMARK_OPTIONS,
+    controllerIds: ControllerId[] = CONTROLLER_IDS
+): Generator<ControllerRunResult, ControllerRunResult[], void> {
+    const results: ControllerRunResult[] = []
+    for (const id of controllerIds) {
+        const result = simulateControllerRun(scenario, id, system, options)
+        results.push(result)
+        if (results.length < controllerIds.length) yield result
+    }
+    return results
+}
+
+/**
+ * Compara todos los controladores de una vez
+ */
+export function benchmarkControllers(
+    scenario: Scenario,
+    system: FuzzySystemDefinition,
+    options: ControllerBenchmarkOptions = DEFAULT_BENCHMARK_OPTIONS
+): ControllerRunResult[] {
+    const runner = benchmarkControllersIncrementally(scenario, system, options)
+    for (;;) {
+        const step = runner.next()
+        if (step.done) return step.value
+    }
+}
@@ -0,0 +1,296 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - CONTROLADORES DE DOSIFICACIÓN
+ * Interfaz común del controlador difuso y de los controladores de referencia
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Para responder si el controlador difuso es mejor que lo que había antes,
+ * todos los controladores deciden dosis y tiempo de floculación con la misma
+ * interfaz (`WaterController`) y el simulador puede usar cualquiera:
+ *
+ * - DIFUSO: la base de reglas del sistema (`runFuzzyInference`).
+ * - PID: realimentación de la turbidez decantada, sin mirar el agua cruda.
+ * - TABLA DE DOSIS: dosis fija por tramos de turbidez, como la tabla que
+ *   usan los operadores.
+ * - JAR-TEST: resultado del ensayo de jarras registrado más parecido al
+ *   agua actual (turbidez, color y temperatura).
+ *
+ * Las dosis de los controladores de referencia están en equivalente de
+ * sulfato de aluminio y se escalan al rango del coagulante seleccionado.
+ * La corrección de pH y el costo de proceso se toman de la inferencia
+ * difusa del agua actual para todos: así las diferencias de costo se deben
+ * solo a la dosis de coagulante.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { runFuzzyInference, FuzzyOutputs, WaterInputs } from '@/lib/fuzzy-logic'
+import type { FuzzySystemDefinition } from '@/lib/fuzzy-system'
+import { coagulantCost, getCoagulant } from '@/lib/coagulants'
+import { planPhCorrection } from '@/lib/ph-correction'
+import type { LocalizedText } from '@/lib/i18n'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type ControllerId = 'fuzzy' | 'pid' | 'doseTable' | 'jarTest'
+
+export const CONTROLLER_IDS: ControllerId[] = ['fuzzy', 'pid', 'doseTable', 'jarTest']
+
+/**
+ * Memoria de un controlador entre decisiones (solo la usa el PID)
+ */
+export interface ControllerMemory {
+    /** Integral del error (NTU·min) */
+    integral: number
+    /** Error de la decisión anterior (NTU) */
+    lastError: number | null
+    /** Tiempo de proceso de la decisión anterior (min) */
+    lastTime: number | null
+}
+
+export const INITIAL_CONTROLLER_MEMORY: ControllerMemory = { integral: 0, lastError: null, lastTime: null }
+
+/**
+ * Información que recibe un controlador en cada decisión
+ */
+export interface ControllerContext {
+    system: FuzzySystemDefinition
+    /** Inferencia difusa del agua actual (riesgo, pH y costo de proceso) */
+    reference: FuzzyOutputs
+    /** Turbidez decantada medida (NTU); null si la planta no ha arrancado */
+    settledTurbidity: number | null
+    /** Consigna de turbidez decantada (NTU) */
+    setpoint: number
+    /** Tiempo de proceso (min) */
+    time: number
+    memory: ControllerMemory
+}
+
+export interface ControllerDecision {
+    /** Dosis de coagulante (mg/L de producto) */
+    coagulantDose: number
+    /** Tiempo de floculación (min) */
+    flocculationTime: number
+    memory: ControllerMemory
+}
+
+export interface WaterController {
+    id: ControllerId
+    name: LocalizedText
+    description: LocalizedText
+    /** Necesita la turbidez decantada: hay que volver a decidir al avanzar la planta */
+    usesFeedback: boolean
+    decide: (inputs: WaterInputs, context: ControllerContext) => ControllerDecision
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PARÁMETROS DE LOS CONTROLADORES DE REFERENCIA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Dosis de sulfato de aluminio equivalente → fracción del rango del producto */
+const ALUM_DOSE_RANGE = 100
+
+/** PID: dosis base en equivalente de sulfato de aluminio (mg/L) */
+const PID_BIAS = 25
+/** PID: ganancia proporcional (mg/L por NTU de error) */
+const PID_KP = 3
+/** PID: tiempo integral (min) */
+const PID_TI = 90
+/** PID: tiempo derivativo (min) */
+const PID_TD = 10
+/** PID: tiempo de floculación fijo (min) */
+const PID_FLOCCULATION_TIME = 20
+
+/**
+ * Tabla de operación: dosis y tiempo por tramos de turbidez (hasta `maxTurbidity`)
+ */
+const DOSE_TABLE: Array<{ maxTurbidity: number; dose: number; flocculationTime: number }> = [
+    { maxTurbidity: 10, dose: 12, flocculationTime: 15 },
+    { maxTurbidity: 25, dose: 18, flocculationTime: 18 },
+    { maxTurbidity: 50, dose: 24, flocculationTime: 20 },
+    { maxTurbidity: 100, dose: 32, flocculationTime: 22 },
+    { maxTurbidity: 250, dose: 48, flocculationTime: 25 },
+    { maxTurbidity: 500, dose: 65, flocculationTime: 28 },
+    { maxTurbidity: Infinity, dose: 80, flocculationTime: 30 }
+]
+
+/**
+ * Ensayos de jarras registrados: agua ensayada y dosis y tiempo óptimos
+ */
+const JAR_TESTS: Array<{
+    turbidity: number
+    color: number
+    temperature: number
+    dose: number
+    flocculationTime: number
+}> = [
+    { turbidity: 5, color: 10, temperature: 20, dose: 10, flocculationTime: 15 },
+    { turbidity: 10, color: 5, temperature: 6, dose: 14, flocculationTime: 25 },
+    { turbidity: 20, color: 15, temperature: 20, dose: 16, flocculationTime: 18 },
+    { turbidity: 30, color: 80, temperature: 15, dose: 38, flocculationTime: 22 },
+    { turbidity: 50, color: 20, temperature: 22, dose: 24, flocculationTime: 20 },
+    { turbidity: 50, color: 20, temperature: 8, dose: 28, flocculationTime: 28 },
+    { turbidity: 100, color: 25, temperature: 20, dose: 32, flocculationTime: 22 },
+    { turbidity: 200, color: 60, temperature: 10, dose: 56, flocculationTime: 30 },
+    { turbidity: 250, color: 30, temperature: 18, dose: 50, flocculationTime: 25 },
+    { turbidity: 500, color: 40, temperature: 16, dose: 68, flocculationTime: 28 },
+    { turbidity: 800, color: 50, temperature: 15, dose: 88, flocculationTime: 30 }
+]
+
+/** Escala de cada característica para comparar aguas en el ensayo de jarras */
+const JAR_TEST_SCALES = { logTurbidity: 0.3, color: 30, temperature: 8 }
+
+function scaleAlumDose(dose: number, system: FuzzySystemDefinition): number {
+    const [min, max] = getCoagulant(system).doseVariable.range
+    return Math.max(min, Math.min(max, dose * max / ALUM_DOSE_RANGE))
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONTROLADORES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const FUZZY_CONTROLLER: WaterController = {
+    id: 'fuzzy',
+    name: { es: 'Difuso', en: 'Fuzzy' },
+    description: {
+        es: 'Base de reglas del controlador activo',
+        en: 'Rule base of the active controller'
+    },
+    usesFeedback: false,
+    decide: (_inputs, { reference, memory }) => ({
+        coagulantDose: reference.coagulantDose,
+        flocculationTime: reference.flocculationTime,
+        memory
+    })
+}
+
+const PID_CONTROLLER: WaterController = {
+    id: 'pid',
+    name: { es: 'PID', en: 'PID' },
+    description: {
+        es: 'Realimentación de la turbidez decantada respecto a la consigna',
+        en: 'Feedback on settled turbidity versus the setpoint'
+    },
+    usesFeedback: true,
+    decide: (_inputs, { system, settledTurbidity, setpoint, time, memory }) => {
+        const [minDose, maxDose] = getCoagulant(system).doseVariable.range
+        const scale = maxDose / ALUM_DOSE_RANGE
+        if (settledTurbidity === null) {
+            return { coagulantDose: scaleAlumDose(PID_BIAS, system), flocculationTime: PID_FLOCCULATION_TIME, memory }
+        }
+
+        const error = settledTurbidity - setpoint
+        const dt = memory.lastTime !== null ? Math.max(0, time - memory.lastTime) : 0
+        const derivative = memory.lastError !== null && dt > 0 ? (error - memory.lastError) / dt : 0
+        const integral = memory.integral + error * dt
+
+        const raw = (PID_BIAS + PID_KP * (error + integral / PID_TI + PID_TD * derivative)) * scale
+        const coagulantDose = Math.max(minDose, Math.min(maxDose, raw))
+
+        // Sin "windup": si la dosis está saturada la integral no sigue creciendo
+        const saturated = raw !== coagulantDose && Math.sign(raw - coagulantDose) === Math.sign(error)
+        return {
+            coagulantDose,
+            flocculationTime: PID_FLOCCULATION_TIME,
+            memory: { integral: saturated ? memory.integral : integral, lastError: error, lastTime: time }
+        }
+    }
+}
+
+const DOSE_TABLE_CONTROLLER: WaterController = {
+    id: 'doseTable',
+    name: { es: 'Tabla de dosis', en: 'Dose table' },
+    description: {
+        es: 'Dosis fija por tramos de turbidez del agua cruda',
+        en: 'Fixed dose per raw turbidity band'
+    },
+    usesFeedback: false,
+    decide: (inputs, { system, memory }) => {
+        const row = DOSE_TABLE.find(entry => inputs.turbidity <= entry.maxTurbidity) ?? DOSE_TABLE[DOSE_TABLE.length - 1]
+        return { coagulantDose: scaleAlumDose(row.dose, system), flocculationTime: row.flocculationTime, memory }
+    }
+}
+
+const JAR_TEST_CONTROLLER: WaterController = {
+    id: 'jarTest',
+    name: { es: 'Jar-test', en: 'Jar test' },
+    description: {
+        es: 'Ensayo de jarras registrado más parecido al agua actual',
+        en: 'Recorded jar test closest to the current water'
+    },
+    usesFeedback: false,
+    decide: (inputs, { system, memory }) => {
+        const distance = (test: typeof JAR_TESTS[number]) => Math.hypot(
+            (Math.log10(Math.max(1, inputs.turbidity)) - Math.log10(test.turbidity)) / JAR_TEST_SCALES.logTurbidity,
+            (inputs.color - test.color) / JAR_TEST_SCALES.color,
+            (inputs.temperature - test.temperature) / JAR_TEST_SCALES.temperature
+        )
+        const nearest = JAR_TESTS.reduce((best, test) => distance(test) < distance(best) ? test : best)
+        return { coagulantDose: scaleAlumDose(nearest.dose, system), flocculationTime: nearest.flocculationTime, memory }
+    }
+}
+
+export const CONTROLLERS: Record<ControllerId, WaterController> = {
+    fuzzy: FUZZY_CONTROLLER,
+    pid: PID_CONTROLLER,
+    doseTable: DOSE_TABLE_CONTROLLER,
+    jarTest: JAR_TEST_CONTROLLER
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// RESULTADO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resultado completo con la decisión de un controlador: recalcula el uso de
+ * coagulante, la corrección de pH y el costo con su dosis. Riesgo, calidad y
+ * explicación siguen siendo los de la inferencia difusa.
+ */
+export function controllerOutputs(
+    reference: FuzzyOutputs,
+    decision: Pick<ControllerDecision, 'coagulantDose' | 'flocculationTime'>,
+    inputs: WaterInputs,
+    system: FuzzySystemDefinition
+): FuzzyOutputs {
+    const coagulantDose = Math.round(decision.coagulantDose * 10) / 10
+    const flocculationTime = Math.round(decision.flocculationTime)
+    if (coagulantDose === reference.coagulantDose && flocculationTime === reference.flocculationTime) return reference
+
+    const coagulant = getCoagulant(system)
+    const processCost = reference.operationalCost - reference.coagulant.chemicalCost - reference.phCorrectionPlan.cost
+    const chemicalCost = coagulantCost(coagulant, coagulantDose)
+    const alkalinityConsumed = coagulantDose * coagulant.alkalinityConsumption
+    const phCorrectionPlan = planPhCorrection(inputs, alkalinityConsumed, reference.phCorrection !== 'none', coagulant.phWindow)
+
+    return {
+        ...reference,
+        coagulantDose,
+        flocculationTime,
+        phCorrectionAmount: phCorrectionPlan.dose,
+        phCorrectionPlan,
+        operationalCost: Math.round((processCost + chemicalCost + phCorrectionPlan.cost) * 1000) / 1000,
+        coagulant: {
+            ...reference.coagulant,
+            alkalinityConsumed: Math.round(alkalinityConsumed * 10) / 10,
+            residualAlkalinity: Math.round(Math.max(0, inputs.alkalinity - alkalinityConsumed) * 10) / 10,
+            chemicalCost: Math.round(chemicalCost * 10000) / 10000
+        }
+    }
+}
+
+/**
+ * Decide con un controlador: inferencia difusa de referencia, decisión y
+ * resultado completo
+ */
+export function runController(
+    controller: WaterController,
+    inputs: WaterInputs,
+    context: Omit<ControllerContext, 'reference'>
+): { outputs: FuzzyOutputs; memory: ControllerMemory } {
+    const reference = runFuzzyInference(inputs, context.system)
+    const decision = controller.decide(inputs, { ...context, reference })
+    return { outputs: controllerOutputs(reference, decision, inputs, context.system), memory: decision.memory }
+}
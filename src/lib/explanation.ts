@@ -0,0 +1,389 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - EXPLICACIÓN DE LA DECISIÓN
+ * Explicación estructurada del controlador y sus textos en español e inglés
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * El motor no genera frases: devuelve un objeto `DecisionExplanation` con
+ * los datos que justifican la decisión (valoración de las entradas, reglas
+ * dominantes, términos que las activan, decisión numérica y motivos del
+ * nivel de riesgo). Los renderizadores de este módulo lo convierten en
+ * texto para cada idioma; los informes y la interfaz pueden usar el objeto
+ * directamente con su propio formato.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { RiskLevel, RuleActivation, WaterInputs } from '@/lib/fuzzy-logic'
+import {
+    AntecedentExpression,
+    CoagulantId,
+    Hedge,
+    InputVariableId
+} from '@/lib/fuzzy-system'
+import { COAGULANT_CATALOG } from '@/lib/coagulants'
+import { PH_REAGENTS, PhCorrectionPlan, PhReagentId } from '@/lib/ph-correction'
+import { DEFAULT_LOCALE, Locale, termLabel } from '@/lib/i18n'
+import { formatNumber } from '@/lib/utils'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ESTRUCTURA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type TurbidityAssessment = 'low' | 'moderate' | 'high' | 'extreme'
+export type PhAssessment = 'acidic' | 'optimal' | 'alkaline'
+
+/** Número máximo de reglas dominantes que recoge la explicación */
+const MAX_DOMINANT_RULES = 3
+
+/**
+ * Regla que interviene en la explicación
+ */
+export interface ExplainedRule {
+    id: number
+    name: string
+    /** Activación efectiva (con peso) */
+    firingStrength: number
+    /** Activación del antecedente sin peso */
+    rawFiringStrength: number
+    weight: number
+}
+
+/**
+ * Condición de una regla dominante con su grado de membresía actual
+ */
+export interface ContributingTerm {
+    variable: InputVariableId
+    term: string
+    degree: number
+    hedges?: Hedge[]
+    negated?: boolean
+}
+
+/**
+ * Motivo de un nivel de riesgo distinto de óptimo
+ */
+export interface RiskReason {
+    variable: 'turbidity' | 'ph'
+    level: Exclude<RiskLevel, 'optimal'>
+    value: number
+    /** Límite superado */
+    limit: number
+    direction: 'above' | 'below'
+}
+
+export interface DecisionExplanation {
+    /** Valoración cualitativa de las entradas principales */
+    assessment: {
+        turbidity: { value: number; level: TurbidityAssessment }
+        ph: { value: number; level: PhAssessment }
+    }
+    /** Reglas con mayor activación efectiva (la primera es la principal) */
+    dominantRules: ExplainedRule[]
+    /** Regla que habría dominado sin su peso (si la hay) */
+    outweighedRule: ExplainedRule | null
+    /** Condiciones de las reglas dominantes y su grado de membresía */
+    contributingTerms: ContributingTerm[]
+    /** Decisión numérica */
+    decision: {
+        dose: number
+        time: number
+        coagulant: CoagulantId
+        phCorrection: { direction: 'raise' | 'lower'; reagent: PhReagentId; dose: number; expectedPh: number } | null
+    }
+    risk: { level: RiskLevel; reasons: RiskReason[] }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTRUCCIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function assessTurbidity(turbidity: number): TurbidityAssessment {
+    if (turbidity < 20) return 'low'
+    if (turbidity < 150) return 'moderate'
+    if (turbidity < 400) return 'high'
+    return 'extreme'
+}
+
+function assessPh(ph: number): PhAssessment {
+    if (ph < 6) return 'acidic'
+    if (ph > 8.5) return 'alkaline'
+    return 'optimal'
+}
+
+function explainedRule(activation: RuleActivation): ExplainedRule {
+    const { id, name, firingStrength, rawFiringStrength, weight } = activation
+    return { id, name, firingStrength, rawFiringStrength, weight }
+}
+
+type Clause = Extract<AntecedentExpression, { op: 'is' }>
+
+/**
+ * Condiciones simples de un antecedente (las hojas de la expresión)
+ */
+function antecedentClauses(expression: AntecedentExpression): Clause[] {
+    switch (expression.op) {
+        case 'is':
+            return [expression]
+        case 'not':
+            return antecedentClauses(expression.operand)
+        default:
+            return expression.operands.flatMap(antecedentClauses)
+    }
+}
+
+/**
+ * Construye la explicación de una decisión del controlador
+ *
+ * @param activations - Activaciones ordenadas de mayor a menor
+ * @param inputMemberships - Grados de membresía de las entradas (variable -> término -> grado)
+ */
+export function buildExplanation(
+    inputs: WaterInputs,
+    dose: number,
+    time: number,
+    risk: DecisionExplanation['risk'],
+    activations: RuleActivation[],
+    coagulant: CoagulantId,
+    phPlan: PhCorrectionPlan,
+    inputMemberships: Map<string, Map<string, number>>
+): DecisionExplanation {
+    const dominant = activations.filter(r => r.firingStrength > 0).slice(0, MAX_DOMINANT_RULES)
+    const topRule = activations[0]
+
+    // Reglas que habrían dominado sin su peso
+    const outweighed = topRule
+        ? activations.filter(r => r !== topRule && r.weight < 1 && r.rawFiringStrength > topRule.firingStrength)
+        : []
+
+    // Condiciones de las reglas dominantes, sin repetir
+    const contributingTerms: ContributingTerm[] = []
+    for (const rule of dominant) {
+        const expression: AntecedentExpression = rule.antecedent ?? {
+            op: 'and',
+            operands: Object.entries(rule.conditions).map(([variable, term]) => ({
+                op: 'is' as const,
+                variable: variable as InputVariableId,
+                term
+            }))
+        }
+        for (const clause of antecedentClauses(expression)) {
+            const seen = contributingTerms.some(t => t.variable === clause.variable && t.term === clause.term &&
+                (t.negated ?? false) === (clause.negated ?? false) && (t.hedges ?? []).join() === (clause.hedges ?? []).join())
+            if (seen) continue
+            contributingTerms.push({
+                variable: clause.variable,
+                term: clause.term,
+                degree: inputMemberships.get(clause.variable)?.get(clause.term) ?? 0,
+                ...(clause.hedges?.length && { hedges: clause.hedges }),
+                ...(clause.negated && { negated: true })
+            })
+        }
+    }
+
+    return {
+        assessment: {
+            turbidity: { value: inputs.turbidity, level: assessTurbidity(inputs.turbidity) },
+            ph: { value: inputs.ph, level: assessPh(inputs.ph) }
+        },
+        dominantRules: dominant.map(explainedRule),
+        outweighedRule: outweighed.length > 0
+            ? explainedRule(outweighed.reduce((best, r) => r.rawFiringStrength > best.rawFiringStrength ? r : best))
+            : null,
+        contributingTerms,
+        decision: {
+            dose,
+            time,
+            coagulant,
+            phCorrection: phPlan.reagent && phPlan.direction !== 'none'
+                ? { direction: phPlan.direction, reagent: phPlan.reagent, dose: phPlan.dose, expectedPh: phPlan.expected.ph }
+                : null
+        },
+        risk
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TEXTOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Explicación en texto, una frase por apartado (null si no aplica)
+ */
+export interface RenderedExplanation {
+    assessment: string
+    decision: string
+    phCorrection: string | null
+    rules: string | null
+    outweighed: string | null
+    terms: string | null
+    risk: string | null
+}
+
+interface ExplanationStrings {
+    turbidity: Record<TurbidityAssessment, string>
+    ph: Record<PhAssessment, string>
+    decision: (dose: string, coagulant: string, time: number) => string
+    phCorrection: (direction: 'raise' | 'lower', dose: string, reagent: string, expectedPh: string) => string
+    rules: (names: string) => string
+    rule: (name: string, strength: string, weight: string | null) => string
+    outweighed: (name: string, raw: string, weight: string, effective: string) => string
+    terms: (terms: string) => string
+    term: (variable: string, term: string, degree: string, negated: boolean, hedges: string[]) => string
+    risk: Record<Exclude<RiskLevel, 'optimal'>, string>
+    reason: (variable: string, direction: 'above' | 'below', value: string, limit: string) => string
+    variables: Record<InputVariableId, string>
+    hedges: Record<Hedge, string>
+    list: (items: string[]) => string
+}
+
+const ES: ExplanationStrings = {
+    turbidity: {
+        low: 'El agua presenta baja turbidez',
+        moderate: 'La turbidez del agua está en niveles moderados',
+        high: 'Se detecta alta turbidez en el agua',
+        extreme: '⚠️ ALERTA: Turbidez extremadamente alta detectada'
+    },
+    ph: {
+        acidic: 'y el pH es ácido, requiriendo neutralización.',
+        optimal: 'con pH en rango óptimo para coagulación.',
+        alkaline: 'y el pH es alcalino, afectando la eficiencia del coagulante.'
+    },
+    decision: (dose, coagulant, time) =>
+        `Se recomienda dosificar ${dose} mg/L de ${coagulant.toLowerCase()} con ${time} minutos de floculación.`,
+    phCorrection: (direction, dose, reagent, expectedPh) =>
+        `Para ${direction === 'raise' ? 'subir' : 'bajar'} el pH, añadir ${dose} mg/L de ${reagent.toLowerCase()} (pH esperado ${expectedPh}).`,
+    rules: names => `Regla principal: ${names}.`,
+    rule: (name, strength, weight) => `"${name}" (activación: ${strength}%${weight ? `, peso ${weight}` : ''})`,
+    outweighed: (name, raw, weight, effective) =>
+        `"${name}" se activa al ${raw}%, pero su peso ${weight} la deja en ${effective}%.`,
+    terms: terms => `Condiciones que la activan: ${terms}.`,
+    term: (variable, term, degree, negated, hedges) =>
+        `${variable} ${negated ? 'no es' : 'es'} ${[...hedges, term].join(' ')} (μ = ${degree})`,
+    risk: {
+        caution: 'Precaución',
+        critical: 'Estado crítico'
+    },
+    reason: (variable, direction, value, limit) =>
+        `${variable} ${value} ${direction === 'above' ? 'por encima de' : 'por debajo de'} ${limit}`,
+    variables: {
+        turbidity: 'turbidez',
+        ph: 'pH',
+        temperature: 'temperatura',
+        alkalinity: 'alcalinidad',
+        conductivity: 'conductividad',
+        color: 'color',
+        flowRate: 'caudal'
+    },
+    hedges: { very: 'muy', somewhat: 'algo', extremely: 'extremadamente' },
+    list: items => items.length > 1 ? `${items.slice(0, -1).join(', ')} y ${items[items.length - 1]}` : items.join('')
+}
+
+const EN: ExplanationStrings = {
+    turbidity: {
+        low: 'The water has low turbidity',
+        moderate: 'Water turbidity is at moderate levels',
+        high: 'High turbidity detected in the water',
+        extreme: '⚠️ ALERT: Extremely high turbidity detected'
+    },
+    ph: {
+        acidic: 'and the pH is acidic, requiring neutralization.',
+        optimal: 'with pH in the optimal range for coagulation.',
+        alkaline: 'and the pH is alkaline, reducing coagulant efficiency.'
+    },
+    decision: (dose, coagulant, time) =>
+        `Recommended dose: ${dose} mg/L of ${coagulant.toLowerCase()} with ${time} minutes of flocculation.`,
+    phCorrection: (direction, dose, reagent, expectedPh) =>
+        `To ${direction === 'raise' ? 'raise' : 'lower'} the pH, add ${dose} mg/L of ${reagent.toLowerCase()} (expected pH ${expectedPh}).`,
+    rules: names => `Main rule: ${names}.`,
+    rule: (name, strength, weight) => `"${name}" (firing: ${strength}%${weight ? `, weight ${weight}` : ''})`,
+    outweighed: (name, raw, weight, effective) =>
+        `"${name}" fires at ${raw}%, but its weight ${weight} reduces it to ${effective}%.`,
+    terms: terms => `Conditions behind it: ${terms}.`,
+    term: (variable, term, degree, negated, hedges) =>
+        `${variable} is ${negated ? 'not ' : ''}${[...hedges, term].join(' ')} (μ = ${degree})`,
+    risk: {
+        caution: 'Caution',
+        critical: 'Critical state'
+    },
+    reason: (variable, direction, value, limit) =>
+        `${variable} ${value} ${direction} ${limit}`,
+    variables: {
+        turbidity: 'turbidity',
+        ph: 'pH',
+        temperature: 'temperature',
+        alkalinity: 'alkalinity',
+        conductivity: 'conductivity',
+        color: 'color',
+        flowRate: 'flow rate'
+    },
+    hedges: { very: 'very', somewhat: 'somewhat', extremely: 'extremely' },
+    list: items => items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('')
+}
+
+const STRINGS: Record<Locale, ExplanationStrings> = { es: ES, en: EN }
+
+/**
+ * Textos de la explicación en el idioma indicado
+ */
+export function renderExplanation(explanation: DecisionExplanation, locale: Locale = DEFAULT_LOCALE): RenderedExplanation {
+    const t = STRINGS[locale]
+    const format = (value: number, decimals: number) => formatNumber(value, decimals, locale)
+    const percent = (value: number) => format(value * 100, 0)
+    const { assessment, decision, risk } = explanation
+    const [topRule] = explanation.dominantRules
+    const outweighed = explanation.outweighedRule
+
+    return {
+        assessment: `${t.turbidity[assessment.turbidity.level]} ${t.ph[assessment.ph.level]}`,
+        decision: t.decision(format(decision.dose, 1), COAGULANT_CATALOG[decision.coagulant].name[locale], Math.round(decision.time)),
+        phCorrection: decision.phCorrection
+            ? t.phCorrection(
+                decision.phCorrection.direction,
+                format(decision.phCorrection.dose, 1),
+                PH_REAGENTS[decision.phCorrection.reagent].name[locale],
+                format(decision.phCorrection.expectedPh, 1)
+            )
+            : null,
+        rules: topRule
+            ? t.rules(t.rule(topRule.name, percent(topRule.firingStrength), topRule.weight < 1 ? format(topRule.weight, 2) : null))
+            : null,
+        outweighed: outweighed
+            ? t.outweighed(outweighed.name, percent(outweighed.rawFiringStrength), format(outweighed.weight, 2), percent(outweighed.firingStrength))
+            : null,
+        terms: explanation.contributingTerms.length > 0
+            ? t.terms(t.list(explanation.contributingTerms.map(term => t.term(
+                t.variables[term.variable],
+                termLabel(term.term, locale),
+                format(term.degree, 2),
+                term.negated ?? false,
+                (term.hedges ?? []).map(hedge => t.hedges[hedge])
+            ))))
+            : null,
+        risk: risk.level !== 'optimal'
+            ? `${t.risk[risk.level]}: ${t.list(risk.reasons.map(reason =>
+                t.reason(
+                    t.variables[reason.variable],
+                    reason.direction,
+                    format(reason.value, reason.variable === 'ph' ? 1 : 0),
+                    format(reason.limit, reason.variable === 'ph' ? 1 : 0)
+                )))}.`
+            : null
+    }
+}
+
+/**
+ * Explicación completa como un único párrafo
+ */
+export function explanationToText(explanation: DecisionExplanation, locale: Locale = DEFAULT_LOCALE): string {
+    const rendered = renderExplanation(explanation, locale)
+    return [
+        rendered.assessment,
+        rendered.decision,
+        rendered.phCorrection,
+        rendered.rules,
+        rendered.outweighed,
+        rendered.risk
+    ].filter((sentence): sentence is string => sentence !== null).join(' ')
+}
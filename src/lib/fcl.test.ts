@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { FclParseError, parseFcl, parseFclAntecedent, serializeFcl } from '@/lib/fcl'
+import { applyCoagulant } from '@/lib/coagulants'
+import { DEFAULT_FUZZY_SYSTEM, FuzzySystemDefinition } from '@/lib/fuzzy-system'
+
+// FCL siempre escribe la forma; la definición por defecto la omite en los trapecios
+function withExplicitShapes(system: FuzzySystemDefinition): FuzzySystemDefinition {
+    const explicit = (variables: FuzzySystemDefinition['inputs']) => variables.map(variable => ({
+        ...variable,
+        terms: variable.terms.map(term => term.shape === undefined ? { ...term, shape: 'trapezoidal' as const } : term)
+    }))
+    return { ...system, inputs: explicit(system.inputs), outputs: explicit(system.outputs) }
+}
+
+function errorOf(action: () => unknown): unknown {
+    try {
+        action()
+    } catch (error) {
+        return error
+    }
+    throw new Error('no se lanzó ningún error')
+}
+
+describe('serializeFcl / parseFcl', () => {
+    it('recupera el controlador por defecto tras exportarlo e importarlo', () => {
+        const parsed = parseFcl(serializeFcl(DEFAULT_FUZZY_SYSTEM), DEFAULT_FUZZY_SYSTEM)
+        expect(parsed).toEqual(withExplicitShapes(DEFAULT_FUZZY_SYSTEM))
+    })
+
+    it('conserva coagulante, costos, etiquetas y marcas de regla al importar sobre otra base', () => {
+        const ferric = applyCoagulant(DEFAULT_FUZZY_SYSTEM, 'ferric_chloride')
+        const exported: FuzzySystemDefinition = {
+            ...ferric,
+            costs: { ...ferric.costs, fallback: 0.2 },
+            rules: ferric.rules.map(rule => {
+                if (rule.id === 1) return { ...rule, baseCost: 0.18, conditions: { turbidity: 'baja', ph: 'neutro' } }
+                if (rule.id === 3) return { ...rule, enabled: false, weight: 0.5 }
+                return rule
+            })
+        }
+
+        const parsed = parseFcl(serializeFcl(exported), DEFAULT_FUZZY_SYSTEM)
+        const dose = parsed.outputs.find(v => v.id === 'dose')
+
+        expect(parsed.coagulant).toBe('ferric_chloride')
+        expect(parsed.costs.fallback).toBe(0.2)
+        expect(dose?.label).toBe('Dosis de Cloruro Férrico')
+        expect(dose?.range).toEqual([0, 80])
+        expect(parsed.rules.find(rule => rule.id === 1)?.baseCost).toBe(0.18)
+        expect(parsed.rules.find(rule => rule.id === 3)).toMatchObject({ enabled: false, weight: 0.5 })
+    })
+
+    it('toma de la base lo que el archivo no indica', () => {
+        const source = serializeFcl(DEFAULT_FUZZY_SYSTEM)
+            .split('\n')
+            .filter(line => !line.includes('{system'))
+            .join('\n')
+        const base = { ...applyCoagulant(DEFAULT_FUZZY_SYSTEM, 'pacl'), costs: { fallback: 0.3 } }
+
+        const parsed = parseFcl(source, base)
+
+        expect(parsed.coagulant).toBe('pacl')
+        expect(parsed.costs.fallback).toBe(0.3)
+    })
+})
+
+describe('errores de FCL', () => {
+    it('indica línea y columna y describe el problema en ambos idiomas', () => {
+        const error = errorOf(() => parseFcl('FUNCTION_BLOCK x\nVAR_INPUT\n    turbidity : TEXT;\nEND_VAR'))
+
+        expect(error).toBeInstanceOf(FclParseError)
+        const { line, column, detail } = error as FclParseError
+        expect([line, column]).toEqual([3, 17])
+        expect(detail.es).toContain("tipo no soportado 'TEXT'")
+        expect(detail.en).toContain("unsupported type 'TEXT'")
+    })
+
+    it('rechaza un coagulante desconocido en la marca del sistema', () => {
+        const source = serializeFcl(DEFAULT_FUZZY_SYSTEM).replace('coagulant=alum', 'coagulant=lime')
+        const error = errorOf(() => parseFcl(source))
+
+        expect(error).toBeInstanceOf(FclParseError)
+        expect((error as FclParseError).line).toBe(3)
+    })
+
+    it('señala el término desconocido de un antecedente suelto', () => {
+        const error = errorOf(() => parseFclAntecedent('turbidity IS alta AND ph IS salado', DEFAULT_FUZZY_SYSTEM.inputs))
+
+        expect(error).toBeInstanceOf(FclParseError)
+        expect((error as FclParseError).column).toBe(29)
+    })
+})
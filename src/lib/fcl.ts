@@ -0,0 +1,1138 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - FUZZY CONTROL LANGUAGE (IEC 61131-7)
+ * Importación y exportación del controlador en formato FCL
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * FCL es el lenguaje normalizado por IEC 61131-7 para describir controladores
+ * difusos en PLCs. Permite llevar el controlador de esta herramienta a un
+ * autómata u otras librerías (jFuzzyLogic, pyfuzzylite...) y viceversa.
+ *
+ * CORRESPONDENCIA CON FuzzySystemDefinition:
+ * ------------------------------------------
+ * - VAR_INPUT / FUZZIFY     -> inputs (términos y RANGE)
+ * - VAR_OUTPUT / DEFUZZIFY  -> outputs (términos, RANGE y METHOD)
+ * - RULEBLOCK               -> operators (AND, OR, ACT, ACCU) y rules
+ * - La corrección de pH se exporta como una salida más, `phCorrection`, con
+ *   un singleton por nivel, de modo que las reglas la concluyen con IS.
+ *
+ * Antecedentes: condiciones unidas con AND y OR (AND tiene prioridad),
+ * paréntesis, NOT delante de una condición o de un paréntesis e `IS NOT`.
+ * Los hedges `very`, `somewhat` y `extremely` delante del término siguen la
+ * extensión de fuzzylite: `turbidity IS very alta AND (ph IS NOT neutro)`.
+ * El peso de la regla se escribe al final con `WITH` (factor de ponderación
+ * de la norma): `... THEN dose IS alta, time IS largo WITH 0.6;`.
+ *
+ * Funciones de membresía: trapecios, triángulos y funciones lineales a trozos
+ * se escriben como lista de puntos (x, μ) y los singletons como un número,
+ * según la norma. Gaussianas, campanas y sigmoides usan las extensiones
+ * `gauss`, `gbell` y `sigm` de jFuzzyLogic.
+ *
+ * Lo que FCL no contempla viaja en comentarios, que otras herramientas
+ * ignoran y esta lee al importar:
+ *
+ * - Etiqueta y unidad de cada variable tras su declaración:
+ *   `dose : REAL; (* Dosis de Coagulante [mg/L] *)`.
+ * - Coagulante y costo sin reglas activas en la marca `{system ...}`
+ *   antes del FUNCTION_BLOCK: `(* {system coagulant=alum fallback=0.1} *)`.
+ * - Nombre y costo de cada regla al final de su línea:
+ *   `RULE 3 : ... ; (* {cost=0.18} Turbidez alta *)`. Las reglas
+ *   deshabilitadas se escriben con `WITH 0` (otras herramientas no las
+ *   aplican) y `disabled` en la marca, con su peso original si no es 1:
+ *   `(* {disabled weight=0.6 cost=0.18} Turbidez alta *)`.
+ *
+ * Las huellas de incertidumbre, el modo de inferencia y los consecuentes TSK
+ * no se exportan: al importar se toman de la definición base (por id de
+ * variable y nombre de término; por regla con el mismo antecedente). Un
+ * archivo de otra herramienta, sin marcas, toma también de la base el
+ * coagulante y los costos.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import {
+    AggregationMethod,
+    AntecedentExpression,
+    CoagulantId,
+    DefuzzificationMethod,
+    FuzzyOperators,
+    FuzzyRule,
+    FuzzySystemDefinition,
+    FuzzyTerm,
+    FuzzyVariable,
+    Hedge,
+    ImplicationMethod,
+    InputVariableId,
+    MembershipShape,
+    PhCorrectionLevel,
+    SNorm,
+    TNorm,
+    COAGULANT_IDS,
+    DEFAULT_FUZZY_SYSTEM,
+    DEFAULT_OPERATORS,
+    FUZZY_SYSTEM_SCHEMA_VERSION,
+    HEDGES,
+    INPUT_VARIABLE_IDS,
+    OUTPUT_VARIABLE_IDS,
+    PH_CORRECTION_LEVELS,
+    formatAntecedent,
+    getRuleAntecedent,
+    toSimpleConditions,
+    validateFuzzySystem
+} from '@/lib/fuzzy-system'
+import type { LocalizedText } from '@/lib/i18n'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TABLAS DE CORRESPONDENCIA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const DEFUZZIFICATION_KEYWORDS: Record<DefuzzificationMethod, string> = {
+    centroid: 'COG',
+    bisector: 'COA',
+    mom: 'MM',
+    som: 'LM',
+    lom: 'RM',
+    weighted_average: 'COGS'
+}
+
+const T_NORM_KEYWORDS: Record<TNorm, string> = {
+    min: 'MIN',
+    product: 'PROD',
+    lukasiewicz: 'BDIF',
+    drastic: 'DMIN',
+    einstein: 'EPROD',
+    hamacher: 'HPROD'
+}
+
+const S_NORM_KEYWORDS: Record<SNorm, string> = {
+    max: 'MAX',
+    probabilistic_sum: 'ASUM',
+    bounded_sum: 'BSUM',
+    drastic: 'DMAX',
+    einstein: 'ESUM',
+    hamacher: 'HSUM'
+}
+
+const IMPLICATION_KEYWORDS: Record<ImplicationMethod, string> = {
+    min: 'MIN',
+    product: 'PROD'
+}
+
+const AGGREGATION_KEYWORDS: Record<AggregationMethod, string> = {
+    max: 'MAX',
+    bounded_sum: 'BSUM'
+}
+
+/** Nombre de la salida FCL que transporta la corrección de pH */
+const PH_CORRECTION_OUTPUT = 'phCorrection'
+
+/** Marca `{clave=valor bandera ...}` al comienzo de un comentario */
+const MARK_PATTERN = /^\{([^}]*)\}\s*/
+
+/**
+ * Busca la clave cuya palabra FCL coincide (sin distinguir mayúsculas)
+ */
+function fromKeyword<T extends string>(table: Record<T, string>, keyword: string): T | undefined {
+    const upper = keyword.toUpperCase()
+    return (Object.keys(table) as T[]).find(key => table[key] === upper)
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ERRORES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Error de sintaxis o de significado en un archivo FCL, con su posición
+ */
+export class FclParseError extends Error {
+    /** Descripción del problema sin la posición, en cada idioma de la interfaz */
+    readonly detail: LocalizedText
+    readonly line: number
+    readonly column: number
+
+    constructor(detail: LocalizedText, line: number, column: number) {
+        super(`FCL inválido (línea ${line}, columna ${column}): ${detail.es}`)
+        this.name = 'FclParseError'
+        this.detail = detail
+        this.line = line
+        this.column = column
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ANÁLISIS LÉXICO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface Token {
+    kind: 'identifier' | 'number' | 'symbol' | 'eof'
+    text: string
+    line: number
+    column: number
+}
+
+/**
+ * Comentario del texto, sin los delimitadores
+ */
+interface Comment {
+    text: string
+    line: number
+    column: number
+}
+
+const SYMBOLS = [':=', '..', ':', ';', '(', ')', ',']
+const NUMBER_PATTERN = /-?\d+(\.\d+)?([eE][-+]?\d+)?/y
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y
+
+/**
+ * Divide el texto en tokens, descartando espacios y comentarios
+ * (`(* ... *)` de la norma y `// ...` hasta fin de línea)
+ *
+ * @param comments - Si se indica, recibe los comentarios `(* ... *)`
+ */
+function tokenize(source: string, comments?: Comment[]): Token[] {
+    const tokens: Token[] = []
+    let index = 0
+    let line = 1
+    let column = 1
+
+    const advance = (count: number) => {
+        for (let i = 0; i < count; i++) {
+            if (source[index] === '\n') {
+                line++
+                column = 1
+            } else {
+                column++
+            }
+            index++
+        }
+    }
+
+    const matchAt = (pattern: RegExp): string | null => {
+        pattern.lastIndex = index
+        const match = pattern.exec(source)
+        return match ? match[0] : null
+    }
+
+    while (index < source.length) {
+        const char = source[index]
+
+        if (/\s/.test(char)) {
+            advance(1)
+            continue
+        }
+
+        if (source.startsWith('(*', index)) {
+            const end = source.indexOf('*)', index + 2)
+            if (end === -1) throw new FclParseError({ es: 'comentario sin cerrar', en: 'unclosed comment' }, line, column)
+            comments?.push({ text: source.slice(index + 2, end).trim(), line, column })
+            advance(end + 2 - index)
+            continue
+        }
+
+        if (source.startsWith('//', index)) {
+            const end = source.indexOf('\n', index)
+            advance((end === -1 ? source.length : end) - index)
+            continue
+        }
+
+        const start = { line, column }
+
+        const number = /[-\d]/.test(char) ? matchAt(NUMBER_PATTERN) : null
+        if (number) {
+            tokens.push({ kind: 'number', text: number, ...start })
+            advance(number.length)
+            continue
+        }
+
+        const identifier = matchAt(IDENTIFIER_PATTERN)
+        if (identifier) {
+            tokens.push({ kind: 'identifier', text: identifier, ...start })
+            advance(identifier.length)
+            continue
+        }
+
+        const symbol = SYMBOLS.find(s => source.startsWith(s, index))
+        if (symbol) {
+            tokens.push({ kind: 'symbol', text: symbol, ...start })
+            advance(symbol.length)
+            continue
+        }
+
+        throw new FclParseError({ es: `carácter inesperado '${char}'`, en: `unexpected character '${char}'` }, line, column)
+    }
+
+    tokens.push({ kind: 'eof', text: '<EOF>', line, column })
+    return tokens
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ANÁLISIS SINTÁCTICO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface ParsedDeclaration {
+    name: Token
+    /** Comentario tras el `;` en la misma línea (etiqueta y unidad) */
+    comment?: string
+}
+
+interface ParsedVariable {
+    name: Token
+    terms: FuzzyTerm[]
+    range?: [number, number]
+    method?: DefuzzificationMethod
+}
+
+interface ParsedClause {
+    variable: Token
+    term: Token
+}
+
+/**
+ * Antecedente leído, con los tokens para señalar errores de significado
+ */
+type ParsedExpression =
+    | { op: 'is'; variable: Token; term: Token; hedges: Hedge[]; negated: boolean }
+    | { op: 'and' | 'or'; operands: ParsedExpression[] }
+    | { op: 'not'; operand: ParsedExpression }
+
+interface ParsedRule {
+    id: number
+    token: Token
+    antecedent: ParsedExpression
+    conclusions: ParsedClause[]
+    /** Factor de ponderación `WITH` y su token */
+    weight?: { value: number; token: Token }
+    /** Comentario tras el `;` en la misma línea (nombre de la regla) */
+    comment?: string
+}
+
+interface ParsedFunctionBlock {
+    name: string
+    inputs: ParsedDeclaration[]
+    outputs: ParsedDeclaration[]
+    fuzzify: ParsedVariable[]
+    defuzzify: ParsedVariable[]
+    operators: Partial<FuzzyOperators>
+    rules: ParsedRule[]
+}
+
+/**
+ * Analizador descendente recursivo de un FUNCTION_BLOCK
+ */
+class FclParser {
+    private position = 0
+
+    constructor(private readonly tokens: Token[], private readonly comments: Comment[] = []) { }
+
+    parse(): ParsedFunctionBlock {
+        this.expectKeyword('FUNCTION_BLOCK')
+        const block: ParsedFunctionBlock = {
+            name: this.peek().kind === 'identifier' && !this.isKeyword(this.peek(), 'VAR_INPUT', 'VAR_OUTPUT', 'FUZZIFY', 'DEFUZZIFY', 'RULEBLOCK')
+                ? this.next().text
+                : '',
+            inputs: [],
+            outputs: [],
+            fuzzify: [],
+            defuzzify: [],
+            operators: {},
+            rules: []
+        }
+
+        while (!this.isKeyword(this.peek(), 'END_FUNCTION_BLOCK')) {
+            const token = this.peek()
+            if (this.isKeyword(token, 'VAR_INPUT')) {
+                this.next()
+                block.inputs.push(...this.parseDeclarations())
+            } else if (this.isKeyword(token, 'VAR_OUTPUT')) {
+                this.next()
+                block.outputs.push(...this.parseDeclarations())
+            } else if (this.isKeyword(token, 'FUZZIFY')) {
+                this.next()
+                block.fuzzify.push(this.parseVariableBlock('END_FUZZIFY', false))
+            } else if (this.isKeyword(token, 'DEFUZZIFY')) {
+                this.next()
+                block.defuzzify.push(this.parseVariableBlock('END_DEFUZZIFY', true))
+            } else if (this.isKeyword(token, 'RULEBLOCK')) {
+                this.next()
+                this.parseRuleBlock(block)
+            } else {
+                this.fail(token, {
+                    es: `se esperaba VAR_INPUT, VAR_OUTPUT, FUZZIFY, DEFUZZIFY, RULEBLOCK o END_FUNCTION_BLOCK y se encontró '${token.text}'`,
+                    en: `expected VAR_INPUT, VAR_OUTPUT, FUZZIFY, DEFUZZIFY, RULEBLOCK or END_FUNCTION_BLOCK but found '${token.text}'`
+                })
+            }
+        }
+        this.next()
+
+        if (this.peek().kind !== 'eof') {
+            this.fail(this.peek(), {
+                es: `contenido inesperado tras END_FUNCTION_BLOCK: '${this.peek().text}'`,
+                en: `unexpected content after END_FUNCTION_BLOCK: '${this.peek().text}'`
+            })
+        }
+        return block
+    }
+
+    // VAR_INPUT / VAR_OUTPUT:  nombre : REAL;
+    private parseDeclarations(): ParsedDeclaration[] {
+        const declarations: ParsedDeclaration[] = []
+        while (!this.isKeyword(this.peek(), 'END_VAR')) {
+            const name = this.expectIdentifier({ es: 'el nombre de una variable', en: 'a variable name' })
+            this.expectSymbol(':')
+            const type = this.expectIdentifier({ es: 'el tipo de la variable', en: 'the variable type' })
+            if (type.text.toUpperCase() !== 'REAL') {
+                this.fail(type, { es: `tipo no soportado '${type.text}' (solo REAL)`, en: `unsupported type '${type.text}' (only REAL)` })
+            }
+            const comment = this.commentAfter(this.expectSymbol(';'))
+            declarations.push({ name, ...(comment && { comment }) })
+        }
+        this.next()
+        return declarations
+    }
+
+    // FUZZIFY / DEFUZZIFY:  TERM, RANGE, METHOD, DEFAULT, ACCU
+    private parseVariableBlock(endKeyword: string, isOutput: boolean): ParsedVariable {
+        const variable: ParsedVariable = { name: this.expectIdentifier({ es: 'el nombre de la variable', en: 'the variable name' }), terms: [] }
+
+        while (!this.isKeyword(this.peek(), endKeyword)) {
+            const token = this.next()
+            if (this.isKeyword(token, 'TERM')) {
+                const name = this.expectIdentifier({ es: 'el nombre del término', en: 'the term name' })
+                this.expectSymbol(':=')
+                variable.terms.push({ name: name.text, ...this.parseMembership() } as FuzzyTerm)
+                this.expectSymbol(';')
+            } else if (this.isKeyword(token, 'RANGE')) {
+                this.expectSymbol(':=')
+                this.expectSymbol('(')
+                const min = this.expectNumber()
+                this.expectSymbol('..')
+                const max = this.expectNumber()
+                this.expectSymbol(')')
+                this.expectSymbol(';')
+                variable.range = [min, max]
+            } else if (isOutput && this.isKeyword(token, 'METHOD')) {
+                this.expectSymbol(':')
+                const method = this.expectIdentifier({ es: 'un método de defuzzificación', en: 'a defuzzification method' })
+                variable.method = fromKeyword(DEFUZZIFICATION_KEYWORDS, method.text)
+                if (!variable.method) {
+                    const allowed = Object.values(DEFUZZIFICATION_KEYWORDS).join(', ')
+                    this.fail(method, {
+                        es: `método de defuzzificación desconocido '${method.text}' (permitidos: ${allowed})`,
+                        en: `unknown defuzzification method '${method.text}' (allowed: ${allowed})`
+                    })
+                }
+                this.expectSymbol(';')
+            } else if (isOutput && this.isKeyword(token, 'DEFAULT')) {
+                // El valor por defecto se acepta pero el motor siempre usa 0
+                this.expectSymbol(':=')
+                const value = this.next()
+                if (value.kind !== 'number' && !this.isKeyword(value, 'NC')) {
+                    this.fail(value, {
+                        es: `se esperaba un número o NC y se encontró '${value.text}'`,
+                        en: `expected a number or NC but found '${value.text}'`
+                    })
+                }
+                this.expectSymbol(';')
+            } else {
+                this.fail(token, {
+                    es: `se esperaba TERM, RANGE${isOutput ? ', METHOD, DEFAULT' : ''} o ${endKeyword} y se encontró '${token.text}'`,
+                    en: `expected TERM, RANGE${isOutput ? ', METHOD, DEFAULT' : ''} or ${endKeyword} but found '${token.text}'`
+                })
+            }
+        }
+        this.next()
+        return variable
+    }
+
+    // Función de membresía: puntos (x, μ), singleton o extensión con nombre
+    private parseMembership(): MembershipShape {
+        const token = this.peek()
+
+        if (token.kind === 'symbol' && token.text === '(') {
+            const points: Array<[number, number]> = []
+            while (this.peek().kind === 'symbol' && this.peek().text === '(') {
+                this.next()
+                const x = this.expectNumber()
+                this.expectSymbol(',')
+                const y = this.expectNumber()
+                this.expectSymbol(')')
+                points.push([x, y])
+            }
+            return classifyPoints(points)
+        }
+
+        if (token.kind === 'number') {
+            return { shape: 'singleton', value: this.expectNumber() }
+        }
+
+        if (token.kind === 'identifier') {
+            this.next()
+            switch (token.text.toLowerCase()) {
+                case 'trape':
+                    return { shape: 'trapezoidal', points: [this.expectNumber(), this.expectNumber(), this.expectNumber(), this.expectNumber()] }
+                case 'trian':
+                    return { shape: 'triangular', points: [this.expectNumber(), this.expectNumber(), this.expectNumber()] }
+                case 'gauss':
+                    return { shape: 'gaussian', mean: this.expectNumber(), sigma: this.expectNumber() }
+                case 'gbell': {
+                    const width = this.expectNumber()
+                    const slope = this.expectNumber()
+                    return { shape: 'bell', width, slope, center: this.expectNumber() }
+                }
+                case 'sigm': {
+                    const gain = this.expectNumber()
+                    const center = this.expectNumber()
+                    return { shape: 'sigmoid', center, slope: Math.abs(gain), direction: gain < 0 ? 'left' : 'right' }
+                }
+            }
+        }
+
+        this.fail(token, {
+            es: `función de membresía no válida '${token.text}' (se esperaban puntos (x, μ), un número, trape, trian, gauss, gbell o sigm)`,
+            en: `invalid membership function '${token.text}' (expected points (x, μ), a number, trape, trian, gauss, gbell or sigm)`
+        })
+    }
+
+    // RULEBLOCK:  AND, OR, ACT, ACCU y RULE n : IF ... THEN ...;
+    private parseRuleBlock(block: ParsedFunctionBlock): void {
+        this.expectIdentifier({ es: 'el nombre del bloque de reglas', en: 'the rule block name' })
+
+        while (!this.isKeyword(this.peek(), 'END_RULEBLOCK')) {
+            const token = this.next()
+
+            if (this.isKeyword(token, 'AND', 'OR', 'ACT', 'ACCU')) {
+                this.expectSymbol(':')
+                const value = this.expectIdentifier({ es: 'un operador', en: 'an operator' })
+                const key = token.text.toUpperCase()
+                const parsed = key === 'AND' ? fromKeyword(T_NORM_KEYWORDS, value.text)
+                    : key === 'OR' ? fromKeyword(S_NORM_KEYWORDS, value.text)
+                        : key === 'ACT' ? fromKeyword(IMPLICATION_KEYWORDS, value.text)
+                            : fromKeyword(AGGREGATION_KEYWORDS, value.text)
+                if (!parsed) this.fail(value, { es: `operador ${key} desconocido '${value.text}'`, en: `unknown ${key} operator '${value.text}'` })
+
+                if (key === 'AND') block.operators.and = parsed as TNorm
+                else if (key === 'OR') block.operators.or = parsed as SNorm
+                else if (key === 'ACT') block.operators.implication = parsed as ImplicationMethod
+                else block.operators.aggregation = parsed as AggregationMethod
+                this.expectSymbol(';')
+            } else if (this.isKeyword(token, 'RULE')) {
+                block.rules.push(this.parseRule(token))
+            } else {
+                this.fail(token, {
+                    es: `se esperaba AND, OR, ACT, ACCU, RULE o END_RULEBLOCK y se encontró '${token.text}'`,
+                    en: `expected AND, OR, ACT, ACCU, RULE or END_RULEBLOCK but found '${token.text}'`
+                })
+            }
+        }
+        this.next()
+    }
+
+    private parseRule(ruleToken: Token): ParsedRule {
+        const idToken = this.peek()
+        const id = this.expectNumber()
+        if (!Number.isInteger(id)) {
+            this.fail(idToken, {
+                es: `el número de regla debe ser entero (recibido ${idToken.text})`,
+                en: `the rule number must be an integer (got ${idToken.text})`
+            })
+        }
+        this.expectSymbol(':')
+        this.expectKeyword('IF')
+
+        const antecedent = this.parseExpression()
+
+        this.expectKeyword('THEN')
+        const conclusions = [this.parseClause()]
+        while (this.peek().kind === 'symbol' && this.peek().text === ',') {
+            this.next()
+            conclusions.push(this.parseClause())
+        }
+
+        let weight: ParsedRule['weight']
+        if (this.isKeyword(this.peek(), 'WITH')) {
+            this.next()
+            const token = this.peek()
+            weight = { value: this.expectNumber(), token }
+        }
+        const comment = this.commentAfter(this.expectSymbol(';'))
+
+        return { id, token: ruleToken, antecedent, conclusions, ...(weight && { weight }), ...(comment && { comment }) }
+    }
+
+    /** Antecedente suelto (editor de reglas): la expresión y el fin del texto */
+    parseStandaloneExpression(): ParsedExpression {
+        const expression = this.parseExpression()
+        if (this.peek().kind !== 'eof') {
+            this.fail(this.peek(), {
+                es: `se esperaba AND, OR o el fin de la expresión y se encontró '${this.peek().text}'`,
+                en: `expected AND, OR or the end of the expression but found '${this.peek().text}'`
+            })
+        }
+        return expression
+    }
+
+    // expresión := conjunción (OR conjunción)*
+    private parseExpression(): ParsedExpression {
+        const operands = [this.parseConjunction()]
+        while (this.isKeyword(this.peek(), 'OR')) {
+            this.next()
+            operands.push(this.parseConjunction())
+        }
+        return operands.length === 1 ? operands[0] : { op: 'or', operands }
+    }
+
+    // conjunción := factor (AND factor)*
+    private parseConjunction(): ParsedExpression {
+        const operands = [this.parseFactor()]
+        while (this.isKeyword(this.peek(), 'AND')) {
+            this.next()
+            operands.push(this.parseFactor())
+        }
+        return operands.length === 1 ? operands[0] : { op: 'and', operands }
+    }
+
+    // factor := NOT factor | ( expresión ) | variable IS [NOT] hedge* término
+    private parseFactor(): ParsedExpression {
+        if (this.isKeyword(this.peek(), 'NOT')) {
+            this.next()
+            return { op: 'not', operand: this.parseFactor() }
+        }
+        if (this.peek().kind === 'symbol' && this.peek().text === '(') {
+            this.next()
+            const expression = this.parseExpression()
+            this.expectSymbol(')')
+            return expression
+        }
+
+        const variable = this.expectIdentifier({ es: 'el nombre de una variable, NOT o (', en: 'a variable name, NOT or (' })
+        this.expectKeyword('IS')
+        const negated = this.isKeyword(this.peek(), 'NOT')
+        if (negated) this.next()
+        // Un hedge va seguido siempre de otro identificador (el término u otro hedge)
+        const hedges: Hedge[] = []
+        while (
+            this.isKeyword(this.peek(), ...HEDGES.map(h => h.toUpperCase())) &&
+            this.tokens[this.position + 1]?.kind === 'identifier' &&
+            !this.isKeyword(this.tokens[this.position + 1], 'AND', 'OR', 'THEN')
+        ) {
+            hedges.push(this.next().text.toLowerCase() as Hedge)
+        }
+        return { op: 'is', variable, term: this.expectIdentifier({ es: 'el nombre de un término', en: 'a term name' }), hedges, negated }
+    }
+
+    private parseClause(): ParsedClause {
+        const variable = this.expectIdentifier({ es: 'el nombre de una variable', en: 'a variable name' })
+        this.expectKeyword('IS')
+        return { variable, term: this.expectIdentifier({ es: 'el nombre de un término', en: 'a term name' }) }
+    }
+
+    // ─── Utilidades ───
+
+    /** Comentario que sigue a un token en su misma línea */
+    private commentAfter(token: Token): string | undefined {
+        return this.comments.find(c => c.line === token.line && c.column > token.column)?.text
+    }
+
+    private peek(): Token {
+        return this.tokens[this.position]
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.position]
+        if (token.kind !== 'eof') this.position++
+        return token
+    }
+
+    private isKeyword(token: Token, ...keywords: string[]): boolean {
+        return token.kind === 'identifier' && keywords.includes(token.text.toUpperCase())
+    }
+
+    private expectKeyword(keyword: string): Token {
+        const token = this.next()
+        if (!this.isKeyword(token, keyword)) {
+            this.fail(token, {
+                es: `se esperaba ${keyword} y se encontró '${token.text}'`,
+                en: `expected ${keyword} but found '${token.text}'`
+            })
+        }
+        return token
+    }
+
+    private expectSymbol(symbol: string): Token {
+        const token = this.next()
+        if (token.kind !== 'symbol' || token.text !== symbol) {
+            this.fail(token, { es: `se esperaba '${symbol}' y se encontró '${token.text}'`, en: `expected '${symbol}' but found '${token.text}'` })
+        }
+        return token
+    }
+
+    private expectIdentifier(what: LocalizedText): Token {
+        const token = this.next()
+        if (token.kind !== 'identifier') {
+            this.fail(token, {
+                es: `se esperaba ${what.es} y se encontró '${token.text}'`,
+                en: `expected ${what.en} but found '${token.text}'`
+            })
+        }
+        return token
+    }
+
+    private expectNumber(): number {
+        const token = this.next()
+        if (token.kind !== 'number') {
+            this.fail(token, {
+                es: `se esperaba un número y se encontró '${token.text}'`,
+                en: `expected a number but found '${token.text}'`
+            })
+        }
+        return Number(token.text)
+    }
+
+    private fail(token: Token, detail: LocalizedText): never {
+        throw new FclParseError(detail, token.line, token.column)
+    }
+}
+
+/**
+ * Reconoce trapecios y triángulos escritos como lista de puntos; el resto
+ * se conserva como función lineal a trozos
+ */
+function classifyPoints(points: Array<[number, number]>): MembershipShape {
+    const ys = points.map(p => p[1]).join(',')
+    if (points.length === 4 && ys === '0,1,1,0') {
+        return { shape: 'trapezoidal', points: [points[0][0], points[1][0], points[2][0], points[3][0]] }
+    }
+    if (points.length === 3 && ys === '0,1,0') {
+        return { shape: 'triangular', points: [points[0][0], points[1][0], points[2][0]] }
+    }
+    if (points.length === 1 && points[0][1] === 1) {
+        return { shape: 'singleton', value: points[0][0] }
+    }
+    return { shape: 'piecewise', points }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTRUCCIÓN DE LA DEFINICIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Convierte un identificador válido de FCL a partir de un nombre libre
+ */
+function toIdentifier(name: string): string {
+    const identifier = name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^A-Za-z0-9_]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+    return /^[A-Za-z_]/.test(identifier) ? identifier : `fb_${identifier}`
+}
+
+/**
+ * Marca `{...}` al comienzo de un comentario: banderas, valores y el texto
+ * que la sigue. Sin marca, todo el comentario es texto.
+ */
+function parseMark(comment: string): { flags: Set<string>; values: Map<string, string>; text: string } {
+    const match = MARK_PATTERN.exec(comment)
+    const flags = new Set<string>()
+    const values = new Map<string, string>()
+    for (const word of match ? match[1].split(/\s+/).filter(Boolean) : []) {
+        const separator = word.indexOf('=')
+        if (separator === -1) flags.add(word)
+        else values.set(word.slice(0, separator), word.slice(separator + 1))
+    }
+    return { flags, values, text: (match ? comment.slice(match[0].length) : comment).trim() }
+}
+
+/**
+ * Número de una marca, o undefined si falta o no es un número
+ */
+function markNumber(values: Map<string, string>, key: string): number | undefined {
+    const text = values.get(key)
+    if (text === undefined || text.trim() === '') return undefined
+    const value = Number(text)
+    return Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Nombre, marca de deshabilitada, peso original y costo del comentario de una regla
+ */
+function parseRuleComment(comment: string | undefined): { name?: string; disabled: boolean; weight?: number; cost?: number } {
+    if (!comment) return { disabled: false }
+    const { flags, values, text } = parseMark(comment)
+    const weight = markNumber(values, 'weight')
+    const cost = markNumber(values, 'cost')
+    return {
+        ...(text && { name: text }),
+        disabled: flags.has('disabled'),
+        ...(weight !== undefined && { weight }),
+        ...(cost !== undefined && { cost })
+    }
+}
+
+/**
+ * Etiqueta y unidad del comentario de una declaración: `Turbidez [NTU]`
+ */
+function parseDeclarationComment(comment: string | undefined): { label?: string; unit?: string } {
+    const match = comment ? /^(.*?)\s*(?:\[([^\]]*)\])?$/.exec(comment) : null
+    if (!match) return {}
+    return {
+        ...(match[1] && { label: match[1] }),
+        ...(match[2] !== undefined && { unit: match[2] })
+    }
+}
+
+/**
+ * Universo por defecto cuando el bloque no declara RANGE: extensión de los términos
+ */
+function rangeFromTerms(terms: FuzzyTerm[]): [number, number] {
+    const xs = terms.flatMap(term => {
+        switch (term.shape) {
+            case undefined:
+            case 'trapezoidal':
+            case 'triangular':
+                return [...term.points]
+            case 'piecewise':
+                return term.points.map(p => p[0])
+            case 'gaussian':
+                return [term.mean - 3 * term.sigma, term.mean + 3 * term.sigma]
+            case 'bell':
+                return [term.center - 3 * term.width, term.center + 3 * term.width]
+            case 'sigmoid':
+                return [term.center - 5 / term.slope, term.center + 5 / term.slope]
+            case 'singleton':
+                return [term.value]
+        }
+    })
+    const min = Math.min(...xs)
+    const max = Math.max(...xs)
+    return min < max ? [min, max] : [min, min + 1]
+}
+
+/**
+ * Convierte un antecedente leído comprobando variables y términos
+ */
+function buildAntecedent(parsed: ParsedExpression, inputs: FuzzyVariable[]): AntecedentExpression {
+    switch (parsed.op) {
+        case 'is': {
+            const { variable, term, hedges, negated } = parsed
+            const terms = inputs.find(v => v.id === variable.text)?.terms.map(t => t.name)
+            if (!terms) {
+                throw new FclParseError({
+                    es: `la variable de entrada '${variable.text}' no tiene bloque FUZZIFY`,
+                    en: `input variable '${variable.text}' has no FUZZIFY block`
+                }, variable.line, variable.column)
+            }
+            if (!terms.includes(term.text)) {
+                throw new FclParseError({
+                    es: `término desconocido '${term.text}' para '${variable.text}'`,
+                    en: `unknown term '${term.text}' for '${variable.text}'`
+                }, term.line, term.column)
+            }
+            return {
+                op: 'is',
+                variable: variable.text as InputVariableId,
+                term: term.text,
+                ...(hedges.length > 0 && { hedges }),
+                ...(negated && { negated })
+            }
+        }
+        case 'not':
+            return { op: 'not', operand: buildAntecedent(parsed.operand, inputs) }
+        default:
+            return { op: parsed.op, operands: parsed.operands.map(operand => buildAntecedent(operand, inputs)) }
+    }
+}
+
+/**
+ * Lee un antecedente suelto en sintaxis FCL (ej: desde el editor de reglas)
+ *
+ * @example
+ * parseFclAntecedent('turbidity IS very alta AND (ph IS NOT neutro)', system.inputs)
+ * @throws FclParseError con la columna del problema
+ */
+export function parseFclAntecedent(source: string, inputs: FuzzyVariable[]): AntecedentExpression {
+    return buildAntecedent(new FclParser(tokenize(source)).parseStandaloneExpression(), inputs)
+}
+
+/**
+ * Lee un controlador en formato FCL
+ *
+ * @param source - Texto FCL
+ * @param base - Definición de la que se toma lo que el archivo no indica
+ *   (huellas, modo de inferencia, consecuentes TSK y, sin marcas, etiquetas,
+ *   coagulante y costos)
+ * @throws FclParseError si el texto no es FCL válido (con línea y columna)
+ * @throws FuzzySystemValidationError si el controlador resultante no cumple el esquema
+ */
+export function parseFcl(source: string, base: FuzzySystemDefinition = DEFAULT_FUZZY_SYSTEM): FuzzySystemDefinition {
+    const comments: Comment[] = []
+    const block = new FclParser(tokenize(source, comments), comments).parse()
+
+    const fail: (token: Token, detail: LocalizedText) => never = (token, detail) => {
+        throw new FclParseError(detail, token.line, token.column)
+    }
+
+    // Coagulante y costo por defecto de la marca {system ...}
+    const systemComment = comments.find(c => parseMark(c.text).flags.has('system'))
+    const systemMark = systemComment ? parseMark(systemComment.text).values : new Map<string, string>()
+    const coagulant = systemMark.get('coagulant') ?? base.coagulant
+    if (coagulant !== undefined && !COAGULANT_IDS.includes(coagulant as CoagulantId)) {
+        throw new FclParseError(
+            {
+                es: `coagulante desconocido '${coagulant}' (permitidos: ${COAGULANT_IDS.join(', ')})`,
+                en: `unknown coagulant '${coagulant}' (allowed: ${COAGULANT_IDS.join(', ')})`
+            },
+            systemComment?.line ?? 1,
+            systemComment?.column ?? 1
+        )
+    }
+    const costs = { ...base.costs, fallback: markNumber(systemMark, 'fallback') ?? base.costs.fallback }
+
+    const buildVariable = (
+        parsed: ParsedVariable,
+        declared: ParsedDeclaration[],
+        section: 'VAR_INPUT' | 'VAR_OUTPUT',
+        baseVariables: FuzzyVariable[]
+    ): FuzzyVariable => {
+        const id = parsed.name.text
+        const declaration = declared.find(d => d.name.text === id)
+        if (!declaration) {
+            fail(parsed.name, { es: `la variable '${id}' no está declarada en ${section}`, en: `variable '${id}' is not declared in ${section}` })
+        }
+        if (parsed.terms.length === 0) fail(parsed.name, { es: `la variable '${id}' no tiene términos`, en: `variable '${id}' has no terms` })
+        const baseVariable = baseVariables.find(v => v.id === id)
+        // La huella tipo 2 no existe en FCL: se conserva la del término homónimo
+        const terms = parsed.terms.map(term => {
+            const footprint = baseVariable?.terms.find(t => t.name === term.name)?.footprint
+            return footprint ? { ...term, footprint } : term
+        })
+        const { label, unit } = parseDeclarationComment(declaration.comment)
+        return {
+            id,
+            label: label ?? baseVariable?.label ?? id,
+            unit: unit ?? baseVariable?.unit ?? '',
+            range: parsed.range ?? rangeFromTerms(parsed.terms),
+            terms
+        }
+    }
+
+    for (const parsed of block.fuzzify) {
+        if (!(INPUT_VARIABLE_IDS as readonly string[]).includes(parsed.name.text)) {
+            fail(parsed.name, {
+                es: `variable de entrada desconocida '${parsed.name.text}' (permitidas: ${INPUT_VARIABLE_IDS.join(', ')})`,
+                en: `unknown input variable '${parsed.name.text}' (allowed: ${INPUT_VARIABLE_IDS.join(', ')})`
+            })
+        }
+    }
+    for (const parsed of block.defuzzify) {
+        if (![...OUTPUT_VARIABLE_IDS, PH_CORRECTION_OUTPUT].includes(parsed.name.text)) {
+            fail(parsed.name, {
+                es: `variable de salida desconocida '${parsed.name.text}' (permitidas: ${[...OUTPUT_VARIABLE_IDS, PH_CORRECTION_OUTPUT].join(', ')})`,
+                en: `unknown output variable '${parsed.name.text}' (allowed: ${[...OUTPUT_VARIABLE_IDS, PH_CORRECTION_OUTPUT].join(', ')})`
+            })
+        }
+    }
+
+    const inputs = block.fuzzify.map(parsed => buildVariable(parsed, block.inputs, 'VAR_INPUT', base.inputs))
+    const outputBlocks = block.defuzzify.filter(parsed => parsed.name.text !== PH_CORRECTION_OUTPUT)
+    const outputs = outputBlocks.map(parsed => buildVariable(parsed, block.outputs, 'VAR_OUTPUT', base.outputs))
+    const defuzzification = outputBlocks.find(parsed => parsed.method)?.method
+
+    // Reglas: se comprueban variables y términos para señalar la posición exacta
+    const termsOf = (variables: FuzzyVariable[], id: string) => variables.find(v => v.id === id)?.terms.map(t => t.name)
+    const rules: FuzzyRule[] = block.rules.map(parsed => {
+        // Los antecedentes que son un simple AND de condiciones se guardan como `conditions`
+        const antecedent = buildAntecedent(parsed.antecedent, inputs)
+        const conditions = toSimpleConditions(antecedent)
+
+        const outputsOfRule: FuzzyRule['outputs'] = { dose: '', time: '', phCorrection: 'none' }
+        for (const { variable, term } of parsed.conclusions) {
+            if (variable.text === PH_CORRECTION_OUTPUT) {
+                if (!PH_CORRECTION_LEVELS.includes(term.text as PhCorrectionLevel)) {
+                    fail(term, {
+                        es: `nivel de corrección de pH desconocido '${term.text}' (permitidos: ${PH_CORRECTION_LEVELS.join(', ')})`,
+                        en: `unknown pH correction level '${term.text}' (allowed: ${PH_CORRECTION_LEVELS.join(', ')})`
+                    })
+                }
+                outputsOfRule.phCorrection = term.text as PhCorrectionLevel
+                continue
+            }
+            const terms = termsOf(outputs, variable.text)
+            if (!terms) {
+                fail(variable, {
+                    es: `la variable de salida '${variable.text}' no tiene bloque DEFUZZIFY`,
+                    en: `output variable '${variable.text}' has no DEFUZZIFY block`
+                })
+            }
+            if (!terms.includes(term.text)) {
+                fail(term, {
+                    es: `término desconocido '${term.text}' para '${variable.text}'`,
+                    en: `unknown term '${term.text}' for '${variable.text}'`
+                })
+            }
+            outputsOfRule[variable.text as 'dose' | 'time'] = term.text
+        }
+        for (const outputId of OUTPUT_VARIABLE_IDS) {
+            if (!outputsOfRule[outputId]) {
+                fail(parsed.token, {
+                    es: `la regla ${parsed.id} no concluye '${outputId}'`,
+                    en: `rule ${parsed.id} does not conclude '${outputId}'`
+                })
+            }
+        }
+
+        if (parsed.weight && (parsed.weight.value < 0 || parsed.weight.value > 1)) {
+            fail(parsed.weight.token, {
+                es: `el peso de la regla debe estar entre 0 y 1 (recibido ${parsed.weight.token.text})`,
+                en: `the rule weight must be between 0 and 1 (got ${parsed.weight.token.text})`
+            })
+        }
+
+        // Consecuentes TSK (y el costo si el archivo no lo indica) solo de una regla
+        // base con el mismo antecedente (primero la del mismo número): un archivo
+        // renumerado no los cruza
+        const text = formatAntecedent(antecedent)
+        const sameAntecedent = (rule: FuzzyRule) => formatAntecedent(getRuleAntecedent(rule)) === text
+        const sameId = base.rules.find(rule => rule.id === parsed.id)
+        const baseRule = sameId && sameAntecedent(sameId) ? sameId : base.rules.find(sameAntecedent)
+
+        // Nombre, costo y estado del comentario de la regla; una deshabilitada lleva WITH 0
+        const note = parseRuleComment(parsed.comment)
+        const weight = note.disabled ? note.weight : parsed.weight?.value
+        return {
+            id: parsed.id,
+            name: note.name ?? baseRule?.name ?? `Regla ${parsed.id}`,
+            ...(note.disabled && { enabled: false }),
+            conditions: conditions ?? {},
+            ...(!conditions && { antecedent }),
+            outputs: outputsOfRule,
+            baseCost: note.cost ?? baseRule?.baseCost ?? costs.fallback,
+            ...(weight !== undefined && { weight }),
+            ...(baseRule?.tsk && { tsk: baseRule.tsk })
+        }
+    })
+
+    return validateFuzzySystem({
+        version: FUZZY_SYSTEM_SCHEMA_VERSION,
+        name: toIdentifier(base.name) === block.name ? base.name : block.name || base.name,
+        inputs,
+        outputs,
+        rules,
+        costs,
+        ...(defuzzification && { defuzzification }),
+        operators: { ...DEFAULT_OPERATORS, ...block.operators },
+        ...(base.inferenceMode && { inferenceMode: base.inferenceMode }),
+        ...(coagulant && { coagulant: coagulant as CoagulantId })
+    })
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ESCRITURA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Función de membresía en sintaxis FCL
+ */
+function formatMembership(term: FuzzyTerm): string {
+    const point = (x: number, y: number) => `(${x}, ${y})`
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal': {
+            const [a, b, c, d] = term.points
+            return [point(a, 0), point(b, 1), point(c, 1), point(d, 0)].join(' ')
+        }
+        case 'triangular': {
+            const [a, b, c] = term.points
+            return [point(a, 0), point(b, 1), point(c, 0)].join(' ')
+        }
+        case 'piecewise':
+            return term.points.map(([x, y]) => point(x, y)).join(' ')
+        case 'singleton':
+            return String(term.value)
+        case 'gaussian':
+            return `gauss ${term.mean} ${term.sigma}`
+        case 'bell':
+            return `gbell ${term.width} ${term.slope} ${term.center}`
+        case 'sigmoid':
+            return `sigm ${term.direction === 'left' ? -term.slope : term.slope} ${term.center}`
+    }
+}
+
+function formatVariableBlock(keyword: 'FUZZIFY' | 'DEFUZZIFY', variable: FuzzyVariable, method?: DefuzzificationMethod): string[] {
+    const lines = [`${keyword} ${variable.id}`]
+    for (const term of variable.terms) {
+        lines.push(`    TERM ${term.name} := ${formatMembership(term)};`)
+    }
+    if (method) {
+        lines.push(`    METHOD : ${DEFUZZIFICATION_KEYWORDS[method]};`)
+        lines.push('    DEFAULT := 0;')
+    }
+    lines.push(`    RANGE := (${variable.range[0]} .. ${variable.range[1]});`)
+    lines.push(`END_${keyword}`, '')
+    return lines
+}
+
+/**
+ * Escribe la definición en formato FCL (IEC 61131-7)
+ */
+export function serializeFcl(system: FuzzySystemDefinition): string {
+    const operators = system.operators ?? DEFAULT_OPERATORS
+    const method = system.defuzzification ?? 'centroid'
+    const declaration = (variable: FuzzyVariable) =>
+        `    ${variable.id} : REAL; (* ${variable.label}${variable.unit ? ` [${variable.unit}]` : ''} *)`
+
+    const formatRule = (rule: FuzzyRule) => {
+        const conditions = formatAntecedent(getRuleAntecedent(rule))
+        const conclusions = [
+            ...OUTPUT_VARIABLE_IDS.map(id => `${id} IS ${rule.outputs[id]}`),
+            `${PH_CORRECTION_OUTPUT} IS ${rule.outputs.phCorrection}`
+        ].join(', ')
+        const weight = rule.weight !== undefined && rule.weight !== 1 ? ` WITH ${rule.weight}` : ''
+        return `RULE ${rule.id} : IF ${conditions} THEN ${conclusions}${weight};`
+    }
+
+    const lines = [
+        `(* ${system.name} *)`,
+        '(* Exportado desde AquaFuzzy Analytics - IEC 61131-7 Fuzzy Control Language *)',
+        `(* {system coagulant=${system.coagulant ?? 'alum'} fallback=${system.costs.fallback}} *)`,
+        '',
+        `FUNCTION_BLOCK ${toIdentifier(system.name)}`,
+        '',
+        'VAR_INPUT',
+        ...system.inputs.map(declaration),
+        'END_VAR',
+        '',
+        'VAR_OUTPUT',
+        ...system.outputs.map(declaration),
+        `    ${PH_CORRECTION_OUTPUT} : REAL; (* Nivel de corrección de pH *)`,
+        'END_VAR',
+        '',
+        ...system.inputs.flatMap(variable => formatVariableBlock('FUZZIFY', variable)),
+        ...system.outputs.flatMap(variable => formatVariableBlock('DEFUZZIFY', variable, method)),
+        `DEFUZZIFY ${PH_CORRECTION_OUTPUT}`,
+        ...PH_CORRECTION_LEVELS.map((level, index) => `    TERM ${level} := ${index};`),
+        '    METHOD : COGS;',
+        '    DEFAULT := 0;',
+        `    RANGE := (0 .. ${PH_CORRECTION_LEVELS.length - 1});`,
+        'END_DEFUZZIFY',
+        '',
+        'RULEBLOCK reglas',
+        `    AND : ${T_NORM_KEYWORDS[operators.and]};`,
+        `    OR : ${S_NORM_KEYWORDS[operators.or]};`,
+        `    ACT : ${IMPLICATION_KEYWORDS[operators.implication]};`,
+        `    ACCU : ${AGGREGATION_KEYWORDS[operators.aggregation]};`,
+        '',
+        ...system.rules.map(rule => {
+            const name = rule.name.replace(/\*\)/g, '* )')
+            if (rule.enabled !== false) return `    ${formatRule(rule)} (* {cost=${rule.baseCost}} ${name} *)`
+            const weight = rule.weight !== undefined && rule.weight !== 1 ? ` weight=${rule.weight}` : ''
+            return `    ${formatRule({ ...rule, weight: 0 })} (* {disabled${weight} cost=${rule.baseCost}} ${name} *)`
+        }),
+        'END_RULEBLOCK',
+        '',
+        'END_FUNCTION_BLOCK',
+        ''
+    ]
+    return lines.join('\n')
+}
@@ -65,6 +65,9 @@
  * @version 2.0
  */
 
+import { DEFAULT_LOCALE, Locale, LocalizedText } from '@/lib/i18n'
+import { formatNumber } from '@/lib/utils'
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // TIPOS E INTERFACES
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -196,16 +199,50 @@ export const CLUSTER_COLORS = [
 ]
 
 /**
- * Nombres descriptivos para los estados de máquina (hasta 5)
+ * Nombres descriptivos para los estados de máquina (hasta 5) en cada idioma
  * Usados en leyendas, inspector de punto y análisis de riesgo
  */
-export const CLUSTER_NAMES = [
-    'Normal',
-    'Alerta',
-    'Precaución',
-    'Degradación',
-    'Falla Inminente'
-]
+export const CLUSTER_NAMES: Record<Locale, string[]> = {
+    es: ['Normal', 'Alerta', 'Precaución', 'Degradación', 'Falla Inminente'],
+    en: ['Normal', 'Alert', 'Caution', 'Degradation', 'Imminent Failure']
+}
+
+/**
+ * Nombres de las características de los datos sintéticos (vibración y temperatura)
+ */
+export const SYNTHETIC_FEATURE_NAMES: Record<Locale, string[]> = {
+    es: ['Vibración (mm/s)', 'Temperatura (°C)'],
+    en: ['Vibration (mm/s)', 'Temperature (°C)']
+}
+
+/**
+ * Nombre a mostrar del clúster `index`: el que haya dado el usuario o,
+ * si no, el predeterminado del idioma
+ */
+export function getClusterName(index: number, locale: Locale, customNames: string[] = []): string {
+    return customNames[index]
+        || CLUSTER_NAMES[locale][index]
+        || `${locale === 'es' ? 'Clúster' : 'Cluster'} ${index + 1}`
+}
+
+const RISK_RECOMMENDATIONS: Record<RiskAnalysis['riskCategory'], LocalizedText> = {
+    low: {
+        es: 'Operación normal. Continuar monitoreo estándar.',
+        en: 'Normal operation. Continue standard monitoring.'
+    },
+    medium: {
+        es: 'Programar inspección preventiva en las próximas semanas.',
+        en: 'Schedule a preventive inspection in the coming weeks.'
+    },
+    high: {
+        es: 'Requiere inspección urgente. Considerar reducir carga operativa.',
+        en: 'Urgent inspection required. Consider reducing the operating load.'
+    },
+    critical: {
+        es: '⚠️ ACCIÓN INMEDIATA: Programar mantenimiento correctivo antes de falla.',
+        en: '⚠️ IMMEDIATE ACTION: Schedule corrective maintenance before failure.'
+    }
+}
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // FUNCIONES AUXILIARES
@@ -451,11 +488,13 @@ export function runFCM(data: DataPoint[], config: FCMConfig = DEFAULT_FCM_CONFIG
  * 
  * @param memberships - Membresías del punto [normal, alerta, falla]
  * @param clusterNames - Nombres de los clústeres
+ * @param locale - Idioma de la descripción y la recomendación
  * @returns Análisis de riesgo detallado
  */
 export function analyzeRisk(
     memberships: number[],
-    clusterNames: string[] = CLUSTER_NAMES
+    clusterNames: string[] = CLUSTER_NAMES[DEFAULT_LOCALE],
+    locale: Locale = DEFAULT_LOCALE
 ): RiskAnalysis {
     // Asumiendo que el último clúster es el de "Falla"
     const failureIndex = memberships.length - 1
@@ -469,29 +508,25 @@ export function analyzeRisk(
 
     // Determinar categoría de riesgo
     let riskCategory: 'low' | 'medium' | 'high' | 'critical'
-    let recommendation: string
 
     if (riskScore < 20) {
         riskCategory = 'low'
-        recommendation = 'Operación normal. Continuar monitoreo estándar.'
     } else if (riskScore < 45) {
         riskCategory = 'medium'
-        recommendation = 'Programar inspección preventiva en las próximas semanas.'
     } else if (riskScore < 70) {
         riskCategory = 'high'
-        recommendation = 'Requiere inspección urgente. Considerar reducir carga operativa.'
     } else {
         riskCategory = 'critical'
-        recommendation = '⚠️ ACCIÓN INMEDIATA: Programar mantenimiento correctivo antes de falla.'
     }
+    const recommendation = RISK_RECOMMENDATIONS[riskCategory][locale]
 
     // Encontrar clúster dominante
     const maxMembership = Math.max(...memberships)
     const dominantCluster = memberships.indexOf(maxMembership)
 
     // Generar descripción
-    const description = `Membresía: ${memberships.map((m, i) =>
-        `${clusterNames[i] || `C${i}`}: ${(m * 100).toFixed(1)}%`
+    const description = `${locale === 'es' ? 'Membresía' : 'Membership'}: ${memberships.map((m, i) =>
+        `${clusterNames[i] || `C${i}`}: ${formatNumber(m * 100, 1, locale)}%`
     ).join(', ')}`
 
     return {
@@ -0,0 +1,169 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - CONTROL EN LAZO CERRADO
+ * Corrección difusa de la dosis con la turbidez decantada medida
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * `runFuzzyInference` decide la dosis en lazo abierto (prealimentación): mira
+ * el agua cruda pero no la salida del decantador. Si el modelo de la planta
+ * y las reglas no coinciden, la turbidez decantada se aleja de la consigna
+ * sin que nadie lo corrija. Esta capa cierra el lazo con un controlador
+ * difuso incremental (tipo PI) que ajusta un factor multiplicativo de la
+ * dosis prealimentada:
+ *
+ *   error    e  = turbidez decantada - consigna           (NTU)
+ *   derivada de = variación del error                    (NTU/h)
+ *   d(trim)/dt = difuso(e, de) · MAX_TRIM_RATE           (1/h)
+ *   dosis aplicada = dosis prealimentada · (1 + trim)
+ *
+ * Error y derivada se normalizan a [-1, 1] y se describen con cinco
+ * términos (NG, NP, Z, PP, PG). La tabla de reglas es la clásica de un PI
+ * difuso: la corrección crece con el error y se frena si el error ya está
+ * bajando. Las salidas son singletons y se defuzzifica por media ponderada.
+ *
+ * El decantador tarda horas en responder, así que la corrección es lenta a
+ * propósito. El factor se satura en `TRIM_LIMITS` y al saturarse deja de
+ * integrar (sin "windup"). La corrección solo actúa sobre la dosis: si el
+ * error se debe a otra causa (agua fría con poco tiempo de floculación, pH
+ * fuera de ventana) el factor se queda en el límite sin alcanzar la consigna.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { calculateMembership } from '@/lib/fuzzy-logic'
+import type { FuzzyTerm } from '@/lib/fuzzy-system'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PARÁMETROS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type ControlMode = 'open' | 'closed'
+
+/** Consigna por defecto de la turbidez decantada (NTU) */
+export const DEFAULT_SETTLED_SETPOINT = 3
+
+/** Error que se considera "grande" (NTU) */
+const ERROR_SCALE = 3
+
+/** Variación del error que se considera "grande" (NTU/h) */
+const RATE_SCALE = 6
+
+/** Máxima variación del factor de corrección (1/h): ±40 % de la dosis por hora */
+const MAX_TRIM_RATE = 0.4
+
+/**
+ * Límites del factor de corrección (del 50 % al 150 % de la dosis). Por
+ * encima la dosis puede pasar a sobredosis: la eficacia cae, el error crece
+ * y el lazo seguiría subiendo la dosis.
+ */
+export const TRIM_LIMITS: [number, number] = [-0.5, 0.5]
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// BASE DE REGLAS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Términos del error y de su derivada, normalizados a [-1, 1]
+ */
+export const FEEDBACK_TERMS: FuzzyTerm[] = [
+    { name: 'NG', shape: 'trapezoidal', points: [-1, -1, -0.75, -0.4] },
+    { name: 'NP', shape: 'triangular', points: [-0.75, -0.4, 0] },
+    { name: 'Z', shape: 'triangular', points: [-0.4, 0, 0.4] },
+    { name: 'PP', shape: 'triangular', points: [0, 0.4, 0.75] },
+    { name: 'PG', shape: 'trapezoidal', points: [0.4, 0.75, 1, 1] }
+]
+
+/**
+ * Variación normalizada del factor de corrección para cada combinación de
+ * términos: filas = error (NG..PG), columnas = derivada (NG..PG)
+ */
+export const FEEDBACK_RULES: number[][] = [
+    //  NG     NP     Z      PP     PG      ← derivada
+    [-1.0, -1.0, -0.7, -0.4, 0.0], // error NG
+    [-1.0, -0.7, -0.4, 0.0, 0.4], // error NP
+    [-0.7, -0.4, 0.0, 0.4, 0.7], // error Z
+    [-0.4, 0.0, 0.4, 0.7, 1.0], // error PP
+    [0.0, 0.4, 0.7, 1.0, 1.0] // error PG
+]
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Estado del lazo de realimentación
+ */
+export interface FeedbackState {
+    /** Factor de corrección de la dosis (0 = sin corrección) */
+    trim: number
+    /** Error de la medida anterior (NTU); null antes de la primera */
+    lastError: number | null
+}
+
+export const INITIAL_FEEDBACK_STATE: FeedbackState = { trim: 0, lastError: null }
+
+export interface FeedbackStep {
+    state: FeedbackState
+    /** Error de seguimiento (NTU) */
+    error: number
+    /** Variación del error (NTU/h) */
+    errorRate: number
+    /** Variación del factor que decidió la capa difusa (1/h) */
+    trimRate: number
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONTROLADOR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function normalize(value: number, scale: number): number {
+    return Math.max(-1, Math.min(1, value / scale))
+}
+
+/**
+ * Inferencia de la capa difusa: variación normalizada del factor (-1 a 1)
+ */
+export function inferTrimRate(error: number, errorRate: number): number {
+    const errorDegrees = FEEDBACK_TERMS.map(term => calculateMembership(normalize(error, ERROR_SCALE), term))
+    const rateDegrees = FEEDBACK_TERMS.map(term => calculateMembership(normalize(errorRate, RATE_SCALE), term))
+
+    let weighted = 0
+    let total = 0
+    errorDegrees.forEach((errorDegree, i) => {
+        rateDegrees.forEach((rateDegree, j) => {
+            const strength = Math.min(errorDegree, rateDegree)
+            weighted += strength * FEEDBACK_RULES[i][j]
+            total += strength
+        })
+    })
+    return total > 0 ? weighted / total : 0
+}
+
+/**
+ * Actualiza el factor de corrección con la turbidez decantada medida tras
+ * `minutes` minutos de proceso
+ */
+export function stepFeedback(
+    state: FeedbackState,
+    settledTurbidity: number,
+    setpoint: number,
+    minutes: number
+): FeedbackStep {
+    const error = settledTurbidity - setpoint
+    const hours = minutes / 60
+    const errorRate = state.lastError !== null && hours > 0 ? (error - state.lastError) / hours : 0
+    const trimRate = inferTrimRate(error, errorRate) * MAX_TRIM_RATE
+
+    const [minTrim, maxTrim] = TRIM_LIMITS
+    const trim = Math.max(minTrim, Math.min(maxTrim, state.trim + trimRate * hours))
+
+    return { state: { trim, lastError: error }, error, errorRate, trimRate }
+}
+
+/**
+ * Dosis aplicada con la corrección, dentro del rango de la variable de dosis
+ */
+export function trimmedDose(feedForwardDose: number, trim: number, maxDose: number): number {
+    return Math.max(0, Math.min(maxDose, feedForwardDose * (1 + trim)))
+}
@@ -18,7 +18,8 @@
  * 2. FUNCIONES DE MEMBRESÍA:
  *    Cada término lingüístico tiene una función que determina el "grado de
  *    pertenencia" de un valor numérico a ese término (0 = no pertenece, 1 = pertenece).
- *    Usamos funciones trapezoidales y triangulares.
+ *    Soportamos trapecios, triángulos, gaussianas, campanas, sigmoides,
+ *    funciones lineales a trozos y singletons.
  * 
  * 3. REGLAS DIFUSAS:
  *    SI (condición1 Y condición2) ENTONCES (conclusión)
@@ -27,6 +28,21 @@
  * 4. DEFUZZIFICACIÓN:
  *    El proceso de convertir los resultados difusos de vuelta a valores numéricos
  *    concretos que la planta puede usar (ej: "Dosificar 45 mg/L de coagulante").
+ *    Las conclusiones recortadas se agregan sobre el universo de salida y se
+ *    integran numéricamente (centroide, bisector, media/menor/mayor de máximos).
+ * 
+ * 5. MODO TSK (Takagi-Sugeno-Kang):
+ *    Alternativa a Mamdani en la que cada regla concluye una función LINEAL de
+ *    las entradas (ej: dosis = a·turbidez + b·pH + c) y la salida es la media
+ *    de esas funciones ponderada por la activación de cada regla. Produce
+ *    superficies de control más suaves y es fácil de programar en un PLC.
+ * 
+ * 6. INCERTIDUMBRE (TIPO 2 DE INTERVALO):
+ *    Los términos de entrada pueden declarar una huella de incertidumbre que
+ *    representa el error del sensor. Con ella cada grado de membresía pasa a
+ *    ser un intervalo [inferior, superior] y, por reducción de tipo
+ *    (Karnik-Mendel), cada salida se acompaña de un intervalo [mín, máx].
+ *    La salida nominal se sigue calculando con las funciones principales.
  * 
  * PROCESO DE TRATAMIENTO:
  * -----------------------
@@ -35,10 +51,40 @@
  * 2. Tiempo de floculación (agitación lenta para formar flóculos)
  * 3. Corrección de pH si está fuera del rango óptimo (6.5-8.5)
  * 
+ * Las variables, términos, reglas y costos NO están fijos en este archivo:
+ * se leen de una definición serializable (`FuzzySystemDefinition`, ver
+ * `fuzzy-system.ts`). Si no se indica otra, se usa DEFAULT_FUZZY_SYSTEM.
+ * 
  * @author AquaFuzzy Analytics Team
  * @version 2.0
  */
 
+import {
+    AggregationMethod,
+    AntecedentExpression,
+    DEFAULT_FUZZY_SYSTEM,
+    DEFAULT_OPERATORS,
+    DefuzzificationMethod,
+    FuzzyOperators,
+    FuzzyRule,
+    FuzzySystemDefinition,
+    FuzzyTerm,
+    FuzzyVariable,
+    InferenceMode,
+    CoagulantId,
+    InputVariableId,
+    LinearConsequent,
+    OutputVariableId,
+    PhCorrectionLevel,
+    getRuleAntecedent,
+    getRuleWeight
+} from '@/lib/fuzzy-system'
+import { applyAggregation, applyHedges, applyImplication, reduceSNorm, reduceTNorm } from '@/lib/fuzzy-operators'
+import { IntervalWeightedPoint, karnikMendel } from '@/lib/type-reduction'
+import { coagulantCost, getCoagulant } from '@/lib/coagulants'
+import { PhCorrectionPlan, planPhCorrection } from '@/lib/ph-correction'
+import { DecisionExplanation, RiskReason, buildExplanation } from '@/lib/explanation'
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // TIPOS E INTERFACES
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -53,8 +99,37 @@ export interface WaterInputs {
     ph: number
     /** Temperatura en °C. Afecta la eficiencia del proceso */
     temperature: number
+    /** Alcalinidad en mg/L como CaCO₃. El alumbre la consume al hidrolizarse */
+    alkalinity: number
+    /** Conductividad eléctrica en µS/cm. Mide la fuerza iónica del agua */
+    conductivity: number
+    /** Color verdadero en unidades Pt-Co (UC). Indicador de materia orgánica natural (NOM) */
+    color: number
+    /** Caudal de agua cruda en m³/h. Fija el tiempo de residencia disponible */
+    flowRate: number
+}
+
+/**
+ * Valores de referencia de las entradas (agua superficial en condiciones normales).
+ * Completan las entradas que no indican los escenarios o archivos antiguos
+ * de solo turbidez, pH y temperatura; con ellos no se activa ninguna regla
+ * de alcalinidad, conductividad, color o caudal.
+ */
+export const DEFAULT_WATER_INPUTS: WaterInputs = {
+    turbidity: 50,
+    ph: 7.0,
+    temperature: 22,
+    alkalinity: 80,
+    conductivity: 350,
+    color: 5,
+    flowRate: 800
 }
 
+/**
+ * Nivel de riesgo del agua cruda
+ */
+export type RiskLevel = 'optimal' | 'caution' | 'critical'
+
 /**
  * Resultados del sistema de control difuso
  */
@@ -63,391 +138,455 @@ export interface FuzzyOutputs {
     coagulantDose: number
     /** Tiempo de floculación recomendado en minutos */
     flocculationTime: number
-    /** Nivel de corrección de pH necesaria */
-    phCorrection: 'none' | 'slight' | 'moderate' | 'intense'
-    /** Cantidad de cal o ácido para corrección de pH en mg/L */
+    /** Nivel de corrección de pH que piden las reglas */
+    phCorrection: PhCorrectionLevel
+    /** Dosis del reactivo de corrección de pH en mg/L (ver `phCorrectionPlan`) */
     phCorrectionAmount: number
-    /** Costo operativo estimado en $/m³ */
+    /** Sentido, reactivo, dosis y pH esperado de la corrección (modelo de titulación) */
+    phCorrectionPlan: PhCorrectionPlan
+    /** Costo operativo estimado en $/m³ (proceso + coagulante + corrección de pH) */
     operationalCost: number
+    /** Coagulante dosificado y su efecto sobre el agua */
+    coagulant: CoagulantUsage
     /** Score de calidad del agua resultante (0-100) */
     qualityScore: number
     /** Nivel de riesgo del estado actual */
-    riskLevel: 'optimal' | 'caution' | 'critical'
+    riskLevel: RiskLevel
     /** Eficiencia estimada del proceso (0-100%) */
     efficiency: number
-    /** Explicación textual de la decisión */
-    explanation: string
+    /** Explicación estructurada de la decisión (ver `renderExplanation`) */
+    explanation: DecisionExplanation
     /** Grados de activación de cada regla (para debugging/educación) */
     ruleActivations: RuleActivation[]
+    /** Método de defuzzificación aplicado */
+    defuzzificationMethod: DefuzzificationMethod
+    /** Conjuntos de salida agregados (curva μ sobre el universo) de dosis y tiempo */
+    aggregatedOutputs: Record<OutputVariableId, OutputCurvePoint[]>
+    /** Operadores difusos con los que se obtuvo este resultado */
+    operators: FuzzyOperators
+    /** Modo de inferencia con el que se obtuvo este resultado */
+    inferenceMode: InferenceMode
+    /** Intervalo de cada salida debido a la incertidumbre de las entradas (tipo 2) */
+    outputIntervals: Record<OutputVariableId, OutputInterval>
 }
 
 /**
- * Registro de activación de una regla difusa
+ * Resultado químico de la dosis recomendada para el coagulante seleccionado
  */
-export interface RuleActivation {
-    id: number
-    name: string
-    firingStrength: number
-    conditions: Record<string, string>
-    outputs: Record<string, string>
+export interface CoagulantUsage {
+    id: CoagulantId
+    /** El pH del agua cruda está dentro de la ventana eficaz del producto */
+    inPhWindow: boolean
+    /** Alcalinidad consumida por la dosis en mg/L CaCO₃ */
+    alkalinityConsumed: number
+    /** Alcalinidad que queda tras la coagulación en mg/L CaCO₃ */
+    residualAlkalinity: number
+    /** Costo del producto en $/m³ */
+    chemicalCost: number
 }
 
 /**
- * Definición de un conjunto difuso con función trapezoidal
- * Puntos: [a, b, c, d] donde:
- *   - Antes de 'a': membresía = 0
- *   - Entre 'a' y 'b': membresía crece linealmente de 0 a 1
- *   - Entre 'b' y 'c': membresía = 1 (plateau)
- *   - Entre 'c' y 'd': membresía decrece linealmente de 1 a 0
- *   - Después de 'd': membresía = 0
+ * Intervalo [mín, máx] de una salida obtenido por reducción de tipo
  */
-interface TrapezoidalSet {
-    name: string
-    points: [number, number, number, number]
+export interface OutputInterval {
+    min: number
+    max: number
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// CONJUNTOS DIFUSOS - VARIABLES DE ENTRADA
-// ═══════════════════════════════════════════════════════════════════════════════
-
 /**
- * TURBIDEZ (NTU)
- * La turbidez mide la cantidad de partículas suspendidas en el agua.
- * Rangos basados en estándares de la OMS y EPA:
- * - < 5 NTU: Agua potable aceptable
- * - 5-50 NTU: Agua superficial típica
- * - 50-500 NTU: Agua turbia (después de lluvias)
- * - > 500 NTU: Agua muy turbia (eventos extremos)
- */
-const TURBIDITY_SETS: TrapezoidalSet[] = [
-    { name: 'muy_baja', points: [0, 0, 5, 15] },      // 0-15 NTU
-    { name: 'baja', points: [10, 20, 40, 60] },   // 10-60 NTU
-    { name: 'media', points: [50, 80, 150, 200] }, // 50-200 NTU
-    { name: 'alta', points: [150, 250, 400, 500] }, // 150-500 NTU
-    { name: 'muy_alta', points: [400, 600, 1000, 1000] } // 400+ NTU
-]
-
-/**
- * pH (Escala 0-14)
- * El pH afecta la eficiencia del coagulante:
- * - Muy ácido (< 6): Corrosivo, requiere neutralización
- * - Ácido (6-6.5): Subóptimo para coagulación
- * - Neutro (6.5-8): Rango óptimo para Al2(SO4)3
- * - Alcalino (8-9): Subóptimo, puede requerir ajuste
- * - Muy alcalino (> 9): Ineficiente, requiere corrección
- */
-const PH_SETS: TrapezoidalSet[] = [
-    { name: 'muy_acido', points: [0, 0, 4, 5.5] },
-    { name: 'acido', points: [5, 5.5, 6, 6.5] },
-    { name: 'neutro', points: [6.2, 6.8, 7.5, 8.2] },
-    { name: 'alcalino', points: [7.8, 8.5, 9, 9.5] },
-    { name: 'muy_alcalino', points: [9, 10, 14, 14] }
-]
-
-/**
- * TEMPERATURA (°C)
- * La temperatura afecta la viscosidad del agua y la cinética de reacción:
- * - Fría (< 15°C): Coagulación más lenta, requiere más tiempo
- * - Normal (15-25°C): Condiciones óptimas
- * - Cálida (> 25°C): Reacciones más rápidas, cuidar sobredosificación
- */
-const TEMPERATURE_SETS: TrapezoidalSet[] = [
-    { name: 'fria', points: [0, 0, 10, 18] },
-    { name: 'normal', points: [15, 20, 25, 28] },
-    { name: 'calida', points: [25, 30, 40, 40] }
-]
-
-// ═══════════════════════════════════════════════════════════════════════════════
-// CONJUNTOS DIFUSOS - VARIABLES DE SALIDA
-// ═══════════════════════════════════════════════════════════════════════════════
+ * Punto de la curva de salida agregada
+ */
+export interface OutputCurvePoint {
+    x: number
+    membership: number
+}
 
 /**
- * DOSIS DE COAGULANTE (mg/L de Sulfato de Aluminio)
- * Dosificación típica en plantas de tratamiento:
- * - 5-15 mg/L: Agua casi limpia
- * - 15-30 mg/L: Turbidez moderada
- * - 30-60 mg/L: Turbidez alta
- * - 60-100 mg/L: Eventos extremos (tormentas)
- */
-const DOSE_SETS: TrapezoidalSet[] = [
-    { name: 'muy_baja', points: [0, 0, 5, 12] },
-    { name: 'baja', points: [8, 15, 22, 28] },
-    { name: 'media', points: [25, 35, 45, 55] },
-    { name: 'alta', points: [50, 60, 75, 85] },
-    { name: 'muy_alta', points: [80, 90, 100, 100] }
-]
-
-/**
- * TIEMPO DE FLOCULACIÓN (minutos)
- * Tiempo de agitación lenta para formación de flóculos:
- * - 10-15 min: Agua limpia, flóculos rápidos
- * - 15-25 min: Condiciones normales
- * - 25-40 min: Alta turbidez, requiere más tiempo
- * - 40-60 min: Condiciones extremas
- */
-const TIME_SETS: TrapezoidalSet[] = [
-    { name: 'muy_corto', points: [0, 0, 8, 12] },
-    { name: 'corto', points: [10, 14, 18, 22] },
-    { name: 'medio', points: [20, 25, 32, 38] },
-    { name: 'largo', points: [35, 42, 50, 55] },
-    { name: 'muy_largo', points: [50, 55, 60, 60] }
-]
+ * Registro de activación de una regla difusa
+ */
+export interface RuleActivation {
+    id: number
+    name: string
+    /** Activación efectiva: la del antecedente multiplicada por el peso */
+    firingStrength: number
+    /** Activación del antecedente antes de aplicar el peso */
+    rawFiringStrength: number
+    /** Peso de la regla (0-1) */
+    weight: number
+    conditions: Record<string, string>
+    /** Antecedente compuesto de la regla (si no usa condiciones simples) */
+    antecedent?: AntecedentExpression
+    outputs: Record<string, string>
+    /** Salida de los consecuentes lineales de la regla (solo en modo TSK) */
+    tskOutputs?: Record<OutputVariableId, number>
+}
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // FUNCIONES DE MEMBRESÍA
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * Calcula el grado de membresía de un valor a un conjunto trapezoidal
+ * Calcula el grado de membresía de un valor a un término lingüístico
+ * 
+ * Soporta todas las formas de `MembershipShape`: trapezoidal (por defecto),
+ * triangular, gaussiana, campana generalizada, sigmoide abierta, lineal a
+ * trozos y singleton.
  * 
  * @param value - Valor numérico a evaluar
- * @param set - Conjunto difuso trapezoidal
+ * @param term - Término lingüístico con su función de membresía
  * @returns Grado de membresía entre 0 y 1
  * 
  * @example
- * // Para turbidez = 100 NTU y conjunto 'media' [50, 80, 150, 200]
+ * // Para turbidez = 100 NTU y término 'media' [50, 80, 150, 200]
  * // 100 está en el plateau (entre 80 y 150), retorna 1.0
- * calculateMembership(100, TURBIDITY_SETS[2]) // => 1.0
+ * calculateMembership(100, { name: 'media', points: [50, 80, 150, 200] }) // => 1.0
  */
-function calculateMembership(value: number, set: TrapezoidalSet): number {
-    const [a, b, c, d] = set.points
+export function calculateMembership(value: number, term: FuzzyTerm): number {
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal': {
+            const [a, b, c, d] = term.points
+            // El plateau se evalúa primero para que los "hombros" (a = b o c = d)
+            // valgan 1 en el extremo del universo
+            if (value >= b && value <= c) return 1
+            if (value <= a || value >= d) return 0
+            if (value < b) return (value - a) / (b - a)
+            return (d - value) / (d - c)
+        }
+        case 'triangular': {
+            const [a, b, c] = term.points
+            if (value === b) return 1
+            if (value <= a || value >= c) return 0
+            return value < b ? (value - a) / (b - a) : (c - value) / (c - b)
+        }
+        case 'gaussian':
+            return Math.exp(-Math.pow(value - term.mean, 2) / (2 * term.sigma * term.sigma))
+        case 'bell':
+            return 1 / (1 + Math.pow(Math.abs((value - term.center) / term.width), 2 * term.slope))
+        case 'sigmoid': {
+            const sign = term.direction === 'right' ? 1 : -1
+            return 1 / (1 + Math.exp(-sign * term.slope * (value - term.center)))
+        }
+        case 'piecewise': {
+            const points = term.points
+            if (value <= points[0][0]) return points[0][1]
+            for (let i = 1; i < points.length; i++) {
+                const [x0, y0] = points[i - 1]
+                const [x1, y1] = points[i]
+                if (value <= x1) {
+                    return x1 === x0 ? y1 : y0 + (y1 - y0) * (value - x0) / (x1 - x0)
+                }
+            }
+            return points[points.length - 1][1]
+        }
+        case 'singleton':
+            return value === term.value ? 1 : 0
+    }
+}
 
-    if (value <= a || value >= d) return 0
-    if (value >= b && value <= c) return 1
-    if (value > a && value < b) return (value - a) / (b - a)
-    if (value > c && value < d) return (d - value) / (d - c)
+/**
+ * Punto representativo de un término (usado por la defuzzificación y las gráficas)
+ * 
+ * - Trapecio: centro del plateau
+ * - Triángulo: vértice
+ * - Gaussiana / campana: centro
+ * - Sigmoide: punto medio entre el centro y el extremo abierto del universo
+ * - Lineal a trozos: media de las abscisas de máxima membresía
+ * - Singleton: su valor
+ */
+export function getTermCenter(term: FuzzyTerm, range: [number, number]): number {
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal':
+            return (term.points[1] + term.points[2]) / 2
+        case 'triangular':
+            return term.points[1]
+        case 'gaussian':
+            return term.mean
+        case 'bell':
+            return term.center
+        case 'sigmoid':
+            return (term.center + (term.direction === 'right' ? range[1] : range[0])) / 2
+        case 'piecewise': {
+            const peak = Math.max(...term.points.map(p => p[1]))
+            const peakXs = term.points.filter(p => p[1] === peak).map(p => p[0])
+            return peakXs.reduce((sum, x) => sum + x, 0) / peakXs.length
+        }
+        case 'singleton':
+            return term.value
+    }
+}
 
-    return 0
+/**
+ * Soporte de un término: intervalo del universo donde su membresía no es
+ * despreciable. Las funciones sin soporte finito (gaussiana, campana,
+ * sigmoide) se recortan a ±3 anchos.
+ */
+export function getTermSupport(term: FuzzyTerm, range: [number, number]): [number, number] {
+    const clamp = ([min, max]: [number, number]): [number, number] => [
+        Math.max(range[0], Math.min(range[1], min)),
+        Math.max(range[0], Math.min(range[1], max))
+    ]
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal':
+            return clamp([term.points[0], term.points[3]])
+        case 'triangular':
+            return clamp([term.points[0], term.points[2]])
+        case 'gaussian':
+            return clamp([term.mean - 3 * term.sigma, term.mean + 3 * term.sigma])
+        case 'bell':
+            return clamp([term.center - 3 * term.width, term.center + 3 * term.width])
+        case 'sigmoid':
+            return term.direction === 'right'
+                ? clamp([term.center - 3 / term.slope, range[1]])
+                : clamp([range[0], term.center + 3 / term.slope])
+        case 'piecewise': {
+            // Fuera de los puntos extremos la función mantiene su valor
+            const points = term.points
+            const first = points.findIndex(p => p[1] > 0)
+            if (first < 0) return [...range]
+            const last = points.length - 1 - [...points].reverse().findIndex(p => p[1] > 0)
+            return clamp([
+                first === 0 ? range[0] : points[first - 1][0],
+                last === points.length - 1 ? range[1] : points[last + 1][0]
+            ])
+        }
+        case 'singleton':
+            return clamp([term.value, term.value])
+    }
 }
 
 /**
- * Obtiene todos los grados de membresía de un valor para un conjunto de sets
+ * Grados inferior y superior de un término tipo 2 de intervalo
+ * 
+ * Para funciones unimodales el máximo de μ en [x - spread, x + spread] está
+ * en un extremo de la ventana o en el centro del término, y el mínimo en un
+ * extremo. Sin huella de incertidumbre ambos grados coinciden con el principal.
+ * 
+ * @param value - Valor numérico a evaluar
+ * @param term - Término (con `footprint` opcional)
+ * @param range - Universo de la variable (para localizar el centro del término)
+ */
+export function calculateMembershipBounds(
+    value: number,
+    term: FuzzyTerm,
+    range: [number, number]
+): { lower: number; upper: number } {
+    const principal = calculateMembership(value, term)
+    if (!term.footprint || term.footprint.spread === 0 || term.shape === 'singleton') {
+        const lowerHeight = term.footprint?.lowerHeight ?? 1
+        return { lower: principal * lowerHeight, upper: principal }
+    }
+
+    const { spread, lowerHeight = 1 } = term.footprint
+    const left = calculateMembership(value - spread, term)
+    const right = calculateMembership(value + spread, term)
+    const center = getTermCenter(term, range)
+    const peak = Math.abs(center - value) <= spread ? calculateMembership(center, term) : 0
+
+    return {
+        lower: lowerHeight * Math.min(principal, left, right),
+        upper: Math.max(principal, left, right, peak)
+    }
+}
+
+/**
+ * Obtiene todos los grados de membresía de un valor para los términos de una variable
  */
-function getMemberships(value: number, sets: TrapezoidalSet[]): Map<string, number> {
+function getMemberships(value: number, variable: FuzzyVariable): Map<string, number> {
     const memberships = new Map<string, number>()
-    for (const set of sets) {
-        memberships.set(set.name, calculateMembership(value, set))
+    for (const term of variable.terms) {
+        memberships.set(term.name, calculateMembership(value, term))
     }
     return memberships
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// BASE DE REGLAS DIFUSAS
-// ═══════════════════════════════════════════════════════════════════════════════
-
 /**
- * Las reglas difusas codifican el conocimiento experto de un operador de planta.
- * Cada regla tiene:
- * - Condiciones (antecedentes): combinaciones de estados de las variables de entrada
- * - Conclusiones (consecuentes): acciones recomendadas
+ * Fuzzifica todas las entradas declaradas en la definición
  * 
- * El grado de activación de una regla es el MÍNIMO de los grados de membresía
- * de todas sus condiciones (operador AND difuso de Mamdani).
+ * @returns Mapa (id_variable -> (nombre_término -> grado))
  */
-
-interface FuzzyRule {
-    id: number
-    name: string
-    conditions: {
-        turbidity?: string
-        ph?: string
-        temperature?: string
+function fuzzifyInputs(inputs: WaterInputs, system: FuzzySystemDefinition): Map<string, Map<string, number>> {
+    const fuzzified = new Map<string, Map<string, number>>()
+    for (const variable of system.inputs) {
+        const value = inputs[variable.id as InputVariableId]
+        fuzzified.set(variable.id, getMemberships(value, variable))
     }
-    outputs: {
-        dose: string
-        time: string
-        phCorrection: 'none' | 'slight' | 'moderate' | 'intense'
+    return fuzzified
+}
+
+/**
+ * Fuzzifica las entradas con los grados inferior y superior (tipo 2)
+ * 
+ * @returns Mapa (id_variable -> (nombre_término -> { lower, upper }))
+ */
+function fuzzifyInputBounds(
+    inputs: WaterInputs,
+    system: FuzzySystemDefinition
+): Map<string, Map<string, { lower: number; upper: number }>> {
+    const fuzzified = new Map<string, Map<string, { lower: number; upper: number }>>()
+    for (const variable of system.inputs) {
+        const value = inputs[variable.id as InputVariableId]
+        const bounds = new Map<string, { lower: number; upper: number }>()
+        for (const term of variable.terms) {
+            bounds.set(term.name, calculateMembershipBounds(value, term, variable.range))
+        }
+        fuzzified.set(variable.id, bounds)
     }
-    baseCost: number // Costo base asociado a esta regla ($/m³)
-}
-
-const FUZZY_RULES: FuzzyRule[] = [
-    // ═══════════════════════════════════════════════════════════════
-    // REGLAS PARA AGUA LIMPIA (Turbidez muy baja o baja)
-    // ═══════════════════════════════════════════════════════════════
-    {
-        id: 1,
-        name: "Agua cristalina - Condiciones óptimas",
-        conditions: { turbidity: 'muy_baja', ph: 'neutro' },
-        outputs: { dose: 'muy_baja', time: 'muy_corto', phCorrection: 'none' },
-        baseCost: 0.05
-    },
-    {
-        id: 2,
-        name: "Agua limpia - pH ácido leve",
-        conditions: { turbidity: 'muy_baja', ph: 'acido' },
-        outputs: { dose: 'baja', time: 'corto', phCorrection: 'slight' },
-        baseCost: 0.08
-    },
-    {
-        id: 3,
-        name: "Agua limpia - pH alcalino leve",
-        conditions: { turbidity: 'muy_baja', ph: 'alcalino' },
-        outputs: { dose: 'baja', time: 'corto', phCorrection: 'slight' },
-        baseCost: 0.08
-    },
-    {
-        id: 4,
-        name: "Agua baja turbidez - Condiciones normales",
-        conditions: { turbidity: 'baja', ph: 'neutro' },
-        outputs: { dose: 'baja', time: 'corto', phCorrection: 'none' },
-        baseCost: 0.10
-    },
-
-    // ═══════════════════════════════════════════════════════════════
-    // REGLAS PARA TURBIDEZ MEDIA (Condiciones típicas)
-    // ═══════════════════════════════════════════════════════════════
-    {
-        id: 5,
-        name: "Turbidez media - pH neutro óptimo",
-        conditions: { turbidity: 'media', ph: 'neutro' },
-        outputs: { dose: 'media', time: 'medio', phCorrection: 'none' },
-        baseCost: 0.18
-    },
-    {
-        id: 6,
-        name: "Turbidez media - pH ácido",
-        conditions: { turbidity: 'media', ph: 'acido' },
-        outputs: { dose: 'media', time: 'medio', phCorrection: 'moderate' },
-        baseCost: 0.22
-    },
-    {
-        id: 7,
-        name: "Turbidez media - pH alcalino",
-        conditions: { turbidity: 'media', ph: 'alcalino' },
-        outputs: { dose: 'alta', time: 'medio', phCorrection: 'slight' },
-        baseCost: 0.24
-    },
-    {
-        id: 8,
-        name: "Turbidez media - Agua fría",
-        conditions: { turbidity: 'media', temperature: 'fria' },
-        outputs: { dose: 'alta', time: 'largo', phCorrection: 'none' },
-        baseCost: 0.25
-    },
-
-    // ═══════════════════════════════════════════════════════════════
-    // REGLAS PARA TURBIDEZ ALTA (Post-lluvia típico)
-    // ═══════════════════════════════════════════════════════════════
-    {
-        id: 9,
-        name: "Alta turbidez - pH neutro",
-        conditions: { turbidity: 'alta', ph: 'neutro' },
-        outputs: { dose: 'alta', time: 'largo', phCorrection: 'none' },
-        baseCost: 0.35
-    },
-    {
-        id: 10,
-        name: "Alta turbidez - pH ácido",
-        conditions: { turbidity: 'alta', ph: 'acido' },
-        outputs: { dose: 'alta', time: 'largo', phCorrection: 'moderate' },
-        baseCost: 0.42
-    },
-    {
-        id: 11,
-        name: "Alta turbidez - pH alcalino",
-        conditions: { turbidity: 'alta', ph: 'alcalino' },
-        outputs: { dose: 'muy_alta', time: 'largo', phCorrection: 'moderate' },
-        baseCost: 0.45
-    },
-    {
-        id: 12,
-        name: "Alta turbidez - Agua fría",
-        conditions: { turbidity: 'alta', temperature: 'fria' },
-        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'none' },
-        baseCost: 0.48
-    },
-
-    // ═══════════════════════════════════════════════════════════════
-    // REGLAS PARA TURBIDEZ MUY ALTA (Emergencia - Tormentas)
-    // ═══════════════════════════════════════════════════════════════
-    {
-        id: 13,
-        name: "Emergencia - Turbidez extrema, pH neutro",
-        conditions: { turbidity: 'muy_alta', ph: 'neutro' },
-        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'none' },
-        baseCost: 0.55
-    },
-    {
-        id: 14,
-        name: "Emergencia - Turbidez extrema, pH ácido severo",
-        conditions: { turbidity: 'muy_alta', ph: 'muy_acido' },
-        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'intense' },
-        baseCost: 0.75
-    },
-    {
-        id: 15,
-        name: "Emergencia - Turbidez extrema, pH alcalino severo",
-        conditions: { turbidity: 'muy_alta', ph: 'muy_alcalino' },
-        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'intense' },
-        baseCost: 0.72
-    },
-
-    // ═══════════════════════════════════════════════════════════════
-    // REGLAS PARA pH EXTREMO (Vertidos industriales)
-    // ═══════════════════════════════════════════════════════════════
-    {
-        id: 16,
-        name: "Vertido ácido - Turbidez baja",
-        conditions: { turbidity: 'baja', ph: 'muy_acido' },
-        outputs: { dose: 'media', time: 'medio', phCorrection: 'intense' },
-        baseCost: 0.38
-    },
-    {
-        id: 17,
-        name: "Vertido alcalino - Turbidez baja",
-        conditions: { turbidity: 'baja', ph: 'muy_alcalino' },
-        outputs: { dose: 'media', time: 'medio', phCorrection: 'intense' },
-        baseCost: 0.35
-    },
-    {
-        id: 18,
-        name: "Vertido ácido - Turbidez media",
-        conditions: { turbidity: 'media', ph: 'muy_acido' },
-        outputs: { dose: 'alta', time: 'largo', phCorrection: 'intense' },
-        baseCost: 0.52
-    },
-
-    // ═══════════════════════════════════════════════════════════════
-    // REGLAS CON TEMPERATURA
-    // ═══════════════════════════════════════════════════════════════
-    {
-        id: 19,
-        name: "Agua caliente - Turbidez baja",
-        conditions: { turbidity: 'baja', temperature: 'calida' },
-        outputs: { dose: 'baja', time: 'muy_corto', phCorrection: 'none' },
-        baseCost: 0.08
-    },
-    {
-        id: 20,
-        name: "Agua caliente - Turbidez alta",
-        conditions: { turbidity: 'alta', temperature: 'calida' },
-        outputs: { dose: 'media', time: 'medio', phCorrection: 'none' },
-        baseCost: 0.28
+    return fuzzified
+}
+
+/**
+ * Busca una variable de salida por id (la validación garantiza que existe)
+ */
+function getOutputVariable(system: FuzzySystemDefinition, id: OutputVariableId): FuzzyVariable {
+    const variable = system.outputs.find(v => v.id === id)
+    if (!variable) {
+        throw new Error(`La definición no contiene la variable de salida '${id}'`)
     }
-]
+    return variable
+}
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // SISTEMA DE INFERENCIA DIFUSA
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * Defuzzifica un conjunto de salidas difusas usando el método del centroide
- * (Center of Area - COA)
+ * Número de muestras usadas para discretizar el universo de cada salida
+ */
+const AGGREGATION_RESOLUTION = 201
+
+/**
+ * Activaciones de las reglas que concluyen cada término de una salida
+ * (nombre_término -> una activación por regla)
+ */
+export type TermActivations = Map<string, number[]>
+
+/**
+ * Activación conjunta de un término: las activaciones de sus reglas
+ * combinadas con el operador de agregación
+ */
+function combinedActivation(activations: TermActivations, termName: string, aggregation: AggregationMethod): number {
+    return (activations.get(termName) ?? []).reduce((acc, activation) => applyAggregation(aggregation, acc, activation), 0)
+}
+
+/**
+ * Añade la activación de una regla a las de su término consecuente
+ */
+function addActivation(activations: TermActivations, termName: string, activation: number): void {
+    const list = activations.get(termName)
+    if (list) list.push(activation)
+    else activations.set(termName, [activation])
+}
+
+/**
+ * Agrega las conclusiones de todas las reglas en un único conjunto difuso
+ * de salida, muestreado sobre el universo de discurso (Mamdani):
+ * 
+ *   μ_agregado(x) = AGREGACIÓN_reglas( IMPLICACIÓN(activación_regla, μ_consecuente(x)) )
+ * 
+ * Cada regla aporta su propio conjunto implicado, también cuando varias
+ * concluyen el mismo término: con suma acotada dos reglas sobre "media"
+ * suman sus alturas. Con los operadores clásicos cada consecuente se
+ * "recorta" a la altura de la activación (mínimo) y los recortes se unen
+ * con el máximo. Los singletons se colocan en la muestra más cercana de
+ * la malla.
+ * 
+ * @param activations - Activaciones de las reglas de cada término
+ * @param variable - Variable de salida con sus términos
+ * @param operators - Implicación y agregación a aplicar
+ * @returns Curva agregada [{ x, membership }] con AGGREGATION_RESOLUTION puntos
+ */
+export function aggregateOutput(
+    activations: TermActivations,
+    variable: FuzzyVariable,
+    operators: FuzzyOperators = DEFAULT_OPERATORS
+): OutputCurvePoint[] {
+    const [min, max] = variable.range
+    const step = (max - min) / (AGGREGATION_RESOLUTION - 1)
+    const curve: OutputCurvePoint[] = Array.from({ length: AGGREGATION_RESOLUTION }, (_, i) => ({
+        x: min + step * i,
+        membership: 0
+    }))
+
+    for (const term of variable.terms) {
+        for (const activation of activations.get(term.name) ?? []) {
+            if (activation <= 0) continue
+
+            if (term.shape === 'singleton') {
+                const index = Math.round((term.value - min) / step)
+                if (index >= 0 && index < curve.length) {
+                    const implied = applyImplication(operators.implication, activation, 1)
+                    curve[index].membership = applyAggregation(operators.aggregation, curve[index].membership, implied)
+                }
+                continue
+            }
+
+            for (const point of curve) {
+                const implied = applyImplication(operators.implication, activation, calculateMembership(point.x, term))
+                point.membership = applyAggregation(operators.aggregation, point.membership, implied)
+            }
+        }
+    }
+
+    return curve
+}
+
+/**
+ * Convierte la curva agregada en un valor numérico según el método elegido
+ * 
+ * - centroid: Σ x·μ(x) / Σ μ(x)
+ * - bisector: x tal que el área a su izquierda es la mitad del área total
+ * - mom / som / lom: media / menor / mayor de las abscisas de altura máxima
+ * 
+ * @returns Valor defuzzificado, o 0 si ninguna regla aporta área
+ */
+export function defuzzifyCurve(curve: OutputCurvePoint[], method: Exclude<DefuzzificationMethod, 'weighted_average'>): number {
+    const totalArea = curve.reduce((sum, p) => sum + p.membership, 0)
+    if (totalArea <= 0) return 0
+
+    switch (method) {
+        case 'centroid':
+            return curve.reduce((sum, p) => sum + p.x * p.membership, 0) / totalArea
+        case 'bisector': {
+            let accumulated = 0
+            for (const point of curve) {
+                accumulated += point.membership
+                if (accumulated >= totalArea / 2) return point.x
+            }
+            return curve[curve.length - 1].x
+        }
+        case 'mom':
+        case 'som':
+        case 'lom': {
+            const height = Math.max(...curve.map(p => p.membership))
+            const maxima = curve.filter(p => p.membership >= height - 1e-9).map(p => p.x)
+            if (method === 'som') return maxima[0]
+            if (method === 'lom') return maxima[maxima.length - 1]
+            return maxima.reduce((sum, x) => sum + x, 0) / maxima.length
+        }
+    }
+}
+
+/**
+ * Defuzzificación por media ponderada de los centros de término
+ * (método rápido; ignora la forma y el ancho de los conjuntos recortados).
+ * El peso de cada término es la agregación de las activaciones de sus reglas.
  * 
- * @param activations - Mapa de (nombre_conjunto -> grado_activación)
- * @param sets - Conjuntos difusos de la variable de salida
+ * @param activations - Activaciones de las reglas de cada término
+ * @param variable - Variable de salida con sus términos
+ * @param aggregation - Operador que combina las reglas de un mismo término
  * @returns Valor numérico defuzzificado
  */
-function defuzzify(activations: Map<string, number>, sets: TrapezoidalSet[]): number {
+function weightedAverageDefuzzify(activations: TermActivations, variable: FuzzyVariable, aggregation: AggregationMethod): number {
     let numerator = 0
     let denominator = 0
 
-    for (const set of sets) {
-        const activation = activations.get(set.name) || 0
+    for (const term of variable.terms) {
+        const activation = combinedActivation(activations, term.name, aggregation)
         if (activation > 0) {
-            // Centro del trapecio
-            const center = (set.points[1] + set.points[2]) / 2
+            const center = getTermCenter(term, variable.range)
             numerator += center * activation
             denominator += activation
         }
@@ -456,53 +595,317 @@ function defuzzify(activations: Map<string, number>, sets: TrapezoidalSet[]): nu
     return denominator > 0 ? numerator / denominator : 0
 }
 
+/**
+ * Defuzzifica una variable de salida: agrega las conclusiones y aplica el
+ * método configurado
+ */
+function defuzzify(
+    activations: TermActivations,
+    variable: FuzzyVariable,
+    method: DefuzzificationMethod,
+    operators: FuzzyOperators
+): { value: number; curve: OutputCurvePoint[] } {
+    const curve = aggregateOutput(activations, variable, operators)
+    const value = method === 'weighted_average'
+        ? weightedAverageDefuzzify(activations, variable, operators.aggregation)
+        : defuzzifyCurve(curve, method)
+    return { value, curve }
+}
+
+/**
+ * Grado de un antecedente compuesto: hedges y NOT sobre cada condición,
+ * T-norma para AND, S-norma para OR y complemento para NOT
+ */
+function evaluateAntecedent(
+    expression: AntecedentExpression,
+    inputMemberships: Map<string, Map<string, number>>,
+    operators: FuzzyOperators
+): number {
+    switch (expression.op) {
+        case 'is': {
+            const degree = applyHedges(expression.hedges, inputMemberships.get(expression.variable)?.get(expression.term) || 0)
+            return expression.negated ? 1 - degree : degree
+        }
+        case 'and':
+            // Sin condiciones la regla no se activa (igual que con `conditions` vacío)
+            if (expression.operands.length === 0) return 0
+            return reduceTNorm(operators.and, expression.operands.map(e => evaluateAntecedent(e, inputMemberships, operators)))
+        case 'or':
+            return reduceSNorm(operators.or, expression.operands.map(e => evaluateAntecedent(e, inputMemberships, operators)))
+        case 'not':
+            return 1 - evaluateAntecedent(expression.operand, inputMemberships, operators)
+    }
+}
+
+/**
+ * Intervalo [inferior, superior] de un antecedente (tipo 2). Hedges,
+ * T-normas y S-normas son crecientes, así que se aplican a cada extremo;
+ * el complemento los intercambia.
+ */
+function evaluateAntecedentBounds(
+    expression: AntecedentExpression,
+    inputBounds: Map<string, Map<string, { lower: number; upper: number }>>,
+    operators: FuzzyOperators
+): { lower: number; upper: number } {
+    switch (expression.op) {
+        case 'is': {
+            const bounds = inputBounds.get(expression.variable)?.get(expression.term) ?? { lower: 0, upper: 0 }
+            const lower = applyHedges(expression.hedges, bounds.lower)
+            const upper = applyHedges(expression.hedges, bounds.upper)
+            return expression.negated ? { lower: 1 - upper, upper: 1 - lower } : { lower, upper }
+        }
+        case 'and':
+        case 'or': {
+            if (expression.operands.length === 0) return { lower: 0, upper: 0 }
+            const operands = expression.operands.map(e => evaluateAntecedentBounds(e, inputBounds, operators))
+            const reduce = (values: number[]) => expression.op === 'and'
+                ? reduceTNorm(operators.and, values)
+                : reduceSNorm(operators.or, values)
+            return { lower: reduce(operands.map(b => b.lower)), upper: reduce(operands.map(b => b.upper)) }
+        }
+        case 'not': {
+            const bounds = evaluateAntecedentBounds(expression.operand, inputBounds, operators)
+            return { lower: 1 - bounds.upper, upper: 1 - bounds.lower }
+        }
+    }
+}
+
+/**
+ * Grado de activación de una regla: T-norma (AND) de los grados de
+ * membresía de sus condiciones, o el grado de su antecedente compuesto.
+ * No incluye el peso de la regla.
+ *
+ * Recibe las membresías ya calculadas para que el entrenamiento ANFIS
+ * pueda reevaluar las reglas cambiando un solo término.
+ */
+export function ruleFiringStrength(
+    rule: FuzzyRule,
+    inputMemberships: Map<string, Map<string, number>>,
+    operators: FuzzyOperators
+): number {
+    if (rule.antecedent) return evaluateAntecedent(rule.antecedent, inputMemberships, operators)
+    const conditions: number[] = []
+    for (const [variableId, termName] of Object.entries(rule.conditions)) {
+        if (!termName) continue
+        conditions.push(inputMemberships.get(variableId)?.get(termName) || 0)
+    }
+    return conditions.length > 0 ? reduceTNorm(operators.and, conditions) : 0
+}
+
+/**
+ * Activación de cada regla habilitada para unas entradas, sin agregar ni
+ * defuzzificar. Mucho más rápido que `runFuzzyInference` cuando solo
+ * interesa qué reglas se disparan (análisis de cobertura, barridos).
+ * La activación ya está multiplicada por el peso de cada regla.
+ */
+export function computeRuleFiringStrengths(
+    inputs: WaterInputs,
+    system: FuzzySystemDefinition = DEFAULT_FUZZY_SYSTEM
+): Array<{ rule: FuzzyRule; strength: number }> {
+    const operators = system.operators ?? DEFAULT_OPERATORS
+    const inputMemberships = fuzzifyInputs(inputs, system)
+    return system.rules
+        .filter(rule => rule.enabled !== false)
+        .map(rule => ({ rule, strength: ruleFiringStrength(rule, inputMemberships, operators) * getRuleWeight(rule) }))
+}
+
+/**
+ * Intervalo de una salida Mamdani por reducción de tipo Karnik-Mendel
+ * 
+ * Se agregan por separado las activaciones inferiores y superiores de los
+ * términos. Con media ponderada se usa el centro de conjuntos (centros de
+ * término); con el resto de métodos, el centroide de la curva muestreada.
+ * Si nada se activa, el intervalo colapsa en el valor nominal.
+ */
+function mamdaniInterval(
+    lowerActivations: TermActivations,
+    upperActivations: TermActivations,
+    variable: FuzzyVariable,
+    method: DefuzzificationMethod,
+    operators: FuzzyOperators,
+    nominal: number
+): OutputInterval {
+    let points: IntervalWeightedPoint[]
+    if (method === 'weighted_average') {
+        points = variable.terms.map(term => ({
+            x: getTermCenter(term, variable.range),
+            lower: combinedActivation(lowerActivations, term.name, operators.aggregation),
+            upper: combinedActivation(upperActivations, term.name, operators.aggregation)
+        }))
+    } else {
+        const lowerCurve = aggregateOutput(lowerActivations, variable, operators)
+        const upperCurve = aggregateOutput(upperActivations, variable, operators)
+        points = upperCurve.map((point, i) => ({
+            x: point.x,
+            lower: lowerCurve[i].membership,
+            upper: point.membership
+        }))
+    }
+    return karnikMendel(points) ?? { min: nominal, max: nominal }
+}
+
+/**
+ * Consecuente lineal de una regla para el modo TSK. Si la regla no define
+ * uno, se usa una constante igual al centro de su término Mamdani (TSK de
+ * orden cero), de modo que cualquier base de reglas puede evaluarse en TSK.
+ */
+export function getTskConsequent(
+    rule: FuzzyRule,
+    outputId: OutputVariableId,
+    system: FuzzySystemDefinition
+): LinearConsequent {
+    const consequent = rule.tsk?.[outputId]
+    if (consequent) return consequent
+
+    const variable = getOutputVariable(system, outputId)
+    const term = variable.terms.find(t => t.name === rule.outputs[outputId])
+    return { constant: term ? getTermCenter(term, variable.range) : 0, coefficients: {} }
+}
+
+/**
+ * Evalúa un consecuente lineal: constant + Σ coefficients[v] · inputs[v]
+ */
+export function evaluateLinearConsequent(consequent: LinearConsequent, inputs: WaterInputs): number {
+    let value = consequent.constant
+    for (const [variableId, coefficient] of Object.entries(consequent.coefficients)) {
+        value += (coefficient ?? 0) * inputs[variableId as InputVariableId]
+    }
+    return value
+}
+
+/**
+ * Salida TSK como "curva": cada regla aporta un singleton en su valor de
+ * salida con altura igual a su activación (se conserva la mayor si dos
+ * reglas caen en la misma muestra). Permite visualizar el modo TSK con
+ * los mismos gráficos que la agregación Mamdani.
+ */
+function tskOutputCurve(contributions: Array<{ value: number; weight: number }>, variable: FuzzyVariable): OutputCurvePoint[] {
+    const [min, max] = variable.range
+    const step = (max - min) / (AGGREGATION_RESOLUTION - 1)
+    const curve: OutputCurvePoint[] = Array.from({ length: AGGREGATION_RESOLUTION }, (_, i) => ({
+        x: min + step * i,
+        membership: 0
+    }))
+    for (const { value, weight } of contributions) {
+        const index = Math.round((Math.min(max, Math.max(min, value)) - min) / step)
+        curve[index].membership = Math.max(curve[index].membership, weight)
+    }
+    return curve
+}
+
+/**
+ * Media ponderada de las salidas de las reglas (defuzzificación TSK),
+ * acotada al universo de la variable de salida
+ */
+function tskWeightedAverage(contributions: Array<{ value: number; weight: number }>, variable: FuzzyVariable): number {
+    let numerator = 0
+    let denominator = 0
+    for (const { value, weight } of contributions) {
+        numerator += value * weight
+        denominator += weight
+    }
+    if (denominator === 0) return 0
+    const [min, max] = variable.range
+    return Math.min(max, Math.max(min, numerator / denominator))
+}
+
+/**
+ * Límites de turbidez y pH de cada nivel de riesgo
+ */
+const RISK_LIMITS: Record<Exclude<RiskLevel, 'optimal'>, { turbidity: number; ph: [number, number] }> = {
+    critical: { turbidity: 400, ph: [5.5, 9.5] },
+    caution: { turbidity: 150, ph: [6.2, 8.5] }
+}
+
+/**
+ * Nivel de riesgo del agua cruda y los límites que lo provocan
+ */
+export function assessRisk(inputs: Pick<WaterInputs, 'turbidity' | 'ph'>): { level: RiskLevel; reasons: RiskReason[] } {
+    for (const level of ['critical', 'caution'] as const) {
+        const limits = RISK_LIMITS[level]
+        const reasons: RiskReason[] = []
+        if (inputs.turbidity > limits.turbidity) {
+            reasons.push({ variable: 'turbidity', level, value: inputs.turbidity, limit: limits.turbidity, direction: 'above' })
+        }
+        if (inputs.ph < limits.ph[0]) {
+            reasons.push({ variable: 'ph', level, value: inputs.ph, limit: limits.ph[0], direction: 'below' })
+        } else if (inputs.ph > limits.ph[1]) {
+            reasons.push({ variable: 'ph', level, value: inputs.ph, limit: limits.ph[1], direction: 'above' })
+        }
+        if (reasons.length > 0) return { level, reasons }
+    }
+    return { level: 'optimal', reasons: [] }
+}
+
 /**
  * FUNCIÓN PRINCIPAL: Ejecuta el sistema de inferencia difusa completo
  * 
  * @param inputs - Parámetros del agua cruda
+ * @param system - Definición del controlador (variables, reglas y costos)
  * @returns Resultados del sistema de control con explicaciones
  */
-export function runFuzzyInference(inputs: WaterInputs): FuzzyOutputs {
+export function runFuzzyInference(
+    inputs: WaterInputs,
+    system: FuzzySystemDefinition = DEFAULT_FUZZY_SYSTEM
+): FuzzyOutputs {
     const { turbidity, ph, temperature } = inputs
 
+    const operators = system.operators ?? DEFAULT_OPERATORS
+    const inferenceMode = system.inferenceMode ?? 'mamdani'
+
     // Paso 1: FUZZIFICACIÓN - Calcular grados de membresía de las entradas
-    const turbidityMemberships = getMemberships(turbidity, TURBIDITY_SETS)
-    const phMemberships = getMemberships(ph, PH_SETS)
-    const tempMemberships = getMemberships(temperature, TEMPERATURE_SETS)
+    // (principales y, para la incertidumbre tipo 2, inferiores y superiores)
+    const inputMemberships = fuzzifyInputs(inputs, system)
+    const inputBounds = fuzzifyInputBounds(inputs, system)
 
     // Paso 2: EVALUACIÓN DE REGLAS - Determinar activación de cada regla
-    const doseActivations = new Map<string, number>()
-    const timeActivations = new Map<string, number>()
+    const doseActivations: TermActivations = new Map()
+    const timeActivations: TermActivations = new Map()
     const ruleActivations: RuleActivation[] = []
+    const tskDose: Array<{ value: number; weight: number }> = []
+    const tskTime: Array<{ value: number; weight: number }> = []
+    const lowerActivations: Record<OutputVariableId, TermActivations> = { dose: new Map(), time: new Map() }
+    const upperActivations: Record<OutputVariableId, TermActivations> = { dose: new Map(), time: new Map() }
+    const tskIntervalPoints: Record<OutputVariableId, IntervalWeightedPoint[]> = { dose: [], time: [] }
     let totalCost = 0
     let totalWeight = 0
-    let phCorrectionLevel: 'none' | 'slight' | 'moderate' | 'intense' = 'none'
+    let phCorrectionLevel: PhCorrectionLevel = 'none'
     let maxPhCorrectionWeight = 0
 
-    for (const rule of FUZZY_RULES) {
-        // Calcular grado de activación de la regla (AND = mínimo)
-        const conditions: number[] = []
+    for (const rule of system.rules) {
+        if (rule.enabled === false) continue
 
-        if (rule.conditions.turbidity) {
-            conditions.push(turbidityMemberships.get(rule.conditions.turbidity) || 0)
-        }
-        if (rule.conditions.ph) {
-            conditions.push(phMemberships.get(rule.conditions.ph) || 0)
-        }
-        if (rule.conditions.temperature) {
-            conditions.push(tempMemberships.get(rule.conditions.temperature) || 0)
-        }
+        // Grado de activación = T-norma de todas las condiciones, escalada por el peso
+        const weight = getRuleWeight(rule)
+        const rawActivation = ruleFiringStrength(rule, inputMemberships, operators)
+        const activation = rawActivation * weight
 
-        // Grado de activación = mínimo de todas las condiciones
-        const activation = conditions.length > 0 ? Math.min(...conditions) : 0
+        // Activación de intervalo (tipo 2): mismos operadores sobre los grados inferiores y superiores
+        const bounds = evaluateAntecedentBounds(getRuleAntecedent(rule), inputBounds, operators)
+        const lowerActivation = bounds.lower * weight
+        const upperActivation = bounds.upper * weight
 
-        if (activation > 0) {
-            // Acumular activaciones de salida (OR = máximo)
-            const currentDose = doseActivations.get(rule.outputs.dose) || 0
-            doseActivations.set(rule.outputs.dose, Math.max(currentDose, activation))
+        if (upperActivation > 0) {
+            for (const outputId of ['dose', 'time'] as const) {
+                const termName = rule.outputs[outputId]
+                addActivation(lowerActivations[outputId], termName, lowerActivation)
+                addActivation(upperActivations[outputId], termName, upperActivation)
+                if (inferenceMode === 'tsk') {
+                    tskIntervalPoints[outputId].push({
+                        x: evaluateLinearConsequent(getTskConsequent(rule, outputId, system), inputs),
+                        lower: lowerActivation,
+                        upper: upperActivation
+                    })
+                }
+            }
+        }
 
-            const currentTime = timeActivations.get(rule.outputs.time) || 0
-            timeActivations.set(rule.outputs.time, Math.max(currentTime, activation))
+        // Una regla con peso 0 se registra (para explicar por qué no influye)
+        // pero no aporta nada a la agregación
+        if (rawActivation > 0) {
+            // Un conjunto implicado por regla: la agregación los combina después
+            addActivation(doseActivations, rule.outputs.dose, activation)
+            addActivation(timeActivations, rule.outputs.time, activation)
 
             // Acumular costo ponderado
             totalCost += rule.baseCost * activation
@@ -514,32 +917,74 @@ export function runFuzzyInference(inputs: WaterInputs): FuzzyOutputs {
                 phCorrectionLevel = rule.outputs.phCorrection
             }
 
+            // Modo TSK: evaluar los consecuentes lineales de la regla
+            let tskOutputs: Record<OutputVariableId, number> | undefined
+            if (inferenceMode === 'tsk') {
+                tskOutputs = {
+                    dose: evaluateLinearConsequent(getTskConsequent(rule, 'dose', system), inputs),
+                    time: evaluateLinearConsequent(getTskConsequent(rule, 'time', system), inputs)
+                }
+                tskDose.push({ value: tskOutputs.dose, weight: activation })
+                tskTime.push({ value: tskOutputs.time, weight: activation })
+            }
+
             // Registrar activación para explicación
             ruleActivations.push({
                 id: rule.id,
                 name: rule.name,
                 firingStrength: activation,
+                rawFiringStrength: rawActivation,
+                weight,
                 conditions: rule.conditions as Record<string, string>,
-                outputs: rule.outputs as Record<string, string>
+                ...(rule.antecedent && { antecedent: rule.antecedent }),
+                outputs: rule.outputs as Record<string, string>,
+                ...(tskOutputs && { tskOutputs })
             })
         }
     }
 
-    // Paso 3: DEFUZZIFICACIÓN - Convertir a valores concretos
-    const coagulantDose = defuzzify(doseActivations, DOSE_SETS)
-    const flocculationTime = defuzzify(timeActivations, TIME_SETS)
-    const operationalCost = totalWeight > 0 ? totalCost / totalWeight : 0.10
-
-    // Calcular cantidad de corrección de pH
-    let phCorrectionAmount = 0
-    if (phCorrectionLevel !== 'none') {
-        const phDeviation = Math.abs(ph - 7.0)
-        switch (phCorrectionLevel) {
-            case 'slight': phCorrectionAmount = phDeviation * 5; break
-            case 'moderate': phCorrectionAmount = phDeviation * 12; break
-            case 'intense': phCorrectionAmount = phDeviation * 25; break
+    // Reglas ordenadas por activación efectiva (la primera es la principal)
+    ruleActivations.sort((a, b) => b.firingStrength - a.firingStrength)
+
+    // Paso 3: AGREGACIÓN Y DEFUZZIFICACIÓN - Convertir a valores concretos
+    // (en TSK la salida es directamente la media ponderada de las reglas)
+    const defuzzificationMethod = system.defuzzification ?? 'centroid'
+    const doseVariable = getOutputVariable(system, 'dose')
+    const timeVariable = getOutputVariable(system, 'time')
+    const dose = inferenceMode === 'tsk'
+        ? { value: tskWeightedAverage(tskDose, doseVariable), curve: tskOutputCurve(tskDose, doseVariable) }
+        : defuzzify(doseActivations, doseVariable, defuzzificationMethod, operators)
+    const time = inferenceMode === 'tsk'
+        ? { value: tskWeightedAverage(tskTime, timeVariable), curve: tskOutputCurve(tskTime, timeVariable) }
+        : defuzzify(timeActivations, timeVariable, defuzzificationMethod, operators)
+    const coagulantDose = dose.value
+    const flocculationTime = time.value
+
+    // Paso 3b: REDUCCIÓN DE TIPO - Intervalo de cada salida por Karnik-Mendel
+    const intervalOf = (outputId: OutputVariableId, variable: FuzzyVariable, nominal: number): OutputInterval => {
+        const interval = inferenceMode === 'tsk'
+            ? karnikMendel(tskIntervalPoints[outputId]) ?? { min: nominal, max: nominal }
+            : mamdaniInterval(lowerActivations[outputId], upperActivations[outputId], variable, defuzzificationMethod, operators, nominal)
+        const [min, max] = variable.range
+        return {
+            min: Math.max(min, Math.min(max, interval.min)),
+            max: Math.max(min, Math.min(max, interval.max))
         }
     }
+    const doseInterval = intervalOf('dose', doseVariable, coagulantDose)
+    const timeInterval = intervalOf('time', timeVariable, flocculationTime)
+
+    // Costo: costo de proceso de las reglas más el producto químico dosificado
+    const coagulant = getCoagulant(system)
+    const chemicalCost = coagulantCost(coagulant, coagulantDose)
+    const processCost = totalWeight > 0 ? totalCost / totalWeight : system.costs.fallback
+    const alkalinityConsumed = coagulantDose * coagulant.alkalinityConsumption
+    const inPhWindow = ph >= coagulant.phWindow[0] && ph <= coagulant.phWindow[1]
+
+    // Corrección de pH: las reglas (o la ventana del coagulante) deciden si
+    // hace falta; el modelo de titulación decide el sentido, el reactivo y la dosis
+    const phCorrectionPlan = planPhCorrection(inputs, alkalinityConsumed, phCorrectionLevel !== 'none', coagulant.phWindow)
+    const operationalCost = processCost + chemicalCost + phCorrectionPlan.cost
 
     // Paso 4: CÁLCULO DE MÉTRICAS DERIVADAS
 
@@ -550,94 +995,61 @@ export function runFuzzyInference(inputs: WaterInputs): FuzzyOutputs {
     const qualityScore = Math.round((turbidityFactor * 0.5 + phFactor * 0.3 + processFactor * 0.2))
 
     // Determinar nivel de riesgo
-    let riskLevel: 'optimal' | 'caution' | 'critical' = 'optimal'
-    if (turbidity > 400 || ph < 5.5 || ph > 9.5) {
-        riskLevel = 'critical'
-    } else if (turbidity > 150 || ph < 6.2 || ph > 8.5) {
-        riskLevel = 'caution'
-    }
+    const risk = assessRisk(inputs)
 
     // Calcular eficiencia del proceso
     const efficiency = Math.min(100, Math.max(20,
-        100 - (turbidity / 20) + (ph >= 6.5 && ph <= 8.0 ? 20 : 0) - (temperature < 15 ? 10 : 0)
+        100 - (turbidity / 20) + (inPhWindow ? 20 : 0) - (temperature < 15 ? 10 : 0)
     ))
 
-    // Generar explicación textual
-    const explanation = generateExplanation(inputs, coagulantDose, flocculationTime, riskLevel, ruleActivations)
+    // Explicación estructurada de la decisión
+    const explanation = buildExplanation(inputs, coagulantDose, flocculationTime, risk, ruleActivations, coagulant.id, phCorrectionPlan, inputMemberships)
 
     return {
         coagulantDose: Math.round(coagulantDose * 10) / 10,
         flocculationTime: Math.round(flocculationTime),
         phCorrection: phCorrectionLevel,
-        phCorrectionAmount: Math.round(phCorrectionAmount * 10) / 10,
+        phCorrectionAmount: phCorrectionPlan.dose,
+        phCorrectionPlan,
         operationalCost: Math.round(operationalCost * 1000) / 1000,
+        coagulant: {
+            id: coagulant.id,
+            inPhWindow,
+            alkalinityConsumed: Math.round(alkalinityConsumed * 10) / 10,
+            residualAlkalinity: Math.round(Math.max(0, inputs.alkalinity - alkalinityConsumed) * 10) / 10,
+            chemicalCost: Math.round(chemicalCost * 10000) / 10000
+        },
         qualityScore: Math.max(0, Math.min(100, qualityScore)),
-        riskLevel,
+        riskLevel: risk.level,
         efficiency: Math.round(efficiency),
         explanation,
-        ruleActivations: ruleActivations.sort((a, b) => b.firingStrength - a.firingStrength)
+        ruleActivations,
+        defuzzificationMethod,
+        aggregatedOutputs: { dose: dose.curve, time: time.curve },
+        operators,
+        inferenceMode,
+        outputIntervals: {
+            dose: { min: Math.round(doseInterval.min * 10) / 10, max: Math.round(doseInterval.max * 10) / 10 },
+            time: { min: Math.round(timeInterval.min), max: Math.round(timeInterval.max) }
+        }
     }
 }
 
 /**
- * Genera una explicación textual de la decisión del sistema
+ * Grados de membresía de cada variable de entrada (id_variable -> términos)
  */
-function generateExplanation(
-    inputs: WaterInputs,
-    dose: number,
-    time: number,
-    risk: string,
-    activations: RuleActivation[]
-): string {
-    const parts: string[] = []
-
-    // Describir el estado del agua
-    if (inputs.turbidity < 20) {
-        parts.push("El agua presenta baja turbidez")
-    } else if (inputs.turbidity < 150) {
-        parts.push("La turbidez del agua está en niveles moderados")
-    } else if (inputs.turbidity < 400) {
-        parts.push("Se detecta alta turbidez en el agua")
-    } else {
-        parts.push("⚠️ ALERTA: Turbidez extremadamente alta detectada")
-    }
-
-    // Describir el pH
-    if (inputs.ph < 6) {
-        parts.push("y el pH es ácido, requiriendo neutralización")
-    } else if (inputs.ph > 8.5) {
-        parts.push("y el pH es alcalino, afectando la eficiencia del coagulante")
-    } else {
-        parts.push("con pH en rango óptimo para coagulación")
-    }
-
-    // Describir la decisión
-    parts.push(`. Se recomienda dosificar ${dose.toFixed(1)} mg/L de coagulante con ${time} minutos de floculación.`)
-
-    // Añadir la regla más activa
-    if (activations.length > 0) {
-        const topRule = activations[0]
-        parts.push(` Regla principal: "${topRule.name}" (activación: ${(topRule.firingStrength * 100).toFixed(0)}%).`)
-    }
-
-    return parts.join('')
-}
+export type MembershipDegrees = Record<string, Array<{ name: string; degree: number }>>
 
 /**
  * Obtiene las membresías actuales para visualización educativa
  */
-export function getMembershipDegrees(inputs: WaterInputs): {
-    turbidity: Array<{ name: string; degree: number }>
-    ph: Array<{ name: string; degree: number }>
-    temperature: Array<{ name: string; degree: number }>
-} {
-    const turbidityMemberships = getMemberships(inputs.turbidity, TURBIDITY_SETS)
-    const phMemberships = getMemberships(inputs.ph, PH_SETS)
-    const tempMemberships = getMemberships(inputs.temperature, TEMPERATURE_SETS)
-
-    return {
-        turbidity: Array.from(turbidityMemberships.entries()).map(([name, degree]) => ({ name, degree })),
-        ph: Array.from(phMemberships.entries()).map(([name, degree]) => ({ name, degree })),
-        temperature: Array.from(tempMemberships.entries()).map(([name, degree]) => ({ name, degree }))
+export function getMembershipDegrees(
+    inputs: WaterInputs,
+    system: FuzzySystemDefinition = DEFAULT_FUZZY_SYSTEM
+): MembershipDegrees {
+    const degrees: MembershipDegrees = {}
+    for (const [variableId, memberships] of fuzzifyInputs(inputs, system)) {
+        degrees[variableId] = Array.from(memberships.entries()).map(([name, degree]) => ({ name, degree }))
     }
+    return degrees
 }
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import {
+    T_NORM_DUALS,
+    applyAggregation,
+    applyHedges,
+    applyImplication,
+    applySNorm,
+    applyTNorm,
+    reduceSNorm,
+    reduceTNorm
+} from '@/lib/fuzzy-operators'
+import { AGGREGATION_METHODS, DEFAULT_FUZZY_SYSTEM, DEFAULT_OPERATORS, S_NORMS, T_NORMS } from '@/lib/fuzzy-system'
+import { aggregateOutput } from '@/lib/fuzzy-logic'
+
+const GRADES = [0, 0.1, 0.25, 0.5, 0.75, 0.9, 1]
+
+describe('T-normas', () => {
+    it.each(T_NORMS)('%s tiene al 1 como neutro y al 0 como absorbente', kind => {
+        for (const a of GRADES) {
+            expect(applyTNorm(kind, a, 1)).toBeCloseTo(a, 12)
+            expect(applyTNorm(kind, 1, a)).toBeCloseTo(a, 12)
+            expect(applyTNorm(kind, a, 0)).toBe(0)
+        }
+    })
+
+    it.each(T_NORMS)('%s es conmutativa, acotada por el mínimo y queda en [0, 1]', kind => {
+        for (const a of GRADES) {
+            for (const b of GRADES) {
+                const value = applyTNorm(kind, a, b)
+                expect(value).toBeCloseTo(applyTNorm(kind, b, a), 12)
+                expect(value).toBeGreaterThanOrEqual(0)
+                expect(value).toBeLessThanOrEqual(Math.min(a, b) + 1e-12)
+            }
+        }
+    })
+
+    it('reduce una lista vacía al neutro', () => {
+        for (const kind of T_NORMS) expect(reduceTNorm(kind, [])).toBe(1)
+        expect(reduceTNorm('product', [0.5, 0.5, 0.5])).toBeCloseTo(0.125, 12)
+    })
+})
+
+describe('S-normas', () => {
+    it.each(S_NORMS)('%s tiene al 0 como neutro y al 1 como absorbente', kind => {
+        for (const a of GRADES) {
+            expect(applySNorm(kind, a, 0)).toBeCloseTo(a, 12)
+            expect(applySNorm(kind, 0, a)).toBeCloseTo(a, 12)
+            expect(applySNorm(kind, a, 1)).toBeCloseTo(1, 12)
+        }
+    })
+
+    it.each(S_NORMS)('%s es conmutativa, acotada por el máximo y queda en [0, 1]', kind => {
+        for (const a of GRADES) {
+            for (const b of GRADES) {
+                const value = applySNorm(kind, a, b)
+                expect(value).toBeCloseTo(applySNorm(kind, b, a), 12)
+                expect(value).toBeLessThanOrEqual(1 + 1e-12)
+                expect(value).toBeGreaterThanOrEqual(Math.max(a, b) - 1e-12)
+            }
+        }
+    })
+
+    it('reduce una lista vacía al neutro', () => {
+        for (const kind of S_NORMS) expect(reduceSNorm(kind, [])).toBe(0)
+        expect(reduceSNorm('bounded_sum', [0.4, 0.4, 0.4])).toBe(1)
+    })
+})
+
+describe('dualidad de De Morgan', () => {
+    it.each(T_NORMS)('%s y su S-norma dual cumplen S(a, b) = 1 - T(1 - a, 1 - b)', kind => {
+        const dual = T_NORM_DUALS[kind]
+        for (const a of GRADES) {
+            for (const b of GRADES) {
+                expect(applySNorm(dual, a, b)).toBeCloseTo(1 - applyTNorm(kind, 1 - a, 1 - b), 12)
+            }
+        }
+    })
+})
+
+describe('implicación, agregación y hedges', () => {
+    it('recorta con mínimo y escala con producto', () => {
+        expect(applyImplication('min', 0.4, 0.8)).toBe(0.4)
+        expect(applyImplication('product', 0.4, 0.8)).toBeCloseTo(0.32, 12)
+    })
+
+    it.each(AGGREGATION_METHODS)('la agregación %s tiene al 0 como neutro', kind => {
+        for (const a of GRADES) expect(applyAggregation(kind, a, 0)).toBe(a)
+    })
+
+    it('la suma acotada acumula reglas que el máximo ignora', () => {
+        expect(applyAggregation('max', 0.3, 0.5)).toBe(0.5)
+        expect(applyAggregation('bounded_sum', 0.3, 0.5)).toBeCloseTo(0.8, 12)
+        expect(applyAggregation('bounded_sum', 0.7, 0.5)).toBe(1)
+    })
+
+    it('aplica los hedges del más interno al más externo', () => {
+        expect(applyHedges(undefined, 0.5)).toBe(0.5)
+        expect(applyHedges(['very'], 0.5)).toBeCloseTo(0.25, 12)
+        expect(applyHedges(['somewhat'], 0.25)).toBeCloseTo(0.5, 12)
+        expect(applyHedges(['very', 'extremely'], 0.5)).toBeCloseTo(Math.pow(0.5, 6), 12)
+    })
+})
+
+describe('agregación de las reglas', () => {
+    const dose = DEFAULT_FUZZY_SYSTEM.outputs.find(variable => variable.id === 'dose')!
+    const heightAt = (curve: ReturnType<typeof aggregateOutput>, x: number) =>
+        curve.find(point => Math.abs(point.x - x) < 1e-9)!.membership
+
+    it('une por separado dos reglas que concluyen el mismo término', () => {
+        const activations = new Map([['media', [0.3, 0.5]]])
+
+        const max = aggregateOutput(activations, dose, DEFAULT_OPERATORS)
+        const bounded = aggregateOutput(activations, dose, { ...DEFAULT_OPERATORS, aggregation: 'bounded_sum' })
+
+        expect(heightAt(max, 40)).toBeCloseTo(0.5, 12)
+        expect(heightAt(bounded, 40)).toBeCloseTo(0.8, 12)
+    })
+
+    it('ignora las reglas sin activación', () => {
+        const curve = aggregateOutput(new Map([['media', [0, 0]]]), dose)
+        expect(curve.every(point => point.membership === 0)).toBe(true)
+    })
+})
@@ -0,0 +1,132 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - OPERADORES DIFUSOS
+ * T-normas, S-normas, implicación y agregación configurables
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * En lógica difusa el "Y" y el "O" no son únicos: cualquier T-norma sirve como
+ * conjunción y cualquier S-norma (T-conorma) como disyunción. Cada T-norma
+ * tiene una S-norma DUAL según De Morgan:  S(a, b) = 1 - T(1 - a, 1 - b).
+ *
+ * | T-norma (Y)   | T(a, b)                     | S-norma dual (O)     |
+ * |---------------|-----------------------------|----------------------|
+ * | Mínimo        | min(a, b)                   | Máximo               |
+ * | Producto      | a·b                         | Suma probabilística  |
+ * | Łukasiewicz   | max(0, a + b - 1)           | Suma acotada         |
+ * | Drástica      | b si a=1, a si b=1, si no 0 | Drástica             |
+ * | Einstein      | a·b / (2 - (a + b - a·b))   | Einstein             |
+ * | Hamacher      | a·b / (a + b - a·b)         | Hamacher             |
+ *
+ * La IMPLICACIÓN define cómo la activación de una regla modifica su
+ * consecuente (recorte con mínimo o escalado con producto), y la AGREGACIÓN
+ * cómo se unen los consecuentes de todas las reglas (máximo o suma acotada).
+ *
+ * Los HEDGES modifican el grado de una condición antes de combinarla:
+ * "muy" lo eleva al cuadrado, "extremadamente" al cubo y "algo" le aplica
+ * la raíz cuadrada; la negación (NOT) es el complemento 1 - μ.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { TNorm, SNorm, ImplicationMethod, AggregationMethod, Hedge } from '@/lib/fuzzy-system'
+
+/**
+ * S-norma dual de cada T-norma
+ */
+export const T_NORM_DUALS: Record<TNorm, SNorm> = {
+    min: 'max',
+    product: 'probabilistic_sum',
+    lukasiewicz: 'bounded_sum',
+    drastic: 'drastic',
+    einstein: 'einstein',
+    hamacher: 'hamacher'
+}
+
+/**
+ * Aplica una T-norma a dos grados de membresía
+ */
+export function applyTNorm(kind: TNorm, a: number, b: number): number {
+    switch (kind) {
+        case 'min':
+            return Math.min(a, b)
+        case 'product':
+            return a * b
+        case 'lukasiewicz':
+            return Math.max(0, a + b - 1)
+        case 'drastic':
+            return a === 1 ? b : b === 1 ? a : 0
+        case 'einstein':
+            return (a * b) / (2 - (a + b - a * b))
+        case 'hamacher': {
+            const denominator = a + b - a * b
+            return denominator === 0 ? 0 : (a * b) / denominator
+        }
+    }
+}
+
+/**
+ * Aplica una S-norma a dos grados de membresía
+ */
+export function applySNorm(kind: SNorm, a: number, b: number): number {
+    switch (kind) {
+        case 'max':
+            return Math.max(a, b)
+        case 'probabilistic_sum':
+            return a + b - a * b
+        case 'bounded_sum':
+            return Math.min(1, a + b)
+        case 'drastic':
+            return a === 0 ? b : b === 0 ? a : 1
+        case 'einstein':
+            return (a + b) / (1 + a * b)
+        case 'hamacher': {
+            const denominator = 1 - a * b
+            return denominator === 0 ? 1 : (a + b - 2 * a * b) / denominator
+        }
+    }
+}
+
+/**
+ * Conjunción de varios grados (el 1 es el elemento neutro de toda T-norma)
+ */
+export function reduceTNorm(kind: TNorm, values: number[]): number {
+    return values.reduce((acc, value) => applyTNorm(kind, acc, value), 1)
+}
+
+/**
+ * Disyunción de varios grados (el 0 es el elemento neutro de toda S-norma)
+ */
+export function reduceSNorm(kind: SNorm, values: number[]): number {
+    return values.reduce((acc, value) => applySNorm(kind, acc, value), 0)
+}
+
+/**
+ * Implicación: modifica el consecuente con la activación de la regla
+ * - min: recorta el conjunto a la altura de la activación (Mamdani)
+ * - product: escala el conjunto por la activación (Larsen)
+ */
+export function applyImplication(kind: ImplicationMethod, activation: number, membership: number): number {
+    return kind === 'product' ? activation * membership : Math.min(activation, membership)
+}
+
+/**
+ * Agregación: une los consecuentes implicados de distintas reglas
+ */
+export function applyAggregation(kind: AggregationMethod, a: number, b: number): number {
+    return kind === 'bounded_sum' ? Math.min(1, a + b) : Math.max(a, b)
+}
+
+const HEDGE_EXPONENTS: Record<Hedge, number> = {
+    very: 2,
+    somewhat: 0.5,
+    extremely: 3
+}
+
+/**
+ * Aplica una lista de hedges, de dentro a fuera (el último es el más interno)
+ */
+export function applyHedges(hedges: Hedge[] | undefined, membership: number): number {
+    if (!hedges) return membership
+    return hedges.reduceRight((value, hedge) => Math.pow(value, HEDGE_EXPONENTS[hedge]), membership)
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import {
+    DEFAULT_FUZZY_SYSTEM,
+    FuzzySystemValidationError,
+    ValidationIssue,
+    validateFuzzySystem
+} from '@/lib/fuzzy-system'
+
+function issuesOf(value: unknown): ValidationIssue[] {
+    try {
+        validateFuzzySystem(value)
+    } catch (error) {
+        if (error instanceof FuzzySystemValidationError) return error.issues
+        throw error
+    }
+    return []
+}
+
+/** Copia profunda del controlador por defecto para modificarla */
+const clone = () => JSON.parse(JSON.stringify(DEFAULT_FUZZY_SYSTEM))
+
+describe('validateFuzzySystem', () => {
+    it('acepta el controlador por defecto tras pasar por JSON', () => {
+        expect(validateFuzzySystem(clone())).toEqual(JSON.parse(JSON.stringify(DEFAULT_FUZZY_SYSTEM)))
+    })
+
+    it('rechaza lo que no es un objeto con un problema en la raíz', () => {
+        expect(issuesOf(42)).toEqual([{
+            path: '$',
+            message: { es: 'la definición debe ser un objeto JSON', en: 'the definition must be a JSON object' }
+        }])
+    })
+
+    it('informa de todos los problemas, no solo del primero', () => {
+        const system = clone()
+        system.version = 99
+        system.name = 7
+        system.operators = { ...system.operators, and: 'xor' }
+        system.rules[2].outputs.dose = 'enorme'
+
+        const paths = issuesOf(system).map(issue => issue.path)
+
+        expect(paths).toEqual(expect.arrayContaining(['version', 'name', 'operators.and']))
+        expect(paths.some(path => path.startsWith('rules[2]'))).toBe(true)
+    })
+
+    it('describe cada problema en español y en inglés', () => {
+        const system = clone()
+        system.operators = { ...system.operators, aggregation: 'sum' }
+
+        const [issue] = issuesOf(system)
+
+        expect(issue.path).toBe('operators.aggregation')
+        expect(issue.message.es).toContain("operador desconocido 'sum'")
+        expect(issue.message.en).toContain("unknown operator 'sum'")
+    })
+
+    it('resume los problemas en el mensaje del error', () => {
+        const system = clone()
+        delete system.name
+
+        expect(() => validateFuzzySystem(system)).toThrow(/name: debe ser un texto/)
+    })
+})
@@ -0,0 +1,1770 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - DEFINICIÓN DEL SISTEMA DIFUSO
+ * Variables, términos, reglas y costos del controlador de coagulación
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Este módulo describe el controlador difuso como DATOS en lugar de código.
+ * Una definición (`FuzzySystemDefinition`) es un objeto plano, serializable a
+ * JSON, que contiene:
+ *
+ * - Variables de entrada (turbidez, pH, temperatura, alcalinidad, color y caudal)
+ *   con sus términos lingüísticos
+ * - Variables de salida (dosis, tiempo de floculación) con sus términos
+ * - La base de reglas SI-ENTONCES con su costo asociado
+ * - Los costos generales del proceso (costo de respaldo, factores de corrección de pH)
+ *
+ * Así, adaptar el controlador a una planta concreta consiste en cargar un
+ * archivo JSON validado, sin modificar ni redesplegar el motor de inferencia.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { WaterInputs } from '@/lib/fuzzy-logic'
+import type { LocalizedText } from '@/lib/i18n'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS E INTERFACES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Versión del esquema de la definición. Se incrementa cuando cambia el formato
+ * de forma incompatible con archivos guardados anteriormente.
+ */
+export const FUZZY_SYSTEM_SCHEMA_VERSION = 1
+
+/**
+ * Nivel de corrección de pH asociado a una regla
+ */
+export type PhCorrectionLevel = 'none' | 'slight' | 'moderate' | 'intense'
+
+/**
+ * Identificador de una variable de entrada (debe existir en WaterInputs)
+ */
+export type InputVariableId = keyof WaterInputs
+
+/**
+ * Identificador de una variable de salida difusa
+ */
+export type OutputVariableId = 'dose' | 'time'
+
+export const INPUT_VARIABLE_IDS: InputVariableId[] = ['turbidity', 'ph', 'temperature', 'alkalinity', 'conductivity', 'color', 'flowRate']
+export const OUTPUT_VARIABLE_IDS: OutputVariableId[] = ['dose', 'time']
+export const PH_CORRECTION_LEVELS: PhCorrectionLevel[] = ['none', 'slight', 'moderate', 'intense']
+
+/**
+ * Método de defuzzificación de las salidas Mamdani
+ * - centroid: centro de gravedad del área agregada (COG)
+ * - bisector: abscisa que divide el área agregada en dos mitades iguales
+ * - mom / som / lom: media / menor / mayor de los máximos
+ * - weighted_average: media de los centros de término ponderada por activación
+ */
+export type DefuzzificationMethod = 'centroid' | 'bisector' | 'mom' | 'som' | 'lom' | 'weighted_average'
+
+export const DEFUZZIFICATION_METHODS: DefuzzificationMethod[] = [
+    'centroid', 'bisector', 'mom', 'som', 'lom', 'weighted_average'
+]
+
+/**
+ * Operadores difusos (ver `fuzzy-operators.ts`)
+ */
+export type TNorm = 'min' | 'product' | 'lukasiewicz' | 'drastic' | 'einstein' | 'hamacher'
+export type SNorm = 'max' | 'probabilistic_sum' | 'bounded_sum' | 'drastic' | 'einstein' | 'hamacher'
+export type ImplicationMethod = 'min' | 'product'
+export type AggregationMethod = 'max' | 'bounded_sum'
+
+export const T_NORMS: TNorm[] = ['min', 'product', 'lukasiewicz', 'drastic', 'einstein', 'hamacher']
+export const S_NORMS: SNorm[] = ['max', 'probabilistic_sum', 'bounded_sum', 'drastic', 'einstein', 'hamacher']
+export const IMPLICATION_METHODS: ImplicationMethod[] = ['min', 'product']
+export const AGGREGATION_METHODS: AggregationMethod[] = ['max', 'bounded_sum']
+
+/**
+ * Modo de inferencia
+ * - mamdani: consecuentes lingüísticos, agregación y defuzzificación
+ * - tsk: Takagi-Sugeno-Kang, consecuentes lineales en las entradas y salida
+ *   como media ponderada por la activación de cada regla
+ */
+export type InferenceMode = 'mamdani' | 'tsk'
+
+export const INFERENCE_MODES: InferenceMode[] = ['mamdani', 'tsk']
+
+/**
+ * Coagulante dosificado (catálogo en `coagulants.ts`)
+ * - alum: sulfato de aluminio
+ * - ferric_chloride: cloruro férrico
+ * - pacl: policloruro de aluminio
+ * - polymer: polímero catiónico
+ */
+export type CoagulantId = 'alum' | 'ferric_chloride' | 'pacl' | 'polymer'
+
+export const COAGULANT_IDS: CoagulantId[] = ['alum', 'ferric_chloride', 'pacl', 'polymer']
+
+/**
+ * Modificadores lingüísticos (hedges de Zadeh) de una condición
+ * - very: concentración, μ²
+ * - somewhat: dilatación, √μ
+ * - extremely: μ³
+ */
+export type Hedge = 'very' | 'somewhat' | 'extremely'
+
+export const HEDGES: Hedge[] = ['very', 'somewhat', 'extremely']
+
+/**
+ * Condición "variable IS [NOT] [hedges] término"
+ */
+export interface AntecedentClause {
+    op: 'is'
+    variable: InputVariableId
+    term: string
+    /** Modificadores de fuera a dentro: ['very', 'somewhat'] = muy (algo término) */
+    hedges?: Hedge[]
+    /** IS NOT: complemento del grado ya modificado */
+    negated?: boolean
+}
+
+/**
+ * Antecedente compuesto: condiciones unidas con AND (T-norma), OR (S-norma)
+ * y NOT (complemento), anidadas a cualquier profundidad
+ */
+export type AntecedentExpression =
+    | AntecedentClause
+    | { op: 'and' | 'or'; operands: AntecedentExpression[] }
+    | { op: 'not'; operand: AntecedentExpression }
+
+/**
+ * Consecuente lineal de una regla TSK:
+ *   y = constant + Σ coefficients[v] · entrada[v]
+ * Las entradas sin coeficiente contribuyen con 0.
+ */
+export interface LinearConsequent {
+    constant: number
+    coefficients: Partial<Record<InputVariableId, number>>
+}
+
+/**
+ * Configuración de operadores del motor de inferencia
+ */
+export interface FuzzyOperators {
+    /** T-norma para el Y de los antecedentes */
+    and: TNorm
+    /** S-norma para el O de los antecedentes compuestos */
+    or: SNorm
+    /** Cómo la activación modifica el consecuente */
+    implication: ImplicationMethod
+    /** Cómo se unen los consecuentes implicados de cada regla */
+    aggregation: AggregationMethod
+}
+
+/**
+ * Operadores clásicos de Mamdani
+ */
+export const DEFAULT_OPERATORS: FuzzyOperators = {
+    and: 'min',
+    or: 'max',
+    implication: 'min',
+    aggregation: 'max'
+}
+
+/**
+ * Formas de función de membresía disponibles
+ */
+export type MembershipShapeKind =
+    | 'trapezoidal'
+    | 'triangular'
+    | 'gaussian'
+    | 'bell'
+    | 'sigmoid'
+    | 'piecewise'
+    | 'singleton'
+
+export const MEMBERSHIP_SHAPE_KINDS: MembershipShapeKind[] = [
+    'trapezoidal', 'triangular', 'gaussian', 'bell', 'sigmoid', 'piecewise', 'singleton'
+]
+
+/**
+ * Trapecio [a, b, c, d] (forma por defecto si no se indica `shape`):
+ *   - Antes de 'a': membresía = 0
+ *   - Entre 'a' y 'b': membresía crece linealmente de 0 a 1
+ *   - Entre 'b' y 'c': membresía = 1 (plateau)
+ *   - Entre 'c' y 'd': membresía decrece linealmente de 1 a 0
+ *   - Después de 'd': membresía = 0
+ * Con a = b (o c = d) se obtiene un "hombro" abierto a la izquierda (o derecha).
+ */
+export interface TrapezoidalShape {
+    shape?: 'trapezoidal'
+    points: [number, number, number, number]
+}
+
+/**
+ * Triángulo [a, b, c]: 0 en 'a', 1 en 'b', 0 en 'c'
+ */
+export interface TriangularShape {
+    shape: 'triangular'
+    points: [number, number, number]
+}
+
+/**
+ * Gaussiana: μ(x) = exp(-(x - mean)² / (2·sigma²))
+ */
+export interface GaussianShape {
+    shape: 'gaussian'
+    mean: number
+    sigma: number
+}
+
+/**
+ * Campana generalizada: μ(x) = 1 / (1 + |(x - center) / width|^(2·slope))
+ * `width` controla el ancho del plateau y `slope` la pendiente de los flancos.
+ */
+export interface BellShape {
+    shape: 'bell'
+    center: number
+    width: number
+    slope: number
+}
+
+/**
+ * Sigmoide abierta: μ(x) = 1 / (1 + exp(∓slope·(x - center)))
+ * - direction 'right': crece hacia la derecha (ej: "muy alta")
+ * - direction 'left': crece hacia la izquierda (ej: "muy baja")
+ */
+export interface SigmoidShape {
+    shape: 'sigmoid'
+    center: number
+    slope: number
+    direction: 'left' | 'right'
+}
+
+/**
+ * Lineal a trozos: lista de puntos [x, μ] con x creciente.
+ * Fuera del primer y último punto se extiende el valor extremo.
+ */
+export interface PiecewiseShape {
+    shape: 'piecewise'
+    points: Array<[number, number]>
+}
+
+/**
+ * Singleton: μ(x) = 1 solo en x = value (típico en salidas tipo Sugeno)
+ */
+export interface SingletonShape {
+    shape: 'singleton'
+    value: number
+}
+
+export type MembershipShape =
+    | TrapezoidalShape
+    | TriangularShape
+    | GaussianShape
+    | BellShape
+    | SigmoidShape
+    | PiecewiseShape
+    | SingletonShape
+
+/**
+ * Huella de incertidumbre (FOU) de un conjunto difuso tipo 2 de intervalo
+ *
+ * La función de membresía del término es la función PRINCIPAL; a partir de
+ * ella se construyen:
+ * - Superior: máximo de μ en [x - spread, x + spread]
+ * - Inferior: lowerHeight · mínimo de μ en [x - spread, x + spread]
+ *
+ * `spread` modela el error o la deriva del sensor en unidades de la variable.
+ */
+export interface TermFootprint {
+    /** Semiancho de la incertidumbre horizontal (≥ 0) */
+    spread: number
+    /** Altura de la función inferior, en (0, 1] (por defecto 1) */
+    lowerHeight?: number
+}
+
+/**
+ * Término lingüístico: un nombre y una función de membresía. Los términos
+ * de ENTRADA pueden declarar una huella de incertidumbre (tipo 2).
+ */
+export type FuzzyTerm = { name: string; footprint?: TermFootprint } & MembershipShape
+
+/**
+ * Variable lingüística (entrada o salida)
+ */
+export interface FuzzyVariable {
+    /** Identificador usado por las reglas (ej: 'turbidity', 'dose') */
+    id: string
+    /** Nombre para mostrar */
+    label: string
+    /** Unidad física (ej: 'NTU', 'mg/L') */
+    unit: string
+    /** Universo de discurso [mínimo, máximo] */
+    range: [number, number]
+    /** Términos lingüísticos de la variable */
+    terms: FuzzyTerm[]
+}
+
+/**
+ * Regla difusa SI-ENTONCES
+ *
+ * El grado de activación de una regla es la T-norma configurada (por defecto
+ * el MÍNIMO de Mamdani) de los grados de membresía de todas sus condiciones.
+ * Las reglas con `antecedent` evalúan en su lugar esa expresión.
+ */
+export interface FuzzyRule {
+    id: number
+    name: string
+    /** Antecedentes: id de variable de entrada -> nombre de término */
+    conditions: Partial<Record<InputVariableId, string>>
+    /**
+     * Antecedente compuesto (hedges, NOT, OR, paréntesis). Si se indica,
+     * sustituye a `conditions`, que debe quedar vacío.
+     */
+    antecedent?: AntecedentExpression
+    /** Consecuentes: término de cada salida y nivel de corrección de pH */
+    outputs: {
+        dose: string
+        time: string
+        phCorrection: PhCorrectionLevel
+    }
+    /** Costo base asociado a esta regla ($/m³) */
+    baseCost: number
+    /** Si es false, la regla se conserva pero no participa en la inferencia */
+    enabled?: boolean
+    /**
+     * Peso o factor de certeza de la regla (0-1, por defecto 1). Multiplica
+     * su grado de activación: una regla de experto poco contrastada puede
+     * participar con menos autoridad que las demás.
+     */
+    weight?: number
+    /**
+     * Consecuentes lineales para el modo TSK. Si faltan, se usa un
+     * consecuente constante igual al centro del término Mamdani.
+     */
+    tsk?: Record<OutputVariableId, LinearConsequent>
+}
+
+/**
+ * Costos generales del proceso
+ */
+export interface FuzzySystemCosts {
+    /** Costo operativo ($/m³) cuando ninguna regla se activa */
+    fallback: number
+    /**
+     * Obsoleto: mg/L de reactivo por unidad de desviación de pH respecto a 7.
+     * La dosis la calcula ahora el modelo de titulación (`ph-correction.ts`);
+     * se admite para poder cargar definiciones anteriores.
+     */
+    phCorrectionFactors?: Record<Exclude<PhCorrectionLevel, 'none'>, number>
+}
+
+/**
+ * Definición completa y serializable del controlador difuso
+ */
+export interface FuzzySystemDefinition {
+    /** Versión del esquema (ver FUZZY_SYSTEM_SCHEMA_VERSION) */
+    version: number
+    /** Nombre descriptivo (ej: planta o configuración) */
+    name: string
+    inputs: FuzzyVariable[]
+    outputs: FuzzyVariable[]
+    rules: FuzzyRule[]
+    costs: FuzzySystemCosts
+    /** Método de defuzzificación (por defecto 'centroid') */
+    defuzzification?: DefuzzificationMethod
+    /** Operadores difusos (por defecto DEFAULT_OPERATORS) */
+    operators?: FuzzyOperators
+    /** Modo de inferencia (por defecto 'mamdani') */
+    inferenceMode?: InferenceMode
+    /** Coagulante al que corresponden los términos de la dosis (por defecto 'alum') */
+    coagulant?: CoagulantId
+}
+
+/**
+ * Problema encontrado al validar una definición
+ */
+export interface ValidationIssue {
+    /** Ruta del campo dentro de la definición (ej: 'rules[3].outputs.dose'; '$' es la raíz) */
+    path: string
+    /** Descripción del problema en cada idioma de la interfaz */
+    message: LocalizedText
+}
+
+/**
+ * Error lanzado cuando una definición no cumple el esquema.
+ * Contiene la lista completa de problemas, no solo el primero.
+ */
+export class FuzzySystemValidationError extends Error {
+    readonly issues: ValidationIssue[]
+
+    constructor(issues: ValidationIssue[]) {
+        super(
+            `Definición del sistema difuso inválida (${issues.length} ${issues.length === 1 ? 'problema' : 'problemas'}):\n` +
+            issues.map(issue => `- ${issue.path}: ${issue.message.es}`).join('\n')
+        )
+        this.name = 'FuzzySystemValidationError'
+        this.issues = issues
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// VARIABLES DE ENTRADA POR DEFECTO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * TURBIDEZ (NTU)
+ * La turbidez mide la cantidad de partículas suspendidas en el agua.
+ * Rangos basados en estándares de la OMS y EPA:
+ * - < 5 NTU: Agua potable aceptable
+ * - 5-50 NTU: Agua superficial típica
+ * - 50-500 NTU: Agua turbia (después de lluvias)
+ * - > 500 NTU: Agua muy turbia (eventos extremos)
+ *
+ * La huella de incertidumbre crece con la turbidez (≈5% del valor), como
+ * el error típico de un turbidímetro nefelométrico.
+ */
+const TURBIDITY_VARIABLE: FuzzyVariable = {
+    id: 'turbidity',
+    label: 'Turbidez',
+    unit: 'NTU',
+    range: [0, 1000],
+    terms: [
+        { name: 'muy_baja', points: [0, 0, 5, 15], footprint: { spread: 2 } },      // 0-15 NTU
+        { name: 'baja', points: [10, 20, 40, 60], footprint: { spread: 4 } },   // 10-60 NTU
+        { name: 'media', points: [50, 80, 150, 200], footprint: { spread: 10 } }, // 50-200 NTU
+        { name: 'alta', points: [150, 250, 400, 500], footprint: { spread: 20 } }, // 150-500 NTU
+        { name: 'muy_alta', points: [400, 600, 1000, 1000], footprint: { spread: 30 } } // 400+ NTU
+    ]
+}
+
+/**
+ * pH (Escala 0-14)
+ * El pH afecta la eficiencia del coagulante:
+ * - Muy ácido (< 6): Corrosivo, requiere neutralización
+ * - Ácido (6-6.5): Subóptimo para coagulación
+ * - Neutro (6.5-8): Rango óptimo para Al2(SO4)3
+ * - Alcalino (8-9): Subóptimo, puede requerir ajuste
+ * - Muy alcalino (> 9): Ineficiente, requiere corrección
+ *
+ * Huella de ±0.15 unidades: deriva habitual de un electrodo entre calibraciones.
+ */
+const PH_VARIABLE: FuzzyVariable = {
+    id: 'ph',
+    label: 'pH',
+    unit: '',
+    range: [0, 14],
+    terms: [
+        { name: 'muy_acido', points: [0, 0, 4, 5.5], footprint: { spread: 0.15 } },
+        { name: 'acido', points: [5, 5.5, 6, 6.5], footprint: { spread: 0.15 } },
+        { name: 'neutro', points: [6.2, 6.8, 7.5, 8.2], footprint: { spread: 0.15 } },
+        { name: 'alcalino', points: [7.8, 8.5, 9, 9.5], footprint: { spread: 0.15 } },
+        { name: 'muy_alcalino', points: [9, 10, 14, 14], footprint: { spread: 0.15 } }
+    ]
+}
+
+/**
+ * TEMPERATURA (°C)
+ * La temperatura afecta la viscosidad del agua y la cinética de reacción:
+ * - Fría (< 15°C): Coagulación más lenta, requiere más tiempo
+ * - Normal (15-25°C): Condiciones óptimas
+ * - Cálida (> 25°C): Reacciones más rápidas, cuidar sobredosificación
+ *
+ * Huella de ±0.5 °C: precisión de una sonda PT100 de campo.
+ */
+const TEMPERATURE_VARIABLE: FuzzyVariable = {
+    id: 'temperature',
+    label: 'Temperatura',
+    unit: '°C',
+    range: [0, 40],
+    terms: [
+        { name: 'fria', points: [0, 0, 10, 18], footprint: { spread: 0.5 } },
+        { name: 'normal', points: [15, 20, 25, 28], footprint: { spread: 0.5 } },
+        { name: 'calida', points: [25, 30, 40, 40], footprint: { spread: 0.5 } }
+    ]
+}
+
+/**
+ * ALCALINIDAD (mg/L como CaCO₃)
+ * El sulfato de aluminio consume ≈0.5 mg/L de alcalinidad por mg/L dosificado:
+ * - Baja (< 40): el agua no amortigua la caída de pH, hace falta cal
+ * - Media (40-140): suficiente para la dosis habitual
+ * - Alta (> 140): el pH de coagulación cuesta de alcanzar, más coagulante
+ */
+const ALKALINITY_VARIABLE: FuzzyVariable = {
+    id: 'alkalinity',
+    label: 'Alcalinidad',
+    unit: 'mg/L CaCO₃',
+    range: [0, 300],
+    terms: [
+        { name: 'baja', points: [0, 0, 20, 40], footprint: { spread: 3 } },
+        { name: 'media', points: [30, 50, 100, 140], footprint: { spread: 3 } },
+        { name: 'alta', points: [120, 160, 300, 300], footprint: { spread: 3 } }
+    ]
+}
+
+/**
+ * CONDUCTIVIDAD ELÉCTRICA (µS/cm)
+ * Mide la fuerza iónica del agua, que comprime la doble capa eléctrica de
+ * las partículas y facilita desestabilizarlas:
+ * - Baja (< 150): agua blanda de deshielo o embalse de montaña, las
+ *   partículas se repelen y hace falta más coagulante y más tiempo
+ * - Media (150-800): agua superficial habitual
+ * - Alta (> 800): sales disueltas (vertidos, intrusión salina); la doble
+ *   capa se comprime y basta menos coagulante
+ *
+ * Huella de ±10 µS/cm: precisión de una sonda de conductividad de campo.
+ */
+const CONDUCTIVITY_VARIABLE: FuzzyVariable = {
+    id: 'conductivity',
+    label: 'Conductividad',
+    unit: 'µS/cm',
+    range: [0, 3000],
+    terms: [
+        { name: 'baja', points: [0, 0, 100, 200], footprint: { spread: 10 } },
+        { name: 'media', points: [150, 250, 700, 1000], footprint: { spread: 10 } },
+        { name: 'alta', points: [800, 1200, 3000, 3000], footprint: { spread: 10 } }
+    ]
+}
+
+/**
+ * COLOR VERDADERO (UC, unidades Pt-Co)
+ * Indicador de materia orgánica natural (NOM) disuelta. Con poca turbidez
+ * es el color, y no las partículas, lo que fija la demanda de coagulante:
+ * - Bajo (< 20): agua clara
+ * - Medio (20-60): aguas de embalse
+ * - Alto (> 60): ríos de turbera o tras lluvias sobre suelos orgánicos
+ */
+const COLOR_VARIABLE: FuzzyVariable = {
+    id: 'color',
+    label: 'Color',
+    unit: 'UC',
+    range: [0, 200],
+    terms: [
+        { name: 'baja', points: [0, 0, 10, 20], footprint: { spread: 2 } },
+        { name: 'media', points: [15, 25, 40, 60], footprint: { spread: 2 } },
+        { name: 'alta', points: [50, 80, 200, 200], footprint: { spread: 2 } }
+    ]
+}
+
+/**
+ * CAUDAL DE AGUA CRUDA (m³/h)
+ * Con volúmenes de floculador y decantador fijos, el caudal fija el tiempo
+ * de residencia: a caudal alto hay menos tiempo y se compensa con dosis.
+ *
+ * Huella de ±20 m³/h: precisión de un caudalímetro electromagnético.
+ */
+const FLOW_RATE_VARIABLE: FuzzyVariable = {
+    id: 'flowRate',
+    label: 'Caudal',
+    unit: 'm³/h',
+    range: [0, 2000],
+    terms: [
+        { name: 'baja', points: [0, 0, 300, 600], footprint: { spread: 20 } },
+        { name: 'media', points: [400, 700, 1300, 1600], footprint: { spread: 20 } },
+        { name: 'alta', points: [1400, 1700, 2000, 2000], footprint: { spread: 20 } }
+    ]
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// VARIABLES DE SALIDA POR DEFECTO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * DOSIS DE COAGULANTE (mg/L de Sulfato de Aluminio)
+ * Dosificación típica en plantas de tratamiento:
+ * - 5-15 mg/L: Agua casi limpia
+ * - 15-30 mg/L: Turbidez moderada
+ * - 30-60 mg/L: Turbidez alta
+ * - 60-100 mg/L: Eventos extremos (tormentas)
+ */
+export const DOSE_VARIABLE: FuzzyVariable = {
+    id: 'dose',
+    label: 'Dosis de Coagulante',
+    unit: 'mg/L',
+    range: [0, 100],
+    terms: [
+        { name: 'muy_baja', points: [0, 0, 5, 12] },
+        { name: 'baja', points: [8, 15, 22, 28] },
+        { name: 'media', points: [25, 35, 45, 55] },
+        { name: 'alta', points: [50, 60, 75, 85] },
+        { name: 'muy_alta', points: [80, 90, 100, 100] }
+    ]
+}
+
+/**
+ * TIEMPO DE FLOCULACIÓN (minutos)
+ * Tiempo de agitación lenta para formación de flóculos:
+ * - 10-15 min: Agua limpia, flóculos rápidos
+ * - 15-25 min: Condiciones normales
+ * - 25-40 min: Alta turbidez, requiere más tiempo
+ * - 40-60 min: Condiciones extremas
+ */
+const TIME_VARIABLE: FuzzyVariable = {
+    id: 'time',
+    label: 'Tiempo de Floculación',
+    unit: 'min',
+    range: [0, 60],
+    terms: [
+        { name: 'muy_corto', points: [0, 0, 8, 12] },
+        { name: 'corto', points: [10, 14, 18, 22] },
+        { name: 'medio', points: [20, 25, 32, 38] },
+        { name: 'largo', points: [35, 42, 50, 55] },
+        { name: 'muy_largo', points: [50, 55, 60, 60] }
+    ]
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// BASE DE REGLAS POR DEFECTO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Las reglas difusas codifican el conocimiento experto de un operador de planta.
+ * Cada regla tiene:
+ * - Condiciones (antecedentes): combinaciones de estados de las variables de entrada
+ * - Conclusiones (consecuentes): acciones recomendadas
+ */
+const DEFAULT_RULES: FuzzyRule[] = [
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS PARA AGUA LIMPIA (Turbidez muy baja o baja)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 1,
+        name: "Agua cristalina - Condiciones óptimas",
+        conditions: { turbidity: 'muy_baja', ph: 'neutro' },
+        outputs: { dose: 'muy_baja', time: 'muy_corto', phCorrection: 'none' },
+        baseCost: 0.05
+    },
+    {
+        id: 2,
+        name: "Agua limpia - pH ácido leve",
+        conditions: { turbidity: 'muy_baja', ph: 'acido' },
+        outputs: { dose: 'baja', time: 'corto', phCorrection: 'slight' },
+        baseCost: 0.08
+    },
+    {
+        id: 3,
+        name: "Agua limpia - pH alcalino leve",
+        conditions: { turbidity: 'muy_baja', ph: 'alcalino' },
+        outputs: { dose: 'baja', time: 'corto', phCorrection: 'slight' },
+        baseCost: 0.08
+    },
+    {
+        id: 4,
+        name: "Agua baja turbidez - Condiciones normales",
+        conditions: { turbidity: 'baja', ph: 'neutro' },
+        outputs: { dose: 'baja', time: 'corto', phCorrection: 'none' },
+        baseCost: 0.10
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS PARA TURBIDEZ MEDIA (Condiciones típicas)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 5,
+        name: "Turbidez media - pH neutro óptimo",
+        conditions: { turbidity: 'media', ph: 'neutro' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'none' },
+        baseCost: 0.18
+    },
+    {
+        id: 6,
+        name: "Turbidez media - pH ácido",
+        conditions: { turbidity: 'media', ph: 'acido' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'moderate' },
+        baseCost: 0.22
+    },
+    {
+        id: 7,
+        name: "Turbidez media - pH alcalino",
+        conditions: { turbidity: 'media', ph: 'alcalino' },
+        outputs: { dose: 'alta', time: 'medio', phCorrection: 'slight' },
+        baseCost: 0.24
+    },
+    {
+        id: 8,
+        name: "Turbidez media - Agua fría",
+        conditions: { turbidity: 'media', temperature: 'fria' },
+        outputs: { dose: 'alta', time: 'largo', phCorrection: 'none' },
+        baseCost: 0.25
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS PARA TURBIDEZ ALTA (Post-lluvia típico)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 9,
+        name: "Alta turbidez - pH neutro",
+        conditions: { turbidity: 'alta', ph: 'neutro' },
+        outputs: { dose: 'alta', time: 'largo', phCorrection: 'none' },
+        baseCost: 0.35
+    },
+    {
+        id: 10,
+        name: "Alta turbidez - pH ácido",
+        conditions: { turbidity: 'alta', ph: 'acido' },
+        outputs: { dose: 'alta', time: 'largo', phCorrection: 'moderate' },
+        baseCost: 0.42
+    },
+    {
+        id: 11,
+        name: "Alta turbidez - pH alcalino",
+        conditions: { turbidity: 'alta', ph: 'alcalino' },
+        outputs: { dose: 'muy_alta', time: 'largo', phCorrection: 'moderate' },
+        baseCost: 0.45
+    },
+    {
+        id: 12,
+        name: "Alta turbidez - Agua fría",
+        conditions: { turbidity: 'alta', temperature: 'fria' },
+        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'none' },
+        baseCost: 0.48
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS PARA TURBIDEZ MUY ALTA (Emergencia - Tormentas)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 13,
+        name: "Emergencia - Turbidez extrema, pH neutro",
+        conditions: { turbidity: 'muy_alta', ph: 'neutro' },
+        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'none' },
+        baseCost: 0.55
+    },
+    {
+        id: 14,
+        name: "Emergencia - Turbidez extrema, pH ácido severo",
+        conditions: { turbidity: 'muy_alta', ph: 'muy_acido' },
+        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'intense' },
+        baseCost: 0.75
+    },
+    {
+        id: 15,
+        name: "Emergencia - Turbidez extrema, pH alcalino severo",
+        conditions: { turbidity: 'muy_alta', ph: 'muy_alcalino' },
+        outputs: { dose: 'muy_alta', time: 'muy_largo', phCorrection: 'intense' },
+        baseCost: 0.72
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS PARA pH EXTREMO (Vertidos industriales)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 16,
+        name: "Vertido ácido - Turbidez baja",
+        conditions: { turbidity: 'baja', ph: 'muy_acido' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'intense' },
+        baseCost: 0.38
+    },
+    {
+        id: 17,
+        name: "Vertido alcalino - Turbidez baja",
+        conditions: { turbidity: 'baja', ph: 'muy_alcalino' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'intense' },
+        baseCost: 0.35
+    },
+    {
+        id: 18,
+        name: "Vertido ácido - Turbidez media",
+        conditions: { turbidity: 'media', ph: 'muy_acido' },
+        outputs: { dose: 'alta', time: 'largo', phCorrection: 'intense' },
+        baseCost: 0.52
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS CON TEMPERATURA
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 19,
+        name: "Agua caliente - Turbidez baja",
+        conditions: { turbidity: 'baja', temperature: 'calida' },
+        outputs: { dose: 'baja', time: 'muy_corto', phCorrection: 'none' },
+        baseCost: 0.08
+    },
+    {
+        id: 20,
+        name: "Agua caliente - Turbidez alta",
+        conditions: { turbidity: 'alta', temperature: 'calida' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'none' },
+        baseCost: 0.28
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS CON ALCALINIDAD (consumo por el coagulante)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 21,
+        name: "Agua blanda - Turbidez media",
+        conditions: { turbidity: 'media', alkalinity: 'baja' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'moderate' },
+        baseCost: 0.26
+    },
+    {
+        id: 22,
+        name: "Agua blanda - Turbidez alta",
+        conditions: { turbidity: 'alta', alkalinity: 'baja' },
+        outputs: { dose: 'alta', time: 'largo', phCorrection: 'intense' },
+        baseCost: 0.46
+    },
+    {
+        id: 23,
+        name: "Agua muy tamponada - Turbidez media",
+        conditions: { turbidity: 'media', alkalinity: 'alta' },
+        outputs: { dose: 'alta', time: 'medio', phCorrection: 'none' },
+        baseCost: 0.24
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS CON COLOR (materia orgánica natural)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 24,
+        name: "Color alto - Turbidez muy baja",
+        conditions: { turbidity: 'muy_baja', color: 'alta' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'none' },
+        baseCost: 0.18
+    },
+    {
+        id: 25,
+        name: "Color alto - Turbidez baja",
+        conditions: { turbidity: 'baja', color: 'alta' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'none' },
+        baseCost: 0.20
+    },
+    {
+        id: 26,
+        name: "Color medio - Turbidez muy baja",
+        conditions: { turbidity: 'muy_baja', color: 'media' },
+        outputs: { dose: 'baja', time: 'corto', phCorrection: 'none' },
+        baseCost: 0.09
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS CON CAUDAL (tiempo de residencia)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 27,
+        name: "Caudal alto - Turbidez alta",
+        conditions: { turbidity: 'alta', flowRate: 'alta' },
+        outputs: { dose: 'muy_alta', time: 'medio', phCorrection: 'none' },
+        baseCost: 0.50
+    },
+    {
+        id: 28,
+        name: "Caudal bajo - Turbidez media",
+        conditions: { turbidity: 'media', flowRate: 'baja' },
+        outputs: { dose: 'media', time: 'largo', phCorrection: 'none' },
+        baseCost: 0.17
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // REGLAS CON CONDUCTIVIDAD (fuerza iónica)
+    // ═══════════════════════════════════════════════════════════════
+    {
+        id: 29,
+        name: "Conductividad baja - Turbidez media",
+        conditions: { turbidity: 'media', conductivity: 'baja' },
+        outputs: { dose: 'alta', time: 'largo', phCorrection: 'none' },
+        baseCost: 0.26
+    },
+    {
+        id: 30,
+        name: "Conductividad alta - Turbidez alta",
+        conditions: { turbidity: 'alta', conductivity: 'alta' },
+        outputs: { dose: 'media', time: 'medio', phCorrection: 'none' },
+        baseCost: 0.22
+    }
+]
+
+/**
+ * Definición por defecto: el controlador de coagulación-floculación para
+ * Sulfato de Aluminio, con las 20 reglas expertas originales más 10 de
+ * alcalinidad, conductividad, color y caudal (30 en total).
+ */
+export const DEFAULT_FUZZY_SYSTEM: FuzzySystemDefinition = {
+    version: FUZZY_SYSTEM_SCHEMA_VERSION,
+    name: 'Coagulación-Floculación (Sulfato de Aluminio)',
+    inputs: [TURBIDITY_VARIABLE, PH_VARIABLE, TEMPERATURE_VARIABLE, ALKALINITY_VARIABLE, CONDUCTIVITY_VARIABLE, COLOR_VARIABLE, FLOW_RATE_VARIABLE],
+    outputs: [DOSE_VARIABLE, TIME_VARIABLE],
+    rules: DEFAULT_RULES,
+    costs: {
+        fallback: 0.10
+    },
+    defuzzification: 'centroid',
+    operators: DEFAULT_OPERATORS,
+    coagulant: 'alum'
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSULTAS SOBRE LA DEFINICIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Busca una variable (de entrada o salida) por su id
+ */
+export function findVariable(system: FuzzySystemDefinition, id: string): FuzzyVariable | undefined {
+    return system.inputs.find(v => v.id === id) ?? system.outputs.find(v => v.id === id)
+}
+
+/**
+ * Crea una regla nueva válida para la definición: primera condición de la
+ * primera entrada, primeros términos de salida y el costo de respaldo.
+ */
+export function createDefaultRule(system: FuzzySystemDefinition): FuzzyRule {
+    const firstInput = system.inputs[0]
+    const nextId = system.rules.reduce((max, rule) => Math.max(max, rule.id), 0) + 1
+    const firstTerm = (id: OutputVariableId) => system.outputs.find(v => v.id === id)?.terms[0]?.name ?? ''
+
+    return {
+        id: nextId,
+        name: `Nueva regla ${nextId}`,
+        conditions: firstInput ? { [firstInput.id]: firstInput.terms[0].name } : {},
+        outputs: { dose: firstTerm('dose'), time: firstTerm('time'), phCorrection: 'none' },
+        baseCost: system.costs.fallback
+    }
+}
+
+/**
+ * Antecedente de una regla como expresión (las condiciones simples se unen con AND)
+ */
+export function getRuleAntecedent(rule: FuzzyRule): AntecedentExpression {
+    if (rule.antecedent) return rule.antecedent
+    const clauses: AntecedentExpression[] = Object.entries(rule.conditions)
+        .filter(([, term]) => term)
+        .map(([variable, term]) => ({ op: 'is', variable: variable as InputVariableId, term: term as string }))
+    return clauses.length === 1 ? clauses[0] : { op: 'and', operands: clauses }
+}
+
+/** Ancho mínimo de un término al moverlo, en fracción del universo */
+const MIN_TERM_WIDTH = 0.01
+
+/**
+ * Parámetros de posición y anchura de un término, los que ajustan los
+ * optimizadores (la pendiente de campanas y sigmoides y los singletons no
+ * se tocan)
+ */
+export function getTermParameters(term: FuzzyTerm): number[] {
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal':
+        case 'triangular':
+            return [...term.points]
+        case 'gaussian':
+            return [term.mean, term.sigma]
+        case 'bell':
+            return [term.center, term.width]
+        case 'sigmoid':
+            return [term.center]
+        case 'piecewise':
+            return term.points.map(([x]) => x)
+        case 'singleton':
+            return []
+    }
+}
+
+/**
+ * Término con nuevos parámetros (en el orden de `getTermParameters`),
+ * ordenados y recortados al universo. Devuelve null si el término degenera
+ * (ancho menor que el 1% del universo).
+ */
+export function withTermParameters(term: FuzzyTerm, params: number[], range: [number, number]): FuzzyTerm | null {
+    const [min, max] = range
+    const minWidth = (max - min) * MIN_TERM_WIDTH
+    const clamp = (value: number) => Math.min(max, Math.max(min, value))
+    const sorted = params.map(clamp).sort((a, b) => a - b)
+    const wide = sorted.length === 0 || sorted[sorted.length - 1] - sorted[0] >= minWidth
+
+    switch (term.shape) {
+        case undefined:
+        case 'trapezoidal':
+            return wide ? { ...term, points: [sorted[0], sorted[1], sorted[2], sorted[3]] } : null
+        case 'triangular':
+            return wide ? { ...term, shape: 'triangular', points: [sorted[0], sorted[1], sorted[2]] } : null
+        case 'gaussian':
+            return params[1] >= minWidth ? { ...term, mean: clamp(params[0]), sigma: params[1] } : null
+        case 'bell':
+            return params[1] >= minWidth ? { ...term, center: clamp(params[0]), width: params[1] } : null
+        case 'sigmoid':
+            return { ...term, center: clamp(params[0]) }
+        case 'piecewise':
+            return wide ? { ...term, points: term.points.map(([, mu], i) => [sorted[i], mu] as [number, number]) } : null
+        case 'singleton':
+            return term
+    }
+}
+
+/**
+ * Peso de una regla (1 si no lo indica)
+ */
+export function getRuleWeight(rule: FuzzyRule): number {
+    return rule.weight ?? 1
+}
+
+/**
+ * Condiciones simples equivalentes a una expresión, o null si usa hedges,
+ * NOT, OR o repite una variable
+ */
+export function toSimpleConditions(expression: AntecedentExpression): FuzzyRule['conditions'] | null {
+    const clauses = expression.op === 'and' ? expression.operands : [expression]
+    const conditions: FuzzyRule['conditions'] = {}
+    for (const clause of clauses) {
+        if (clause.op !== 'is' || clause.negated || clause.hedges?.length || conditions[clause.variable]) return null
+        conditions[clause.variable] = clause.term
+    }
+    return conditions
+}
+
+/**
+ * Variables de entrada que aparecen en una expresión
+ */
+export function antecedentVariables(expression: AntecedentExpression): Set<InputVariableId> {
+    switch (expression.op) {
+        case 'is':
+            return new Set([expression.variable])
+        case 'not':
+            return antecedentVariables(expression.operand)
+        default:
+            return new Set(expression.operands.flatMap(operand => [...antecedentVariables(operand)]))
+    }
+}
+
+/**
+ * Expresión en sintaxis FCL, ej: `turbidity IS very alta AND (ph IS NOT neutro)`
+ */
+export function formatAntecedent(expression: AntecedentExpression): string {
+    switch (expression.op) {
+        case 'is':
+            return [
+                expression.variable,
+                'IS',
+                ...(expression.negated ? ['NOT'] : []),
+                ...(expression.hedges ?? []),
+                expression.term
+            ].join(' ')
+        case 'not':
+            return `NOT (${formatAntecedent(expression.operand)})`
+        default:
+            return expression.operands
+                .map(operand => operand.op === 'and' || operand.op === 'or'
+                    ? `(${formatAntecedent(operand)})`
+                    : formatAntecedent(operand))
+                .join(` ${expression.op.toUpperCase()} `)
+    }
+}
+
+/**
+ * Coincidencias de antecedentes de una regla con otras reglas activas
+ */
+export interface RuleOverlap {
+    /** Reglas con los mismos antecedentes y los mismos consecuentes (redundantes) */
+    duplicates: number[]
+    /** Reglas con los mismos antecedentes pero consecuentes distintos (contradictorias) */
+    conflicts: number[]
+}
+
+/**
+ * Firma canónica de los antecedentes de una regla (independiente del orden)
+ */
+function antecedentKey(rule: FuzzyRule): string {
+    if (rule.antecedent) return formatAntecedent(rule.antecedent)
+    return Object.entries(rule.conditions)
+        .filter(([, term]) => term)
+        .map(([variable, term]) => `${variable}=${term}`)
+        .sort()
+        .join('&')
+}
+
+/**
+ * Detecta reglas habilitadas que comparten exactamente los mismos antecedentes
+ *
+ * @returns Mapa (id_regla -> coincidencias); solo incluye reglas con alguna coincidencia
+ */
+export function findRuleOverlaps(rules: FuzzyRule[]): Map<number, RuleOverlap> {
+    const groups = new Map<string, FuzzyRule[]>()
+    for (const rule of rules) {
+        if (rule.enabled === false) continue
+        const key = antecedentKey(rule)
+        groups.set(key, [...(groups.get(key) ?? []), rule])
+    }
+
+    const overlaps = new Map<number, RuleOverlap>()
+    for (const group of groups.values()) {
+        if (group.length < 2) continue
+        for (const rule of group) {
+            const others = group.filter(other => other.id !== rule.id)
+            const sameOutputs = (other: FuzzyRule) =>
+                other.outputs.dose === rule.outputs.dose &&
+                other.outputs.time === rule.outputs.time &&
+                other.outputs.phCorrection === rule.outputs.phCorrection
+            overlaps.set(rule.id, {
+                duplicates: others.filter(sameOutputs).map(other => other.id),
+                conflicts: others.filter(other => !sameOutputs(other)).map(other => other.id)
+            })
+        }
+    }
+    return overlaps
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// VALIDACIÓN DEL ESQUEMA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0
+}
+
+/**
+ * Valida una variable lingüística y acumula los problemas encontrados
+ */
+function validateVariable(value: unknown, path: string, issues: ValidationIssue[], allowFootprint: boolean): void {
+    if (!isRecord(value)) {
+        issues.push({ path, message: { es: 'debe ser un objeto', en: 'must be an object' } })
+        return
+    }
+
+    if (!isNonEmptyString(value.id)) issues.push({
+        path: `${path}.id`,
+        message: {
+            es: 'debe ser un texto no vacío',
+            en: 'must be a non-empty string'
+        }
+    })
+    if (typeof value.label !== 'string') issues.push({ path: `${path}.label`, message: { es: 'debe ser un texto', en: 'must be a string' } })
+    if (typeof value.unit !== 'string') issues.push({ path: `${path}.unit`, message: { es: 'debe ser un texto', en: 'must be a string' } })
+
+    const range = value.range
+    if (!Array.isArray(range) || range.length !== 2 || !range.every(isFiniteNumber)) {
+        issues.push({
+            path: `${path}.range`,
+            message: {
+                es: 'debe ser [mínimo, máximo] con dos números',
+                en: 'must be [min, max] with two numbers'
+            }
+        })
+    } else if (range[0] >= range[1]) {
+        issues.push({
+            path: `${path}.range`,
+            message: {
+                es: `el mínimo (${range[0]}) debe ser menor que el máximo (${range[1]})`,
+                en: `the minimum (${range[0]}) must be less than the maximum (${range[1]})`
+            }
+        })
+    }
+
+    if (!Array.isArray(value.terms) || value.terms.length === 0) {
+        issues.push({ path: `${path}.terms`, message: { es: 'debe contener al menos un término', en: 'must contain at least one term' } })
+        return
+    }
+
+    const seen = new Set<string>()
+    value.terms.forEach((term: unknown, index: number) => {
+        const termPath = `${path}.terms[${index}]`
+        if (!isRecord(term)) {
+            issues.push({ path: termPath, message: { es: 'debe ser un objeto', en: 'must be an object' } })
+            return
+        }
+        if (!isNonEmptyString(term.name)) {
+            issues.push({ path: `${termPath}.name`, message: { es: 'debe ser un texto no vacío', en: 'must be a non-empty string' } })
+        } else if (seen.has(term.name)) {
+            issues.push({ path: `${termPath}.name`, message: { es: `término duplicado '${term.name}'`, en: `duplicate term '${term.name}'` } })
+        } else {
+            seen.add(term.name)
+        }
+
+        validateMembershipShape(term, termPath, issues)
+        validateFootprint(term.footprint, `${termPath}.footprint`, issues, allowFootprint)
+    })
+}
+
+/**
+ * Valida la huella de incertidumbre (tipo 2) de un término, si existe
+ */
+function validateFootprint(value: unknown, path: string, issues: ValidationIssue[], allowed: boolean): void {
+    if (value === undefined) return
+    if (!allowed) {
+        issues.push({ path, message: { es: 'solo los términos de entrada admiten huella de incertidumbre', en: 'only input terms accept an uncertainty footprint' } })
+        return
+    }
+    if (!isRecord(value)) {
+        issues.push({ path, message: { es: 'debe ser un objeto { spread, lowerHeight? }', en: 'must be an object { spread, lowerHeight? }' } })
+        return
+    }
+    if (!isFiniteNumber(value.spread) || value.spread < 0) {
+        issues.push({
+            path: `${path}.spread`,
+            message: {
+                es: 'debe ser un número mayor o igual que 0',
+                en: 'must be a number greater than or equal to 0'
+            }
+        })
+    }
+    if (value.lowerHeight !== undefined &&
+        (!isFiniteNumber(value.lowerHeight) || value.lowerHeight <= 0 || value.lowerHeight > 1)) {
+        issues.push({ path: `${path}.lowerHeight`, message: { es: 'debe estar en el intervalo (0, 1]', en: 'must be in the interval (0, 1]' } })
+    }
+}
+
+/**
+ * Comprueba que una lista de números sea no decreciente
+ */
+function isNonDecreasing(values: number[]): boolean {
+    return values.every((value, index) => index === 0 || values[index - 1] <= value)
+}
+
+/**
+ * Valida los parámetros de la función de membresía según su forma
+ */
+function validateMembershipShape(term: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+    const shape = term.shape ?? 'trapezoidal'
+    const requirePositive = (key: string) => {
+        if (!isFiniteNumber(term[key]) || (term[key] as number) <= 0) {
+            issues.push({ path: `${path}.${key}`, message: { es: 'debe ser un número mayor que 0', en: 'must be a number greater than 0' } })
+        }
+    }
+    const requireNumber = (key: string) => {
+        if (!isFiniteNumber(term[key])) {
+            issues.push({ path: `${path}.${key}`, message: { es: 'debe ser un número', en: 'must be a number' } })
+        }
+    }
+
+    switch (shape) {
+        case 'trapezoidal':
+        case 'triangular': {
+            const count = shape === 'trapezoidal' ? 4 : 3
+            const labels = shape === 'trapezoidal' ? 'a ≤ b ≤ c ≤ d' : 'a ≤ b ≤ c'
+            const points = term.points
+            if (!Array.isArray(points) || points.length !== count || !points.every(isFiniteNumber)) {
+                issues.push({
+                    path: `${path}.points`,
+                    message: {
+                        es: `debe ser [${labels.replace(/ ≤ /g, ', ')}] con ${count} números`,
+                        en: `must be [${labels.replace(/ ≤ /g, ', ')}] with ${count} numbers`
+                    }
+                })
+            } else if (!isNonDecreasing(points)) {
+                issues.push({
+                    path: `${path}.points`,
+                    message: {
+                        es: `los puntos deben cumplir ${labels} (recibido [${points.join(', ')}])`,
+                        en: `the points must satisfy ${labels} (got [${points.join(', ')}])`
+                    }
+                })
+            }
+            break
+        }
+        case 'gaussian':
+            requireNumber('mean')
+            requirePositive('sigma')
+            break
+        case 'bell':
+            requireNumber('center')
+            requirePositive('width')
+            requirePositive('slope')
+            break
+        case 'sigmoid':
+            requireNumber('center')
+            requirePositive('slope')
+            if (term.direction !== 'left' && term.direction !== 'right') {
+                issues.push({ path: `${path}.direction`, message: { es: "debe ser 'left' o 'right'", en: "must be 'left' or 'right'" } })
+            }
+            break
+        case 'piecewise': {
+            const points = term.points
+            const valid = Array.isArray(points) && points.length >= 2 && points.every(
+                (p: unknown) => Array.isArray(p) && p.length === 2 && isFiniteNumber(p[0]) && isFiniteNumber(p[1])
+            )
+            if (!valid) {
+                issues.push({
+                    path: `${path}.points`,
+                    message: {
+                        es: 'debe ser una lista de al menos dos puntos [x, μ]',
+                        en: 'must be a list of at least two points [x, μ]'
+                    }
+                })
+            } else if (!isNonDecreasing((points as number[][]).map(p => p[0]))) {
+                issues.push({ path: `${path}.points`, message: { es: 'las abscisas x deben ser crecientes', en: 'the x values must be increasing' } })
+            } else if (!(points as number[][]).every(p => p[1] >= 0 && p[1] <= 1)) {
+                issues.push({
+                    path: `${path}.points`,
+                    message: {
+                        es: 'los grados μ deben estar entre 0 y 1',
+                        en: 'the μ degrees must be between 0 and 1'
+                    }
+                })
+            }
+            break
+        }
+        case 'singleton':
+            requireNumber('value')
+            break
+        default:
+            issues.push({
+                path: `${path}.shape`,
+                message: {
+                    es: `forma desconocida '${String(shape)}' (permitidas: ${MEMBERSHIP_SHAPE_KINDS.join(', ')})`,
+                    en: `unknown shape '${String(shape)}' (allowed: ${MEMBERSHIP_SHAPE_KINDS.join(', ')})`
+                }
+            })
+    }
+}
+
+/**
+ * Valida una lista de variables comprobando ids permitidos, duplicados y obligatorios
+ */
+function validateVariableList(
+    value: unknown,
+    path: string,
+    allowedIds: readonly string[],
+    requiredIds: readonly string[],
+    issues: ValidationIssue[],
+    allowFootprint: boolean
+): void {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: { es: 'debe ser una lista de variables', en: 'must be a list of variables' } })
+        return
+    }
+
+    const seen = new Set<string>()
+    value.forEach((variable: unknown, index: number) => {
+        const variablePath = `${path}[${index}]`
+        validateVariable(variable, variablePath, issues, allowFootprint)
+        if (!isRecord(variable) || !isNonEmptyString(variable.id)) return
+
+        if (!allowedIds.includes(variable.id)) {
+            issues.push({
+                path: `${variablePath}.id`,
+                message: {
+                    es: `variable desconocida '${variable.id}' (permitidas: ${allowedIds.join(', ')})`,
+                    en: `unknown variable '${variable.id}' (allowed: ${allowedIds.join(', ')})`
+                }
+            })
+        }
+        if (seen.has(variable.id)) {
+            issues.push({
+                path: `${variablePath}.id`,
+                message: {
+                    es: `variable duplicada '${variable.id}'`,
+                    en: `duplicate variable '${variable.id}'`
+                }
+            })
+        }
+        seen.add(variable.id)
+    })
+
+    for (const id of requiredIds) {
+        if (!seen.has(id)) {
+            issues.push({ path, message: { es: `falta la variable obligatoria '${id}'`, en: `missing required variable '${id}'` } })
+        }
+    }
+}
+
+/**
+ * Obtiene los nombres de término de una variable (si la variable es válida)
+ */
+function termNamesOf(variables: unknown, id: string): Set<string> | null {
+    if (!Array.isArray(variables)) return null
+    const variable = variables.find((v: unknown) => isRecord(v) && v.id === id)
+    if (!isRecord(variable) || !Array.isArray(variable.terms)) return null
+    return new Set(
+        variable.terms
+            .filter((t: unknown): t is Record<string, unknown> => isRecord(t) && typeof t.name === 'string')
+            .map(t => t.name as string)
+    )
+}
+
+/**
+ * Valida un antecedente compuesto (recursivo)
+ */
+function validateAntecedent(value: unknown, path: string, inputs: unknown, issues: ValidationIssue[]): void {
+    if (!isRecord(value)) {
+        issues.push({ path, message: { es: 'debe ser un objeto', en: 'must be an object' } })
+        return
+    }
+    switch (value.op) {
+        case 'is': {
+            const terms = termNamesOf(inputs, String(value.variable))
+            if (!terms) {
+                issues.push({
+                    path: `${path}.variable`,
+                    message: {
+                        es: `la variable de entrada '${String(value.variable)}' no está definida`,
+                        en: `input variable '${String(value.variable)}' is not defined`
+                    }
+                })
+            } else if (typeof value.term !== 'string' || !terms.has(value.term)) {
+                issues.push({
+                    path: `${path}.term`,
+                    message: {
+                        es: `término desconocido '${String(value.term)}' para '${String(value.variable)}'`,
+                        en: `unknown term '${String(value.term)}' for '${String(value.variable)}'`
+                    }
+                })
+            }
+            if (value.hedges !== undefined && (!Array.isArray(value.hedges) || value.hedges.some(h => !HEDGES.includes(h as Hedge)))) {
+                issues.push({
+                    path: `${path}.hedges`,
+                    message: {
+                        es: `debe ser una lista de: ${HEDGES.join(', ')}`,
+                        en: `must be a list of: ${HEDGES.join(', ')}`
+                    }
+                })
+            }
+            if (value.negated !== undefined && typeof value.negated !== 'boolean') {
+                issues.push({ path: `${path}.negated`, message: { es: 'debe ser true o false', en: 'must be true or false' } })
+            }
+            return
+        }
+        case 'and':
+        case 'or':
+            if (!Array.isArray(value.operands) || value.operands.length === 0) {
+                issues.push({
+                    path: `${path}.operands`,
+                    message: {
+                        es: 'debe contener al menos una expresión',
+                        en: 'must contain at least one expression'
+                    }
+                })
+                return
+            }
+            value.operands.forEach((operand: unknown, index: number) =>
+                validateAntecedent(operand, `${path}.operands[${index}]`, inputs, issues))
+            return
+        case 'not':
+            validateAntecedent(value.operand, `${path}.operand`, inputs, issues)
+            return
+        default:
+            issues.push({
+                path: `${path}.op`,
+                message: {
+                    es: `operador desconocido '${String(value.op)}' (permitidos: is, and, or, not)`,
+                    en: `unknown operator '${String(value.op)}' (allowed: is, and, or, not)`
+                }
+            })
+    }
+}
+
+/**
+ * Valida la base de reglas contra las variables declaradas
+ */
+function validateRules(value: unknown, inputs: unknown, outputs: unknown, issues: ValidationIssue[]): void {
+    if (!Array.isArray(value)) {
+        issues.push({ path: 'rules', message: { es: 'debe ser una lista de reglas', en: 'must be a list of rules' } })
+        return
+    }
+
+    const seenIds = new Set<number>()
+    value.forEach((rule: unknown, index: number) => {
+        const rulePath = `rules[${index}]`
+        if (!isRecord(rule)) {
+            issues.push({ path: rulePath, message: { es: 'debe ser un objeto', en: 'must be an object' } })
+            return
+        }
+
+        if (!Number.isInteger(rule.id)) {
+            issues.push({ path: `${rulePath}.id`, message: { es: 'debe ser un número entero', en: 'must be an integer' } })
+        } else if (seenIds.has(rule.id as number)) {
+            issues.push({ path: `${rulePath}.id`, message: { es: `id de regla duplicado (${rule.id})`, en: `duplicate rule id (${rule.id})` } })
+        } else {
+            seenIds.add(rule.id as number)
+        }
+
+        if (typeof rule.name !== 'string') issues.push({ path: `${rulePath}.name`, message: { es: 'debe ser un texto', en: 'must be a string' } })
+        if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+            issues.push({ path: `${rulePath}.enabled`, message: { es: 'debe ser true o false', en: 'must be true or false' } })
+        }
+
+        if (rule.weight !== undefined && (!isFiniteNumber(rule.weight) || rule.weight < 0 || rule.weight > 1)) {
+            issues.push({ path: `${rulePath}.weight`, message: { es: 'debe ser un número entre 0 y 1', en: 'must be a number between 0 and 1' } })
+        }
+        if (!isFiniteNumber(rule.baseCost) || rule.baseCost < 0) {
+            issues.push({
+                path: `${rulePath}.baseCost`,
+                message: {
+                    es: 'debe ser un número mayor o igual que 0',
+                    en: 'must be a number greater than or equal to 0'
+                }
+            })
+        }
+
+        // Antecedentes
+        if (rule.antecedent !== undefined) {
+            if (!isRecord(rule.conditions) || Object.keys(rule.conditions).length > 0) {
+                issues.push({
+                    path: `${rulePath}.conditions`,
+                    message: {
+                        es: "debe ser un objeto vacío cuando la regla usa 'antecedent'",
+                        en: "must be an empty object when the rule uses 'antecedent'"
+                    }
+                })
+            }
+            validateAntecedent(rule.antecedent, `${rulePath}.antecedent`, inputs, issues)
+        } else if (!isRecord(rule.conditions) || Object.keys(rule.conditions).length === 0) {
+            issues.push({
+                path: `${rulePath}.conditions`,
+                message: {
+                    es: 'debe contener al menos una condición',
+                    en: 'must contain at least one condition'
+                }
+            })
+        } else {
+            for (const [variableId, termName] of Object.entries(rule.conditions)) {
+                const conditionPath = `${rulePath}.conditions.${variableId}`
+                const terms = termNamesOf(inputs, variableId)
+                if (!terms) {
+                    issues.push({
+                        path: conditionPath,
+                        message: {
+                            es: `la variable de entrada '${variableId}' no está definida`,
+                            en: `input variable '${variableId}' is not defined`
+                        }
+                    })
+                } else if (typeof termName !== 'string' || !terms.has(termName)) {
+                    issues.push({
+                        path: conditionPath,
+                        message: {
+                            es: `término desconocido '${String(termName)}' para '${variableId}'`,
+                            en: `unknown term '${String(termName)}' for '${variableId}'`
+                        }
+                    })
+                }
+            }
+        }
+
+        // Consecuentes
+        if (!isRecord(rule.outputs)) {
+            issues.push({ path: `${rulePath}.outputs`, message: { es: 'debe ser un objeto', en: 'must be an object' } })
+            return
+        }
+        for (const outputId of OUTPUT_VARIABLE_IDS) {
+            const termName = rule.outputs[outputId]
+            const terms = termNamesOf(outputs, outputId)
+            if (terms && (typeof termName !== 'string' || !terms.has(termName))) {
+                issues.push({
+                    path: `${rulePath}.outputs.${outputId}`,
+                    message: {
+                        es: `término desconocido '${String(termName)}' para '${outputId}'`,
+                        en: `unknown term '${String(termName)}' for '${outputId}'`
+                    }
+                })
+            }
+        }
+        if (!PH_CORRECTION_LEVELS.includes(rule.outputs.phCorrection as PhCorrectionLevel)) {
+            issues.push({
+                path: `${rulePath}.outputs.phCorrection`,
+                message: { es: `debe ser uno de: ${PH_CORRECTION_LEVELS.join(', ')}`, en: `must be one of: ${PH_CORRECTION_LEVELS.join(', ')}` }
+            })
+        }
+
+        // Consecuentes lineales TSK (opcionales)
+        if (rule.tsk !== undefined) {
+            if (!isRecord(rule.tsk)) {
+                issues.push({ path: `${rulePath}.tsk`, message: { es: 'debe ser un objeto', en: 'must be an object' } })
+                return
+            }
+            for (const outputId of OUTPUT_VARIABLE_IDS) {
+                validateLinearConsequent(rule.tsk[outputId], `${rulePath}.tsk.${outputId}`, inputs, issues)
+            }
+        }
+    })
+}
+
+/**
+ * Valida un consecuente lineal TSK
+ */
+function validateLinearConsequent(value: unknown, path: string, inputs: unknown, issues: ValidationIssue[]): void {
+    if (!isRecord(value)) {
+        issues.push({ path, message: { es: 'debe ser un objeto { constant, coefficients }', en: 'must be an object { constant, coefficients }' } })
+        return
+    }
+    if (!isFiniteNumber(value.constant)) {
+        issues.push({ path: `${path}.constant`, message: { es: 'debe ser un número', en: 'must be a number' } })
+    }
+    if (!isRecord(value.coefficients)) {
+        issues.push({ path: `${path}.coefficients`, message: { es: 'debe ser un objeto', en: 'must be an object' } })
+        return
+    }
+    for (const [variableId, coefficient] of Object.entries(value.coefficients)) {
+        if (!termNamesOf(inputs, variableId)) {
+            issues.push({
+                path: `${path}.coefficients.${variableId}`,
+                message: {
+                    es: `la variable de entrada '${variableId}' no está definida`,
+                    en: `input variable '${variableId}' is not defined`
+                }
+            })
+        } else if (!isFiniteNumber(coefficient)) {
+            issues.push({ path: `${path}.coefficients.${variableId}`, message: { es: 'debe ser un número', en: 'must be a number' } })
+        }
+    }
+}
+
+/**
+ * Valida los costos generales
+ */
+function validateCosts(value: unknown, issues: ValidationIssue[]): void {
+    if (!isRecord(value)) {
+        issues.push({ path: 'costs', message: { es: 'debe ser un objeto', en: 'must be an object' } })
+        return
+    }
+    if (!isFiniteNumber(value.fallback) || value.fallback < 0) {
+        issues.push({
+            path: 'costs.fallback',
+            message: {
+                es: 'debe ser un número mayor o igual que 0',
+                en: 'must be a number greater than or equal to 0'
+            }
+        })
+    }
+    if (value.phCorrectionFactors === undefined) return
+    if (!isRecord(value.phCorrectionFactors)) {
+        issues.push({ path: 'costs.phCorrectionFactors', message: { es: 'debe ser un objeto', en: 'must be an object' } })
+        return
+    }
+    for (const level of ['slight', 'moderate', 'intense'] as const) {
+        const factor = value.phCorrectionFactors[level]
+        if (!isFiniteNumber(factor) || factor < 0) {
+            issues.push({
+                path: `costs.phCorrectionFactors.${level}`,
+                message: {
+                    es: 'debe ser un número mayor o igual que 0',
+                    en: 'must be a number greater than or equal to 0'
+                }
+            })
+        }
+    }
+}
+
+/**
+ * Valida la configuración de operadores (opcional)
+ */
+function validateOperators(value: unknown, issues: ValidationIssue[]): void {
+    if (value === undefined) return
+    if (!isRecord(value)) {
+        issues.push({ path: 'operators', message: { es: 'debe ser un objeto', en: 'must be an object' } })
+        return
+    }
+    const check = (key: keyof FuzzyOperators, allowed: readonly string[]) => {
+        if (!allowed.includes(value[key] as string)) {
+            issues.push({
+                path: `operators.${key}`,
+                message: {
+                    es: `operador desconocido '${String(value[key])}' (permitidos: ${allowed.join(', ')})`,
+                    en: `unknown operator '${String(value[key])}' (allowed: ${allowed.join(', ')})`
+                }
+            })
+        }
+    }
+    check('and', T_NORMS)
+    check('or', S_NORMS)
+    check('implication', IMPLICATION_METHODS)
+    check('aggregation', AGGREGATION_METHODS)
+}
+
+/**
+ * Valida un objeto arbitrario contra el esquema de FuzzySystemDefinition
+ *
+ * @param value - Objeto a validar (típicamente el resultado de JSON.parse)
+ * @returns La misma definición, ya tipada
+ * @throws FuzzySystemValidationError con TODOS los problemas encontrados
+ */
+export function validateFuzzySystem(value: unknown): FuzzySystemDefinition {
+    const issues: ValidationIssue[] = []
+
+    if (!isRecord(value)) {
+        throw new FuzzySystemValidationError([{
+            path: '$',
+            message: { es: 'la definición debe ser un objeto JSON', en: 'the definition must be a JSON object' }
+        }])
+    }
+
+    if (value.version !== FUZZY_SYSTEM_SCHEMA_VERSION) {
+        issues.push({
+            path: 'version',
+            message: {
+                es: `versión de esquema no soportada (${String(value.version)}), se esperaba ${FUZZY_SYSTEM_SCHEMA_VERSION}`,
+                en: `unsupported schema version (${String(value.version)}), expected ${FUZZY_SYSTEM_SCHEMA_VERSION}`
+            }
+        })
+    }
+    if (typeof value.name !== 'string') issues.push({ path: 'name', message: { es: 'debe ser un texto', en: 'must be a string' } })
+
+    validateVariableList(value.inputs, 'inputs', INPUT_VARIABLE_IDS, [], issues, true)
+    validateVariableList(value.outputs, 'outputs', OUTPUT_VARIABLE_IDS, OUTPUT_VARIABLE_IDS, issues, false)
+    validateRules(value.rules, value.inputs, value.outputs, issues)
+    validateCosts(value.costs, issues)
+
+    if (value.defuzzification !== undefined &&
+        !DEFUZZIFICATION_METHODS.includes(value.defuzzification as DefuzzificationMethod)) {
+        issues.push({
+            path: 'defuzzification',
+            message: {
+                es: `método desconocido '${String(value.defuzzification)}' (permitidos: ${DEFUZZIFICATION_METHODS.join(', ')})`,
+                en: `unknown method '${String(value.defuzzification)}' (allowed: ${DEFUZZIFICATION_METHODS.join(', ')})`
+            }
+        })
+    }
+
+    validateOperators(value.operators, issues)
+
+    if (value.inferenceMode !== undefined && !INFERENCE_MODES.includes(value.inferenceMode as InferenceMode)) {
+        issues.push({
+            path: 'inferenceMode',
+            message: {
+                es: `modo desconocido '${String(value.inferenceMode)}' (permitidos: ${INFERENCE_MODES.join(', ')})`,
+                en: `unknown mode '${String(value.inferenceMode)}' (allowed: ${INFERENCE_MODES.join(', ')})`
+            }
+        })
+    }
+
+    if (value.coagulant !== undefined && !COAGULANT_IDS.includes(value.coagulant as CoagulantId)) {
+        issues.push({
+            path: 'coagulant',
+            message: {
+                es: `coagulante desconocido '${String(value.coagulant)}' (permitidos: ${COAGULANT_IDS.join(', ')})`,
+                en: `unknown coagulant '${String(value.coagulant)}' (allowed: ${COAGULANT_IDS.join(', ')})`
+            }
+        })
+    }
+
+    if (issues.length > 0) {
+        throw new FuzzySystemValidationError(issues)
+    }
+
+    return value as unknown as FuzzySystemDefinition
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SERIALIZACIÓN JSON
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Convierte una definición a texto JSON legible
+ */
+export function serializeFuzzySystem(system: FuzzySystemDefinition): string {
+    return JSON.stringify(system, null, 2)
+}
+
+/**
+ * Lee y valida una definición desde texto JSON
+ *
+ * @throws FuzzySystemValidationError si el JSON es inválido o no cumple el esquema
+ */
+export function parseFuzzySystem(json: string): FuzzySystemDefinition {
+    let value: unknown
+    try {
+        value = JSON.parse(json)
+    } catch (error) {
+        throw new FuzzySystemValidationError([{
+            path: '$',
+            message: {
+                es: `JSON mal formado: ${error instanceof Error ? error.message : String(error)}`,
+                en: `malformed JSON: ${error instanceof Error ? error.message : String(error)}`
+            }
+        }])
+    }
+    return validateFuzzySystem(value)
+}
@@ -0,0 +1,120 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - INTERNACIONALIZACIÓN
+ * Idiomas de la interfaz y vocabulario común en español e inglés
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Los textos de la interfaz se escriben junto a su componente como pares
+ * `{ es, en }` (`LocalizedText`) y se resuelven con `localize` o con la
+ * función `t` de `useI18n` (`stores/locale-store.ts`). Aquí solo vive el
+ * vocabulario que comparten varios módulos: nombres de las variables, de
+ * los términos del controlador por defecto y de los niveles de riesgo.
+ *
+ * Las definiciones del controlador (nombres de reglas, etiquetas guardadas
+ * en un JSON) son datos del usuario y no se traducen; las variables y los
+ * términos conocidos se muestran traducidos con `variableLabel` y `termLabel`.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+export type Locale = 'es' | 'en'
+
+export const LOCALES: Locale[] = ['es', 'en']
+
+export const DEFAULT_LOCALE: Locale = 'es'
+
+/** Etiqueta BCP 47 de cada idioma para `Intl` */
+export const LOCALE_TAGS: Record<Locale, string> = {
+    es: 'es-ES',
+    en: 'en-US'
+}
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+    es: 'Español',
+    en: 'English'
+}
+
+/**
+ * Texto en cada idioma de la interfaz
+ */
+export type LocalizedText = Record<Locale, string>
+
+export function localize(text: LocalizedText, locale: Locale): string {
+    return text[locale]
+}
+
+export function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && (LOCALES as string[]).includes(value)
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// VOCABULARIO COMÚN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Variables de entrada y salida del controlador
+ */
+export const VARIABLE_LABELS: Record<string, LocalizedText> = {
+    turbidity: { es: 'Turbidez', en: 'Turbidity' },
+    ph: { es: 'pH', en: 'pH' },
+    temperature: { es: 'Temperatura', en: 'Temperature' },
+    alkalinity: { es: 'Alcalinidad', en: 'Alkalinity' },
+    conductivity: { es: 'Conductividad', en: 'Conductivity' },
+    color: { es: 'Color', en: 'Color' },
+    flowRate: { es: 'Caudal', en: 'Flow rate' },
+    dose: { es: 'Dosis', en: 'Dose' },
+    time: { es: 'Tiempo', en: 'Time' },
+    phCorrection: { es: 'Corrección pH', en: 'pH correction' }
+}
+
+/**
+ * Términos lingüísticos del controlador por defecto y niveles de corrección de pH
+ */
+const TERM_LABELS: Record<string, LocalizedText> = {
+    muy_baja: { es: 'muy baja', en: 'very low' },
+    baja: { es: 'baja', en: 'low' },
+    media: { es: 'media', en: 'medium' },
+    alta: { es: 'alta', en: 'high' },
+    muy_alta: { es: 'muy alta', en: 'very high' },
+    muy_acido: { es: 'muy ácido', en: 'very acidic' },
+    acido: { es: 'ácido', en: 'acidic' },
+    neutro: { es: 'neutro', en: 'neutral' },
+    alcalino: { es: 'alcalino', en: 'alkaline' },
+    muy_alcalino: { es: 'muy alcalino', en: 'very alkaline' },
+    fria: { es: 'fría', en: 'cold' },
+    normal: { es: 'normal', en: 'normal' },
+    calida: { es: 'cálida', en: 'warm' },
+    muy_corto: { es: 'muy corto', en: 'very short' },
+    corto: { es: 'corto', en: 'short' },
+    medio: { es: 'medio', en: 'medium' },
+    largo: { es: 'largo', en: 'long' },
+    muy_largo: { es: 'muy largo', en: 'very long' },
+    none: { es: 'ninguna', en: 'none' },
+    slight: { es: 'leve', en: 'slight' },
+    moderate: { es: 'moderada', en: 'moderate' },
+    intense: { es: 'intensa', en: 'intense' }
+}
+
+/**
+ * Nombre de una variable para mostrar (el id si no es una variable conocida)
+ */
+export function variableLabel(id: string, locale: Locale): string {
+    return VARIABLE_LABELS[id]?.[locale] ?? id
+}
+
+/**
+ * Nombre de un término para mostrar ("muy_alta" -> "muy alta" / "very high")
+ */
+export function termLabel(name: string, locale: Locale): string {
+    return TERM_LABELS[name]?.[locale] ?? name.replace(/_/g, ' ')
+}
+
+/**
+ * Niveles de riesgo del agua cruda
+ */
+export const RISK_LEVEL_LABELS: Record<'optimal' | 'caution' | 'critical', LocalizedText> = {
+    optimal: { es: 'Óptimo', en: 'Optimal' },
+    caution: { es: 'Precaución', en: 'Caution' },
+    critical: { es: 'Crítico', en: 'Critical' }
+}
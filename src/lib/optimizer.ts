@@ -0,0 +1,411 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - OPTIMIZADOR EVOLUTIVO DE LA BASE DE REGLAS
+ * Evolución diferencial sobre términos, consecuentes y selección de reglas
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * A diferencia del entrenamiento ANFIS, no necesita datos de planta ni
+ * derivadas: evalúa cada controlador candidato sobre un conjunto de
+ * escenarios y minimiza un objetivo configurable:
+ *
+ *   J = media sobre las muestras de [ costo operativo
+ *                                    + penalización · max(0, turbidez decantada - objetivo) ]
+ *
+ * La turbidez decantada se estima con el modelo de clarificación
+ * (`treatment-model.ts`).
+ *
+ * CODIFICACIÓN: cada candidato es un vector en [0, 1]^n con tres tipos de gen
+ * - Parámetros de los términos de entrada, normalizados a su universo
+ * - Término de dosis y de tiempo de cada regla (índice = ⌊g · nº términos⌋)
+ * - Regla habilitada (g ≥ 0.5)
+ *
+ * ALGORITMO: evolución diferencial DE/rand/1/bin (Storn y Price, 1997). El
+ * controlador actual es un individuo de la población inicial (el resto son
+ * perturbaciones suyas), así que el mejor candidato nunca es peor que él.
+ * El generador pseudoaleatorio tiene semilla: la misma configuración da
+ * siempre el mismo resultado.
+ *
+ * El cálculo es pesado (cientos de controladores por decenas de muestras):
+ * la interfaz lo ejecuta en un Web Worker (`workers/rule-optimizer.worker.ts`).
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { runFuzzyInference, DEFAULT_WATER_INPUTS, WaterInputs } from '@/lib/fuzzy-logic'
+import {
+    FuzzySystemDefinition,
+    OutputVariableId,
+    OUTPUT_VARIABLE_IDS,
+    getTermParameters,
+    validateFuzzySystem,
+    withTermParameters
+} from '@/lib/fuzzy-system'
+import { getCoagulant } from '@/lib/coagulants'
+import { predictSettledTurbidity } from '@/lib/treatment-model'
+import { ALL_SCENARIOS, interpolateKeyframes } from '@/lib/scenarios'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OPCIONES Y RESULTADOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface OptimizerOptions {
+    /** Escenarios sobre los que se evalúa el objetivo (por defecto todos) */
+    scenarioIds?: string[]
+    /** Instantes muestreados de cada escenario */
+    samplesPerScenario?: number
+    populationSize?: number
+    generations?: number
+    /** Turbidez decantada objetivo (NTU) */
+    targetTurbidity?: number
+    /** Penalización en $/m³ por cada NTU por encima del objetivo */
+    turbidityPenalty?: number
+    /** Qué partes del controlador puede cambiar el optimizador */
+    searchMemberships?: boolean
+    searchConsequents?: boolean
+    searchRuleSelection?: boolean
+    /** Factor de mutación diferencial F */
+    mutationFactor?: number
+    /** Probabilidad de cruce CR */
+    crossoverRate?: number
+    seed?: number
+}
+
+export const DEFAULT_OPTIMIZER_OPTIONS: Required<OptimizerOptions> = {
+    scenarioIds: ALL_SCENARIOS.map(scenario => scenario.id),
+    samplesPerScenario: 12,
+    populationSize: 20,
+    generations: 30,
+    targetTurbidity: 2,
+    turbidityPenalty: 0.05,
+    searchMemberships: true,
+    searchConsequents: true,
+    searchRuleSelection: true,
+    mutationFactor: 0.6,
+    crossoverRate: 0.9,
+    seed: 1
+}
+
+/**
+ * Valor del objetivo y sus componentes para un controlador
+ */
+export interface ObjectiveBreakdown {
+    objective: number
+    /** Costo operativo medio ($/m³) */
+    meanCost: number
+    /** Turbidez decantada media estimada (NTU) */
+    meanSettledTurbidity: number
+    /** Fracción de muestras por encima del objetivo de turbidez */
+    exceedance: number
+}
+
+export interface OptimizerGeneration {
+    generation: number
+    best: number
+    mean: number
+    /** Controladores evaluados hasta ahora */
+    evaluations: number
+}
+
+export interface OptimizerCandidate {
+    system: FuzzySystemDefinition
+    breakdown: ObjectiveBreakdown
+}
+
+export interface OptimizerStep {
+    generation: OptimizerGeneration
+    /** Mejor candidato, solo cuando mejora respecto a la generación anterior */
+    candidate?: OptimizerCandidate
+    /** Objetivo del controlador de partida, solo en la generación 0 */
+    initial?: ObjectiveBreakdown
+}
+
+export interface OptimizerResult {
+    /** Mejor candidato encontrado */
+    system: FuzzySystemDefinition
+    initial: ObjectiveBreakdown
+    best: ObjectiveBreakdown
+    history: OptimizerGeneration[]
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// MENSAJES DEL WEB WORKER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type OptimizerWorkerRequest = {
+    type: 'start'
+    system: FuzzySystemDefinition
+    options: OptimizerOptions
+}
+
+export type OptimizerWorkerResponse =
+    | ({ type: 'generation' } & OptimizerStep)
+    | { type: 'done'; result: OptimizerResult }
+    | { type: 'error'; message: string }
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OBJETIVO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Entradas muestreadas a intervalos regulares de cada escenario
+ */
+export function sampleScenarios(scenarioIds: string[], samplesPerScenario: number): WaterInputs[] {
+    return ALL_SCENARIOS
+        .filter(scenario => scenarioIds.includes(scenario.id))
+        .flatMap(scenario => Array.from({ length: samplesPerScenario }, (_, j) => ({
+            ...DEFAULT_WATER_INPUTS,
+            ...interpolateKeyframes(scenario.keyframes, scenario.duration * (j + 0.5) / samplesPerScenario)
+        })))
+}
+
+/**
+ * Evalúa el objetivo de un controlador sobre las muestras
+ */
+export function evaluateObjective(
+    system: FuzzySystemDefinition,
+    samples: WaterInputs[],
+    options: Pick<OptimizerOptions, 'targetTurbidity' | 'turbidityPenalty'> = {}
+): ObjectiveBreakdown {
+    const { targetTurbidity, turbidityPenalty } = { ...DEFAULT_OPTIMIZER_OPTIONS, ...options }
+    const coagulant = getCoagulant(system)
+    let cost = 0
+    let settled = 0
+    let penalty = 0
+    let exceeded = 0
+
+    for (const inputs of samples) {
+        const outputs = runFuzzyInference(inputs, system)
+        const turbidity = predictSettledTurbidity(inputs, outputs, coagulant)
+        cost += outputs.operationalCost
+        settled += turbidity
+        penalty += turbidityPenalty * Math.max(0, turbidity - targetTurbidity)
+        if (turbidity > targetTurbidity) exceeded++
+    }
+
+    const n = Math.max(1, samples.length)
+    return {
+        objective: (cost + penalty) / n,
+        meanCost: cost / n,
+        meanSettledTurbidity: settled / n,
+        exceedance: exceeded / n
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CODIFICACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Gene =
+    | { kind: 'term'; variable: number; term: number; param: number }
+    | { kind: 'output'; rule: number; output: OutputVariableId }
+    | { kind: 'enabled'; rule: number }
+
+function describeGenes(system: FuzzySystemDefinition, options: Required<OptimizerOptions>): Gene[] {
+    const genes: Gene[] = []
+    if (options.searchMemberships) {
+        system.inputs.forEach((variable, v) => variable.terms.forEach((term, t) =>
+            getTermParameters(term).forEach((_, param) => genes.push({ kind: 'term', variable: v, term: t, param }))))
+    }
+    system.rules.forEach((_, rule) => {
+        if (options.searchConsequents) {
+            OUTPUT_VARIABLE_IDS.forEach(output => genes.push({ kind: 'output', rule, output }))
+        }
+        if (options.searchRuleSelection) genes.push({ kind: 'enabled', rule })
+    })
+    return genes
+}
+
+function termIndexOf(system: FuzzySystemDefinition, output: OutputVariableId, name: string): number {
+    const terms = system.outputs.find(v => v.id === output)?.terms ?? []
+    return Math.max(0, terms.findIndex(term => term.name === name))
+}
+
+function encode(system: FuzzySystemDefinition, genes: Gene[]): number[] {
+    return genes.map(gene => {
+        switch (gene.kind) {
+            case 'term': {
+                const variable = system.inputs[gene.variable]
+                const [min, max] = variable.range
+                const value = getTermParameters(variable.terms[gene.term])[gene.param]
+                return (value - min) / (max - min)
+            }
+            case 'output': {
+                const count = system.outputs.find(v => v.id === gene.output)?.terms.length ?? 1
+                return (termIndexOf(system, gene.output, system.rules[gene.rule].outputs[gene.output]) + 0.5) / count
+            }
+            case 'enabled':
+                return system.rules[gene.rule].enabled === false ? 0.25 : 0.75
+        }
+    })
+}
+
+/**
+ * Controlador de un vector de genes. Los términos que degeneran conservan
+ * su forma original.
+ */
+function decode(base: FuzzySystemDefinition, genes: Gene[], vector: number[]): FuzzySystemDefinition {
+    const params = base.inputs.map(variable => variable.terms.map(term => getTermParameters(term)))
+    const rules = base.rules.map(rule => ({ ...rule, outputs: { ...rule.outputs } }))
+
+    genes.forEach((gene, i) => {
+        const g = vector[i]
+        switch (gene.kind) {
+            case 'term': {
+                const [min, max] = base.inputs[gene.variable].range
+                params[gene.variable][gene.term][gene.param] = min + g * (max - min)
+                break
+            }
+            case 'output': {
+                const terms = base.outputs.find(v => v.id === gene.output)?.terms ?? []
+                const index = Math.min(terms.length - 1, Math.floor(g * terms.length))
+                if (index >= 0) rules[gene.rule].outputs[gene.output] = terms[index].name
+                break
+            }
+            case 'enabled':
+                rules[gene.rule].enabled = g >= 0.5
+                break
+        }
+    })
+
+    return {
+        ...base,
+        inputs: base.inputs.map((variable, v) => ({
+            ...variable,
+            terms: variable.terms.map((term, t) => {
+                const rounded = params[v][t].map(value => Number(value.toPrecision(4)))
+                return withTermParameters(term, rounded, variable.range) ?? term
+            })
+        })),
+        rules: rules.map(rule => {
+            // Las reglas habilitadas no llevan `enabled` (igual que la definición por defecto)
+            const { enabled, ...rest } = rule
+            return enabled === false ? { ...rest, enabled: false } : rest
+        })
+    }
+}
+
+/**
+ * Generador pseudoaleatorio con semilla (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EVOLUCIÓN DIFERENCIAL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Optimiza el controlador generación a generación. Cada `next()` devuelve
+ * el mejor y el medio de una generación (la 0 es la población inicial) y,
+ * si ha mejorado, el mejor candidato; el valor final del generador es el
+ * resultado completo.
+ */
+export function* optimizeRuleBaseIncrementally(
+    system: FuzzySystemDefinition,
+    options: OptimizerOptions = {}
+): Generator<OptimizerStep, OptimizerResult, void> {
+    const config = { ...DEFAULT_OPTIMIZER_OPTIONS, ...options }
+    const samples = sampleScenarios(config.scenarioIds, config.samplesPerScenario)
+    if (samples.length === 0) throw new Error('Selecciona al menos un escenario')
+
+    const genes = describeGenes(system, config)
+    if (genes.length === 0) throw new Error('Selecciona al menos una parte del controlador para optimizar')
+
+    const random = createRandom(config.seed)
+    const size = Math.max(4, config.populationSize)
+    let evaluations = 0
+
+    const score = (vector: number[]) => {
+        evaluations++
+        try {
+            const candidate = decode(system, genes, vector)
+            return { vector, system: candidate, breakdown: evaluateObjective(candidate, samples, config) }
+        } catch {
+            // Candidato inválido (no debería ocurrir): se descarta
+            return { vector, system, breakdown: { objective: Infinity, meanCost: 0, meanSettledTurbidity: 0, exceedance: 1 } }
+        }
+    }
+
+    // Población inicial: el controlador actual y perturbaciones suyas
+    const current = encode(system, genes)
+    const initial = score(current)
+    const population = [initial]
+    while (population.length < size) {
+        population.push(score(current.map((value, i) => {
+            const gene = genes[i]
+            if (gene.kind === 'term') return Math.min(1, Math.max(0, value + (random() - 0.5) * 0.1))
+            return random() < 0.2 ? random() : value
+        })))
+    }
+
+    const fittest = () => population.reduce((winner, individual) =>
+        individual.breakdown.objective < winner.breakdown.objective ? individual : winner)
+
+    const history: OptimizerGeneration[] = []
+    let previousBest = Infinity
+    const summarize = (generation: number): OptimizerStep => {
+        const objectives = population.map(individual => individual.breakdown.objective).filter(Number.isFinite)
+        const record = {
+            generation,
+            best: Math.min(...objectives),
+            mean: objectives.reduce((sum, value) => sum + value, 0) / Math.max(1, objectives.length),
+            evaluations
+        }
+        history.push(record)
+        if (record.best >= previousBest) return { generation: record }
+        previousBest = record.best
+        const best = fittest()
+        return { generation: record, candidate: { system: best.system, breakdown: best.breakdown } }
+    }
+    yield { ...summarize(0), initial: initial.breakdown }
+
+    for (let generation = 1; generation <= config.generations; generation++) {
+        for (let i = 0; i < size; i++) {
+            // Tres individuos distintos entre sí y del objetivo
+            const picks: number[] = []
+            while (picks.length < 3) {
+                const r = Math.floor(random() * size)
+                if (r !== i && !picks.includes(r)) picks.push(r)
+            }
+            const [a, b, c] = picks.map(r => population[r].vector)
+            const target = population[i].vector
+            const forced = Math.floor(random() * genes.length)
+            const trial = target.map((value, j) => {
+                if (j !== forced && random() >= config.crossoverRate) return value
+                return Math.min(1, Math.max(0, a[j] + config.mutationFactor * (b[j] - c[j])))
+            })
+
+            const candidate = score(trial)
+            if (candidate.breakdown.objective <= population[i].breakdown.objective) population[i] = candidate
+        }
+        yield summarize(generation)
+    }
+
+    const best = fittest()
+    return {
+        system: validateFuzzySystem(best.system),
+        initial: initial.breakdown,
+        best: best.breakdown,
+        history
+    }
+}
+
+/**
+ * Ejecuta la optimización completa de una vez
+ */
+export function optimizeRuleBase(system: FuzzySystemDefinition, options: OptimizerOptions = {}): OptimizerResult {
+    const optimizer = optimizeRuleBaseIncrementally(system, options)
+    for (;;) {
+        const step = optimizer.next()
+        if (step.done) return step.value
+    }
+}
@@ -0,0 +1,397 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - CORRECCIÓN DE pH
+ * Modelo de titulación del sistema carbonato y elección de reactivo
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Las reglas difusas deciden SI hay que corregir el pH (y con qué urgencia),
+ * junto con la ventana de pH del coagulante; este módulo calcula HACIA
+ * DÓNDE, CON QUÉ y CUÁNTO.
+ *
+ * MODELO:
+ * -------
+ * El agua se trata como un sistema carbonato cerrado:
+ *
+ *     Alc = C_T·(α₁ + 2α₂) + [OH⁻] − [H⁺]
+ *
+ * donde α₁ y α₂ son las fracciones de HCO₃⁻ y CO₃²⁻ (dependen del pH y de
+ * las constantes K₁, K₂ y K_w corregidas por temperatura). La alcalinidad
+ * medida se toma como alcalinidad carbonatada, C_T·(α₁ + 2α₂), de la que se
+ * despeja el carbono inorgánico total C_T; por debajo de pH 4.5 el término
+ * −[H⁺] representa la acidez mineral (alcalinidad total negativa).
+ *
+ * 1. El coagulante consume alcalinidad y libera CO₂: Alc baja, C_T se conserva
+ *    y el pH cae (pH tras coagulación).
+ * 2. Cada reactivo añade `a` equivalentes de alcalinidad y `c` moles de C_T
+ *    por mol. La dosis x que lleva el agua al pH objetivo es lineal:
+ *
+ *        x = (C_T·f + w − Alc) / (a − c·f)      f = α₁ + 2α₂, w = [OH⁻] − [H⁺]
+ *
+ *    evaluando f y w en el pH objetivo.
+ * 3. El pH esperado se obtiene resolviendo el equilibrio (bisección) con la
+ *    dosis final, que puede estar limitada por la dosis máxima del reactivo.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { WaterInputs } from '@/lib/fuzzy-logic'
+import type { Locale, LocalizedText } from '@/lib/i18n'
+import { MIN_RESIDUAL_ALKALINITY } from '@/lib/coagulants'
+import { formatNumber } from '@/lib/utils'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// REACTIVOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type PhReagentId = 'lime' | 'soda_ash' | 'co2' | 'sulfuric_acid'
+
+export type PhCorrectionDirection = 'raise' | 'lower' | 'none'
+
+/**
+ * Reactivo de corrección de pH
+ */
+export interface PhReagent {
+    id: PhReagentId
+    name: LocalizedText
+    formula: string
+    direction: Exclude<PhCorrectionDirection, 'none'>
+    /** Masa molar en g/mol */
+    molarMass: number
+    /** Equivalentes de alcalinidad aportados por mol (negativo para ácidos) */
+    alkalinityPerMol: number
+    /** Moles de carbono inorgánico aportados por mol */
+    carbonatePerMol: number
+    /** Dosis máxima práctica en mg/L */
+    maxDose: number
+    /** Precio en $/kg */
+    pricePerKg: number
+}
+
+export const PH_REAGENTS: Record<PhReagentId, PhReagent> = {
+    lime: {
+        id: 'lime',
+        name: { es: 'Cal hidratada', en: 'Hydrated lime' },
+        formula: 'Ca(OH)₂',
+        direction: 'raise',
+        molarMass: 74.09,
+        alkalinityPerMol: 2,
+        carbonatePerMol: 0,
+        maxDose: 100,
+        pricePerKg: 0.15
+    },
+    soda_ash: {
+        id: 'soda_ash',
+        name: { es: 'Carbonato de sodio', en: 'Soda ash' },
+        formula: 'Na₂CO₃',
+        direction: 'raise',
+        molarMass: 105.99,
+        alkalinityPerMol: 2,
+        carbonatePerMol: 1,
+        maxDose: 150,
+        pricePerKg: 0.35
+    },
+    co2: {
+        id: 'co2',
+        name: { es: 'Dióxido de carbono', en: 'Carbon dioxide' },
+        formula: 'CO₂',
+        direction: 'lower',
+        molarMass: 44.01,
+        alkalinityPerMol: 0,
+        carbonatePerMol: 1,
+        maxDose: 60,
+        pricePerKg: 0.2
+    },
+    sulfuric_acid: {
+        id: 'sulfuric_acid',
+        name: { es: 'Ácido sulfúrico', en: 'Sulfuric acid' },
+        formula: 'H₂SO₄',
+        direction: 'lower',
+        molarMass: 98.08,
+        alkalinityPerMol: -2,
+        carbonatePerMol: 0,
+        maxDose: 100,
+        pricePerKg: 0.18
+    }
+}
+
+/** pH al que se lleva el agua coagulada */
+export const PH_TARGET = 7.0
+
+/** Desviación del objetivo (unidades de pH) que no justifica dosificar */
+export const PH_TOLERANCE = 0.2
+
+/** mg de CaCO₃ por meq de alcalinidad */
+const CACO3_MG_PER_MEQ = 50.04
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EQUILIBRIO CARBONATO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Estado químico del agua en un punto del tratamiento
+ */
+export interface CarbonateState {
+    ph: number
+    /** Alcalinidad en mg/L CaCO₃ */
+    alkalinity: number
+    /** Carbono inorgánico total en mmol/L */
+    totalCarbonate: number
+}
+
+interface CarbonateConstants {
+    k1: number
+    k2: number
+    kw: number
+}
+
+/**
+ * Constantes de equilibrio a la temperatura del agua (ajustes de
+ * Harned-Davis y Harned-Scholes; pK₁ = 6.35 y pK₂ = 10.33 a 25 °C)
+ */
+function carbonateConstants(temperature: number): CarbonateConstants {
+    const t = temperature + 273.15
+    return {
+        k1: Math.pow(10, -(3404.71 / t + 0.032786 * t - 14.8435)),
+        k2: Math.pow(10, -(2902.39 / t + 0.02379 * t - 6.498)),
+        kw: Math.pow(10, -(4470.99 / t - 6.0875 + 0.01706 * t))
+    }
+}
+
+/**
+ * Términos de la ecuación de alcalinidad a un pH dado:
+ * f = α₁ + 2α₂ (eq por mol de C_T) y w = [OH⁻] − [H⁺] (eq/L)
+ */
+function alkalinityTerms(ph: number, { k1, k2, kw }: CarbonateConstants): { f: number; w: number } {
+    const h = Math.pow(10, -ph)
+    const denominator = h * h + k1 * h + k1 * k2
+    return {
+        f: (k1 * h + 2 * k1 * k2) / denominator,
+        w: kw / h - h
+    }
+}
+
+/**
+ * pH de equilibrio para una alcalinidad (eq/L) y un C_T (mol/L) dados.
+ * La alcalinidad crece con el pH, así que basta una bisección.
+ */
+function equilibriumPh(alkalinity: number, totalCarbonate: number, constants: CarbonateConstants): number {
+    let low = 2
+    let high = 13
+    for (let i = 0; i < 60; i++) {
+        const mid = (low + high) / 2
+        const { f, w } = alkalinityTerms(mid, constants)
+        if (totalCarbonate * f + w < alkalinity) {
+            low = mid
+        } else {
+            high = mid
+        }
+    }
+    return (low + high) / 2
+}
+
+function toState(ph: number, alkalinity: number, totalCarbonate: number): CarbonateState {
+    return {
+        ph: Math.round(ph * 100) / 100,
+        alkalinity: Math.round(alkalinity * CACO3_MG_PER_MEQ * 1000 * 10) / 10,
+        totalCarbonate: Math.round(totalCarbonate * 1000 * 1000) / 1000
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PLAN DE CORRECCIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Motivo de la elección del reactivo o de no dosificar
+ * (texto en cada idioma con `describePhCorrectionReason`)
+ */
+export type PhCorrectionReasonCode =
+    | 'not_requested'
+    | 'near_target'
+    | 'low_alkalinity'
+    | 'lime_cheapest'
+    | 'co2_no_alkalinity'
+    | 'co2_limit'
+
+export interface PhCorrectionReason {
+    code: PhCorrectionReasonCode
+    /** Ventana del coagulante si la corrección se debe a salir de ella sin que la pidan las reglas */
+    outOfWindow: [number, number] | null
+    /** La dosis quedó limitada a la máxima del reactivo */
+    limitedToMax: boolean
+}
+
+/**
+ * Recomendación de corrección de pH con los pasos de su cálculo
+ */
+export interface PhCorrectionPlan {
+    direction: PhCorrectionDirection
+    reagent: PhReagentId | null
+    /** Motivo de la elección del reactivo (o de no dosificar) */
+    reason: PhCorrectionReason
+    /** Dosis de reactivo en mg/L */
+    dose: number
+    /** Costo del reactivo en $/m³ */
+    cost: number
+    targetPh: number
+    /** Agua cruda */
+    raw: CarbonateState
+    /** Tras el consumo de alcalinidad del coagulante */
+    afterCoagulant: CarbonateState
+    /** Tras la dosis de reactivo (pH esperado) */
+    expected: CarbonateState
+}
+
+/**
+ * Dosis (mol/L) de un reactivo que lleva el agua al pH objetivo
+ */
+function requiredMoles(reagent: PhReagent, alkalinity: number, totalCarbonate: number, targetPh: number, constants: CarbonateConstants): number {
+    const { f, w } = alkalinityTerms(targetPh, constants)
+    return (totalCarbonate * f + w - alkalinity) / (reagent.alkalinityPerMol - reagent.carbonatePerMol * f)
+}
+
+/**
+ * Calcula la corrección de pH del agua coagulada. Se dosifica si las reglas
+ * la piden o si la coagulación deja el pH fuera de la ventana del coagulante.
+ *
+ * @param inputs - Agua cruda (pH, alcalinidad y temperatura)
+ * @param alkalinityConsumed - Alcalinidad consumida por el coagulante (mg/L CaCO₃)
+ * @param requested - Si las reglas piden corrección (nivel distinto de 'none')
+ * @param phWindow - Ventana de pH eficaz del coagulante
+ * @param targetPh - pH objetivo
+ */
+export function planPhCorrection(
+    inputs: Pick<WaterInputs, 'ph' | 'alkalinity' | 'temperature'>,
+    alkalinityConsumed: number,
+    requested: boolean,
+    phWindow: [number, number],
+    targetPh: number = PH_TARGET
+): PhCorrectionPlan {
+    const constants = carbonateConstants(inputs.temperature)
+
+    // Agua cruda: C_T a partir del pH y la alcalinidad carbonatada medida
+    const carbonateAlkalinity = inputs.alkalinity / CACO3_MG_PER_MEQ / 1000
+    const rawTerms = alkalinityTerms(inputs.ph, constants)
+    const totalCarbonate = carbonateAlkalinity / rawTerms.f
+    const rawAlkalinity = carbonateAlkalinity + rawTerms.w
+
+    // Coagulación: se consume alcalinidad y el CO₂ liberado queda en C_T
+    const coagulatedAlkalinity = rawAlkalinity - alkalinityConsumed / CACO3_MG_PER_MEQ / 1000
+    const coagulatedPh = equilibriumPh(coagulatedAlkalinity, totalCarbonate, constants)
+
+    const raw = toState(inputs.ph, rawAlkalinity, totalCarbonate)
+    const afterCoagulant = toState(coagulatedPh, coagulatedAlkalinity, totalCarbonate)
+    const noCorrection = (code: PhCorrectionReasonCode): PhCorrectionPlan => ({
+        direction: 'none',
+        reagent: null,
+        reason: { code, outOfWindow: null, limitedToMax: false },
+        dose: 0,
+        cost: 0,
+        targetPh,
+        raw,
+        afterCoagulant,
+        expected: afterCoagulant
+    })
+
+    const outOfWindow = coagulatedPh < phWindow[0] || coagulatedPh > phWindow[1]
+    if (!requested && !outOfWindow) {
+        return noCorrection('not_requested')
+    }
+    if (Math.abs(coagulatedPh - targetPh) <= PH_TOLERANCE) {
+        return noCorrection('near_target')
+    }
+
+    // Elección del reactivo
+    const direction = coagulatedPh < targetPh ? 'raise' : 'lower'
+    const molesOf = (reagent: PhReagent) => requiredMoles(reagent, coagulatedAlkalinity, totalCarbonate, targetPh, constants)
+    const doseOf = (reagent: PhReagent) => molesOf(reagent) * reagent.molarMass * 1000
+    let reagent: PhReagent
+    let code: PhCorrectionReasonCode
+    if (direction === 'raise') {
+        if (afterCoagulant.alkalinity < MIN_RESIDUAL_ALKALINITY) {
+            reagent = PH_REAGENTS.soda_ash
+            code = 'low_alkalinity'
+        } else {
+            reagent = PH_REAGENTS.lime
+            code = 'lime_cheapest'
+        }
+    } else if (doseOf(PH_REAGENTS.co2) <= PH_REAGENTS.co2.maxDose) {
+        reagent = PH_REAGENTS.co2
+        code = 'co2_no_alkalinity'
+    } else {
+        reagent = PH_REAGENTS.sulfuric_acid
+        code = 'co2_limit'
+    }
+
+    // Dosis (redondeada y limitada) y pH resultante
+    const dose = Math.min(reagent.maxDose, Math.max(0, Math.round(doseOf(reagent) * 10) / 10))
+    const moles = dose / reagent.molarMass / 1000
+    const finalAlkalinity = coagulatedAlkalinity + reagent.alkalinityPerMol * moles
+    const finalCarbonate = totalCarbonate + reagent.carbonatePerMol * moles
+    const finalPh = equilibriumPh(finalAlkalinity, finalCarbonate, constants)
+
+    return {
+        direction,
+        reagent: reagent.id,
+        reason: {
+            code,
+            outOfWindow: requested ? null : phWindow,
+            limitedToMax: dose === reagent.maxDose
+        },
+        dose,
+        cost: Math.round((dose * reagent.pricePerKg) / 1000 * 10000) / 10000,
+        targetPh,
+        raw,
+        afterCoagulant,
+        expected: toState(finalPh, finalAlkalinity, finalCarbonate)
+    }
+}
+
+const REASON_TEXTS: Record<PhCorrectionReasonCode, LocalizedText> = {
+    not_requested: {
+        es: 'Las reglas activas no piden corrección y el pH queda dentro de la ventana del coagulante',
+        en: 'The active rules do not request correction and the pH stays within the coagulant window'
+    },
+    near_target: {
+        es: `El pH tras la coagulación está a menos de ${PH_TOLERANCE} del objetivo`,
+        en: `The pH after coagulation is within ${PH_TOLERANCE} of the target`
+    },
+    low_alkalinity: {
+        es: `Alcalinidad tras la coagulación menor que ${MIN_RESIDUAL_ALKALINITY} mg/L: el carbonato sube el pH y repone tampón`,
+        en: `Alkalinity after coagulation below ${MIN_RESIDUAL_ALKALINITY} mg/L: soda ash raises the pH and restores buffer`
+    },
+    lime_cheapest: {
+        es: 'Alcalinidad suficiente: la cal es el álcali más económico',
+        en: 'Sufficient alkalinity: lime is the cheapest alkali'
+    },
+    co2_no_alkalinity: {
+        es: 'El CO₂ baja el pH sin consumir alcalinidad ni añadir sulfatos',
+        en: 'CO₂ lowers the pH without consuming alkalinity or adding sulfates'
+    },
+    co2_limit: {
+        es: `Haría falta más de ${PH_REAGENTS.co2.maxDose} mg/L de CO₂: se usa ácido sulfúrico`,
+        en: `More than ${PH_REAGENTS.co2.maxDose} mg/L of CO₂ would be needed: sulfuric acid is used`
+    }
+}
+
+/**
+ * Motivo de la corrección en el idioma indicado
+ */
+export function describePhCorrectionReason(plan: PhCorrectionPlan, locale: Locale): string {
+    const { code, outOfWindow, limitedToMax } = plan.reason
+    let text = REASON_TEXTS[code][locale]
+    if (outOfWindow) {
+        const [low, high] = outOfWindow.map(value => formatNumber(value, 1, locale))
+        text = locale === 'es'
+            ? `pH tras la coagulación fuera de la ventana ${low}–${high} del coagulante. ${text}`
+            : `pH after coagulation outside the coagulant window ${low}–${high}. ${text}`
+    }
+    if (limitedToMax && plan.reagent) {
+        const maxDose = PH_REAGENTS[plan.reagent].maxDose
+        text = locale === 'es'
+            ? `${text} (limitado a la dosis máxima de ${maxDose} mg/L)`
+            : `${text} (limited to the maximum dose of ${maxDose} mg/L)`
+    }
+    return text
+}
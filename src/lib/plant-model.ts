@@ -0,0 +1,271 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - MODELO DINÁMICO DE LA PLANTA
+ * Mezcla rápida, floculación, decantación y filtración paso a paso
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * `predictSettledTurbidity` da la turbidez decantada en estado estacionario;
+ * en la planta real un cambio de dosis tarda horas en verse a la salida del
+ * decantador. Este modelo sigue el agua por las cuatro etapas del
+ * tratamiento:
+ *
+ *   agua cruda → mezcla rápida → floculador → decantador → filtro → efluente
+ *
+ * Cada etapa es una serie de N tanques de mezcla completa (modelo de
+ * "tanques en serie"): el volumen dividido por el caudal fija el tiempo de
+ * residencia hidráulico τ y el número de compartimentos la forma del
+ * retardo (N = 1 mezcla perfecta; N grande se acerca a flujo pistón). En
+ * cada compartimento de volumen τ/N:
+ *
+ *   dC/dt = (C_entrada - C) / (τ/N) - k · C
+ *
+ * - Mezcla rápida y floculador transportan la turbidez cruda y la EFICACIA
+ *   de coagulación con la que se dosificó esa agua (`removalEfficiency` con
+ *   la dosis, el pH de coagulación y el tiempo de floculación que permite el
+ *   caudal). No eliminan turbidez.
+ * - Decantador: la constante k se elige para que en estado estacionario la
+ *   salida coincida con el modelo de clarificación,
+ *   (1 + k·τ/N)^N = 1 / (1 - eficacia). A la salida se suma la turbidez
+ *   residual que no decanta.
+ * - Filtro: elimina una fracción de la turbidez decantada que crece con la
+ *   eficacia de la coagulación (las partículas sin desestabilizar lo
+ *   atraviesan).
+ *
+ * Cada compartimento se integra con la solución exacta para entrada
+ * constante, en subpasos cortos, así que el paso de tiempo puede ser largo
+ * sin perder estabilidad.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { FuzzyOutputs, WaterInputs } from '@/lib/fuzzy-logic'
+import type { Coagulant } from '@/lib/coagulants'
+import { removalEfficiency, RESIDUAL_TURBIDITY } from '@/lib/treatment-model'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DISEÑO DE LA PLANTA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type PlantStageId = 'rapidMix' | 'flocculator' | 'sedimentation' | 'filter'
+
+export const PLANT_STAGE_IDS: PlantStageId[] = ['rapidMix', 'flocculator', 'sedimentation', 'filter']
+
+export interface PlantStageDesign {
+    /** Volumen útil en m³ */
+    volume: number
+    /** Compartimentos en serie (forma de la distribución de tiempos de residencia) */
+    compartments: number
+}
+
+/**
+ * Planta de referencia: a 800 m³/h la mezcla rápida retiene ~1 min, el
+ * floculador 25 min, el decantador 2 h y el filtro 15 min
+ */
+export const PLANT_DESIGN: Record<PlantStageId, PlantStageDesign> = {
+    rapidMix: { volume: 13, compartments: 1 },
+    flocculator: { volume: 333, compartments: 3 },
+    sedimentation: { volume: 1600, compartments: 4 },
+    filter: { volume: 200, compartments: 2 }
+}
+
+/**
+ * Minutos de proceso por cada segundo real del simulador a velocidad 1x (un
+ * escenario de 30 s recorre 5 h de planta, más que el tiempo de residencia)
+ */
+export const PLANT_MINUTES_PER_SECOND = 10
+
+/** Fracción máxima de la turbidez decantada que retiene el filtro */
+const FILTER_MAX_REMOVAL = 0.95
+
+/** Eficacia máxima usada para calcular k (evita una constante infinita) */
+const MAX_KINETIC_EFFICIENCY = 0.999
+
+/** Subpaso máximo de integración (min) */
+const MAX_SUBSTEP = 0.25
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Contenido de un compartimento
+ */
+export interface PlantCompartment {
+    /** Turbidez en NTU (en el decantador, solo la fracción decantable) */
+    turbidity: number
+    /** Eficacia de coagulación del agua que lo ocupa (0-1) */
+    efficiency: number
+}
+
+/**
+ * Estado de la planta en un instante del proceso
+ */
+export interface PlantState {
+    /** Tiempo de proceso transcurrido en minutos */
+    time: number
+    stages: Record<PlantStageId, PlantCompartment[]>
+}
+
+/**
+ * Condiciones de operación en la entrada de la planta
+ */
+export interface PlantFeed {
+    /** Turbidez del agua cruda (NTU) */
+    turbidity: number
+    /** Caudal (m³/h) */
+    flowRate: number
+    /** Eficacia de coagulación con la dosis y el pH aplicados (0-1) */
+    efficiency: number
+}
+
+/**
+ * Lecturas de los turbidímetros a la salida de cada etapa (NTU): la del
+ * decantador es la turbidez decantada y la del filtro la del efluente
+ */
+export type PlantReadings = Record<PlantStageId, number>
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ALIMENTACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tiempo de residencia hidráulico de cada etapa en minutos (Infinity sin caudal)
+ */
+export function hydraulicResidenceTimes(flowRate: number): Record<PlantStageId, number> {
+    return Object.fromEntries(PLANT_STAGE_IDS.map(id => [
+        id,
+        flowRate > 0 ? PLANT_DESIGN[id].volume / flowRate * 60 : Infinity
+    ])) as Record<PlantStageId, number>
+}
+
+/**
+ * Condiciones de entrada para la decisión del controlador. El floculador no
+ * puede dar más tiempo de floculación que su tiempo de residencia: a caudal
+ * alto la recomendación se recorta.
+ */
+export function plantFeed(inputs: WaterInputs, outputs: FuzzyOutputs, coagulant: Coagulant): PlantFeed {
+    const available = hydraulicResidenceTimes(inputs.flowRate).flocculator
+    const efficiency = removalEfficiency(
+        inputs,
+        outputs.coagulantDose,
+        Math.min(outputs.flocculationTime, available),
+        outputs.phCorrectionPlan.expected.ph,
+        coagulant
+    )
+    return { turbidity: Math.max(0, inputs.turbidity), flowRate: Math.max(0, inputs.flowRate), efficiency }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CINÉTICA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Constante de eliminación de un compartimento (1/min) que reproduce la
+ * fracción `removal` en estado estacionario a lo largo de toda la etapa
+ */
+function removalRate(removal: number, compartmentTime: number, compartments: number): number {
+    if (!Number.isFinite(compartmentTime) || removal <= 0) return 0
+    const remaining = 1 - Math.min(MAX_KINETIC_EFFICIENCY, removal)
+    return (Math.pow(remaining, -1 / compartments) - 1) / compartmentTime
+}
+
+/** Fracción de la turbidez que elimina cada etapa para el agua de eficacia `efficiency` */
+function stageRemoval(stage: PlantStageId, efficiency: number): number {
+    switch (stage) {
+        case 'sedimentation':
+            return efficiency
+        case 'filter':
+            return FILTER_MAX_REMOVAL * (0.5 + 0.5 * efficiency)
+        default:
+            return 0
+    }
+}
+
+/**
+ * Turbidez de entrada a una etapa: la turbidez decantada incluye la
+ * residual que no decanta
+ */
+function stageInlet(stage: PlantStageId, upstream: PlantCompartment): PlantCompartment {
+    return stage === 'filter'
+        ? { turbidity: upstream.turbidity + RESIDUAL_TURBIDITY, efficiency: upstream.efficiency }
+        : upstream
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SIMULACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Planta en estado estacionario con la alimentación dada (arranque del
+ * simulador sin transitorio)
+ */
+export function createPlantState(feed: PlantFeed): PlantState {
+    const residence = hydraulicResidenceTimes(feed.flowRate)
+    let inlet: PlantCompartment = { turbidity: feed.turbidity, efficiency: feed.efficiency }
+    const stages = {} as Record<PlantStageId, PlantCompartment[]>
+
+    for (const stage of PLANT_STAGE_IDS) {
+        const { compartments } = PLANT_DESIGN[stage]
+        const compartmentTime = residence[stage] / compartments
+        const k = removalRate(stageRemoval(stage, inlet.efficiency), compartmentTime, compartments)
+        let current = stageInlet(stage, inlet)
+        stages[stage] = Array.from({ length: compartments }, () => {
+            current = { turbidity: current.turbidity / (1 + k * compartmentTime), efficiency: current.efficiency }
+            return current
+        })
+        inlet = current
+    }
+
+    return { time: 0, stages }
+}
+
+/**
+ * Avanza la planta `minutes` minutos con la alimentación constante
+ */
+export function stepPlant(state: PlantState, feed: PlantFeed, minutes: number): PlantState {
+    if (!(minutes > 0)) return state
+
+    const residence = hydraulicResidenceTimes(feed.flowRate)
+    const stages = Object.fromEntries(
+        PLANT_STAGE_IDS.map(stage => [stage, state.stages[stage].map(compartment => ({ ...compartment }))])
+    ) as Record<PlantStageId, PlantCompartment[]>
+
+    const substeps = Math.ceil(minutes / MAX_SUBSTEP)
+    const dt = minutes / substeps
+    for (let step = 0; step < substeps; step++) {
+        let inlet: PlantCompartment = { turbidity: feed.turbidity, efficiency: feed.efficiency }
+        for (const stage of PLANT_STAGE_IDS) {
+            const { compartments } = PLANT_DESIGN[stage]
+            const compartmentTime = residence[stage] / compartments
+            const flushRate = Number.isFinite(compartmentTime) ? 1 / compartmentTime : 0
+            let upstream = stageInlet(stage, inlet)
+
+            for (const compartment of stages[stage]) {
+                const k = removalRate(stageRemoval(stage, compartment.efficiency), compartmentTime, compartments)
+                // Solución exacta de dC/dt = (C_in - C)/τ - k·C con C_in constante en el subpaso
+                const rate = flushRate + k
+                const decay = Math.exp(-rate * dt)
+                const turbidityTarget = rate > 0 ? upstream.turbidity * flushRate / rate : compartment.turbidity
+                const mixing = Math.exp(-flushRate * dt)
+                compartment.turbidity = turbidityTarget + (compartment.turbidity - turbidityTarget) * decay
+                compartment.efficiency = upstream.efficiency + (compartment.efficiency - upstream.efficiency) * mixing
+                upstream = compartment
+            }
+            inlet = upstream
+        }
+    }
+
+    return { time: state.time + minutes, stages }
+}
+
+/**
+ * Turbidez a la salida de cada etapa
+ */
+export function plantReadings(state: PlantState): PlantReadings {
+    return Object.fromEntries(PLANT_STAGE_IDS.map(stage => {
+        const compartments = state.stages[stage]
+        const outlet = compartments[compartments.length - 1].turbidity
+        return [stage, stage === 'sedimentation' ? outlet + RESIDUAL_TURBIDITY : outlet]
+    })) as PlantReadings
+}
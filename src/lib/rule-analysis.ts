@@ -0,0 +1,360 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - ANÁLISIS DE LA BASE DE REGLAS
+ * Completitud, consistencia y redundancia del controlador difuso
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Una base de reglas escrita a mano suele tener huecos: combinaciones de
+ * entradas en las que ninguna regla se activa lo suficiente y el controlador
+ * cae al valor por defecto (dosis 0). Este módulo muestrea el espacio de
+ * entradas (secuencia de Halton, ver sampling.ts) y detecta:
+ *
+ * 1. REGIONES SIN CUBRIR: muestras cuya activación máxima es menor que un
+ *    umbral, agrupadas por el término dominante de las entradas que hacen
+ *    fallar a las reglas (el resto queda en "cualquiera").
+ * 2. CONTRADICCIONES: reglas con los mismos antecedentes (o unos incluidos en
+ *    otros) que concluyen distinta dosis, tiempo o corrección de pH.
+ * 3. REDUNDANCIAS: reglas duplicadas o cuyo efecto ya cubre otra regla más
+ *    general con los mismos consecuentes.
+ * 4. REGLAS NUNCA DOMINANTES: reglas que no son la más activada en ninguna
+ *    muestra (su influencia queda siempre eclipsada por otras).
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { calculateMembership, computeRuleFiringStrengths, WaterInputs } from '@/lib/fuzzy-logic'
+import { sampleInputSpace } from '@/lib/sampling'
+import {
+    AntecedentExpression,
+    FuzzyRule,
+    FuzzySystemDefinition,
+    InputVariableId,
+    INPUT_VARIABLE_IDS,
+    antecedentVariables,
+    findRuleOverlaps,
+    getRuleAntecedent,
+    getRuleWeight
+} from '@/lib/fuzzy-system'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface RuleAnalysisOptions {
+    /** Número de muestras del espacio de entradas */
+    sampleCount?: number
+    /** Activación máxima por debajo de la cual una muestra se considera sin cubrir */
+    threshold?: number
+}
+
+/**
+ * Región sin cubrir, descrita por el término dominante de las entradas que
+ * bastan para descartar todas las reglas (null = cualquier término)
+ */
+export interface UncoveredRegion {
+    terms: Record<InputVariableId, string | null>
+    /** Muestras sin cubrir dentro de la región */
+    sampleCount: number
+    /** Menor activación máxima observada en la región */
+    worstFiring: number
+    /** Entradas de la peor muestra (para reproducir el caso en el simulador) */
+    example: WaterInputs
+}
+
+export interface RuleConflict {
+    ruleIds: [number, number]
+    /** identical: mismos antecedentes; overlapping: unos incluidos en los otros */
+    kind: 'identical' | 'overlapping'
+}
+
+export interface RuleRedundancy {
+    ruleIds: [number, number]
+    /** duplicate: misma regla; subsumed: la segunda especializa a la primera sin cambiar consecuentes */
+    kind: 'duplicate' | 'subsumed'
+}
+
+export interface RuleStat {
+    id: number
+    name: string
+    /** Mayor activación alcanzada en el barrido */
+    maxFiring: number
+    /** Fracción de las muestras en las que alguna regla se activa en que es la más activada */
+    dominantShare: number
+}
+
+export interface RuleBaseReport {
+    threshold: number
+    sampleCount: number
+    /** Fracción de muestras con activación máxima ≥ umbral */
+    coverage: number
+    uncoveredRegions: UncoveredRegion[]
+    conflicts: RuleConflict[]
+    redundancies: RuleRedundancy[]
+    ruleStats: RuleStat[]
+    /** Ids de reglas habilitadas que nunca son la más activada */
+    neverDominant: number[]
+}
+
+const DEFAULT_SAMPLE_COUNT = 8000
+const DEFAULT_THRESHOLD = 0.2
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// REGIONES SIN CUBRIR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Término con mayor membresía de una entrada
+ */
+function dominantTerm(system: FuzzySystemDefinition, id: InputVariableId, value: number): string | null {
+    const variable = system.inputs.find(v => v.id === id)
+    if (!variable) return null
+    let best: string | null = null
+    let bestDegree = -1
+    for (const term of variable.terms) {
+        const degree = calculateMembership(value, term)
+        if (degree > bestDegree) {
+            best = term.name
+            bestDegree = degree
+        }
+    }
+    return best
+}
+
+/**
+ * Valor de un antecedente con los términos dominantes de algunas variables:
+ * true o false si esas variables bastan para decidirlo, undefined si depende
+ * de alguna variable sin fijar. Los hedges no cambian el término dominante.
+ */
+function evaluateCrisp(
+    expression: AntecedentExpression,
+    terms: Partial<Record<InputVariableId, string | null>>
+): boolean | undefined {
+    switch (expression.op) {
+        case 'is': {
+            const term = terms[expression.variable]
+            if (term === undefined || term === null) return undefined
+            return (term === expression.term) !== (expression.negated === true)
+        }
+        case 'not': {
+            const value = evaluateCrisp(expression.operand, terms)
+            return value === undefined ? undefined : !value
+        }
+        case 'and': {
+            if (expression.operands.length === 0) return false
+            const values = expression.operands.map(operand => evaluateCrisp(operand, terms))
+            if (values.includes(false)) return false
+            return values.includes(undefined) ? undefined : true
+        }
+        case 'or': {
+            const values = expression.operands.map(operand => evaluateCrisp(operand, terms))
+            if (values.includes(true)) return true
+            return values.includes(undefined) ? undefined : false
+        }
+    }
+}
+
+/**
+ * Proyecta una celda sin cubrir sobre las variables que explican el hueco:
+ * el menor conjunto de variables cuyos términos dominantes descartan todas
+ * las reglas. Las reglas que esos términos no pueden descartar (la celda
+ * cae en su zona pero se activan poco) aportan todas sus variables.
+ */
+function projectCell(
+    terms: Record<InputVariableId, string | null>,
+    rules: FuzzyRule[]
+): Record<InputVariableId, string | null> {
+    const antecedents = rules.filter(rule => getRuleWeight(rule) > 0).map(getRuleAntecedent)
+    const weak = antecedents.filter(expression => evaluateCrisp(expression, terms) !== false)
+    const required = new Set(weak.flatMap(expression => [...antecedentVariables(expression)]))
+    const failing = antecedents.filter(expression => !weak.includes(expression))
+
+    // Subconjuntos por tamaño creciente (6 entradas: 64 combinaciones)
+    const free = INPUT_VARIABLE_IDS.filter(id => !required.has(id) && terms[id] !== null)
+    const subsets = Array.from({ length: 1 << free.length }, (_, mask) => free.filter((_, i) => mask & (1 << i)))
+        .sort((a, b) => a.length - b.length)
+    for (const subset of subsets) {
+        const selected = new Set([...required, ...subset])
+        const partial = Object.fromEntries(
+            INPUT_VARIABLE_IDS.map(id => [id, selected.has(id) ? terms[id] : null])
+        ) as Record<InputVariableId, string | null>
+        if (failing.every(expression => evaluateCrisp(expression, partial) === false)) return partial
+    }
+    return terms
+}
+
+/**
+ * true si `general` fija un subconjunto de las variables de `specific`
+ * con los mismos términos
+ */
+function regionContains(general: UncoveredRegion, specific: UncoveredRegion): boolean {
+    return INPUT_VARIABLE_IDS.every(id => general.terms[id] === null || general.terms[id] === specific.terms[id])
+}
+
+/**
+ * Une dos regiones sin cubrir en la primera, conservando la peor muestra
+ */
+function mergeInto(target: UncoveredRegion, source: UncoveredRegion): void {
+    target.sampleCount += source.sampleCount
+    if (source.worstFiring < target.worstFiring) {
+        target.worstFiring = source.worstFiring
+        target.example = source.example
+    }
+}
+
+/**
+ * Agrupa las celdas sin cubrir: proyecta cada una sobre las variables que
+ * descartan las reglas, une las proyecciones iguales y absorbe en cada
+ * región las que la especializan (fijan más variables con los mismos términos)
+ */
+function collapseRegions(cells: UncoveredRegion[], rules: FuzzyRule[]): UncoveredRegion[] {
+    const projected = new Map<string, UncoveredRegion>()
+    for (const cell of cells) {
+        const terms = projectCell(cell.terms, rules)
+        const key = JSON.stringify(terms)
+        const region = projected.get(key)
+        if (region) mergeInto(region, cell)
+        else projected.set(key, { ...cell, terms })
+    }
+
+    // Primero las más generales, para que absorban a las específicas
+    const fixedCount = (region: UncoveredRegion) => INPUT_VARIABLE_IDS.filter(id => region.terms[id] !== null).length
+    const regions: UncoveredRegion[] = []
+    for (const region of Array.from(projected.values()).sort((a, b) => fixedCount(a) - fixedCount(b))) {
+        const general = regions.find(candidate => regionContains(candidate, region))
+        if (general) mergeInto(general, region)
+        else regions.push(region)
+    }
+    return regions
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// RELACIONES ENTRE REGLAS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * true si todas las condiciones de `general` aparecen en `specific` y esta tiene alguna más
+ * (solo para reglas con condiciones simples; los antecedentes compuestos no se comparan)
+ */
+function isStrictlyMoreGeneral(general: FuzzyRule, specific: FuzzyRule): boolean {
+    if (general.antecedent || specific.antecedent) return false
+    const generalEntries = Object.entries(general.conditions).filter(([, term]) => term)
+    const specificCount = Object.values(specific.conditions).filter(Boolean).length
+    return generalEntries.length < specificCount &&
+        generalEntries.every(([id, term]) => specific.conditions[id as InputVariableId] === term)
+}
+
+function sameConsequents(a: FuzzyRule, b: FuzzyRule): boolean {
+    return a.outputs.dose === b.outputs.dose &&
+        a.outputs.time === b.outputs.time &&
+        a.outputs.phCorrection === b.outputs.phCorrection
+}
+
+function findRuleRelations(rules: FuzzyRule[]): { conflicts: RuleConflict[]; redundancies: RuleRedundancy[] } {
+    const enabled = rules.filter(rule => rule.enabled !== false)
+    const conflicts: RuleConflict[] = []
+    const redundancies: RuleRedundancy[] = []
+
+    // Antecedentes idénticos (cada par una sola vez)
+    for (const [id, overlap] of findRuleOverlaps(enabled)) {
+        for (const other of overlap.conflicts) {
+            if (id < other) conflicts.push({ ruleIds: [id, other], kind: 'identical' })
+        }
+        for (const other of overlap.duplicates) {
+            if (id < other) redundancies.push({ ruleIds: [id, other], kind: 'duplicate' })
+        }
+    }
+
+    // Antecedentes incluidos: la regla específica contradice o repite a la general
+    for (const general of enabled) {
+        for (const specific of enabled) {
+            if (general.id === specific.id || !isStrictlyMoreGeneral(general, specific)) continue
+            if (sameConsequents(general, specific)) {
+                redundancies.push({ ruleIds: [general.id, specific.id], kind: 'subsumed' })
+            } else {
+                conflicts.push({ ruleIds: [general.id, specific.id], kind: 'overlapping' })
+            }
+        }
+    }
+
+    return { conflicts, redundancies }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ANÁLISIS COMPLETO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Analiza la completitud, consistencia y redundancia de la base de reglas
+ *
+ * @example
+ * const report = analyzeRuleBase(DEFAULT_FUZZY_SYSTEM, { threshold: 0.2 })
+ * // Sin regla para agua muy limpia y muy ácida (la temperatura, la alcalinidad,
+ * // la conductividad y el caudal no importan; el color, porque hay reglas para
+ * // color medio y alto):
+ * report.uncoveredRegions
+ * // [..., { terms: { turbidity: 'muy_baja', ph: 'muy_acido', temperature: null,
+ * //          alkalinity: null, conductivity: null, color: 'baja', flowRate: null }, ... }]
+ */
+export function analyzeRuleBase(system: FuzzySystemDefinition, options: RuleAnalysisOptions = {}): RuleBaseReport {
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD
+    const enabledRules = system.rules.filter(rule => rule.enabled !== false)
+    const samples = sampleInputSpace(system, options.sampleCount ?? DEFAULT_SAMPLE_COUNT)
+
+    const maxFiring = new Map<number, number>(enabledRules.map(rule => [rule.id, 0]))
+    const dominantCount = new Map<number, number>(enabledRules.map(rule => [rule.id, 0]))
+    const uncoveredCells = new Map<string, UncoveredRegion>()
+    let coveredCount = 0
+    let firedCount = 0
+
+    for (const inputs of samples) {
+        const firings = computeRuleFiringStrengths(inputs, system)
+        const strongest = firings.reduce((max, f) => Math.max(max, f.strength), 0)
+
+        for (const { rule, strength } of firings) {
+            maxFiring.set(rule.id, Math.max(maxFiring.get(rule.id) ?? 0, strength))
+            if (strongest > 0 && strength >= strongest - 1e-9) {
+                dominantCount.set(rule.id, (dominantCount.get(rule.id) ?? 0) + 1)
+            }
+        }
+        if (strongest > 0) firedCount++
+
+        if (strongest >= threshold) {
+            coveredCount++
+            continue
+        }
+
+        const terms = Object.fromEntries(
+            INPUT_VARIABLE_IDS.map(id => [id, dominantTerm(system, id, inputs[id])])
+        ) as Record<InputVariableId, string | null>
+        const key = JSON.stringify(terms)
+        const cell = uncoveredCells.get(key)
+        if (!cell) {
+            uncoveredCells.set(key, { terms, sampleCount: 1, worstFiring: strongest, example: inputs })
+        } else {
+            cell.sampleCount++
+            if (strongest < cell.worstFiring) {
+                cell.worstFiring = strongest
+                cell.example = inputs
+            }
+        }
+    }
+
+    const ruleStats: RuleStat[] = enabledRules.map(rule => ({
+        id: rule.id,
+        name: rule.name,
+        maxFiring: maxFiring.get(rule.id) ?? 0,
+        dominantShare: firedCount > 0 ? (dominantCount.get(rule.id) ?? 0) / firedCount : 0
+    }))
+
+    return {
+        threshold,
+        sampleCount: samples.length,
+        coverage: samples.length > 0 ? coveredCount / samples.length : 0,
+        uncoveredRegions: collapseRegions(Array.from(uncoveredCells.values()), enabledRules)
+            .sort((a, b) => a.worstFiring - b.worstFiring || b.sampleCount - a.sampleCount),
+        ...findRuleRelations(system.rules),
+        ruleStats,
+        neverDominant: ruleStats.filter(stat => stat.dominantShare === 0).map(stat => stat.id)
+    }
+}
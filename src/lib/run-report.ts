@@ -0,0 +1,252 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - INFORME DE EJECUCIÓN
+ * Métricas de desempeño del control durante un escenario
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Mientras corre un escenario el simulador acumula una muestra por paso
+ * (`accumulateRunSample`) y, al terminar, `finishRunReport` produce el
+ * informe. El tiempo es tiempo de proceso en minutos, a la misma escala que
+ * el modelo de la planta (`PLANT_MINUTES_PER_SECOND`).
+ *
+ * Error de seguimiento: e = turbidez decantada - consigna (NTU)
+ *
+ *   IAE  = ∫ |e| dt          (NTU·min)   error acumulado
+ *   ISE  = ∫ e² dt           (NTU²·min)  castiga los picos
+ *   ITAE = ∫ t · |e| dt      (NTU·min²)  castiga el error que persiste
+ *
+ * Además: coagulante consumido (kg = mg/L · m³ / 1000) y dosis máxima,
+ * tiempo en cada nivel de riesgo, cambios de la regla dominante, variación
+ * total de la dosis (desgaste de la bomba dosificadora) y su máxima
+ * velocidad de cambio, y costo total = Σ costo operativo · caudal · Δt.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { RiskLevel } from '@/lib/fuzzy-logic'
+import type { CoagulantId } from '@/lib/fuzzy-system'
+import type { ControllerId } from '@/lib/controllers'
+import type { ControlMode } from '@/lib/feedback-control'
+import type { LocalizedText } from '@/lib/i18n'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Condiciones con las que se ejecutó el escenario
+ */
+export interface RunContext {
+    scenarioId: string
+    scenarioName: LocalizedText
+    controllerId: ControllerId
+    controlMode: ControlMode
+    coagulant: CoagulantId
+    /** Consigna de turbidez decantada (NTU) */
+    setpoint: number
+}
+
+/**
+ * Estado del proceso en un paso del escenario
+ */
+export interface RunSample {
+    /** Tiempo de proceso transcurrido en el paso (min) */
+    minutes: number
+    /** Turbidez decantada medida (NTU); null si la planta no ha arrancado */
+    settledTurbidity: number | null
+    /** Dosis aplicada (mg/L) */
+    dose: number
+    /** Costo operativo ($/m³) */
+    operationalCost: number
+    /** Caudal (m³/h) */
+    flowRate: number
+    riskLevel: RiskLevel
+    /** Regla dominante (id); null si no se activa ninguna */
+    dominantRuleId: number | null
+}
+
+/**
+ * Acumulador de un escenario en curso
+ */
+export interface RunAccumulator {
+    context: RunContext
+    startedAt: number
+    /** Tiempo de proceso acumulado (min) */
+    time: number
+    /** Tiempo con medida de turbidez decantada (min) */
+    measuredTime: number
+    iae: number
+    ise: number
+    itae: number
+    settledSum: number
+    maxSettled: number
+    coagulantKg: number
+    peakDose: number
+    doseTravel: number
+    maxDoseRate: number
+    totalCost: number
+    volume: number
+    riskMinutes: Record<RiskLevel, number>
+    ruleSwitches: number
+    lastDose: number | null
+    lastRuleId: number | null | undefined
+}
+
+/**
+ * Informe de un escenario terminado
+ */
+export interface RunReport extends RunContext {
+    id: string
+    /** Inicio y fin (epoch ms) */
+    startedAt: number
+    finishedAt: number
+    /** Duración en tiempo de proceso (min) */
+    durationMinutes: number
+    iae: number
+    ise: number
+    itae: number
+    meanSettled: number
+    maxSettled: number
+    /** Coagulante consumido (kg de producto) */
+    coagulantKg: number
+    /** Dosis máxima (mg/L) */
+    peakDose: number
+    /** Suma de los cambios de dosis |Δdosis| (mg/L) */
+    doseTravel: number
+    /** Máxima velocidad de cambio de la dosis (mg/L por min) */
+    maxDoseRate: number
+    /** Costo total ($) */
+    totalCost: number
+    /** Volumen tratado (m³) */
+    volume: number
+    /** Minutos en cada nivel de riesgo */
+    riskMinutes: Record<RiskLevel, number>
+    /** Veces que cambió la regla dominante */
+    ruleSwitches: number
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ACUMULACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createRunAccumulator(context: RunContext, startedAt: number = Date.now()): RunAccumulator {
+    return {
+        context,
+        startedAt,
+        time: 0,
+        measuredTime: 0,
+        iae: 0,
+        ise: 0,
+        itae: 0,
+        settledSum: 0,
+        maxSettled: 0,
+        coagulantKg: 0,
+        peakDose: 0,
+        doseTravel: 0,
+        maxDoseRate: 0,
+        totalCost: 0,
+        volume: 0,
+        riskMinutes: { optimal: 0, caution: 0, critical: 0 },
+        ruleSwitches: 0,
+        lastDose: null,
+        lastRuleId: undefined
+    }
+}
+
+/**
+ * Añade un paso al acumulador (devuelve uno nuevo)
+ */
+export function accumulateRunSample(accumulator: RunAccumulator, sample: RunSample): RunAccumulator {
+    const minutes = Math.max(0, sample.minutes)
+    const time = accumulator.time + minutes
+    const next: RunAccumulator = {
+        ...accumulator,
+        time,
+        riskMinutes: { ...accumulator.riskMinutes, [sample.riskLevel]: accumulator.riskMinutes[sample.riskLevel] + minutes }
+    }
+
+    if (sample.settledTurbidity !== null) {
+        const error = Math.abs(sample.settledTurbidity - accumulator.context.setpoint)
+        next.iae += error * minutes
+        next.ise += error * error * minutes
+        next.itae += time * error * minutes
+        next.settledSum += sample.settledTurbidity * minutes
+        next.measuredTime += minutes
+        next.maxSettled = Math.max(accumulator.maxSettled, sample.settledTurbidity)
+    }
+
+    // Volumen del paso (m³); mg/L = g/m³
+    const volume = sample.flowRate * minutes / 60
+    next.volume += volume
+    next.coagulantKg += sample.dose * volume / 1000
+    next.totalCost += sample.operationalCost * volume
+    next.peakDose = Math.max(accumulator.peakDose, sample.dose)
+
+    if (accumulator.lastDose !== null) {
+        const change = Math.abs(sample.dose - accumulator.lastDose)
+        next.doseTravel += change
+        if (minutes > 0) next.maxDoseRate = Math.max(accumulator.maxDoseRate, change / minutes)
+    }
+    next.lastDose = sample.dose
+
+    if (accumulator.lastRuleId !== undefined && sample.dominantRuleId !== accumulator.lastRuleId) {
+        next.ruleSwitches++
+    }
+    next.lastRuleId = sample.dominantRuleId
+
+    return next
+}
+
+/**
+ * Cierra el acumulador y produce el informe
+ */
+export function finishRunReport(accumulator: RunAccumulator, finishedAt: number = Date.now()): RunReport {
+    const { context } = accumulator
+    return {
+        ...context,
+        id: `${context.scenarioId}-${finishedAt}`,
+        startedAt: accumulator.startedAt,
+        finishedAt,
+        durationMinutes: accumulator.time,
+        iae: accumulator.iae,
+        ise: accumulator.ise,
+        itae: accumulator.itae,
+        meanSettled: accumulator.measuredTime > 0 ? accumulator.settledSum / accumulator.measuredTime : 0,
+        maxSettled: accumulator.maxSettled,
+        coagulantKg: accumulator.coagulantKg,
+        peakDose: accumulator.peakDose,
+        doseTravel: accumulator.doseTravel,
+        maxDoseRate: accumulator.maxDoseRate,
+        totalCost: accumulator.totalCost,
+        volume: accumulator.volume,
+        riskMinutes: accumulator.riskMinutes,
+        ruleSwitches: accumulator.ruleSwitches
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// INFORMES GUARDADOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Informes que se conservan (los más antiguos se descartan) */
+export const MAX_SAVED_REPORTS = 30
+
+/**
+ * Lee los informes guardados en JSON; descarta los que no tienen la forma esperada
+ */
+export function parseRunReports(json: string | null): RunReport[] {
+    if (!json) return []
+    try {
+        const data: unknown = JSON.parse(json)
+        if (!Array.isArray(data)) return []
+        return data.filter((item): item is RunReport =>
+            typeof item === 'object' && item !== null &&
+            typeof item.id === 'string' &&
+            typeof item.iae === 'number' &&
+            typeof item.riskMinutes === 'object'
+        ).slice(-MAX_SAVED_REPORTS)
+    } catch {
+        return []
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - MUESTREO DEL ESPACIO DE ENTRADAS
+ * Secuencia cuasi-aleatoria de Halton
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Con seis entradas una malla regular deja de ser práctica (15 puntos por
+ * eje son más de 11 millones de muestras). La secuencia de Halton reparte
+ * N puntos de forma uniforme en cualquier número de dimensiones y es
+ * determinista: el mismo análisis da siempre el mismo resultado.
+ *
+ * La coordenada d del punto i es el "inverso radical" de i en la base del
+ * d-ésimo número primo (ej: base 2 → 1/2, 1/4, 3/4, 1/8, 5/8...).
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { DEFAULT_WATER_INPUTS, WaterInputs } from '@/lib/fuzzy-logic'
+import { FuzzySystemDefinition, InputVariableId, INPUT_VARIABLE_IDS } from '@/lib/fuzzy-system'
+
+const PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37]
+
+/**
+ * Puntos iniciales descartados: los primeros términos de las bases altas
+ * están correlacionados entre sí
+ */
+const SKIP = 20
+
+function radicalInverse(index: number, base: number): number {
+    let result = 0
+    let fraction = 1 / base
+    let i = index
+    while (i > 0) {
+        result += (i % base) * fraction
+        i = Math.floor(i / base)
+        fraction /= base
+    }
+    return result
+}
+
+/**
+ * `count` puntos de Halton en el hipercubo [0, 1)^dimensions
+ */
+export function haltonSequence(count: number, dimensions: number): number[][] {
+    if (dimensions > PRIMES.length) {
+        throw new Error(`La secuencia de Halton admite como máximo ${PRIMES.length} dimensiones`)
+    }
+    return Array.from({ length: count }, (_, i) =>
+        Array.from({ length: dimensions }, (_, d) => radicalInverse(i + SKIP, PRIMES[d])))
+}
+
+/**
+ * Muestras de entradas repartidas por el universo de cada variable.
+ *
+ * @param bounds - Subintervalo opcional por variable (ej: soporte de un término)
+ * @returns Entradas completas; las variables que no declara el sistema toman
+ *          su valor de referencia
+ */
+export function sampleInputSpace(
+    system: FuzzySystemDefinition,
+    count: number,
+    bounds: Partial<Record<InputVariableId, [number, number]>> = {}
+): WaterInputs[] {
+    const axes = INPUT_VARIABLE_IDS.flatMap(id => {
+        const variable = system.inputs.find(v => v.id === id)
+        return variable ? [{ id, range: bounds[id] ?? variable.range }] : []
+    })
+
+    return haltonSequence(count, axes.length).map(point => {
+        const inputs = { ...DEFAULT_WATER_INPUTS }
+        axes.forEach(({ id, range: [min, max] }, d) => {
+            inputs[id] = min + (max - min) * point[d]
+        })
+        return inputs
+    })
+}
@@ -5,8 +5,14 @@
  * ═══════════════════════════════════════════════════════════════════════════════
  */
 
+import type { WaterInputs } from '@/lib/fuzzy-logic'
+import type { LocalizedText } from '@/lib/i18n'
+import type { SensorFaults } from '@/lib/sensors'
+
 /**
- * Un keyframe define el estado de los parámetros en un momento específico
+ * Un keyframe define el estado de los parámetros en un momento específico.
+ * Alcalinidad, conductividad, color y caudal son opcionales: los escenarios que no los
+ * indican los dejan en su valor de referencia.
  */
 export interface ScenarioKeyframe {
     /** Tiempo en milisegundos desde el inicio del escenario */
@@ -17,8 +23,27 @@ export interface ScenarioKeyframe {
     ph: number
     /** Temperatura objetivo en °C */
     temperature: number
+    /** Alcalinidad objetivo en mg/L CaCO₃ */
+    alkalinity?: number
+    /** Conductividad objetivo en µS/cm */
+    conductivity?: number
+    /** Color verdadero objetivo en UC */
+    color?: number
+    /** Caudal objetivo en m³/h */
+    flowRate?: number
+    /** Fallas de los sensores desde este keyframe (sustituyen a las anteriores; {} las quita) */
+    sensorFaults?: SensorFaults
 }
 
+/**
+ * Entradas que fija un escenario en un instante: siempre turbidez, pH y
+ * temperatura; el resto solo si algún keyframe las indica
+ */
+export type ScenarioInputs = Pick<WaterInputs, 'turbidity' | 'ph' | 'temperature'> & Partial<WaterInputs>
+
+/** Entradas opcionales de los keyframes */
+const OPTIONAL_KEYFRAME_INPUTS = ['alkalinity', 'conductivity', 'color', 'flowRate'] as const
+
 /**
  * Escenario de simulación ambiental
  */
@@ -26,9 +51,9 @@ export interface Scenario {
     /** Identificador único */
     id: string
     /** Nombre para mostrar */
-    name: string
+    name: LocalizedText
     /** Descripción del evento */
-    description: string
+    description: LocalizedText
     /** Icono (emoji) representativo */
     icon: string
     /** Duración total en milisegundos */
@@ -45,7 +70,7 @@ export interface Scenario {
 export function interpolateKeyframes(
     keyframes: ScenarioKeyframe[],
     currentTime: number
-): { turbidity: number; ph: number; temperature: number } {
+): ScenarioInputs {
     // Encontrar keyframes anterior y siguiente
     let prevKeyframe = keyframes[0]
     let nextKeyframe = keyframes[keyframes.length - 1]
@@ -67,11 +92,22 @@ export function interpolateKeyframes(
     // Interpolar con easing suave
     const eased = easeInOutCubic(Math.max(0, Math.min(1, progress)))
 
-    return {
+    const inputs: ScenarioInputs = {
         turbidity: prevKeyframe.turbidity + (nextKeyframe.turbidity - prevKeyframe.turbidity) * eased,
         ph: prevKeyframe.ph + (nextKeyframe.ph - prevKeyframe.ph) * eased,
         temperature: prevKeyframe.temperature + (nextKeyframe.temperature - prevKeyframe.temperature) * eased
     }
+
+    // Entradas opcionales: si un keyframe no la indica se mantiene la del otro
+    for (const key of OPTIONAL_KEYFRAME_INPUTS) {
+        const from = prevKeyframe[key] ?? nextKeyframe[key]
+        const to = nextKeyframe[key] ?? prevKeyframe[key]
+        if (from !== undefined && to !== undefined) {
+            inputs[key] = from + (to - from) * eased
+        }
+    }
+
+    return inputs
 }
 
 /**
@@ -96,8 +132,11 @@ function easeInOutCubic(t: number): number {
  */
 export const STORM_SCENARIO: Scenario = {
     id: 'storm',
-    name: 'Tormenta Súbita',
-    description: 'Simula una tormenta intensa que arrastra sedimentos al agua cruda, aumentando drásticamente la turbidez y acidificando ligeramente el pH.',
+    name: { es: 'Tormenta Súbita', en: 'Sudden Storm' },
+    description: {
+        es: 'Simula una tormenta intensa que arrastra sedimentos al agua cruda, aumentando drásticamente la turbidez y acidificando ligeramente el pH.',
+        en: 'Simulates an intense storm that washes sediment into the raw water, sharply increasing turbidity and slightly acidifying the pH.'
+    },
     icon: '⛈️',
     duration: 30000, // 30 segundos
     themeColor: 'hsl(220, 70%, 50%)',
@@ -118,24 +157,29 @@ export const STORM_SCENARIO: Scenario = {
  * 
  * Simula un vertido accidental de sustancias ácidas de origen industrial.
  * La turbidez aumenta moderadamente, pero el pH cae drásticamente,
- * requiriendo corrección intensiva.
+ * requiriendo corrección intensiva. El ácido consume la alcalinidad del
+ * agua, que no se recupera hasta que el vertido se diluye, y sus sales
+ * disparan la conductividad.
  */
 export const INDUSTRIAL_ACID_SPILL: Scenario = {
     id: 'acid_spill',
-    name: 'Vertido Industrial Ácido',
-    description: 'Simula un vertido accidental de sustancias ácidas. El pH cae drásticamente requiriendo neutralización de emergencia.',
+    name: { es: 'Vertido Industrial Ácido', en: 'Acidic Industrial Spill' },
+    description: {
+        es: 'Simula un vertido accidental de sustancias ácidas. El pH cae drásticamente requiriendo neutralización de emergencia.',
+        en: 'Simulates an accidental spill of acidic substances. The pH drops sharply and requires emergency neutralization.'
+    },
     icon: '🏭',
     duration: 25000,
     themeColor: 'hsl(45, 90%, 50%)',
     keyframes: [
-        { time: 0, turbidity: 40, ph: 7.2, temperature: 23 },   // Normal
-        { time: 2000, turbidity: 80, ph: 6.0, temperature: 24 },   // Inicio vertido
-        { time: 5000, turbidity: 150, ph: 4.5, temperature: 26 },   // Pico ácido
-        { time: 8000, turbidity: 200, ph: 3.8, temperature: 28 },   // Máximo impacto
-        { time: 12000, turbidity: 180, ph: 4.2, temperature: 27 },   // Dilución iniciando
-        { time: 16000, turbidity: 120, ph: 5.5, temperature: 25 },   // Recuperándose
-        { time: 20000, turbidity: 80, ph: 6.5, temperature: 24 },   // Casi normal
-        { time: 25000, turbidity: 45, ph: 7.0, temperature: 23 }    // Recuperado
+        { time: 0, turbidity: 40, ph: 7.2, temperature: 23, alkalinity: 80, conductivity: 350 },   // Normal
+        { time: 2000, turbidity: 80, ph: 6.0, temperature: 24, alkalinity: 35, conductivity: 700 },   // Inicio vertido
+        { time: 5000, turbidity: 150, ph: 4.5, temperature: 26, alkalinity: 3, conductivity: 1500 },   // Pico ácido
+        { time: 8000, turbidity: 200, ph: 3.8, temperature: 28, alkalinity: 0, conductivity: 1900 },   // Máximo impacto
+        { time: 12000, turbidity: 180, ph: 4.2, temperature: 27, alkalinity: 1, conductivity: 1700 },   // Dilución iniciando
+        { time: 16000, turbidity: 120, ph: 5.5, temperature: 25, alkalinity: 15, conductivity: 1100 },   // Recuperándose
+        { time: 20000, turbidity: 80, ph: 6.5, temperature: 24, alkalinity: 50, conductivity: 600 },   // Casi normal
+        { time: 25000, turbidity: 45, ph: 7.0, temperature: 23, alkalinity: 75, conductivity: 400 }    // Recuperado
     ]
 }
 
@@ -147,8 +191,11 @@ export const INDUSTRIAL_ACID_SPILL: Scenario = {
  */
 export const INDUSTRIAL_ALKALINE_SPILL: Scenario = {
     id: 'alkaline_spill',
-    name: 'Vertido Industrial Alcalino',
-    description: 'Simula un vertido de sustancias alcalinas típico de industrias papeleras o de lavandería. El pH sube requiriendo acidificación.',
+    name: { es: 'Vertido Industrial Alcalino', en: 'Alkaline Industrial Spill' },
+    description: {
+        es: 'Simula un vertido de sustancias alcalinas típico de industrias papeleras o de lavandería. El pH sube requiriendo acidificación.',
+        en: 'Simulates a spill of alkaline substances typical of paper mills or industrial laundries. The pH rises and requires acidification.'
+    },
     icon: '🧪',
     duration: 25000,
     themeColor: 'hsl(280, 70%, 50%)',
@@ -173,18 +220,21 @@ export const INDUSTRIAL_ALKALINE_SPILL: Scenario = {
  */
 export const RECOVERY_SCENARIO: Scenario = {
     id: 'recovery',
-    name: 'Recuperación del Sistema',
-    description: 'Simula la vuelta gradual a condiciones óptimas desde un estado crítico. Demuestra la respuesta del sistema durante la normalización.',
+    name: { es: 'Recuperación del Sistema', en: 'System Recovery' },
+    description: {
+        es: 'Simula la vuelta gradual a condiciones óptimas desde un estado crítico. Demuestra la respuesta del sistema durante la normalización.',
+        en: 'Simulates the gradual return to optimal conditions from a critical state. Shows the system response during normalization.'
+    },
     icon: '🔄',
     duration: 20000,
     themeColor: 'hsl(142, 70%, 45%)',
     keyframes: [
-        { time: 0, turbidity: 600, ph: 5.0, temperature: 30 },   // Estado crítico
-        { time: 4000, turbidity: 400, ph: 5.8, temperature: 28 },
-        { time: 8000, turbidity: 200, ph: 6.5, temperature: 26 },
-        { time: 12000, turbidity: 100, ph: 6.9, temperature: 24 },
-        { time: 16000, turbidity: 50, ph: 7.0, temperature: 22 },
-        { time: 20000, turbidity: 25, ph: 7.1, temperature: 21 }    // Óptimo
+        { time: 0, turbidity: 600, ph: 5.0, temperature: 30, alkalinity: 10 },   // Estado crítico
+        { time: 4000, turbidity: 400, ph: 5.8, temperature: 28, alkalinity: 25 },
+        { time: 8000, turbidity: 200, ph: 6.5, temperature: 26, alkalinity: 50 },
+        { time: 12000, turbidity: 100, ph: 6.9, temperature: 24, alkalinity: 70 },
+        { time: 16000, turbidity: 50, ph: 7.0, temperature: 22, alkalinity: 80 },
+        { time: 20000, turbidity: 25, ph: 7.1, temperature: 21, alkalinity: 80 }    // Óptimo
     ]
 }
 
@@ -197,8 +247,11 @@ export const RECOVERY_SCENARIO: Scenario = {
  */
 export const DIURNAL_FLUCTUATION: Scenario = {
     id: 'diurnal',
-    name: 'Fluctuación Diurna',
-    description: 'Simula variaciones típicas a lo largo de un día: cambios de temperatura, pequeñas fluctuaciones de turbidez por actividad biológica.',
+    name: { es: 'Fluctuación Diurna', en: 'Diurnal Fluctuation' },
+    description: {
+        es: 'Simula variaciones típicas a lo largo de un día: cambios de temperatura, pequeñas fluctuaciones de turbidez por actividad biológica.',
+        en: 'Simulates typical variations over a day: temperature changes and small turbidity fluctuations from biological activity.'
+    },
     icon: '🌅',
     duration: 35000,
     themeColor: 'hsl(35, 80%, 55%)',
@@ -220,17 +273,78 @@ export const DIURNAL_FLUCTUATION: Scenario = {
  */
 export const EXTREME_CONDITIONS: Scenario = {
     id: 'extreme',
-    name: 'Condiciones Extremas',
-    description: 'Escenario de prueba de estrés: lleva todos los parámetros a valores extremos para evaluar la respuesta del sistema en límites operativos.',
+    name: { es: 'Condiciones Extremas', en: 'Extreme Conditions' },
+    description: {
+        es: 'Escenario de prueba de estrés: lleva todos los parámetros a valores extremos para evaluar la respuesta del sistema en límites operativos.',
+        en: 'Stress test scenario: drives every parameter to extreme values to evaluate the system response at its operating limits.'
+    },
     icon: '⚠️',
     duration: 20000,
     themeColor: 'hsl(0, 80%, 50%)',
     keyframes: [
-        { time: 0, turbidity: 100, ph: 7.0, temperature: 22 },
-        { time: 5000, turbidity: 950, ph: 3.5, temperature: 38 },  // Todo extremo
-        { time: 10000, turbidity: 900, ph: 12.0, temperature: 5 },  // Extremo opuesto
-        { time: 15000, turbidity: 500, ph: 7.0, temperature: 22 },  // Recuperando
-        { time: 20000, turbidity: 80, ph: 7.0, temperature: 22 }   // Normal
+        { time: 0, turbidity: 100, ph: 7.0, temperature: 22, alkalinity: 80 },
+        { time: 5000, turbidity: 950, ph: 3.5, temperature: 38, alkalinity: 0 },  // Todo extremo
+        { time: 10000, turbidity: 900, ph: 12.0, temperature: 5, alkalinity: 280 },  // Extremo opuesto
+        { time: 15000, turbidity: 500, ph: 7.0, temperature: 22, alkalinity: 80 },  // Recuperando
+        { time: 20000, turbidity: 80, ph: 7.0, temperature: 22, alkalinity: 80 }   // Normal
+    ]
+}
+
+/**
+ * DESHIELO PRIMAVERAL
+ *
+ * El agua de fusión de nieve llega fría, blanda (poca alcalinidad y poca
+ * conductividad) y cargada de materia orgánica de los suelos, mientras el
+ * caudal del río se duplica.
+ * La turbidez sube poco: la dificultad está en el color y en la falta de
+ * alcalinidad para que el alumbre precipite.
+ */
+export const SNOWMELT_SCENARIO: Scenario = {
+    id: 'snowmelt',
+    name: { es: 'Deshielo Primaveral', en: 'Spring Snowmelt' },
+    description: {
+        es: 'Agua de deshielo fría, blanda y con color: la alcalinidad cae, la materia orgánica sube y el caudal de la planta se duplica.',
+        en: 'Cold, soft and colored snowmelt water: alkalinity falls, organic matter rises and the plant flow rate doubles.'
+    },
+    icon: '🏔️',
+    duration: 30000,
+    themeColor: 'hsl(195, 70%, 55%)',
+    keyframes: [
+        { time: 0, turbidity: 20, ph: 7.2, temperature: 9, alkalinity: 85, conductivity: 320, color: 8, flowRate: 800 },
+        { time: 5000, turbidity: 45, ph: 7.0, temperature: 6, alkalinity: 60, conductivity: 240, color: 30, flowRate: 1100 },
+        { time: 10000, turbidity: 90, ph: 6.8, temperature: 4, alkalinity: 30, conductivity: 150, color: 70, flowRate: 1500 },
+        { time: 16000, turbidity: 120, ph: 6.7, temperature: 3, alkalinity: 18, conductivity: 110, color: 95, flowRate: 1800 },   // Pico del deshielo
+        { time: 22000, turbidity: 70, ph: 6.9, temperature: 5, alkalinity: 35, conductivity: 170, color: 60, flowRate: 1400 },
+        { time: 30000, turbidity: 30, ph: 7.1, temperature: 8, alkalinity: 70, conductivity: 280, color: 20, flowRate: 900 }
+    ]
+}
+
+/**
+ * FALLAS DE INSTRUMENTACIÓN
+ *
+ * Una crecida moderada mientras fallan los instrumentos: el turbidímetro
+ * primero mete ruido y picos, luego pierde lecturas y acaba congelado en
+ * pleno pico; a la vez el pHmetro deriva. Al final se reparan y recalibran.
+ * El agua es sencilla: la dificultad está en lo que ve el controlador.
+ */
+export const SENSOR_FAULT_SCENARIO: Scenario = {
+    id: 'sensor_faults',
+    name: { es: 'Fallas de Instrumentación', en: 'Instrument Faults' },
+    description: {
+        es: 'Crecida moderada con el turbidímetro ruidoso, con picos, perdiendo lecturas y finalmente congelado, y el pHmetro derivando. El controlador debe descartar las lecturas falsas.',
+        en: 'Moderate flood with a noisy, spiking turbidimeter that drops readings and finally freezes, and a drifting pH meter. The controller must discard the bad readings.'
+    },
+    icon: '📟',
+    duration: 30000,
+    themeColor: 'hsl(260, 50%, 60%)',
+    keyframes: [
+        { time: 0, turbidity: 40, ph: 7.2, temperature: 20, sensorFaults: {} },
+        { time: 3000, turbidity: 70, ph: 7.2, temperature: 20, sensorFaults: { turbidity: { noise: 15, spikeRate: 6 } } },   // Turbidímetro sucio
+        { time: 9000, turbidity: 200, ph: 7.1, temperature: 19, sensorFaults: { turbidity: { noise: 15, dropout: 0.5 }, ph: { drift: 0.4 } } },   // Cable suelto; el pHmetro deriva
+        { time: 15000, turbidity: 330, ph: 7.0, temperature: 19, sensorFaults: { turbidity: { stuck: true }, ph: { drift: 0.4 } } },   // Turbidímetro congelado en el pico
+        { time: 20000, turbidity: 220, ph: 7.1, temperature: 19 },
+        { time: 24000, turbidity: 120, ph: 7.2, temperature: 20, sensorFaults: {} },   // Reparación y recalibración
+        { time: 30000, turbidity: 60, ph: 7.2, temperature: 20 }
     ]
 }
 
@@ -243,7 +357,9 @@ export const ALL_SCENARIOS: Scenario[] = [
     INDUSTRIAL_ALKALINE_SPILL,
     RECOVERY_SCENARIO,
     DIURNAL_FLUCTUATION,
-    EXTREME_CONDITIONS
+    EXTREME_CONDITIONS,
+    SNOWMELT_SCENARIO,
+    SENSOR_FAULT_SCENARIO
 ]
 
 /**
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import {
+    CONFIRM_MINUTES,
+    MAX_HOLD_MINUTES,
+    SENSOR_SPECS,
+    STUCK_MINUTES,
+    SensorChannel,
+    activeSensorFaults,
+    createSensorBank,
+    degradeFuzzySystem,
+    hasFailedSensor,
+    measureSensor,
+    mergeSensorFaults,
+    readSensors,
+    validateReading
+} from '@/lib/sensors'
+import { SENSOR_FAULT_SCENARIO } from '@/lib/scenarios'
+import { DEFAULT_FUZZY_SYSTEM } from '@/lib/fuzzy-system'
+
+const turbidity = SENSOR_SPECS.turbidity
+
+function turbidityChannel(value: number): SensorChannel {
+    return createSensorBank({ turbidity: value }).turbidity!
+}
+
+/** Valida la misma lectura durante varios minutos, de minuto en minuto */
+function repeat(channel: SensorChannel, reading: number, minutes: number): SensorChannel {
+    for (let i = 0; i < minutes; i++) channel = validateReading(channel, reading, turbidity, 1)
+    return channel
+}
+
+describe('programación de fallas', () => {
+    const { keyframes } = SENSOR_FAULT_SCENARIO
+
+    it('toma las fallas del último keyframe que las declara', () => {
+        expect(activeSensorFaults(keyframes, 0)).toEqual({})
+        expect(activeSensorFaults(keyframes, 2999)).toEqual({})
+        expect(activeSensorFaults(keyframes, 3000)).toEqual({ turbidity: { noise: 15, spikeRate: 6 } })
+        expect(activeSensorFaults(keyframes, 15000).turbidity).toEqual({ stuck: true })
+    })
+
+    it('mantiene las fallas en los keyframes que no las declaran', () => {
+        expect(activeSensorFaults(keyframes, 22000)).toEqual(activeSensorFaults(keyframes, 15000))
+        expect(activeSensorFaults(keyframes, 24000)).toEqual({})
+        expect(activeSensorFaults(keyframes, 30000)).toEqual({})
+    })
+
+    it('suma las fallas manuales y las programadas, que mandan si coinciden', () => {
+        const merged = mergeSensorFaults(
+            { turbidity: { noise: 2, dropout: 0.1 }, ph: { drift: 0.2 } },
+            { turbidity: { noise: 15 } }
+        )
+        expect(merged).toEqual({ turbidity: { noise: 15, dropout: 0.1 }, ph: { drift: 0.2 } })
+    })
+})
+
+describe('validación de lecturas', () => {
+    it('retiene el último valor válido si se pierde la lectura', () => {
+        const channel = validateReading(turbidityChannel(100), NaN, turbidity, 1)
+
+        expect(channel).toMatchObject({ status: 'held', issue: 'dropout', value: 100, lastGood: 100, heldMinutes: 1 })
+    })
+
+    it('rechaza lecturas fuera del rango del instrumento', () => {
+        const channel = validateReading(turbidityChannel(100), 1500, turbidity, 1)
+        expect(channel).toMatchObject({ status: 'held', issue: 'outOfRange', value: 100 })
+    })
+
+    it('descarta un pico aislado y vuelve a aceptar la lectura siguiente', () => {
+        const spiked = validateReading(turbidityChannel(100), 400, turbidity, 1)
+        expect(spiked).toMatchObject({ status: 'held', issue: 'spike', value: 100 })
+
+        const recovered = validateReading(spiked, 101, turbidity, 1)
+        expect(recovered).toMatchObject({ status: 'ok', issue: null, heldMinutes: 0, lastGood: 101 })
+    })
+
+    it(`acepta entero un salto que persiste ${CONFIRM_MINUTES} minutos`, () => {
+        const pending = repeat(turbidityChannel(100), 600, CONFIRM_MINUTES - 1)
+        expect(pending).toMatchObject({ status: 'held', issue: 'spike', value: 100 })
+
+        const confirmed = repeat(pending, 600, 1)
+        expect(confirmed).toMatchObject({ status: 'ok', value: 600, lastGood: 600, jumpMinutes: 0 })
+    })
+
+    it(`detecta un sensor congelado tras ${STUCK_MINUTES} minutos de lecturas idénticas`, () => {
+        const almost = repeat(turbidityChannel(100), 100, STUCK_MINUTES - 1)
+        expect(almost.status).toBe('ok')
+
+        expect(repeat(almost, 100, 1)).toMatchObject({ status: 'held', issue: 'stuck' })
+    })
+
+    it(`da el sensor por fuera de servicio tras ${MAX_HOLD_MINUTES} minutos retenido`, () => {
+        const held = repeat(turbidityChannel(100), NaN, MAX_HOLD_MINUTES - 1)
+        expect(held.status).toBe('held')
+
+        const failed = repeat(held, NaN, 1)
+        expect(failed).toMatchObject({ status: 'failed', value: 100 })
+        expect(hasFailedSensor({ turbidity: failed })).toBe(true)
+    })
+})
+
+describe('medida y degradación', () => {
+    it('congela la lectura en el último valor medido', () => {
+        const channel = { ...turbidityChannel(100), reading: 120 }
+        const measured = measureSensor(channel, 300, { stuck: true }, turbidity, 1, () => 0.5)
+
+        expect(measured).toMatchObject({ reading: 120, stuckValue: 120 })
+    })
+
+    it('entrega al controlador el valor retenido y ensancha la huella de esa entrada', () => {
+        const bank = createSensorBank({ turbidity: 100, ph: 7 })
+        const { inputs, bank: next } = readSensors({ turbidity: 150, ph: 7 }, { turbidity: { dropout: 1 } }, bank, 1, () => 0.5)
+
+        expect(inputs.turbidity).toBe(100)
+        expect(next.turbidity).toMatchObject({ status: 'held', issue: 'dropout', truth: 150 })
+        expect(next.ph?.status).toBe('ok')
+
+        const degraded = degradeFuzzySystem(DEFAULT_FUZZY_SYSTEM, next)
+        const spreads = (system: typeof DEFAULT_FUZZY_SYSTEM, id: string) =>
+            system.inputs.find(variable => variable.id === id)!.terms.map(term => term.footprint?.spread ?? 0)
+
+        spreads(degraded, 'turbidity').forEach((spread, i) => {
+            expect(spread).toBeGreaterThan(spreads(DEFAULT_FUZZY_SYSTEM, 'turbidity')[i])
+        })
+        expect(spreads(degraded, 'ph')).toEqual(spreads(DEFAULT_FUZZY_SYSTEM, 'ph'))
+    })
+
+    it('no toca el controlador si todas las lecturas son válidas', () => {
+        const bank = createSensorBank({ turbidity: 100, ph: 7 })
+        expect(degradeFuzzySystem(DEFAULT_FUZZY_SYSTEM, bank)).toBe(DEFAULT_FUZZY_SYSTEM)
+    })
+})
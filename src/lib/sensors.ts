@@ -0,0 +1,383 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - SENSORES E INYECCIÓN DE FALLAS
+ * Capa de medida entre el agua del escenario y las entradas del controlador
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Cada paso del escenario pasa por dos etapas:
+ *
+ * 1. INSTRUMENTO (`measureSensor`): el valor real más el ruido propio del
+ *    instrumento y las fallas activas:
+ *    - Ruido gaussiano (σ en unidades del sensor)
+ *    - Deriva lenta (unidades por hora de proceso); vuelve a cero al quitar
+ *      la falla, como tras una recalibración
+ *    - Picos esporádicos (por hora de proceso, con signo aleatorio)
+ *    - Pérdida de lecturas (fracción de lecturas NaN)
+ *    - Lectura congelada en el valor que tenía al activarse la falla
+ *
+ * 2. VALIDACIÓN (`validateReading`): lo que haría el PLC antes de dárselo al
+ *    controlador. Se rechazan las lecturas NaN o ausentes, fuera del rango
+ *    del instrumento, con saltos imposibles para el agua (salvo que el salto
+ *    persista `CONFIRM_MINUTES`: entonces es un cambio real) o idénticas
+ *    durante `STUCK_MINUTES` (un instrumento vivo siempre tiene ruido).
+ *    Las aceptadas pasan por un filtro de primer orden.
+ *
+ * Degradación: con una lectura rechazada se mantiene el último valor válido
+ * y la huella tipo 2 de esa entrada se ensancha con el tiempo retenido
+ * (`degradeFuzzySystem`), así que el intervalo de la dosis muestra la
+ * incertidumbre. Pasados `MAX_HOLD_MINUTES` el sensor se da por fuera de
+ * servicio y la dosis pasa al extremo alto del intervalo: dosificar de menos
+ * manda agua turbia a los filtros; de más, dentro del intervalo, solo cuesta
+ * reactivo.
+ *
+ * La deriva no se detecta con estas comprobaciones: cada lectura es
+ * plausible. Solo la corrige el lazo cerrado con la turbidez decantada.
+ *
+ * Las fallas se programan en los keyframes del escenario (`sensorFaults`:
+ * desde ese keyframe sustituyen a las anteriores; `{}` las quita) y se
+ * pueden añadir a mano desde el panel de sensores.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { WaterInputs } from '@/lib/fuzzy-logic'
+import { FuzzySystemDefinition, INPUT_VARIABLE_IDS } from '@/lib/fuzzy-system'
+import type { ScenarioKeyframe } from '@/lib/scenarios'
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type SensorId = keyof WaterInputs
+
+export const SENSOR_IDS: SensorId[] = INPUT_VARIABLE_IDS
+
+/**
+ * Fallas de un sensor; las que no se indican están desactivadas
+ */
+export interface SensorFault {
+    /** Desviación típica del ruido gaussiano (unidades del sensor) */
+    noise?: number
+    /** Deriva (unidades por hora de proceso) */
+    drift?: number
+    /** Picos por hora de proceso */
+    spikeRate?: number
+    /** Tamaño de los picos (unidades; por defecto el del instrumento) */
+    spikeSize?: number
+    /** Fracción de lecturas perdidas (0-1) */
+    dropout?: number
+    /** Lectura congelada */
+    stuck?: boolean
+}
+
+export type SensorFaults = Partial<Record<SensorId, SensorFault>>
+
+/**
+ * Características del instrumento y de la validación
+ */
+export interface SensorSpec {
+    /** Rango del instrumento; fuera de él la lectura no es válida */
+    range: [number, number]
+    /** Ruido propio del instrumento (σ) */
+    noiseFloor: number
+    /** Tamaño de pico por defecto */
+    spikeSize: number
+    /** Salto admisible entre lecturas por el ruido */
+    maxStep: number
+    /** Máxima velocidad de cambio creíble del agua (unidades/min) */
+    maxRate: number
+    /** Ensanchamiento de la huella tipo 2 al llegar a `MAX_HOLD_MINUTES` */
+    holdSpread: number
+}
+
+export type SensorStatus = 'ok' | 'held' | 'failed'
+
+/** Motivo por el que se rechazó la última lectura */
+export type SensorIssue = 'dropout' | 'outOfRange' | 'spike' | 'stuck'
+
+/**
+ * Estado de un sensor durante el escenario
+ */
+export interface SensorChannel {
+    /** Valor real del agua (para comparar; el controlador no lo ve) */
+    truth: number
+    /** Última lectura del instrumento (NaN si se perdió) */
+    reading: number
+    /** Valor validado y filtrado que recibe el controlador */
+    value: number
+    /** Última lectura aceptada */
+    lastGood: number
+    status: SensorStatus
+    issue: SensorIssue | null
+    /** Tiempo con el valor retenido (min) */
+    heldMinutes: number
+    /** Tiempo con la misma lectura exacta (min) */
+    flatMinutes: number
+    /** Tiempo con un salto respecto a la última lectura aceptada (min) */
+    jumpMinutes: number
+    /** Deriva acumulada del instrumento */
+    drift: number
+    /** Valor congelado; null si no hay falla de lectura congelada */
+    stuckValue: number | null
+}
+
+/** Sensores que mide el escenario en curso */
+export type SensorBank = Partial<Record<SensorId, SensorChannel>>
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const SENSOR_SPECS: Record<SensorId, SensorSpec> = {
+    turbidity: { range: [0, 1000], noiseFloor: 0.2, spikeSize: 300, maxStep: 25, maxRate: 40, holdSpread: 50 },
+    ph: { range: [0, 14], noiseFloor: 0.01, spikeSize: 3, maxStep: 0.5, maxRate: 0.5, holdSpread: 0.5 },
+    temperature: { range: [0, 40], noiseFloor: 0.05, spikeSize: 15, maxStep: 2, maxRate: 2, holdSpread: 3 },
+    alkalinity: { range: [0, 300], noiseFloor: 0.5, spikeSize: 100, maxStep: 20, maxRate: 15, holdSpread: 20 },
+    conductivity: { range: [0, 3000], noiseFloor: 2, spikeSize: 1000, maxStep: 150, maxRate: 100, holdSpread: 150 },
+    color: { range: [0, 200], noiseFloor: 0.5, spikeSize: 80, maxStep: 15, maxRate: 10, holdSpread: 15 },
+    flowRate: { range: [0, 2000], noiseFloor: 2, spikeSize: 800, maxStep: 100, maxRate: 50, holdSpread: 200 }
+}
+
+/** Lecturas idénticas durante este tiempo: sensor congelado (min) */
+export const STUCK_MINUTES = 20
+
+/** Un salto que dura este tiempo es un cambio real del agua (min) */
+export const CONFIRM_MINUTES = 5
+
+/** Tiempo retenido tras el que el sensor se da por fuera de servicio (min) */
+export const MAX_HOLD_MINUTES = 60
+
+/** Constante de tiempo del filtro de entrada (min) */
+const INPUT_FILTER_MINUTES = 2
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROGRAMACIÓN DE FALLAS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fallas programadas en un instante: las del último keyframe que las declara
+ */
+export function activeSensorFaults(keyframes: ScenarioKeyframe[], time: number): SensorFaults {
+    let faults: SensorFaults = {}
+    for (const keyframe of keyframes) {
+        if (keyframe.time > time) break
+        if (keyframe.sensorFaults) faults = keyframe.sensorFaults
+    }
+    return faults
+}
+
+/**
+ * Suma las fallas manuales y las del escenario (estas mandan si coinciden)
+ */
+export function mergeSensorFaults(manual: SensorFaults, scheduled: SensorFaults): SensorFaults {
+    const merged: SensorFaults = {}
+    for (const id of SENSOR_IDS) {
+        if (manual[id] || scheduled[id]) merged[id] = { ...manual[id], ...scheduled[id] }
+    }
+    return merged
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// MEDIDA Y VALIDACIÓN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sensores recién calibrados para el agua inicial del escenario
+ */
+export function createSensorBank(truth: Partial<WaterInputs>): SensorBank {
+    const bank: SensorBank = {}
+    for (const id of SENSOR_IDS) {
+        const value = truth[id]
+        if (value === undefined) continue
+        bank[id] = {
+            truth: value,
+            reading: value,
+            value,
+            lastGood: value,
+            status: 'ok',
+            issue: null,
+            heldMinutes: 0,
+            flatMinutes: 0,
+            jumpMinutes: 0,
+            drift: 0,
+            stuckValue: null
+        }
+    }
+    return bank
+}
+
+/**
+ * Lectura del instrumento: valor real con ruido y fallas
+ */
+export function measureSensor(
+    channel: SensorChannel,
+    truth: number,
+    fault: SensorFault,
+    spec: SensorSpec,
+    minutes: number,
+    random: () => number = Math.random
+): Pick<SensorChannel, 'reading' | 'drift' | 'stuckValue'> {
+    const drift = fault.drift ? channel.drift + fault.drift * minutes / 60 : 0
+    const stuckValue = fault.stuck
+        ? channel.stuckValue ?? (Number.isFinite(channel.reading) ? channel.reading : truth)
+        : null
+
+    let reading: number
+    if (stuckValue !== null) {
+        reading = stuckValue
+    } else {
+        reading = truth + drift + gaussian(random) * Math.hypot(spec.noiseFloor, fault.noise ?? 0)
+        // Probabilidad de al menos un pico durante el paso
+        if (fault.spikeRate && random() < 1 - Math.exp(-fault.spikeRate * minutes / 60)) {
+            reading += (random() < 0.5 ? -1 : 1) * (fault.spikeSize ?? spec.spikeSize)
+        }
+    }
+    if (fault.dropout && random() < fault.dropout) reading = NaN
+
+    return { reading, drift, stuckValue }
+}
+
+/**
+ * Valida una lectura y actualiza el valor que recibe el controlador
+ *
+ * @param reading - Lectura del instrumento; NaN o undefined si no llegó
+ */
+export function validateReading(
+    channel: SensorChannel,
+    reading: number | undefined,
+    spec: SensorSpec,
+    minutes: number
+): SensorChannel {
+    const measured = reading ?? NaN
+    const flatMinutes = Number.isFinite(measured) && measured === channel.reading ? channel.flatMinutes + minutes : 0
+
+    let issue: SensorIssue | null = null
+    let jumpMinutes = 0
+    if (!Number.isFinite(measured)) {
+        issue = 'dropout'
+    } else if (measured < spec.range[0] - spec.maxStep || measured > spec.range[1] + spec.maxStep) {
+        // Cerca de los extremos el ruido saca lecturas válidas del rango
+        issue = 'outOfRange'
+    } else if (flatMinutes >= STUCK_MINUTES) {
+        issue = 'stuck'
+    } else if (Math.abs(measured - channel.lastGood) > spec.maxStep + spec.maxRate * (channel.heldMinutes + minutes)) {
+        // Un pico dura una lectura; un salto que persiste es un cambio real del agua
+        jumpMinutes = channel.jumpMinutes + minutes
+        if (jumpMinutes < CONFIRM_MINUTES) issue = 'spike'
+    }
+
+    if (issue !== null) {
+        // Se mantiene el último valor válido
+        const heldMinutes = channel.heldMinutes + minutes
+        return {
+            ...channel,
+            reading: measured,
+            status: heldMinutes >= MAX_HOLD_MINUTES ? 'failed' : 'held',
+            issue,
+            heldMinutes,
+            flatMinutes,
+            jumpMinutes
+        }
+    }
+
+    // Un salto confirmado se toma entero; el resto pasa por el filtro
+    const alpha = jumpMinutes > 0 ? 1 : 1 - Math.exp(-minutes / INPUT_FILTER_MINUTES)
+    return {
+        ...channel,
+        reading: measured,
+        value: channel.value + alpha * (measured - channel.value),
+        lastGood: measured,
+        status: 'ok',
+        issue: null,
+        heldMinutes: 0,
+        flatMinutes,
+        jumpMinutes: 0
+    }
+}
+
+/**
+ * Mide y valida los sensores del escenario
+ *
+ * @returns Entradas para el controlador y nuevo estado de los sensores
+ */
+export function readSensors(
+    truth: Partial<WaterInputs>,
+    faults: SensorFaults,
+    bank: SensorBank,
+    minutes: number,
+    random: () => number = Math.random
+): { inputs: Partial<WaterInputs>; bank: SensorBank } {
+    const inputs: Partial<WaterInputs> = {}
+    const next: SensorBank = {}
+    const initial = createSensorBank(truth)
+
+    for (const id of SENSOR_IDS) {
+        const value = truth[id]
+        const previous = bank[id] ?? initial[id]
+        if (value === undefined || !previous) continue
+
+        const spec = SENSOR_SPECS[id]
+        const instrument = measureSensor(previous, value, faults[id] ?? {}, spec, minutes, random)
+        const channel = validateReading({ ...previous, ...instrument, reading: previous.reading }, instrument.reading, spec, minutes)
+        next[id] = { ...channel, truth: value }
+        inputs[id] = channel.value
+    }
+
+    return { inputs, bank: next }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DEGRADACIÓN DEL CONTROLADOR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Incertidumbre añadida a un sensor retenido, en unidades del sensor
+ */
+export function sensorUncertainty(id: SensorId, channel: SensorChannel): number {
+    return SENSOR_SPECS[id].holdSpread * Math.min(1, channel.heldMinutes / MAX_HOLD_MINUTES)
+}
+
+/**
+ * Controlador con la huella tipo 2 de las entradas retenidas ensanchada;
+ * si todas las lecturas son válidas devuelve el mismo objeto
+ */
+export function degradeFuzzySystem(system: FuzzySystemDefinition, bank: SensorBank): FuzzySystemDefinition {
+    const extra: Partial<Record<string, number>> = {}
+    for (const id of SENSOR_IDS) {
+        const channel = bank[id]
+        if (channel && channel.heldMinutes > 0) extra[id] = sensorUncertainty(id, channel)
+    }
+    if (Object.keys(extra).length === 0) return system
+
+    return {
+        ...system,
+        inputs: system.inputs.map(variable => {
+            const spread = extra[variable.id]
+            if (!spread) return variable
+            return {
+                ...variable,
+                terms: variable.terms.map(term => ({
+                    ...term,
+                    footprint: { ...term.footprint, spread: (term.footprint?.spread ?? 0) + spread }
+                }))
+            }
+        })
+    }
+}
+
+/**
+ * ¿Hay algún sensor fuera de servicio?
+ */
+export function hasFailedSensor(bank: SensorBank): boolean {
+    return SENSOR_IDS.some(id => bank[id]?.status === 'failed')
+}
+
+/**
+ * Normal estándar (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+    let u = 0
+    while (u === 0) u = random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
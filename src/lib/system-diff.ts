@@ -0,0 +1,133 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - COMPARACIÓN DE CONTROLADORES
+ * Diferencias entre dos definiciones del sistema difuso
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Lista, en lenguaje de la planta, qué cambia un candidato (del optimizador,
+ * de ANFIS o importado) respecto al controlador actual: forma de los
+ * términos, reglas añadidas, eliminadas, habilitadas o deshabilitadas, y
+ * cambios en antecedentes, consecuentes, pesos y costos de cada regla.
+ * Los nombres de los campos se dan en el idioma pedido; los de variables,
+ * términos y reglas son datos del controlador y se muestran tal cual.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import {
+    FuzzyRule,
+    FuzzySystemDefinition,
+    FuzzyTerm,
+    formatAntecedent,
+    getRuleAntecedent,
+    getRuleWeight,
+    getTermParameters
+} from '@/lib/fuzzy-system'
+import { DEFAULT_LOCALE, Locale, LocalizedText } from '@/lib/i18n'
+
+/**
+ * Un cambio entre dos controladores. `before` es null si el elemento es
+ * nuevo y `after` es null si se eliminó.
+ */
+export interface SystemChange {
+    /** Término ("Turbidez · alta") o regla ("R5 · …") */
+    target: string
+    /** Qué cambia: forma, regla, habilitada, antecedente, dosis, tiempo… */
+    field: string
+    before: string | null
+    after: string | null
+}
+
+const RULE_OUTPUT_LABELS: Record<keyof FuzzyRule['outputs'], LocalizedText> = {
+    dose: { es: 'dosis', en: 'dose' },
+    time: { es: 'tiempo', en: 'time' },
+    phCorrection: { es: 'corrección de pH', en: 'pH correction' }
+}
+
+const FIELD_LABELS: Record<'term' | 'shape' | 'rule' | 'enabled' | 'antecedent' | 'weight' | 'baseCost' | 'yes' | 'no', LocalizedText> = {
+    term: { es: 'término', en: 'term' },
+    shape: { es: 'forma', en: 'shape' },
+    rule: { es: 'regla', en: 'rule' },
+    enabled: { es: 'habilitada', en: 'enabled' },
+    antecedent: { es: 'antecedente', en: 'antecedent' },
+    weight: { es: 'peso', en: 'weight' },
+    baseCost: { es: 'costo base', en: 'base cost' },
+    yes: { es: 'sí', en: 'yes' },
+    no: { es: 'no', en: 'no' }
+}
+
+function formatTerm(term: FuzzyTerm): string {
+    const shape = term.shape ?? 'trapezoidal'
+    const params = getTermParameters(term).map(value => Number(value.toPrecision(4)))
+    return `${shape} [${params.join(', ')}]`
+}
+
+/**
+ * Diferencias de `after` respecto a `before`
+ */
+export function diffFuzzySystems(
+    before: FuzzySystemDefinition,
+    after: FuzzySystemDefinition,
+    locale: Locale = DEFAULT_LOCALE
+): SystemChange[] {
+    const changes: SystemChange[] = []
+    const label = (key: keyof typeof FIELD_LABELS) => FIELD_LABELS[key][locale]
+
+    // Términos de entradas y salidas
+    for (const variable of [...after.inputs, ...after.outputs]) {
+        const previous = [...before.inputs, ...before.outputs].find(v => v.id === variable.id)
+        for (const term of variable.terms) {
+            const target = `${variable.label} · ${term.name}`
+            const old = previous?.terms.find(t => t.name === term.name)
+            if (!old) {
+                changes.push({ target, field: label('term'), before: null, after: formatTerm(term) })
+            } else if (formatTerm(old) !== formatTerm(term)) {
+                changes.push({ target, field: label('shape'), before: formatTerm(old), after: formatTerm(term) })
+            }
+        }
+        for (const term of previous?.terms ?? []) {
+            if (!variable.terms.some(t => t.name === term.name)) {
+                changes.push({ target: `${variable.label} · ${term.name}`, field: label('term'), before: formatTerm(term), after: null })
+            }
+        }
+    }
+
+    // Reglas
+    for (const rule of after.rules) {
+        const target = `R${rule.id} · ${rule.name}`
+        const old = before.rules.find(r => r.id === rule.id)
+        if (!old) {
+            changes.push({ target, field: label('rule'), before: null, after: formatAntecedent(getRuleAntecedent(rule)) })
+            continue
+        }
+
+        const enabled = rule.enabled !== false
+        if ((old.enabled !== false) !== enabled) {
+            changes.push({ target, field: label('enabled'), before: label(enabled ? 'no' : 'yes'), after: label(enabled ? 'yes' : 'no') })
+        }
+        const oldAntecedent = formatAntecedent(getRuleAntecedent(old))
+        const newAntecedent = formatAntecedent(getRuleAntecedent(rule))
+        if (oldAntecedent !== newAntecedent) {
+            changes.push({ target, field: label('antecedent'), before: oldAntecedent, after: newAntecedent })
+        }
+        for (const output of Object.keys(RULE_OUTPUT_LABELS) as (keyof FuzzyRule['outputs'])[]) {
+            if (old.outputs[output] !== rule.outputs[output]) {
+                changes.push({ target, field: RULE_OUTPUT_LABELS[output][locale], before: old.outputs[output], after: rule.outputs[output] })
+            }
+        }
+        if (getRuleWeight(old) !== getRuleWeight(rule)) {
+            changes.push({ target, field: label('weight'), before: String(getRuleWeight(old)), after: String(getRuleWeight(rule)) })
+        }
+        if (old.baseCost !== rule.baseCost) {
+            changes.push({ target, field: label('baseCost'), before: `$${old.baseCost}`, after: `$${rule.baseCost}` })
+        }
+    }
+    for (const rule of before.rules) {
+        if (!after.rules.some(r => r.id === rule.id)) {
+            changes.push({ target: `R${rule.id} · ${rule.name}`, field: label('rule'), before: formatAntecedent(getRuleAntecedent(rule)), after: null })
+        }
+    }
+
+    return changes
+}
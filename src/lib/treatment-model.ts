@@ -0,0 +1,89 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - MODELO DE CLARIFICACIÓN
+ * Turbidez decantada estimada para una dosis y un tiempo de floculación
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * El controlador decide la dosis, pero no sabe qué turbidez saldrá del
+ * decantador. Para comparar controladores (optimizador, informes) hace
+ * falta una estimación, aunque sea aproximada. Este modelo empírico en
+ * estado estacionario reproduce el comportamiento típico de un jar-test:
+ *
+ * 1. DEMANDA de coagulante: crece con la turbidez (exponente ~0.55, las
+ *    partículas finas necesitan proporcionalmente más) y con el color.
+ *    Se escala al producto con el rango de su variable de dosis.
+ * 2. EFICACIA según la relación dosis/demanda q: 1 - e^(-4q) hasta la
+ *    dosis óptima; por encima de 2× la demanda las partículas se
+ *    reestabilizan (sobredosis) y la eficacia cae.
+ * 3. Factores de pH (fuera de la ventana del coagulante) y de tiempo de
+ *    floculación; en agua fría (< 20 °C) los flóculos crecen más despacio
+ *    y la constante de tiempo se alarga hasta el doble.
+ *
+ *   turbidez decantada = turbidez cruda · (1 - 0.995 · eficacia) + 0.3 NTU
+ *
+ * Los coeficientes son orientativos: sirven para ordenar alternativas, no
+ * para predecir la planta real.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import type { FuzzyOutputs, WaterInputs } from '@/lib/fuzzy-logic'
+import type { Coagulant } from '@/lib/coagulants'
+
+/** Remoción máxima alcanzable por coagulación-decantación */
+const MAX_REMOVAL = 0.995
+
+/** Turbidez residual que no decanta (NTU) */
+export const RESIDUAL_TURBIDITY = 0.3
+
+/** Constante de tiempo de la floculación a 20 °C o más (min) */
+const FLOCCULATION_TIME_CONSTANT = 5
+
+/**
+ * Dosis óptima estimada del coagulante (mg/L de producto)
+ */
+export function coagulantDemand(inputs: WaterInputs, coagulant: Coagulant): number {
+    const alumEquivalent = 3 + 2.2 * Math.pow(Math.max(0, inputs.turbidity), 0.55) + 0.3 * Math.max(0, inputs.color)
+    return alumEquivalent * (coagulant.doseVariable.range[1] / 100)
+}
+
+/**
+ * Fracción de la turbidez que se elimina (0-1)
+ *
+ * @param coagulationPh - pH durante la coagulación (tras la corrección)
+ */
+export function removalEfficiency(
+    inputs: WaterInputs,
+    dose: number,
+    flocculationTime: number,
+    coagulationPh: number,
+    coagulant: Coagulant
+): number {
+    const q = dose / coagulantDemand(inputs, coagulant)
+    const doseFactor = (1 - Math.exp(-4 * q)) * (q > 2 ? Math.exp(-0.5 * (q - 2)) : 1)
+
+    const [phMin, phMax] = coagulant.phWindow
+    const phDistance = Math.max(0, phMin - coagulationPh, coagulationPh - phMax)
+    const phFactor = Math.exp(-Math.pow(phDistance / 0.7, 2))
+
+    const coldness = Math.min(1, Math.max(0, 20 - inputs.temperature) / 20)
+    const timeConstant = FLOCCULATION_TIME_CONSTANT * (1 + coldness)
+    const timeFactor = 1 - Math.exp(-Math.max(0, flocculationTime) / timeConstant)
+
+    return MAX_REMOVAL * doseFactor * phFactor * timeFactor
+}
+
+/**
+ * Turbidez decantada estimada (NTU) para la decisión del controlador
+ */
+export function predictSettledTurbidity(inputs: WaterInputs, outputs: FuzzyOutputs, coagulant: Coagulant): number {
+    const efficiency = removalEfficiency(
+        inputs,
+        outputs.coagulantDose,
+        outputs.flocculationTime,
+        outputs.phCorrectionPlan.expected.ph,
+        coagulant
+    )
+    return Math.max(0, inputs.turbidity) * (1 - efficiency) + RESIDUAL_TURBIDITY
+}
@@ -0,0 +1,194 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - IDENTIFICACIÓN DE CONSECUENTES TSK
+ * Ajuste de consecuentes lineales a partir del controlador Mamdani
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Un controlador TSK necesita, para cada regla, una función lineal de las
+ * entradas. En lugar de pedir al ingeniero que invente los coeficientes, se
+ * obtienen ajustando por mínimos cuadrados PONDERADOS la respuesta del
+ * controlador Mamdani actual sobre muestras de la región donde se activa
+ * cada regla (secuencia de Halton dentro del soporte de sus términos):
+ *
+ *   min Σ_k  w̄_ik · (y_k - θ_i · [1, x_k])²
+ *
+ * donde w̄_ik es la activación normalizada de la regla i en la muestra k.
+ * Así cada regla aproxima localmente la superficie Mamdani en la región
+ * donde se activa, y la media ponderada TSK reproduce su comportamiento
+ * global con una superficie suave.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import { getTermSupport, runFuzzyInference } from '@/lib/fuzzy-logic'
+import { sampleInputSpace } from '@/lib/sampling'
+import {
+    AntecedentExpression,
+    FuzzyRule,
+    FuzzySystemDefinition,
+    InputVariableId,
+    LinearConsequent,
+    OutputVariableId,
+    INPUT_VARIABLE_IDS,
+    OUTPUT_VARIABLE_IDS,
+    getRuleAntecedent
+} from '@/lib/fuzzy-system'
+
+/** Regularización (ridge) para reglas que se activan en pocas muestras */
+const RIDGE = 1e-3
+
+/** Muestras por regla dentro de su región de activación */
+const SAMPLES_PER_RULE = 64
+
+/**
+ * Resuelve A·x = b por eliminación gaussiana con pivoteo parcial.
+ * Devuelve null si la matriz es singular.
+ */
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+    const n = b.length
+    const m = A.map((row, i) => [...row, b[i]])
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null
+        const swap = m[col]
+        m[col] = m[pivot]
+        m[pivot] = swap
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = m[row][col] / m[col][col]
+            for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+        }
+    }
+
+    const x = new Array<number>(n).fill(0)
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n]
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k]
+        x[row] = sum / m[row][row]
+    }
+    return x
+}
+
+type SupportBox = Partial<Record<InputVariableId, [number, number]>>
+
+/**
+ * Caja que contiene la región donde se activa un antecedente. Los hedges no
+ * cambian el soporte; una condición negada o un NOT puede activarse en todo
+ * el universo; AND interseca y OR une (envolvente) las cajas.
+ */
+function antecedentSupport(expression: AntecedentExpression, system: FuzzySystemDefinition): SupportBox {
+    switch (expression.op) {
+        case 'is': {
+            const variable = system.inputs.find(v => v.id === expression.variable)
+            const term = variable?.terms.find(t => t.name === expression.term)
+            return variable && term && !expression.negated
+                ? { [expression.variable]: getTermSupport(term, variable.range) }
+                : {}
+        }
+        case 'not':
+            return {}
+        case 'and':
+            return expression.operands.map(e => antecedentSupport(e, system)).reduce<SupportBox>((box, next) => {
+                for (const [id, [min, max]] of Object.entries(next) as Array<[InputVariableId, [number, number]]>) {
+                    const current = box[id]
+                    const low = current ? Math.max(current[0], min) : min
+                    box[id] = [low, Math.max(low, current ? Math.min(current[1], max) : max)]
+                }
+                return box
+            }, {})
+        case 'or': {
+            const boxes = expression.operands.map(e => antecedentSupport(e, system))
+            const box: SupportBox = {}
+            for (const id of INPUT_VARIABLE_IDS) {
+                const ranges = boxes.flatMap(b => b[id] ? [b[id]] : [])
+                if (ranges.length === 0 || ranges.length < boxes.length) continue
+                box[id] = [Math.min(...ranges.map(r => r[0])), Math.max(...ranges.map(r => r[1]))]
+            }
+            return box
+        }
+    }
+}
+
+/**
+ * Región donde se activa una regla: soporte del término de cada condición
+ * (las variables sin condición recorren todo su universo)
+ */
+function ruleSupport(rule: FuzzyRule, system: FuzzySystemDefinition): SupportBox {
+    return antecedentSupport(getRuleAntecedent(rule), system)
+}
+
+/**
+ * Ajusta consecuentes lineales TSK para todas las reglas habilitadas a
+ * partir de la respuesta Mamdani de `system`. Las reglas que no se activan
+ * en ninguna muestra conservan su consecuente anterior.
+ *
+ * @returns Copia del sistema con `rule.tsk` rellenado
+ */
+export function fitTskConsequents(system: FuzzySystemDefinition): FuzzySystemDefinition {
+    const mamdani: FuzzySystemDefinition = { ...system, inferenceMode: 'mamdani' }
+    const variables = INPUT_VARIABLE_IDS
+        .map(id => system.inputs.find(v => v.id === id))
+        .filter(v => v !== undefined)
+
+    // Muestras de una regla: entradas normalizadas a [0, 1], salidas Mamdani y su activación normalizada
+    const samplesFor = (rule: FuzzyRule) => sampleInputSpace(system, SAMPLES_PER_RULE, ruleSupport(rule, system)).map(inputs => {
+        const outputs = runFuzzyInference(inputs, mamdani)
+        const total = outputs.ruleActivations.reduce((sum, r) => sum + r.firingStrength, 0)
+        const own = outputs.ruleActivations.find(r => r.id === rule.id)?.firingStrength ?? 0
+        return {
+            features: [1, ...variables.map(v => (inputs[v.id as InputVariableId] - v.range[0]) / (v.range[1] - v.range[0]))],
+            targets: { dose: outputs.coagulantDose, time: outputs.flocculationTime } as Record<OutputVariableId, number>,
+            weight: total > 0 ? own / total : 0
+        }
+    })
+
+    const size = variables.length + 1
+
+    const rules = system.rules.map(rule => {
+        if (rule.enabled === false) return rule
+
+        // Ecuaciones normales ponderadas: (ΦᵀWΦ + λI) θ = ΦᵀW y
+        const A = Array.from({ length: size }, (_, i) =>
+            Array.from({ length: size }, (_, j) => (i === j && i > 0 ? RIDGE : 0)))
+        const b: Record<OutputVariableId, number[]> = { dose: new Array(size).fill(0), time: new Array(size).fill(0) }
+        let totalWeight = 0
+
+        for (const sample of samplesFor(rule)) {
+            const w = sample.weight
+            if (w <= 0) continue
+            totalWeight += w
+            for (let i = 0; i < size; i++) {
+                for (let j = 0; j < size; j++) A[i][j] += w * sample.features[i] * sample.features[j]
+                for (const outputId of OUTPUT_VARIABLE_IDS) b[outputId][i] += w * sample.features[i] * sample.targets[outputId]
+            }
+        }
+        if (totalWeight === 0) return rule
+
+        const tsk = {} as Record<OutputVariableId, LinearConsequent>
+        for (const outputId of OUTPUT_VARIABLE_IDS) {
+            const theta = solveLinearSystem(A, b[outputId])
+            if (!theta) return rule
+
+            // Deshacer la normalización: y = θ0 + Σ θv·(x - min)/span
+            let constant = theta[0]
+            const coefficients: Partial<Record<InputVariableId, number>> = {}
+            variables.forEach((variable, index) => {
+                const span = variable.range[1] - variable.range[0]
+                // Coeficientes despreciables (ruido numérico) se anulan
+                const coefficient = Math.abs(theta[index + 1]) < 1e-6 ? 0 : theta[index + 1] / span
+                constant -= coefficient * variable.range[0]
+                coefficients[variable.id as InputVariableId] = Number(coefficient.toPrecision(4))
+            })
+            tsk[outputId] = { constant: Number(constant.toPrecision(4)), coefficients }
+        }
+
+        return { ...rule, tsk }
+    })
+
+    return { ...system, rules }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { IntervalWeightedPoint, karnikMendel } from '@/lib/type-reduction'
+import { DEFAULT_WATER_INPUTS, runFuzzyInference } from '@/lib/fuzzy-logic'
+import { DEFAULT_FUZZY_SYSTEM, FuzzySystemDefinition, FuzzyVariable } from '@/lib/fuzzy-system'
+
+function centroid(points: Array<{ x: number; weight: number }>): number {
+    const total = points.reduce((acc, p) => acc + p.weight, 0)
+    return points.reduce((acc, p) => acc + p.x * p.weight, 0) / total
+}
+
+// Los extremos del centroide están en algún conjunto que toma, en cada punto,
+// el peso inferior o el superior: con pocos puntos se pueden probar todos
+function bruteForce(points: IntervalWeightedPoint[]): { min: number; max: number } {
+    let min = Infinity
+    let max = -Infinity
+    for (let mask = 0; mask < 1 << points.length; mask++) {
+        const weights = points.map((p, i) => ({ x: p.x, weight: mask & (1 << i) ? p.upper : p.lower }))
+        if (weights.every(w => w.weight === 0)) continue
+        const value = centroid(weights)
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+    }
+    return { min, max }
+}
+
+describe('karnikMendel', () => {
+    it('devuelve un intervalo degenerado en el centroide de un conjunto tipo 1', () => {
+        const points = [
+            { x: 10, weight: 0.2 },
+            { x: 20, weight: 0.9 },
+            { x: 35, weight: 0.6 },
+            { x: 50, weight: 0.1 }
+        ]
+
+        const result = karnikMendel(points.map(p => ({ x: p.x, lower: p.weight, upper: p.weight })))
+
+        expect(result).not.toBeNull()
+        expect(result!.min).toBeCloseTo(centroid(points), 9)
+        expect(result!.max).toBeCloseTo(centroid(points), 9)
+    })
+
+    it('encuentra los mismos extremos que la búsqueda exhaustiva', () => {
+        const points: IntervalWeightedPoint[] = [
+            { x: 0, lower: 0.1, upper: 0.4 },
+            { x: 12, lower: 0.3, upper: 0.8 },
+            { x: 25, lower: 0.5, upper: 1 },
+            { x: 41, lower: 0.2, upper: 0.7 },
+            { x: 60, lower: 0, upper: 0.3 },
+            { x: 75, lower: 0.05, upper: 0.15 }
+        ]
+
+        const result = karnikMendel(points)
+        const expected = bruteForce(points)
+
+        expect(result!.min).toBeCloseTo(expected.min, 6)
+        expect(result!.max).toBeCloseTo(expected.max, 6)
+    })
+
+    it('contiene el centroide de cualquier conjunto dentro de la huella', () => {
+        const points: IntervalWeightedPoint[] = [
+            { x: 5, lower: 0.2, upper: 0.6 },
+            { x: 30, lower: 0.4, upper: 0.9 },
+            { x: 55, lower: 0.1, upper: 0.5 }
+        ]
+
+        const result = karnikMendel(points)!
+        const middle = centroid(points.map(p => ({ x: p.x, weight: (p.lower + p.upper) / 2 })))
+
+        expect(result.min).toBeLessThanOrEqual(middle)
+        expect(result.max).toBeGreaterThanOrEqual(middle)
+        expect(result.min).toBeGreaterThanOrEqual(5)
+        expect(result.max).toBeLessThanOrEqual(55)
+    })
+
+    it('no depende del orden de los puntos', () => {
+        const points: IntervalWeightedPoint[] = [
+            { x: 40, lower: 0.3, upper: 0.6 },
+            { x: 10, lower: 0.1, upper: 0.9 },
+            { x: 25, lower: 0.5, upper: 0.5 }
+        ]
+        expect(karnikMendel(points)).toEqual(karnikMendel([...points].reverse()))
+    })
+
+    it('devuelve null si ningún punto tiene peso superior', () => {
+        expect(karnikMendel([])).toBeNull()
+        expect(karnikMendel([{ x: 10, lower: 0, upper: 0 }])).toBeNull()
+    })
+})
+
+describe('intervalos de salida del motor', () => {
+    const inputs = { ...DEFAULT_WATER_INPUTS, turbidity: 120, ph: 6.6 }
+    const withoutFootprints = (variables: FuzzyVariable[]) =>
+        variables.map(variable => ({ ...variable, terms: variable.terms.map(term => ({ ...term, footprint: undefined })) }))
+    const crisp: FuzzySystemDefinition = {
+        ...DEFAULT_FUZZY_SYSTEM,
+        inputs: withoutFootprints(DEFAULT_FUZZY_SYSTEM.inputs),
+        outputs: withoutFootprints(DEFAULT_FUZZY_SYSTEM.outputs)
+    }
+
+    it.each(['mamdani', 'tsk'] as const)('colapsan en el valor nominal sin incertidumbre (%s)', inferenceMode => {
+        const result = runFuzzyInference(inputs, { ...crisp, inferenceMode })
+
+        expect(result.outputIntervals.dose.min).toBeCloseTo(result.coagulantDose, 6)
+        expect(result.outputIntervals.dose.max).toBeCloseTo(result.coagulantDose, 6)
+        expect(result.outputIntervals.time.min).toBeCloseTo(result.flocculationTime, 6)
+        expect(result.outputIntervals.time.max).toBeCloseTo(result.flocculationTime, 6)
+    })
+
+    it('contienen el valor nominal con la huella por defecto', () => {
+        const result = runFuzzyInference(inputs)
+
+        expect(result.outputIntervals.dose.min).toBeLessThan(result.coagulantDose)
+        expect(result.outputIntervals.dose.max).toBeGreaterThan(result.coagulantDose)
+        expect(result.outputIntervals.time.min).toBeLessThanOrEqual(result.flocculationTime)
+        expect(result.outputIntervals.time.max).toBeGreaterThanOrEqual(result.flocculationTime)
+    })
+})
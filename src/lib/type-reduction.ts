@@ -0,0 +1,85 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - REDUCCIÓN DE TIPO (KARNIK-MENDEL)
+ * Centroide de un conjunto difuso tipo 2 de intervalo
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Cuando las entradas tienen incertidumbre (conjuntos tipo 2 de intervalo),
+ * cada punto de la salida ya no tiene un grado de membresía único sino un
+ * intervalo [inferior, superior]. Su centroide es también un intervalo
+ * [y_l, y_r]: el menor y el mayor centroide de todos los conjuntos tipo 1
+ * contenidos en la huella de incertidumbre.
+ *
+ * El algoritmo de Karnik-Mendel encuentra cada extremo de forma iterativa:
+ * para y_l se usa el peso SUPERIOR a la izquierda del punto de conmutación y
+ * el INFERIOR a la derecha (y al revés para y_r), desplazando el punto de
+ * conmutación hasta que deja de cambiar. Converge en pocas iteraciones.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+/**
+ * Punto con peso de intervalo: abscisa y grados inferior/superior
+ */
+export interface IntervalWeightedPoint {
+    x: number
+    lower: number
+    upper: number
+}
+
+/** Límite de iteraciones por extremo (el algoritmo converge mucho antes) */
+const MAX_ITERATIONS = 100
+
+/**
+ * Un extremo del intervalo por Karnik-Mendel.
+ * `side = 'left'` calcula y_l; `side = 'right'` calcula y_r.
+ */
+function karnikMendelEndpoint(points: IntervalWeightedPoint[], side: 'left' | 'right'): number {
+    const weightedMean = (weights: number[]) => {
+        let numerator = 0
+        let denominator = 0
+        points.forEach((point, i) => {
+            numerator += point.x * weights[i]
+            denominator += weights[i]
+        })
+        return denominator > 0 ? numerator / denominator : NaN
+    }
+
+    // Inicialización con el punto medio de cada intervalo
+    let y = weightedMean(points.map(p => (p.lower + p.upper) / 2))
+    if (Number.isNaN(y)) return NaN
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        const weights = points.map(p => {
+            const leftOfSwitch = p.x <= y
+            if (side === 'left') return leftOfSwitch ? p.upper : p.lower
+            return leftOfSwitch ? p.lower : p.upper
+        })
+        const next = weightedMean(weights)
+        if (Number.isNaN(next) || Math.abs(next - y) < 1e-9) break
+        y = next
+    }
+
+    return y
+}
+
+/**
+ * Centroide de intervalo [min, max] de un conjunto de puntos con pesos de
+ * intervalo. Sirve tanto para la curva de salida muestreada (Mamdani) como
+ * para los centros de las reglas (centro de conjuntos / TSK).
+ *
+ * @returns null si ningún punto tiene peso superior positivo
+ */
+export function karnikMendel(points: IntervalWeightedPoint[]): { min: number; max: number } | null {
+    const active = points
+        .filter(p => p.upper > 0)
+        .sort((a, b) => a.x - b.x)
+    if (active.length === 0) return null
+
+    const min = karnikMendelEndpoint(active, 'left')
+    const max = karnikMendelEndpoint(active, 'right')
+    if (Number.isNaN(min) || Number.isNaN(max)) return null
+
+    return { min: Math.min(min, max), max: Math.max(min, max) }
+}
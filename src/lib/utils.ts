@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { DEFAULT_LOCALE, LOCALE_TAGS, Locale } from "@/lib/i18n"
 
 /**
  * Utility function to merge Tailwind CSS classes with proper precedence
@@ -63,21 +64,35 @@ export function getWaterColor(qualityScore: number): string {
 }
 
 /**
- * Formats a number for display with specified decimal places
+ * Formats a number for display with specified decimal places,
+ * using the decimal and grouping separators of the locale
  */
-export function formatNumber(value: number, decimals: number = 2): string {
-    return value.toFixed(decimals)
+export function formatNumber(value: number, decimals: number = 2, locale: Locale = DEFAULT_LOCALE): string {
+    return new Intl.NumberFormat(LOCALE_TAGS[locale], {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals
+    }).format(value)
 }
 
 /**
- * Formats currency value in USD
+ * Formats currency value in USD for the locale
  */
-export function formatCurrency(value: number): string {
-    return new Intl.NumberFormat('es-ES', {
+export function formatCurrency(value: number, locale: Locale = DEFAULT_LOCALE, decimals: number = 2): string {
+    return new Intl.NumberFormat(LOCALE_TAGS[locale], {
         style: 'currency',
         currency: 'USD',
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals
+    }).format(value)
+}
+
+/**
+ * Formats a date and time for the locale
+ */
+export function formatDateTime(value: Date | number, locale: Locale = DEFAULT_LOCALE): string {
+    return new Intl.DateTimeFormat(LOCALE_TAGS[locale], {
+        dateStyle: 'short',
+        timeStyle: 'medium'
     }).format(value)
 }
 
@@ -11,16 +11,13 @@ import {
     DataPoint,
     FCMConfig,
     FCMResult,
-    RiskAnalysis,
     DEFAULT_FCM_CONFIG,
     runFCM,
-    analyzeRisk,
     interpolateClusterColor,
     generateSyntheticData,
     DEFAULT_CLUSTER_DEFINITIONS,
     ClusterDefinition,
-    CLUSTER_COLORS,
-    CLUSTER_NAMES
+    CLUSTER_COLORS
 } from '@/lib/fcm'
 import Papa from 'papaparse'
 
@@ -54,12 +51,14 @@ interface DiagnosticsState {
     dataPoints: DataPoint[]
     isLoadingData: boolean
     dataSource: 'synthetic' | 'imported' | null
+    /** Columnas del CSV importado; vacío con datos sintéticos (nombres del idioma) */
     featureNames: string[]
 
     // ═══════════════════════════════════════════════════════════════
     // CONFIGURACIÓN FCM
     // ═══════════════════════════════════════════════════════════════
     config: FCMConfig
+    /** Nombres dados por el usuario; los huecos usan los del idioma (`getClusterName`) */
     clusterNames: string[]
     clusterColors: string[]
 
@@ -79,7 +78,6 @@ interface DiagnosticsState {
     // SELECCIÓN E INSPECCIÓN
     // ═══════════════════════════════════════════════════════════════
     selectedPoint: DataPoint | null
-    selectedPointRisk: RiskAnalysis | null
     hoveredPoint: DataPoint | null
 
     // ═══════════════════════════════════════════════════════════════
@@ -138,10 +136,10 @@ const DEFAULT_STATE = {
     dataPoints: [],
     isLoadingData: false,
     dataSource: null as 'synthetic' | 'imported' | null,
-    featureNames: ['Vibración (mm/s)', 'Temperatura (°C)'],
+    featureNames: [] as string[],
 
     config: { ...DEFAULT_FCM_CONFIG },
-    clusterNames: [...CLUSTER_NAMES],
+    clusterNames: [] as string[],
     clusterColors: [...CLUSTER_COLORS],
 
     result: null,
@@ -156,7 +154,6 @@ const DEFAULT_STATE = {
     },
 
     selectedPoint: null,
-    selectedPointRisk: null,
     hoveredPoint: null,
 
     tour: {
@@ -242,7 +239,7 @@ export const useDiagnosticsStore = create<DiagnosticsState>()(
             set({
                 dataPoints,
                 dataSource: 'synthetic',
-                featureNames: ['Vibración (mm/s)', 'Temperatura (°C)'],
+                featureNames: [],
                 result: null,
                 processedPoints: [],
                 selectedPoint: null
@@ -256,7 +253,6 @@ export const useDiagnosticsStore = create<DiagnosticsState>()(
                 result: null,
                 processedPoints: [],
                 selectedPoint: null,
-                selectedPointRisk: null,
                 animation: { ...DEFAULT_STATE.animation }
             })
         },
@@ -312,8 +308,7 @@ export const useDiagnosticsStore = create<DiagnosticsState>()(
                 result: null,
                 processedPoints: [],
                 animation: { ...DEFAULT_STATE.animation },
-                selectedPoint: null,
-                selectedPointRisk: null
+                selectedPoint: null
             })
         },
 
@@ -393,20 +388,7 @@ export const useDiagnosticsStore = create<DiagnosticsState>()(
         // ═══════════════════════════════════════════════════════════════
 
         selectPoint: (point: DataPoint | null) => {
-            if (!point) {
-                set({ selectedPoint: null, selectedPointRisk: null })
-                return
-            }
-
-            const { clusterNames } = get()
-            const risk = point.memberships
-                ? analyzeRisk(point.memberships, clusterNames)
-                : null
-
-            set({
-                selectedPoint: point,
-                selectedPointRisk: risk
-            })
+            set({ selectedPoint: point })
         },
 
         setHoveredPoint: (point: DataPoint | null) => {
@@ -0,0 +1,66 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - LOCALE STORE
+ * Idioma seleccionado de la interfaz
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { useCallback, useMemo } from 'react'
+import { create } from 'zustand'
+import { subscribeWithSelector } from 'zustand/middleware'
+import { DEFAULT_LOCALE, Locale, LocalizedText, isLocale } from '@/lib/i18n'
+import { formatCurrency, formatDateTime, formatNumber } from '@/lib/utils'
+
+/** Clave de localStorage donde se recuerda el idioma */
+const STORAGE_KEY = 'aquafuzzy-locale'
+
+interface LocaleState {
+    locale: Locale
+    setLocale: (locale: Locale) => void
+    /** Recupera el idioma guardado (o el del navegador la primera vez) */
+    loadLocale: () => void
+}
+
+export const useLocaleStore = create<LocaleState>()(
+    subscribeWithSelector((set) => ({
+        locale: DEFAULT_LOCALE,
+
+        setLocale: (locale: Locale) => {
+            set({ locale })
+            try {
+                localStorage.setItem(STORAGE_KEY, locale)
+            } catch {
+                // Sin almacenamiento (modo privado): el idioma dura la sesión
+            }
+        },
+
+        loadLocale: () => {
+            let stored: string | null = null
+            try {
+                stored = localStorage.getItem(STORAGE_KEY)
+            } catch {
+                stored = null
+            }
+            const browser = navigator.language.slice(0, 2)
+            const locale = isLocale(stored) ? stored : isLocale(browser) ? browser : DEFAULT_LOCALE
+            set({ locale })
+        }
+    }))
+)
+
+/**
+ * Idioma actual, traducción de textos `{ es, en }` y formatos de número,
+ * moneda y fecha del idioma
+ */
+export function useI18n() {
+    const locale = useLocaleStore(state => state.locale)
+    const t = useCallback((text: LocalizedText) => text[locale], [locale])
+
+    return useMemo(() => ({
+        locale,
+        t,
+        formatNumber: (value: number, decimals?: number) => formatNumber(value, decimals, locale),
+        formatCurrency: (value: number, decimals?: number) => formatCurrency(value, locale, decimals),
+        formatDateTime: (value: Date | number) => formatDateTime(value, locale)
+    }), [locale, t])
+}
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { useWaterStore } from '@/stores/water-store'
+import { STORM_SCENARIO, Scenario } from '@/lib/scenarios'
+import { PLANT_MINUTES_PER_SECOND } from '@/lib/plant-model'
+
+/** Ejecuta un escenario completo a pasos fijos, como la interfaz (16 ms por fotograma) */
+function runScenario(scenario: Scenario, speed = 4, frameMs = 16) {
+    const store = useWaterStore.getState()
+    store.setSimulationSpeed(speed)
+    store.startSimulation(scenario)
+    for (let frame = 0; useWaterStore.getState().isSimulating && frame < 100_000; frame++) {
+        useWaterStore.getState().updateSimulation(frameMs)
+    }
+}
+
+describe('informes de ejecución', () => {
+    beforeEach(() => {
+        useWaterStore.setState(useWaterStore.getInitialState(), true)
+    })
+
+    it('guarda un informe al terminar el escenario aunque no haya ningún panel abierto', () => {
+        runScenario(STORM_SCENARIO)
+
+        const state = useWaterStore.getState()
+        expect(state.isSimulating).toBe(false)
+        expect(state.runReports).toHaveLength(1)
+
+        const [report] = state.runReports
+        expect(report).toMatchObject({ scenarioId: 'storm', controllerId: 'fuzzy', controlMode: 'open' })
+        expect(report.durationMinutes).toBeCloseTo(STORM_SCENARIO.duration / 1000 * PLANT_MINUTES_PER_SECOND, 6)
+        expect(report.iae).toBeGreaterThan(0)
+        expect(report.coagulantKg).toBeGreaterThan(0)
+        expect(state.plant?.time).toBeCloseTo(report.durationMinutes, 6)
+    })
+
+    it('no depende de la velocidad ni de la ejecución anterior', () => {
+        runScenario(STORM_SCENARIO, 0.5, 100)
+        const slow = useWaterStore.getState().runReports[0]
+
+        runScenario(STORM_SCENARIO)
+        const fast = useWaterStore.getState().runReports[1]
+
+        expect(slow.durationMinutes).toBeCloseTo(fast.durationMinutes, 6)
+        // Solo difieren por el ruido de los sensores y el tamaño del paso
+        expect(Math.abs(slow.iae - fast.iae) / fast.iae).toBeLessThan(0.03)
+    })
+
+    it('no guarda informe si se detiene el escenario antes de terminar', () => {
+        const store = useWaterStore.getState()
+        store.startSimulation(STORM_SCENARIO)
+        store.updateSimulation(1000)
+        store.stopSimulation()
+
+        expect(useWaterStore.getState().runReports).toEqual([])
+    })
+})
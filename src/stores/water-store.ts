@@ -7,8 +7,65 @@
 
 import { create } from 'zustand'
 import { subscribeWithSelector } from 'zustand/middleware'
-import { WaterInputs, FuzzyOutputs, runFuzzyInference, getMembershipDegrees } from '@/lib/fuzzy-logic'
+import { WaterInputs, FuzzyOutputs, MembershipDegrees, DEFAULT_WATER_INPUTS, getMembershipDegrees } from '@/lib/fuzzy-logic'
+import {
+    FuzzySystemDefinition,
+    FuzzyRule,
+    DefuzzificationMethod,
+    FuzzyOperators,
+    InferenceMode,
+    CoagulantId,
+    FuzzySystemValidationError,
+    ValidationIssue,
+    DEFAULT_FUZZY_SYSTEM,
+    DEFAULT_OPERATORS,
+    INPUT_VARIABLE_IDS,
+    createDefaultRule,
+    parseFuzzySystem,
+    validateFuzzySystem
+} from '@/lib/fuzzy-system'
+import { fitTskConsequents } from '@/lib/tsk'
+import { parseFcl } from '@/lib/fcl'
+import { applyCoagulant, getCoagulant } from '@/lib/coagulants'
 import { Scenario, interpolateKeyframes } from '@/lib/scenarios'
+import { PlantState, PLANT_MINUTES_PER_SECOND, createPlantState, plantFeed, plantReadings, stepPlant } from '@/lib/plant-model'
+import {
+    ControlMode,
+    FeedbackState,
+    DEFAULT_SETTLED_SETPOINT,
+    INITIAL_FEEDBACK_STATE,
+    stepFeedback,
+    trimmedDose
+} from '@/lib/feedback-control'
+import {
+    ControllerId,
+    ControllerMemory,
+    CONTROLLERS,
+    INITIAL_CONTROLLER_MEMORY,
+    controllerOutputs,
+    runController
+} from '@/lib/controllers'
+import {
+    RunAccumulator,
+    RunReport,
+    MAX_SAVED_REPORTS,
+    accumulateRunSample,
+    createRunAccumulator,
+    finishRunReport,
+    parseRunReports
+} from '@/lib/run-report'
+import {
+    SensorBank,
+    SensorFault,
+    SensorFaults,
+    SensorId,
+    activeSensorFaults,
+    createSensorBank,
+    degradeFuzzySystem,
+    hasFailedSensor,
+    mergeSensorFaults,
+    readSensors
+} from '@/lib/sensors'
 
 /**
  * Punto del historial de calidad
@@ -23,14 +80,29 @@ export interface HistoryPoint {
 }
 
 /**
- * Estado de membresía para visualización educativa
+ * Punto del historial de la planta (turbidez a la salida de cada etapa)
  */
-export interface MembershipState {
-    turbidity: Array<{ name: string; degree: number }>
-    ph: Array<{ name: string; degree: number }>
-    temperature: Array<{ name: string; degree: number }>
+export interface PlantHistoryPoint {
+    /** Tiempo de proceso en minutos */
+    time: number
+    rawTurbidity: number
+    settledTurbidity: number
+    filteredTurbidity: number
+    /** Consigna de turbidez decantada vigente (NTU) */
+    setpoint: number
+    /** Turbidez decantada - consigna (NTU) */
+    trackingError: number
+    /** Dosis prealimentada por el controlador difuso (mg/L) */
+    feedForwardDose: number
+    /** Dosis aplicada a la planta, con la corrección en lazo cerrado (mg/L) */
+    appliedDose: number
 }
 
+/**
+ * Estado de membresía para visualización educativa
+ */
+export type MembershipState = MembershipDegrees
+
 /**
  * Estado completo del simulador de agua
  */
@@ -41,10 +113,29 @@ interface WaterState {
     turbidity: number
     ph: number
     temperature: number
+    alkalinity: number
+    conductivity: number
+    color: number
+    flowRate: number
+
+    // ═══════════════════════════════════════════════════════════════
+    // DEFINICIÓN DEL CONTROLADOR
+    // ═══════════════════════════════════════════════════════════════
+    fuzzySystem: FuzzySystemDefinition
+    /** Controlador de referencia al que vuelve "restaurar" (el de fábrica o uno promovido) */
+    defaultFuzzySystem: FuzzySystemDefinition
+    /** Problemas del último cambio de coagulante rechazado; vacío si se aplicó */
+    coagulantIssues: ValidationIssue[]
+
+    /** Controlador que decide la dosis (el difuso o uno de referencia) */
+    controllerId: ControllerId
+    /** Memoria del controlador entre decisiones (PID) */
+    controllerMemory: ControllerMemory
 
     // ═══════════════════════════════════════════════════════════════
     // RESULTADOS DEL SISTEMA DIFUSO
     // ═══════════════════════════════════════════════════════════════
+    /** Resultado de la inferencia con la dosis y el tiempo del controlador activo */
     fuzzyOutputs: FuzzyOutputs | null
     memberships: MembershipState | null
 
@@ -56,6 +147,31 @@ interface WaterState {
     simulationStartTime: number | null
     simulationElapsedTime: number
     simulationSpeed: number // 1 = normal, 2 = 2x, etc.
+    /** Métricas del escenario en curso; null si no hay ninguno */
+    runAccumulator: RunAccumulator | null
+    /** Informes de los escenarios terminados (el último al final) */
+    runReports: RunReport[]
+
+    // ═══════════════════════════════════════════════════════════════
+    // SENSORES
+    // ═══════════════════════════════════════════════════════════════
+    /** Agua real del escenario; las entradas de arriba son lo que miden los sensores */
+    trueInputs: Partial<WaterInputs> | null
+    /** Estado de los sensores del escenario en curso; null sin escenario */
+    sensors: SensorBank | null
+    /** Fallas añadidas a mano (se suman a las que programa el escenario) */
+    sensorFaults: SensorFaults
+
+    // ═══════════════════════════════════════════════════════════════
+    // MODELO DINÁMICO DE LA PLANTA
+    // ═══════════════════════════════════════════════════════════════
+    /** Contenido de las etapas; null hasta la primera decisión del controlador */
+    plant: PlantState | null
+    plantHistory: PlantHistoryPoint[]
+    /** Lazo abierto: dosis del controlador; lazo cerrado: corregida con la turbidez decantada */
+    controlMode: ControlMode
+    settledSetpoint: number
+    feedback: FeedbackState
 
     // ═══════════════════════════════════════════════════════════════
     // HISTORIAL DE DATOS
@@ -73,24 +189,137 @@ interface WaterState {
 
     runInference: () => void
 
+    setFuzzySystem: (system: FuzzySystemDefinition) => void
+    loadFuzzySystemJSON: (json: string) => void
+    loadFuzzySystemFCL: (source: string) => void
+    resetFuzzySystem: () => void
+    promoteFuzzySystem: (system: FuzzySystemDefinition) => void
+    setDefuzzificationMethod: (method: DefuzzificationMethod) => void
+    setOperators: (patch: Partial<FuzzyOperators>) => void
+    setInferenceMode: (mode: InferenceMode) => void
+    fitTskConsequents: () => void
+    setCoagulant: (id: CoagulantId) => void
+    setController: (id: ControllerId) => void
+
+    addRule: () => void
+    updateRule: (id: number, patch: Partial<Omit<FuzzyRule, 'id'>>) => void
+    removeRule: (id: number) => void
+    moveRule: (id: number, direction: -1 | 1) => void
+
     startSimulation: (scenario: Scenario) => void
     stopSimulation: () => void
     pauseSimulation: () => void
     resumeSimulation: () => void
     updateSimulation: (deltaTime: number) => void
     setSimulationSpeed: (speed: number) => void
+    loadRunReports: () => void
+    deleteRunReport: (id: string) => void
+    clearRunReports: () => void
+    setSensorFault: (id: SensorId, fault: SensorFault | null) => void
+    clearSensorFaults: () => void
+
+    /** Avanza el modelo de la planta `minutes` minutos de proceso */
+    advancePlant: (minutes: number) => void
+    resetPlant: () => void
+    setControlMode: (mode: ControlMode) => void
+    setSettledSetpoint: (value: number) => void
 
     reset: () => void
     clearHistory: () => void
 }
 
+/**
+ * Límites físicos de cada entrada (se recortan los valores fuera de rango)
+ */
+const INPUT_LIMITS: Record<keyof WaterInputs, [number, number]> = {
+    turbidity: [0, 1000],
+    ph: [0, 14],
+    temperature: [0, 40],
+    alkalinity: [0, 300],
+    conductivity: [0, 3000],
+    color: [0, 200],
+    flowRate: [0, 2000]
+}
+
+/**
+ * Entradas actuales del simulador
+ *
+ * @example
+ * const inputs = useWaterStore(useShallow(selectWaterInputs))
+ */
+export const selectWaterInputs = (state: WaterState): WaterInputs => ({
+    turbidity: state.turbidity,
+    ph: state.ph,
+    temperature: state.temperature,
+    alkalinity: state.alkalinity,
+    conductivity: state.conductivity,
+    color: state.color,
+    flowRate: state.flowRate
+})
+
+/**
+ * Minutos de proceso entre dos puntos del historial de la planta (medio
+ * segundo real a velocidad 1×); la planta avanza en cada paso de la
+ * simulación, pero el historial no guarda un punto por fotograma
+ */
+const PLANT_HISTORY_MINUTES = 5
+
+/** Clave de localStorage donde se guardan los informes de ejecución */
+const RUN_REPORTS_STORAGE_KEY = 'aquafuzzy-run-reports'
+
+function saveRunReports(reports: RunReport[]) {
+    try {
+        localStorage.setItem(RUN_REPORTS_STORAGE_KEY, JSON.stringify(reports))
+    } catch {
+        // Sin almacenamiento (modo privado): los informes duran la sesión
+    }
+}
+
+/**
+ * ¿Corrige la capa de realimentación la dosis? Solo en lazo cerrado y con un
+ * controlador que no se realimenta ya de la turbidez decantada (el PID): dos
+ * lazos integrando el mismo error se pelearían
+ */
+function isTrimActive(state: WaterState): boolean {
+    return state.controlMode === 'closed' && !CONTROLLERS[state.controllerId].usesFeedback
+}
+
+/**
+ * Dosis que recibe la planta: la del controlador, corregida en lazo cerrado
+ */
+function appliedDose(state: WaterState, outputs: FuzzyOutputs, trim: number): number {
+    return isTrimActive(state)
+        ? trimmedDose(outputs.coagulantDose, trim, getCoagulant(state.fuzzySystem).doseVariable.range[1])
+        : outputs.coagulantDose
+}
+
+/**
+ * Añade el estado actual al informe del escenario en curso
+ */
+function accumulateRun(state: WaterState, minutes: number): RunAccumulator | null {
+    const { runAccumulator, fuzzyOutputs, plant, feedback, flowRate } = state
+    if (!runAccumulator || !fuzzyOutputs) return runAccumulator
+    return accumulateRunSample(runAccumulator, {
+        minutes,
+        settledTurbidity: plant ? plantReadings(plant).sedimentation : null,
+        dose: appliedDose(state, fuzzyOutputs, feedback.trim),
+        operationalCost: fuzzyOutputs.operationalCost,
+        flowRate: state.trueInputs?.flowRate ?? flowRate,
+        riskLevel: fuzzyOutputs.riskLevel,
+        dominantRuleId: fuzzyOutputs.ruleActivations[0]?.id ?? null
+    })
+}
+
 /**
  * Valores iniciales por defecto (agua en condiciones normales)
  */
 const DEFAULT_STATE = {
-    turbidity: 50,
-    ph: 7.0,
-    temperature: 22,
+    ...DEFAULT_WATER_INPUTS,
+    fuzzySystem: DEFAULT_FUZZY_SYSTEM,
+    defaultFuzzySystem: DEFAULT_FUZZY_SYSTEM,
+    coagulantIssues: [] as ValidationIssue[],
+    controllerId: 'fuzzy' as ControllerId,
+    controllerMemory: INITIAL_CONTROLLER_MEMORY,
     fuzzyOutputs: null,
     memberships: null,
     isSimulating: false,
@@ -98,6 +327,16 @@ const DEFAULT_STATE = {
     simulationStartTime: null,
     simulationElapsedTime: 0,
     simulationSpeed: 1,
+    runAccumulator: null,
+    runReports: [] as RunReport[],
+    trueInputs: null,
+    sensors: null,
+    sensorFaults: {} as SensorFaults,
+    plant: null,
+    plantHistory: [] as PlantHistoryPoint[],
+    controlMode: 'open' as ControlMode,
+    settledSetpoint: DEFAULT_SETTLED_SETPOINT,
+    feedback: INITIAL_FEEDBACK_STATE,
     history: [] as HistoryPoint[],
     maxHistoryLength: 200
 }
@@ -132,17 +371,14 @@ export const useWaterStore = create<WaterState>()(
         },
 
         setParameters: (params: Partial<WaterInputs>) => {
-            set({
-                turbidity: params.turbidity !== undefined
-                    ? Math.max(0, Math.min(1000, params.turbidity))
-                    : get().turbidity,
-                ph: params.ph !== undefined
-                    ? Math.max(0, Math.min(14, params.ph))
-                    : get().ph,
-                temperature: params.temperature !== undefined
-                    ? Math.max(0, Math.min(40, params.temperature))
-                    : get().temperature
-            })
+            const clamped: Partial<WaterInputs> = {}
+            for (const id of INPUT_VARIABLE_IDS) {
+                const value = params[id]
+                if (value === undefined) continue
+                const [min, max] = INPUT_LIMITS[id]
+                clamped[id] = Math.max(min, Math.min(max, value))
+            }
+            set(clamped)
             get().runInference()
         },
 
@@ -151,11 +387,34 @@ export const useWaterStore = create<WaterState>()(
         // ═══════════════════════════════════════════════════════════════
 
         runInference: () => {
-            const { turbidity, ph, temperature, history, maxHistoryLength } = get()
-
-            const inputs: WaterInputs = { turbidity, ph, temperature }
-            const outputs = runFuzzyInference(inputs)
-            const memberships = getMembershipDegrees(inputs)
+            const {
+                turbidity, ph, temperature, fuzzySystem, history, maxHistoryLength,
+                controllerId, controllerMemory, plant, settledSetpoint, sensors
+            } = get()
+
+            // Decide el controlador activo; los de realimentación leen la planta.
+            // Con lecturas retenidas, la huella tipo 2 de esas entradas se ensancha
+            const inputs = selectWaterInputs(get())
+            const controller = CONTROLLERS[controllerId]
+            const decision = runController(controller, inputs, {
+                system: sensors ? degradeFuzzySystem(fuzzySystem, sensors) : fuzzySystem,
+                settledTurbidity: plant ? plantReadings(plant).sedimentation : null,
+                setpoint: settledSetpoint,
+                time: plant?.time ?? 0,
+                memory: controllerMemory
+            })
+            const { memory } = decision
+            let { outputs } = decision
+
+            // Sensor fuera de servicio: dosis al extremo alto del intervalo
+            // (los controladores de realimentación no dependen del agua cruda)
+            if (sensors && hasFailedSensor(sensors) && !controller.usesFeedback) {
+                outputs = controllerOutputs(outputs, {
+                    coagulantDose: Math.max(outputs.coagulantDose, outputs.outputIntervals.dose.max),
+                    flocculationTime: outputs.flocculationTime
+                }, inputs, fuzzySystem)
+            }
+            const memberships = getMembershipDegrees(inputs, fuzzySystem)
 
             // Añadir al historial
             const newPoint: HistoryPoint = {
@@ -175,25 +434,161 @@ export const useWaterStore = create<WaterState>()(
             set({
                 fuzzyOutputs: outputs,
                 memberships,
+                controllerMemory: memory,
                 history: newHistory
             })
         },
 
+        // ═══════════════════════════════════════════════════════════════
+        // DEFINICIÓN DEL CONTROLADOR
+        // ═══════════════════════════════════════════════════════════════
+
+        setFuzzySystem: (system: FuzzySystemDefinition) => {
+            set({ fuzzySystem: validateFuzzySystem(system) })
+            get().runInference()
+        },
+
+        loadFuzzySystemJSON: (json: string) => {
+            // Lanza FuzzySystemValidationError si el archivo no es válido
+            set({ fuzzySystem: parseFuzzySystem(json) })
+            get().runInference()
+        },
+
+        loadFuzzySystemFCL: (source: string) => {
+            // Lanza FclParseError (con línea y columna) o FuzzySystemValidationError.
+            // Lo que FCL no describe (costos, etiquetas...) se toma del controlador actual
+            set({ fuzzySystem: parseFcl(source, get().fuzzySystem) })
+            get().runInference()
+        },
+
+        resetFuzzySystem: () => {
+            set({ fuzzySystem: get().defaultFuzzySystem })
+            get().runInference()
+        },
+
+        promoteFuzzySystem: (system: FuzzySystemDefinition) => {
+            // El controlador promovido (ej: entrenado con datos de planta)
+            // pasa a ser el activo y el de referencia
+            const validated = validateFuzzySystem(system)
+            set({ fuzzySystem: validated, defaultFuzzySystem: validated })
+            get().runInference()
+        },
+
+        setDefuzzificationMethod: (method: DefuzzificationMethod) => {
+            get().setFuzzySystem({ ...get().fuzzySystem, defuzzification: method })
+        },
+
+        setOperators: (patch: Partial<FuzzyOperators>) => {
+            const { fuzzySystem } = get()
+            get().setFuzzySystem({
+                ...fuzzySystem,
+                operators: { ...(fuzzySystem.operators ?? DEFAULT_OPERATORS), ...patch }
+            })
+        },
+
+        setInferenceMode: (mode: InferenceMode) => {
+            const { fuzzySystem } = get()
+            // Al pasar a TSK sin consecuentes lineales, se ajustan desde Mamdani
+            const needsFit = mode === 'tsk' && !fuzzySystem.rules.some(rule => rule.tsk)
+            const base = needsFit ? fitTskConsequents(fuzzySystem) : fuzzySystem
+            get().setFuzzySystem({ ...base, inferenceMode: mode })
+        },
+
+        fitTskConsequents: () => {
+            get().setFuzzySystem(fitTskConsequents(get().fuzzySystem))
+        },
+
+        setCoagulant: (id: CoagulantId) => {
+            // Reescala los términos de dosis; las reglas se mantienen. Si el
+            // resultado no es válido se conserva el coagulante actual y los
+            // problemas quedan en el estado para mostrarlos
+            try {
+                get().setFuzzySystem(applyCoagulant(get().fuzzySystem, id))
+                set({ coagulantIssues: [] })
+            } catch (error) {
+                if (!(error instanceof FuzzySystemValidationError)) throw error
+                set({ coagulantIssues: error.issues })
+            }
+        },
+
+        setController: (id: ControllerId) => {
+            // La corrección acumulada era para el controlador anterior
+            set({ controllerId: id, controllerMemory: INITIAL_CONTROLLER_MEMORY, feedback: INITIAL_FEEDBACK_STATE })
+            get().runInference()
+        },
+
+        // ═══════════════════════════════════════════════════════════════
+        // EDICIÓN DE LA BASE DE REGLAS
+        // ═══════════════════════════════════════════════════════════════
+
+        addRule: () => {
+            const { fuzzySystem } = get()
+            get().setFuzzySystem({
+                ...fuzzySystem,
+                rules: [...fuzzySystem.rules, createDefaultRule(fuzzySystem)]
+            })
+        },
+
+        updateRule: (id: number, patch: Partial<Omit<FuzzyRule, 'id'>>) => {
+            const { fuzzySystem } = get()
+            get().setFuzzySystem({
+                ...fuzzySystem,
+                rules: fuzzySystem.rules.map(rule => rule.id === id ? { ...rule, ...patch } : rule)
+            })
+        },
+
+        removeRule: (id: number) => {
+            const { fuzzySystem } = get()
+            get().setFuzzySystem({
+                ...fuzzySystem,
+                rules: fuzzySystem.rules.filter(rule => rule.id !== id)
+            })
+        },
+
+        moveRule: (id: number, direction: -1 | 1) => {
+            const { fuzzySystem } = get()
+            const index = fuzzySystem.rules.findIndex(rule => rule.id === id)
+            const target = index + direction
+            if (index < 0 || target < 0 || target >= fuzzySystem.rules.length) return
+
+            const rules = [...fuzzySystem.rules]
+            ;[rules[index], rules[target]] = [rules[target], rules[index]]
+            get().setFuzzySystem({ ...fuzzySystem, rules })
+        },
+
         // ═══════════════════════════════════════════════════════════════
         // CONTROL DE SIMULACIÓN
         // ═══════════════════════════════════════════════════════════════
 
         startSimulation: (scenario: Scenario) => {
+            const { controllerId, fuzzySystem, settledSetpoint } = get()
+            const initial = interpolateKeyframes(scenario.keyframes, 0)
             set({
                 isSimulating: true,
                 currentScenario: scenario,
                 simulationStartTime: Date.now(),
-                simulationElapsedTime: 0
+                simulationElapsedTime: 0,
+                runAccumulator: createRunAccumulator({
+                    scenarioId: scenario.id,
+                    scenarioName: scenario.name,
+                    controllerId,
+                    controlMode: isTrimActive(get()) ? 'closed' : 'open',
+                    coagulant: fuzzySystem.coagulant ?? 'alum',
+                    setpoint: settledSetpoint
+                }),
+                trueInputs: initial,
+                sensors: createSensorBank(initial),
+                // Cada ejecución arranca con la planta en estacionario y el
+                // controlador sin memoria, para que los informes sean comparables
+                plant: null,
+                plantHistory: [],
+                feedback: INITIAL_FEEDBACK_STATE,
+                controllerMemory: INITIAL_CONTROLLER_MEMORY
             })
 
-            // Aplicar primer keyframe inmediatamente
-            const { turbidity, ph, temperature } = interpolateKeyframes(scenario.keyframes, 0)
-            get().setParameters({ turbidity, ph, temperature })
+            // Aplicar primer keyframe inmediatamente; las entradas que el
+            // escenario no indica vuelven a su valor de referencia
+            get().setParameters({ ...DEFAULT_WATER_INPUTS, ...initial })
         },
 
         stopSimulation: () => {
@@ -201,7 +596,10 @@ export const useWaterStore = create<WaterState>()(
                 isSimulating: false,
                 currentScenario: null,
                 simulationStartTime: null,
-                simulationElapsedTime: 0
+                simulationElapsedTime: 0,
+                runAccumulator: null,
+                trueInputs: null,
+                sensors: null
             })
         },
 
@@ -217,39 +615,149 @@ export const useWaterStore = create<WaterState>()(
         },
 
         updateSimulation: (deltaTime: number) => {
-            const { isSimulating, currentScenario, simulationElapsedTime, simulationSpeed } = get()
+            const { isSimulating, currentScenario, simulationElapsedTime, simulationSpeed, sensors, sensorFaults } = get()
 
             if (!isSimulating || !currentScenario) return
 
             const newElapsedTime = simulationElapsedTime + deltaTime * simulationSpeed
-
-            // Verificar si la simulación terminó
-            if (newElapsedTime >= currentScenario.duration) {
-                // Aplicar estado final y detener
-                const finalKeyframe = currentScenario.keyframes[currentScenario.keyframes.length - 1]
-                get().setParameters({
-                    turbidity: finalKeyframe.turbidity,
-                    ph: finalKeyframe.ph,
-                    temperature: finalKeyframe.temperature
-                })
+            // Tiempo de proceso del paso, a la escala del modelo de la planta
+            const stepMinutes = (Math.min(newElapsedTime, currentScenario.duration) - simulationElapsedTime)
+                / 1000 * PLANT_MINUTES_PER_SECOND
+
+            const finished = newElapsedTime >= currentScenario.duration
+
+            // Interpolar el agua real; el controlador recibe lo que miden los
+            // sensores, con sus fallas, después de validarlo
+            const { keyframes } = currentScenario
+            const time = finished ? keyframes[keyframes.length - 1].time : newElapsedTime
+            const truth = interpolateKeyframes(keyframes, time)
+            const faults = mergeSensorFaults(sensorFaults, activeSensorFaults(keyframes, time))
+            const measured = readSensors(truth, faults, sensors ?? createSensorBank(truth), stepMinutes)
+
+            set({ simulationElapsedTime: newElapsedTime, trueInputs: truth, sensors: measured.bank })
+            get().setParameters(measured.inputs)
+
+            // La planta avanza con el escenario para que el informe no dependa
+            // de qué panel esté abierto
+            get().advancePlant(stepMinutes)
+
+            // Verificar si la simulación terminó: guardar el informe y detener
+            if (finished) {
+                const accumulator = accumulateRun(get(), stepMinutes)
+                if (accumulator) {
+                    const runReports = [...get().runReports, finishRunReport(accumulator)].slice(-MAX_SAVED_REPORTS)
+                    set({ runReports })
+                    saveRunReports(runReports)
+                }
                 get().stopSimulation()
                 return
             }
 
-            // Interpolar y aplicar parámetros
-            const { turbidity, ph, temperature } = interpolateKeyframes(
-                currentScenario.keyframes,
-                newElapsedTime
-            )
-
-            set({ simulationElapsedTime: newElapsedTime })
-            get().setParameters({ turbidity, ph, temperature })
+            set({ runAccumulator: accumulateRun(get(), stepMinutes) })
         },
 
         setSimulationSpeed: (speed: number) => {
             set({ simulationSpeed: Math.max(0.25, Math.min(4, speed)) })
         },
 
+        loadRunReports: () => {
+            let stored: string | null = null
+            try {
+                stored = localStorage.getItem(RUN_REPORTS_STORAGE_KEY)
+            } catch {
+                stored = null
+            }
+            set({ runReports: parseRunReports(stored) })
+        },
+
+        deleteRunReport: (id: string) => {
+            const runReports = get().runReports.filter(report => report.id !== id)
+            set({ runReports })
+            saveRunReports(runReports)
+        },
+
+        clearRunReports: () => {
+            set({ runReports: [] })
+            saveRunReports([])
+        },
+
+        setSensorFault: (id: SensorId, fault: SensorFault | null) => {
+            const sensorFaults = { ...get().sensorFaults }
+            if (fault) sensorFaults[id] = fault
+            else delete sensorFaults[id]
+            set({ sensorFaults })
+        },
+
+        clearSensorFaults: () => {
+            set({ sensorFaults: {} })
+        },
+
+        // ═══════════════════════════════════════════════════════════════
+        // MODELO DINÁMICO DE LA PLANTA
+        // ═══════════════════════════════════════════════════════════════
+
+        advancePlant: (minutes: number) => {
+            // Los controladores de realimentación vuelven a decidir con la última medida
+            if (CONTROLLERS[get().controllerId].usesFeedback) get().runInference()
+
+            const { fuzzyOutputs, fuzzySystem, plant, plantHistory, maxHistoryLength, settledSetpoint, feedback } = get()
+            if (!fuzzyOutputs) return
+
+            // La planta recibe el agua real, no lo que miden los sensores
+            const inputs = { ...selectWaterInputs(get()), ...get().trueInputs }
+            const coagulant = getCoagulant(fuzzySystem)
+
+            // En lazo cerrado la turbidez decantada medida ahora corrige la dosis
+            // que se aplica durante el siguiente paso
+            let nextFeedback = feedback
+            if (isTrimActive(get()) && plant) {
+                nextFeedback = stepFeedback(feedback, plantReadings(plant).sedimentation, settledSetpoint, minutes).state
+            }
+            const dose = appliedDose(get(), fuzzyOutputs, nextFeedback.trim)
+
+            // La planta recibe el agua actual con la dosis aplicada.
+            // Primer paso: se arranca en estado estacionario, sin transitorio
+            const feed = plantFeed(inputs, { ...fuzzyOutputs, coagulantDose: dose }, coagulant)
+            const next = stepPlant(plant ?? createPlantState(feed), feed, minutes)
+            const readings = plantReadings(next)
+
+            const last = plantHistory[plantHistory.length - 1]
+            if (plant && last && next.time - last.time < PLANT_HISTORY_MINUTES) {
+                set({ plant: next, feedback: nextFeedback })
+                return
+            }
+
+            const newHistory = [...plantHistory, {
+                time: next.time,
+                rawTurbidity: inputs.turbidity,
+                settledTurbidity: readings.sedimentation,
+                filteredTurbidity: readings.filter,
+                setpoint: settledSetpoint,
+                trackingError: readings.sedimentation - settledSetpoint,
+                feedForwardDose: fuzzyOutputs.coagulantDose,
+                appliedDose: dose
+            }]
+            if (newHistory.length > maxHistoryLength) {
+                newHistory.shift()
+            }
+
+            set({ plant: next, plantHistory: newHistory, feedback: nextFeedback })
+        },
+
+        resetPlant: () => {
+            set({ plant: null, plantHistory: [], feedback: INITIAL_FEEDBACK_STATE })
+        },
+
+        setControlMode: (mode: ControlMode) => {
+            // Al cambiar de modo la corrección vuelve a cero
+            set({ controlMode: mode, feedback: INITIAL_FEEDBACK_STATE })
+        },
+
+        setSettledSetpoint: (value: number) => {
+            // La turbidez residual (0.3 NTU) no decanta: consignas menores son inalcanzables
+            set({ settledSetpoint: Math.max(0.5, Math.min(50, value)) })
+        },
+
         // ═══════════════════════════════════════════════════════════════
         // UTILIDADES
         // ═══════════════════════════════════════════════════════════════
@@ -257,7 +765,10 @@ export const useWaterStore = create<WaterState>()(
         reset: () => {
             set({
                 ...DEFAULT_STATE,
-                history: get().history // Mantener historial
+                fuzzySystem: get().fuzzySystem, // Mantener el controlador cargado
+                defaultFuzzySystem: get().defaultFuzzySystem,
+                history: get().history, // Mantener historial
+                runReports: get().runReports
             })
             get().runInference()
         },
@@ -0,0 +1,45 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AQUAFUZZY ANALYTICS - WEB WORKER DEL OPTIMIZADOR
+ * Ejecuta la evolución diferencial fuera del hilo de la interfaz
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Recibe un mensaje `start` con el controlador y las opciones, y responde
+ * con un mensaje `generation` por generación (con el mejor candidato cuando
+ * mejora) y un `done` final. Para detenerlo, la interfaz termina el worker
+ * y se queda con el último mejor candidato recibido.
+ *
+ * @author AquaFuzzy Analytics Team
+ * @version 2.0
+ */
+
+import {
+    OptimizerWorkerRequest,
+    OptimizerWorkerResponse,
+    optimizeRuleBaseIncrementally
+} from '@/lib/optimizer'
+
+// El lib "dom" tipa `self` como Window; aquí solo hace falta esta parte
+interface OptimizerWorkerScope {
+    postMessage(message: OptimizerWorkerResponse): void
+    onmessage: ((event: MessageEvent<OptimizerWorkerRequest>) => void) | null
+}
+
+const scope = self as unknown as OptimizerWorkerScope
+
+scope.onmessage = event => {
+    if (event.data.type !== 'start') return
+    try {
+        const optimizer = optimizeRuleBaseIncrementally(event.data.system, event.data.options)
+        for (;;) {
+            const step = optimizer.next()
+            if (step.done) {
+                scope.postMessage({ type: 'done', result: step.value })
+                return
+            }
+            scope.postMessage({ type: 'generation', ...step.value })
+        }
+    } catch (error) {
+        scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+}